@@ -1,12 +1,23 @@
-import React, { useState } from 'react';
+import { createBrowserRouter, Navigate, Route, RouterProvider, Routes, useLocation, useNavigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './context/AuthContext';
+import { DashboardStoreProvider } from './context/DashboardStoreContext';
 import { DataSyncProvider } from './context/DataSyncContext';
+import { PermissionsProvider } from './context/PermissionsContext';
+import { RunExecutorProvider } from './context/RunExecutorContext';
+import { WorkspaceProvider } from './context/WorkspaceContext';
+import { useWorkspace } from './hooks/useWorkspace';
 import { LoginForm } from './components/auth/LoginForm';
+import { NoWorkspace } from './components/auth/NoWorkspace';
 import { Navbar } from './components/layout/Navbar';
 import { SyncStatusBar } from './components/layout/SyncStatusBar';
 import { Sidebar } from './components/layout/Sidebar';
+import { HistoryToast } from './components/layout/HistoryToast';
+import { SessionDialogs } from './components/auth/SessionDialogs';
+import { RequireTwoFactor } from './components/auth/TwoFactorSetup';
+import { MockIdentityProvider } from './components/auth/MockIdentityProvider';
 import { Dashboard } from './components/views/Dashboard';
 import { Pipelines } from './components/views/Pipelines';
+import { PipelineDetail } from './components/views/PipelineDetail';
 import { CreatePipeline } from './components/views/CreatePipeline';
 import { Data } from './components/views/Data';
 import { Models } from './components/views/Models';
@@ -15,63 +26,96 @@ import { Alerts } from './components/views/Alerts';
 import { Logs } from './components/views/Logs';
 import { SyncDashboard } from './components/views/SyncDashboard';
 import { Settings } from './components/views/Settings';
+import { Trash } from './components/views/Trash';
 import { AIAssistant } from './components/ai/AIAssistant';
+import { MOCK_IDP_AUTHORIZE_PATH, MOCK_IDP_ENABLED } from './store/mockIdentityProvider';
+import { VIEW_PATHS, viewOfPath } from './routes';
 
 function AppContent() {
-  const { user, isLoading } = useAuth();
-  const [activeView, setActiveView] = useState('dashboard');
-
-  if (isLoading) {
-    return (
-      <div className="min-h-screen bg-slate-900 flex items-center justify-center">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
-      </div>
-    );
-  }
+  const { user } = useAuth();
+  const { workspaces, activeWorkspace } = useWorkspace();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const activeView = viewOfPath(location.pathname);
 
   if (!user) {
     return <LoginForm />;
   }
 
-  const renderView = () => {
-    switch (activeView) {
-      case 'dashboard': return <Dashboard />;
-      case 'pipelines': return <Pipelines />;
-      case 'create-pipeline': return <CreatePipeline onBack={() => setActiveView('pipelines')} />;
-      case 'data': return <Data />;
-      case 'models': return <Models />;
-      case 'monitoring': return <Monitoring />;
-      case 'alerts': return <Alerts />;
-      case 'logs': return <Logs />;
-      case 'sync': return <SyncDashboard />;
-      case 'settings': return <Settings />;
-      default: return <Dashboard />;
-    }
-  };
+  if (!activeWorkspace) {
+    // Until WorkspaceProvider has opened one, unless there is none to open
+    return workspaces.length === 0 ? <NoWorkspace /> : null;
+  }
 
   return (
-    <div className="min-h-screen bg-slate-900 text-slate-100">
-      <Navbar />
-      <SyncStatusBar />
-      <div className="flex h-[calc(100vh-80px)]">
-        <Sidebar activeView={activeView} onViewChange={setActiveView} />
-        <main className="flex-1 overflow-auto p-6" style={{ height: 'calc(100vh - 120px)' }}>
-          {renderView()}
-        </main>
-      </div>
-      <AIAssistant currentView={activeView} />
-    </div>
+    <>
+      <RequireTwoFactor>
+        <div className="min-h-screen bg-slate-900 text-slate-100">
+          <Navbar />
+          <SyncStatusBar />
+          <div className="flex h-[calc(100vh-80px)]">
+            <Sidebar activeView={activeView} />
+            <main className="flex-1 overflow-auto p-6" style={{ height: 'calc(100vh - 120px)' }}>
+              {/* Paths are built with routes.ts, which has to agree with this table */}
+              <Routes>
+                <Route path="/" element={<Dashboard />} />
+                <Route path="/pipelines" element={<Pipelines />} />
+                <Route path="/pipelines/new" element={<CreatePipeline onBack={() => navigate(VIEW_PATHS.pipelines)} />} />
+                <Route path="/pipelines/:pipelineId" element={<PipelineDetail />} />
+                <Route path="/pipelines/:pipelineId/runs/:runId" element={<PipelineDetail />} />
+                <Route path="/data" element={<Data />} />
+                <Route path="/data/connections/:connectionId" element={<Data />} />
+                <Route path="/data/:datasetId" element={<Data />} />
+                <Route path="/models" element={<Models />} />
+                <Route path="/models/:modelId" element={<Models />} />
+                <Route path="/monitoring" element={<Monitoring />} />
+                <Route path="/alerts" element={<Alerts />} />
+                <Route path="/logs" element={<Logs />} />
+                <Route path="/sync" element={<SyncDashboard />} />
+                <Route path="/trash" element={<Trash />} />
+                <Route path="/settings" element={<Settings />} />
+                <Route path="/settings/:tab" element={<Settings />} />
+                <Route path="*" element={<Navigate to="/" replace />} />
+              </Routes>
+            </main>
+          </div>
+          <HistoryToast />
+          <AIAssistant currentView={activeView} />
+        </div>
+      </RequireTwoFactor>
+      <SessionDialogs />
+    </>
   );
 }
 
-function App() {
+function DashboardApp() {
   return (
-    <AuthProvider>
-      <DataSyncProvider>
-        <AppContent />
-      </DataSyncProvider>
-    </AuthProvider>
+    // Accounts are stored with the workspace, so the store loads before anyone can sign in
+    <DashboardStoreProvider>
+      <AuthProvider>
+        <PermissionsProvider>
+          <WorkspaceProvider>
+            <DataSyncProvider>
+              <RunExecutorProvider>
+                <AppContent />
+              </RunExecutorProvider>
+            </DataSyncProvider>
+          </WorkspaceProvider>
+        </PermissionsProvider>
+      </AuthProvider>
+    </DashboardStoreProvider>
   );
 }
 
+// A data router, so navigate() keeps its identity across route changes and can sit in effect dependencies
+const router = createBrowserRouter([
+  // The stand-in identity provider's sign-in page stands apart from the dashboard, as a real one would
+  ...(MOCK_IDP_ENABLED ? [{ path: MOCK_IDP_AUTHORIZE_PATH, element: <MockIdentityProvider /> }] : []),
+  { path: '*', element: <DashboardApp /> },
+]);
+
+function App() {
+  return <RouterProvider router={router} />;
+}
+
 export default App;
\ No newline at end of file
@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { Copy, KeyRound, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { useAuth } from '../../context/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useDashboardActions, useDashboardSelector } from '../../hooks/useDashboardStore';
+import { selectUsers } from '../../store/selectors';
+import {
+  API_TOKEN_EXPIRY_DAYS,
+  API_TOKEN_SCOPES,
+  ApiScope,
+  ApiTokenStatus,
+  apiTokenStatus,
+  createApiToken,
+  READ_SCOPE,
+  rotateApiToken,
+  rotationDueAt,
+} from '../../store/apiTokens';
+import { ApiToken } from '../../types';
+
+const inputClassName = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 placeholder-slate-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500';
+
+const STATUS_BADGES: Record<ApiTokenStatus, { variant: 'success' | 'warning' | 'danger' | 'default'; label: string }> = {
+  active: { variant: 'success', label: 'Active' },
+  rotation_due: { variant: 'warning', label: 'Rotation due' },
+  rotation_overdue: { variant: 'danger', label: 'Rotation overdue' },
+  expired: { variant: 'default', label: 'Expired' },
+  revoked: { variant: 'default', label: 'Revoked' },
+};
+
+interface TokenDraft {
+  name: string;
+  scopes: ApiScope[];
+  expiresInDays: number;
+}
+
+const formatDate = (value?: string) => value ? new Date(value).toLocaleDateString() : 'never';
+
+/** The signed-in user's personal access tokens, under Settings > Security. */
+export function ApiTokens() {
+  const { user, sessionPolicy, confirmIdentity } = useAuth();
+  const { can } = usePermissions();
+  const account = useDashboardSelector(selectUsers).find(candidate => candidate.id === user?.id);
+  const { updateUser } = useDashboardActions();
+  const [draft, setDraft] = useState<TokenDraft | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Token values are only ever shown here, right after they are created
+  const [issued, setIssued] = useState<{ name: string; value: string } | null>(null);
+
+  const tokens = account?.api_tokens ?? [];
+  // A token cannot be given more than its owner's role allows
+  const availableScopes = API_TOKEN_SCOPES.filter(scope => scope.value === READ_SCOPE || can(scope.value));
+
+  const saveTokens = (next: ApiToken[], description: string) => {
+    if (account) updateUser(account.id, { api_tokens: next }, description);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || draft.scopes.length === 0) return;
+    setIsSubmitting(true);
+    try {
+      const { token, value } = await createApiToken(draft);
+      saveTokens([...tokens, token], `API token "${token.name}" created`);
+      setIssued({ name: token.name, value });
+      setDraft(null);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRotate = async (token: ApiToken) => {
+    if (!(await confirmIdentity(`rotate the API token "${token.name}"`))) return;
+    const { replacement, value, retired } = await rotateApiToken(token);
+    saveTokens([...tokens.map(candidate => candidate.id === token.id ? retired : candidate), replacement], `API token "${token.name}" rotated`);
+    setIssued({ name: replacement.name, value });
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!(await confirmIdentity(`revoke the API token "${token.name}"`))) return;
+    saveTokens(tokens.map(candidate => candidate.id === token.id ? { ...candidate, revoked_at: new Date().toISOString() } : candidate), `API token "${token.name}" revoked`);
+  };
+
+  const toggleScope = (current: TokenDraft, scope: ApiScope) => setDraft({
+    ...current,
+    scopes: current.scopes.includes(scope) ? current.scopes.filter(s => s !== scope) : [...current.scopes, scope],
+  });
+
+  const renderDraftForm = (current: TokenDraft) => (
+    <form onSubmit={handleCreate} className="p-4 bg-slate-700/50 border border-slate-600 rounded-lg space-y-4">
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-200 mb-2">Name</label>
+          <input
+            type="text"
+            value={current.name}
+            onChange={(e) => setDraft({ ...current, name: e.target.value })}
+            placeholder="Nightly retraining job"
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-200 mb-2">Expires After</label>
+          <select
+            value={current.expiresInDays}
+            onChange={(e) => setDraft({ ...current, expiresInDays: Number(e.target.value) })}
+            className={inputClassName}
+          >
+            {API_TOKEN_EXPIRY_DAYS.map(days => (
+              <option key={days} value={days}>{days} days</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div>
+        <p className="text-sm font-medium text-slate-200 mb-2">Scopes</p>
+        <div className="grid md:grid-cols-2 gap-2">
+          {availableScopes.map(scope => (
+            <label key={scope.value} className="flex items-center space-x-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={current.scopes.includes(scope.value)}
+                onChange={() => toggleScope(current, scope.value)}
+                className="w-4 h-4 text-blue-600 bg-slate-700 border-slate-600 rounded focus:ring-blue-500"
+              />
+              <span>{scope.label}</span>
+            </label>
+          ))}
+        </div>
+        {current.scopes.length === 0 && <p className="text-xs text-red-400 mt-2">Choose at least one scope</p>}
+      </div>
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="ghost" size="sm" onClick={() => setDraft(null)}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" size="sm" isLoading={isSubmitting} disabled={current.scopes.length === 0}>
+          Create Token
+        </Button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-slate-200">Personal Access Tokens</p>
+          <p className="text-xs text-slate-400">For scripts and CI jobs, sent as "Authorization: Bearer &lt;token&gt;". They act as you, within their scopes.</p>
+        </div>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => setDraft({ name: '', scopes: [READ_SCOPE], expiresInDays: 90 })}
+          disabled={!!draft || !account}
+        >
+          <Plus size={14} className="mr-1" />
+          New Token
+        </Button>
+      </div>
+
+      {issued && (
+        <div className="p-4 bg-blue-900/30 border border-blue-800 rounded-lg">
+          <div className="flex items-start justify-between">
+            <div className="min-w-0">
+              <p className="text-sm text-slate-200">New token "{issued.name}"</p>
+              <p className="font-mono text-sm text-blue-300 my-1 break-all">{issued.value}</p>
+              <p className="text-xs text-slate-400">Copy it now; it is not shown again.</p>
+            </div>
+            <div className="flex space-x-1">
+              <Button variant="ghost" size="sm" onClick={() => navigator.clipboard?.writeText(issued.value)}>
+                <Copy size={14} />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setIssued(null)}>
+                <X size={14} />
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {draft && renderDraftForm(draft)}
+
+      {tokens.length === 0 && !draft && (
+        <p className="text-xs text-slate-500">No tokens yet.</p>
+      )}
+
+      {tokens.map(token => {
+        const status = apiTokenStatus(token, sessionPolicy.apiKeyRotation);
+        const badge = STATUS_BADGES[status];
+        const due = rotationDueAt(token, sessionPolicy.apiKeyRotation);
+        const usable = status !== 'revoked' && status !== 'expired';
+        return (
+          <div key={token.id} className="p-3 bg-slate-700/50 rounded-lg flex items-center justify-between">
+            <div className="min-w-0">
+              <div className="flex items-center space-x-2">
+                <KeyRound size={14} className="text-slate-400" />
+                <p className="text-sm font-medium text-slate-200">{token.name}</p>
+                <span className="font-mono text-xs text-slate-500">mld_{token.id}_…</span>
+                <Badge variant={badge.variant} size="sm">{badge.label}</Badge>
+              </div>
+              <p className="text-xs text-slate-400">
+                {token.scopes.join(', ')}
+              </p>
+              <p className="text-xs text-slate-500">
+                Created {formatDate(token.created_at)} • Expires {formatDate(token.expires_at)}
+                {due && usable && ` • Rotate by ${due.toLocaleDateString()}`} • Last used {formatDate(token.last_used_at)}
+              </p>
+            </div>
+            {usable ? (
+              <div className="flex space-x-1">
+                <Button variant="ghost" size="sm" onClick={() => handleRotate(token)} title="Rotate">
+                  <RefreshCw size={14} />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleRevoke(token)} title="Revoke">
+                  <X size={14} />
+                </Button>
+              </div>
+            ) : (
+              <Button variant="ghost" size="sm" onClick={() => saveTokens(tokens.filter(candidate => candidate.id !== token.id), `API token "${token.name}" removed`)} title="Remove from the list">
+                <Trash2 size={14} />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Download, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import {
+  AuditEntry,
+  AuditOperation,
+  AuditSubject,
+  downloadAuditLogCsv,
+  getAuditWriteFailure,
+  loadAuditLog,
+  MAX_AUDIT_ENTRIES,
+  subscribeAuditLog,
+  verifyAuditLog,
+} from '../../store/auditLog';
+
+// Entries shown at first, and added by each "Show more"
+const PAGE_SIZE = 100;
+
+const SUBJECT_LABELS: Record<AuditSubject, string> = {
+  pipelines: 'Pipelines',
+  pipelineRuns: 'Pipeline runs',
+  datasets: 'Datasets',
+  alerts: 'Alerts',
+  experiments: 'Models',
+  externalConnections: 'Connections',
+  trash: 'Trash',
+  users: 'Users',
+  workspaces: 'Workspaces',
+  roles: 'Roles',
+  authProviders: 'Sign-in providers',
+  sessionPolicy: 'Security policy',
+};
+
+const OPERATION_BADGES: Record<AuditOperation, { variant: 'success' | 'info' | 'danger'; label: string }> = {
+  create: { variant: 'success', label: 'Created' },
+  update: { variant: 'info', label: 'Updated' },
+  delete: { variant: 'danger', label: 'Deleted' },
+};
+
+interface AuditFilters {
+  actor: string;
+  subject: AuditSubject | '';
+  op: AuditOperation | '';
+  from: string;
+  to: string;
+  text: string;
+}
+
+const emptyFilters: AuditFilters = { actor: '', subject: '', op: '', from: '', to: '', text: '' };
+
+const inputClassName = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 placeholder-slate-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500';
+
+const formatValue = (value: unknown) =>
+  value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+// Keeps the changes of an entry that match the subject and operation filters
+const filterEntry = (entry: AuditEntry, filters: AuditFilters): AuditEntry | null => {
+  if (filters.actor && (entry.actor?.id ?? 'system') !== filters.actor) return null;
+  // The date inputs are local days; "to" includes the whole of its day
+  if (filters.from && new Date(entry.timestamp) < new Date(`${filters.from}T00:00`)) return null;
+  if (filters.to && new Date(entry.timestamp) >= new Date(new Date(`${filters.to}T00:00`).getTime() + 24 * 60 * 60 * 1000)) return null;
+
+  const changes = entry.changes.filter(change =>
+    (!filters.subject || change.subject === filters.subject) && (!filters.op || change.op === filters.op));
+  if (changes.length === 0) return null;
+
+  const text = filters.text.trim().toLowerCase();
+  const matchesText = !text || [entry.action, entry.actor?.name, entry.actor?.email, ...changes.flatMap(change => [change.entity_id, change.entity_name])]
+    .some(value => value?.toLowerCase().includes(text));
+  return matchesText ? { ...entry, changes } : null;
+};
+
+/** The Audit Log tab of Settings: who changed what and when, for administrators only. */
+export function AuditLog() {
+  const [{ anchor, entries }, setLog] = useState(loadAuditLog);
+  const [writeFailure, setWriteFailure] = useState(getAuditWriteFailure);
+  const [brokenAt, setBrokenAt] = useState<number | null | 'checking'>('checking');
+  const [filters, setFilters] = useState<AuditFilters>(emptyFilters);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  useEffect(() => subscribeAuditLog(() => {
+    setLog(loadAuditLog());
+    setWriteFailure(getAuditWriteFailure());
+  }), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    verifyAuditLog(entries, anchor).then(result => {
+      if (!cancelled) setBrokenAt(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [entries, anchor]);
+
+  const actors = useMemo(() => {
+    const byId = new Map(entries.map(entry => [entry.actor?.id ?? 'system', entry.actor ? `${entry.actor.name} (${entry.actor.email})` : 'System']));
+    return [...byId.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [entries]);
+
+  // Newest first
+  const matching = useMemo(() => entries
+    .map(entry => filterEntry(entry, filters))
+    .filter((entry): entry is AuditEntry => entry !== null)
+    .reverse(), [entries, filters]);
+
+  const setFilter = <K extends keyof AuditFilters>(field: K, value: AuditFilters[K]) => {
+    setFilters({ ...filters, [field]: value });
+    setVisible(PAGE_SIZE);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-200">Audit Log</h3>
+          <p className="text-xs text-slate-400">
+            Every change made in this workspace, by whom and when. Entries cannot be edited; only the oldest are removed once the log holds {MAX_AUDIT_ENTRIES.toLocaleString()} or storage is full.
+          </p>
+        </div>
+        <Button variant="secondary" size="sm" onClick={() => downloadAuditLogCsv(matching.slice().reverse())} disabled={matching.length === 0}>
+          <Download size={14} className="mr-1" />
+          Export CSV
+        </Button>
+      </div>
+
+      {writeFailure && (
+        <div className="p-3 bg-red-900/50 border border-red-800 rounded-lg flex items-center space-x-2">
+          <ShieldAlert size={16} className="text-red-400" />
+          <p className="text-red-300 text-sm">
+            {writeFailure.count === 1 ? '1 change was' : `${writeFailure.count} changes were`} not recorded because the log could not be saved,
+            most recently "{writeFailure.action}" at {new Date(writeFailure.failedAt).toLocaleString()}: {writeFailure.error}
+          </p>
+        </div>
+      )}
+      {brokenAt === null && entries.length > 0 && (
+        <div className="flex items-center space-x-2 text-xs text-green-400">
+          <ShieldCheck size={14} />
+          <span>
+            All {entries.length} entries verified against their hash chain
+            {anchor && `, from entry #${anchor.seq + 1} on; older entries were removed by the retention policy`}
+          </span>
+        </div>
+      )}
+      {typeof brokenAt === 'number' && (
+        <div className="p-3 bg-red-900/50 border border-red-800 rounded-lg flex items-center space-x-2">
+          <ShieldAlert size={16} className="text-red-400" />
+          <p className="text-red-300 text-sm">The log was altered outside the dashboard at entry #{brokenAt}; entries from there on cannot be trusted.</p>
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-3 gap-3">
+        <select value={filters.actor} onChange={(e) => setFilter('actor', e.target.value)} className={inputClassName}>
+          <option value="">Everyone</option>
+          {actors.map(([id, label]) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+        </select>
+        <select value={filters.subject} onChange={(e) => setFilter('subject', e.target.value as AuditFilters['subject'])} className={inputClassName}>
+          <option value="">Everything</option>
+          {(Object.keys(SUBJECT_LABELS) as AuditSubject[]).map(subject => (
+            <option key={subject} value={subject}>{SUBJECT_LABELS[subject]}</option>
+          ))}
+        </select>
+        <select value={filters.op} onChange={(e) => setFilter('op', e.target.value as AuditFilters['op'])} className={inputClassName}>
+          <option value="">Any change</option>
+          {(Object.keys(OPERATION_BADGES) as AuditOperation[]).map(op => (
+            <option key={op} value={op}>{OPERATION_BADGES[op].label}</option>
+          ))}
+        </select>
+        <input type="date" value={filters.from} onChange={(e) => setFilter('from', e.target.value)} className={inputClassName} title="From" />
+        <input type="date" value={filters.to} onChange={(e) => setFilter('to', e.target.value)} className={inputClassName} title="To" />
+        <input type="text" value={filters.text} onChange={(e) => setFilter('text', e.target.value)} placeholder="Search actions and names" className={inputClassName} />
+      </div>
+
+      <p className="text-xs text-slate-500">
+        {matching.length} of {entries.length} entries
+        {Object.values(filters).some(Boolean) && (
+          <button type="button" onClick={() => { setFilters(emptyFilters); setVisible(PAGE_SIZE); }} className="ml-2 text-blue-400 hover:text-blue-300">
+            Clear filters
+          </button>
+        )}
+      </p>
+
+      <div className="space-y-2">
+        {matching.slice(0, visible).map(entry => {
+          const isExpanded = expanded === entry.id;
+          return (
+            <div key={entry.id} className="bg-slate-700/50 rounded-lg">
+              <button
+                type="button"
+                onClick={() => setExpanded(isExpanded ? null : entry.id)}
+                className="w-full p-3 flex items-start justify-between text-left"
+              >
+                <div className="flex items-start space-x-2 min-w-0">
+                  {isExpanded ? <ChevronDown size={14} className="mt-1 text-slate-400" /> : <ChevronRight size={14} className="mt-1 text-slate-400" />}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-200">{entry.action}</p>
+                    <p className="text-xs text-slate-400">
+                      {entry.actor ? `${entry.actor.name} (${entry.actor.email})` : 'System'} • {new Date(entry.timestamp).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                <span className="font-mono text-xs text-slate-500">#{entry.seq}</span>
+              </button>
+
+              {isExpanded && (
+                <div className="px-3 pb-3 space-y-3">
+                  {entry.changes.map(change => (
+                    <div key={`${change.subject}:${change.entity_id}`} className="border-t border-slate-600 pt-2">
+                      <div className="flex items-center space-x-2 mb-1">
+                        <Badge variant={OPERATION_BADGES[change.op].variant} size="sm">{OPERATION_BADGES[change.op].label}</Badge>
+                        <span className="text-xs text-slate-300">{SUBJECT_LABELS[change.subject]}</span>
+                        <span className="text-xs text-slate-200">{change.entity_name ?? change.entity_id}</span>
+                        <span className="font-mono text-xs text-slate-500">{change.entity_id}</span>
+                      </div>
+                      <table className="w-full text-xs">
+                        <tbody>
+                          {Object.entries(change.diff).map(([field, { before, after }]) => (
+                            <tr key={field} className="align-top">
+                              <td className="py-1 pr-3 font-mono text-slate-400 whitespace-nowrap">{field}</td>
+                              <td className="py-1 pr-3 font-mono text-red-300 break-all">{formatValue(before)}</td>
+                              <td className="py-1 font-mono text-green-300 break-all">{formatValue(after)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {matching.length === 0 && (
+          <p className="text-xs text-slate-500">{entries.length === 0 ? 'Nothing has been recorded yet.' : 'No entries match these filters.'}</p>
+        )}
+        {matching.length > visible && (
+          <Button variant="ghost" size="sm" onClick={() => setVisible(visible + PAGE_SIZE)}>
+            Show more
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import React from 'react';
+import { usePermission } from '../../hooks/usePermissions';
+import { Permission } from '../../store/permissions';
+
+interface CanProps {
+  permission: Permission;
+  children: React.ReactNode;
+  /** Rendered instead when the permission is missing. */
+  fallback?: React.ReactNode;
+}
+
+/** Renders its children only for users whose role grants the permission. */
+export function Can({ permission, children, fallback = null }: CanProps) {
+  return <>{usePermission(permission) ? children : fallback}</>;
+}
@@ -1,24 +1,148 @@
 import React, { useState } from 'react';
-import { LogIn, Mail, Lock } from 'lucide-react';
+import { LogIn, Mail, Lock, User as UserIcon, KeyRound, ShieldCheck, Smartphone, Building2 } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { useAuth } from '../../context/AuthContext';
+import { MIN_PASSWORD_LENGTH } from '../../store/users';
+import { SignOutReason } from '../../store/session';
+
+type Mode = 'signin' | 'invitation';
+
+const SIGN_OUT_MESSAGES: Record<SignOutReason, string> = {
+  expired: 'Your session expired. Sign in again to continue.',
+  idle: 'You were signed out after a period of inactivity.',
+  revoked: 'Your session is no longer valid. Sign in again to continue.',
+};
+
+interface FieldProps {
+  id: string;
+  label: string;
+  type: string;
+  icon: React.ElementType;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+  autoComplete?: string;
+}
+
+function Field({ id, label, type, icon: Icon, value, onChange, placeholder, autoComplete }: FieldProps) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-slate-200 mb-2">
+        {label}
+      </label>
+      <div className="relative">
+        <Icon size={20} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400" />
+        <input
+          id={id}
+          type={type}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full pl-10 pr-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 placeholder-slate-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+          placeholder={placeholder}
+          autoComplete={autoComplete}
+          required
+        />
+      </div>
+    </div>
+  );
+}
 
 export function LoginForm() {
+  const [mode, setMode] = useState<Mode>('signin');
+  const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [invitationCode, setInvitationCode] = useState('');
   const [error, setError] = useState('');
-  const { login, isLoading } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const {
+    login, isLoading, needsSetup, setupAdmin, acceptInvitation, signOutReason,
+    twoFactorPending, verifyTwoFactor, cancelTwoFactor, providerConfigs, loginWithProvider, providerError,
+  } = useAuth();
+  const [redirectingTo, setRedirectingTo] = useState<string | null>(null);
+
+  // With no accounts yet, the first person to open the dashboard creates the administrator
+  const choosingPassword = needsSetup || mode === 'invitation';
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError('');
+    setPassword('');
+    setConfirmPassword('');
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
 
-    const success = await login(email, password);
-    if (!success) {
-      setError('Invalid credentials. Try admin@mlpipeline.com/admin123 or viewer@mlpipeline.com/viewer123');
+    if (twoFactorPending) {
+      try {
+        if (!(await verifyTwoFactor(twoFactorCode))) {
+          setError('That code is not valid');
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Something went wrong');
+      }
+      setTwoFactorCode('');
+      return;
+    }
+
+    if (!choosingPassword) {
+      const result = await login(email, password);
+      if (result === 'invalid') {
+        setError('Invalid email or password');
+      } else if (result === 'two_factor_required') {
+        setPassword('');
+      }
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError('The passwords do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (needsSetup) {
+        await setupAdmin(name, email, password);
+      } else {
+        await acceptInvitation(email, invitationCode, password);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleProviderLogin = async (providerId: string) => {
+    setError('');
+    setRedirectingTo(providerId);
+    try {
+      await loginWithProvider(providerId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The identity provider could not be reached');
+      setRedirectingTo(null);
     }
   };
 
+  const handleCancelTwoFactor = () => {
+    cancelTwoFactor();
+    setTwoFactorCode('');
+    setError('');
+  };
+
+  const subtitle = twoFactorPending
+    ? 'Enter the code from your authenticator app'
+    : needsSetup
+    ? 'Create the administrator account for this workspace'
+    : mode === 'invitation'
+      ? 'Choose a password to accept your invitation'
+      : 'Sign in to access your ML workflows';
+
   return (
     <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
       <div className="max-w-md w-full">
@@ -26,77 +150,148 @@ export function LoginForm() {
           <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent mb-2">
             ML Pipeline Dashboard
           </h1>
-          <p className="text-slate-400">Sign in to access your ML workflows</p>
+          <p className="text-slate-400">{subtitle}</p>
         </div>
 
         <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-xl">
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-slate-200 mb-2">
-                Email
-              </label>
-              <div className="relative">
-                <Mail size={20} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400" />
-                <input
-                  id="email"
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="w-full pl-10 pr-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 placeholder-slate-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                  placeholder="Enter your email"
-                  required
-                />
-              </div>
-            </div>
+          {twoFactorPending ? (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <Field
+                id="two-factor-code"
+                label="Authentication Code"
+                type="text"
+                icon={Smartphone}
+                value={twoFactorCode}
+                onChange={setTwoFactorCode}
+                placeholder="6-digit code or a recovery code"
+                autoComplete="one-time-code"
+              />
+
+              {error && (
+                <div className="p-3 bg-red-900/50 border border-red-800 rounded-lg">
+                  <p className="text-red-300 text-sm">{error}</p>
+                </div>
+              )}
+
+              <Button type="submit" variant="primary" className="w-full" isLoading={isLoading}>
+                <ShieldCheck size={20} className="mr-2" />
+                Verify
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {needsSetup && (
+                <Field id="name" label="Name" type="text" icon={UserIcon} value={name} onChange={setName} placeholder="Enter your name" autoComplete="name" />
+              )}
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-slate-200 mb-2">
-                Password
-              </label>
-              <div className="relative">
-                <Lock size={20} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400" />
-                <input
-                  id="password"
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full pl-10 pr-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 placeholder-slate-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                  placeholder="Enter your password"
-                  required
-                />
+              <Field id="email" label="Email" type="email" icon={Mail} value={email} onChange={setEmail} placeholder="Enter your email" autoComplete="email" />
+
+              {!needsSetup && mode === 'invitation' && (
+                <Field id="invitation-code" label="Invitation Code" type="text" icon={KeyRound} value={invitationCode} onChange={setInvitationCode} placeholder="XXXX-XXXX-XXXX" autoComplete="off" />
+              )}
+
+              <Field
+                id="password"
+                label={choosingPassword ? 'New Password' : 'Password'}
+                type="password"
+                icon={Lock}
+                value={password}
+                onChange={setPassword}
+                placeholder={choosingPassword ? `At least ${MIN_PASSWORD_LENGTH} characters, with a letter and a number` : 'Enter your password'}
+                autoComplete={choosingPassword ? 'new-password' : 'current-password'}
+              />
+
+              {choosingPassword && (
+                <Field id="confirm-password" label="Confirm Password" type="password" icon={Lock} value={confirmPassword} onChange={setConfirmPassword} placeholder="Repeat the password" autoComplete="new-password" />
+              )}
+
+              {providerError && !error && (
+                <div className="p-3 bg-red-900/50 border border-red-800 rounded-lg">
+                  <p className="text-red-300 text-sm">{providerError}</p>
+                </div>
+              )}
+
+              {signOutReason && !error && !providerError && !needsSetup && (
+                <div className="p-3 bg-yellow-900/30 border border-yellow-800 rounded-lg">
+                  <p className="text-yellow-300 text-sm">{SIGN_OUT_MESSAGES[signOutReason]}</p>
+                </div>
+              )}
+
+              {error && (
+                <div className="p-3 bg-red-900/50 border border-red-800 rounded-lg">
+                  <p className="text-red-300 text-sm">{error}</p>
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                variant="primary"
+                className="w-full"
+                isLoading={isLoading || isSubmitting}
+              >
+                {needsSetup ? (
+                  <>
+                    <ShieldCheck size={20} className="mr-2" />
+                    Create Administrator
+                  </>
+                ) : mode === 'invitation' ? (
+                  <>
+                    <KeyRound size={20} className="mr-2" />
+                    Accept Invitation
+                  </>
+                ) : (
+                  <>
+                    <LogIn size={20} className="mr-2" />
+                    Sign In
+                  </>
+                )}
+              </Button>
+            </form>
+          )}
+
+          {!twoFactorPending && !needsSetup && mode === 'signin' && providerConfigs.length > 0 && (
+            <div className="mt-6 space-y-3">
+              <div className="flex items-center text-xs text-slate-500">
+                <div className="flex-1 border-t border-slate-700" />
+                <span className="px-3">or</span>
+                <div className="flex-1 border-t border-slate-700" />
               </div>
+              {providerConfigs.map(config => (
+                <Button
+                  key={config.id}
+                  type="button"
+                  variant="secondary"
+                  className="w-full"
+                  isLoading={redirectingTo === config.id}
+                  disabled={redirectingTo !== null}
+                  onClick={() => handleProviderLogin(config.id)}
+                >
+                  <Building2 size={20} className="mr-2" />
+                  Continue with {config.label}
+                </Button>
+              ))}
             </div>
+          )}
 
-            {error && (
-              <div className="p-3 bg-red-900/50 border border-red-800 rounded-lg">
-                <p className="text-red-300 text-sm">{error}</p>
-              </div>
-            )}
-
-            <Button
-              type="submit"
-              variant="primary"
-              className="w-full"
-              isLoading={isLoading}
-            >
-              <LogIn size={20} className="mr-2" />
-              Sign In
-            </Button>
-          </form>
-
-          <div className="mt-6 p-4 bg-slate-700/50 rounded-lg">
-            <p className="text-xs text-slate-400 mb-2">Demo Credentials:</p>
-            <div className="space-y-1 text-xs">
-              <p className="text-slate-300">
-                <span className="font-medium">Admin:</span> admin@mlpipeline.com / admin123
-              </p>
-              <p className="text-slate-300">
-                <span className="font-medium">Viewer:</span> viewer@mlpipeline.com / viewer123
-              </p>
+          {twoFactorPending ? (
+            <div className="mt-6 text-center">
+              <button type="button" onClick={handleCancelTwoFactor} className="text-sm text-blue-400 hover:text-blue-300">
+                Back to sign in
+              </button>
+            </div>
+          ) : !needsSetup && (
+            <div className="mt-6 text-center">
+              <button
+                type="button"
+                onClick={() => switchMode(mode === 'signin' ? 'invitation' : 'signin')}
+                className="text-sm text-blue-400 hover:text-blue-300"
+              >
+                {mode === 'signin' ? 'Have an invitation code?' : 'Back to sign in'}
+              </button>
             </div>
-          </div>
+          )}
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { FlaskConical, LogIn, X } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import {
+  authorize,
+  denyAuthorization,
+  MOCK_IDENTITIES,
+  MockIdentity,
+  parseAuthorizationRequest,
+} from '../../store/mockIdentityProvider';
+
+/**
+ * The sign-in page of the bundled stand-in identity provider. It lets anyone
+ * pick who to be, so it is only for trying out single sign-on locally.
+ */
+export function MockIdentityProvider() {
+  const [request] = useState(() => parseAuthorizationRequest(new URLSearchParams(window.location.search)));
+  const [custom, setCustom] = useState({ name: '', email: '', groups: '' });
+
+  const signInAs = (identity: MockIdentity) => {
+    if (typeof request !== 'string') window.location.assign(authorize(request, identity));
+  };
+
+  const handleCustom = (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = custom.email.trim().toLowerCase();
+    signInAs({
+      sub: `mock-${email}`,
+      name: custom.name.trim() || email,
+      email,
+      groups: custom.groups.split(',').map(group => group.trim()).filter(Boolean),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
+      <div className="max-w-md w-full">
+        <div className="text-center mb-8">
+          <h1 className="text-2xl font-bold text-slate-100 mb-2 flex items-center justify-center">
+            <FlaskConical size={24} className="mr-2 text-yellow-400" />
+            Local Test Identity Provider
+          </h1>
+          <p className="text-slate-400 text-sm">A stand-in for your company's sign-in page. Choose who to sign in as.</p>
+        </div>
+
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-xl space-y-4">
+          {typeof request === 'string' ? (
+            <div className="p-3 bg-red-900/50 border border-red-800 rounded-lg">
+              <p className="text-red-300 text-sm">This sign-in request is not valid: {request}</p>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                {MOCK_IDENTITIES.map(identity => (
+                  <button
+                    key={identity.sub}
+                    type="button"
+                    onClick={() => signInAs(identity)}
+                    className="w-full flex items-center justify-between p-3 bg-slate-700/50 hover:bg-slate-700 rounded-lg text-left"
+                  >
+                    <div>
+                      <p className="text-sm font-medium text-slate-200">{identity.name}</p>
+                      <p className="text-xs text-slate-400">{identity.email}</p>
+                    </div>
+                    <div className="flex flex-wrap justify-end gap-1">
+                      {identity.groups.length > 0
+                        ? identity.groups.map(group => <Badge key={group} variant="info" size="sm">{group}</Badge>)
+                        : <Badge size="sm">no groups</Badge>}
+                    </div>
+                  </button>
+                ))}
+              </div>
+
+              <form onSubmit={handleCustom} className="space-y-3 pt-4 border-t border-slate-700">
+                <p className="text-sm font-medium text-slate-200">Someone else</p>
+                {([
+                  ['name', 'Name', 'text', false],
+                  ['email', 'Email', 'email', true],
+                  ['groups', 'Groups, separated by commas', 'text', false],
+                ] as const).map(([field, placeholder, type, required]) => (
+                  <input
+                    key={field}
+                    type={type}
+                    value={custom[field]}
+                    onChange={(e) => setCustom({ ...custom, [field]: e.target.value })}
+                    placeholder={placeholder}
+                    required={required}
+                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 placeholder-slate-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                  />
+                ))}
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="ghost" size="sm" onClick={() => window.location.assign(denyAuthorization(request))}>
+                    <X size={14} className="mr-1" />
+                    Cancel
+                  </Button>
+                  <Button type="submit" variant="primary" size="sm">
+                    <LogIn size={14} className="mr-1" />
+                    Sign In
+                  </Button>
+                </div>
+              </form>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
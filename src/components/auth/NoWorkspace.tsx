@@ -0,0 +1,23 @@
+import { FolderX, LogOut } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+
+/** Shown instead of the dashboard to users who are not a member of any workspace. */
+export function NoWorkspace() {
+  const { user, logout } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-xl text-center">
+        <FolderX size={32} className="mx-auto mb-4 text-slate-400" />
+        <h1 className="text-xl font-semibold text-slate-200 mb-2">No workspace yet</h1>
+        <p className="text-sm text-slate-400">
+          {user?.email} is not a member of any workspace. Ask an administrator to add you to one; the dashboard opens as soon as they do.
+        </p>
+        <button type="button" onClick={logout} className="mt-6 inline-flex items-center text-sm text-blue-400 hover:text-blue-300">
+          <LogOut size={14} className="mr-1" />
+          Sign out
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Clock, ShieldCheck } from 'lucide-react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { useAuth } from '../../context/AuthContext';
+
+/** The idle-timeout warning and the identity check before destructive admin actions. */
+export function SessionDialogs() {
+  const { user, idleSecondsLeft, keepAlive, logout, reauthReason, reauthMethods, submitReauth, cancelReauth, loginWithProvider } = useAuth();
+  const [secret, setSecret] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const closeReauth = () => {
+    setSecret('');
+    setError('');
+    cancelReauth();
+  };
+
+  const handleReauth = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await submitReauth(secret);
+      setSecret('');
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not confirm your identity');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Proving identity at the provider means leaving the page
+  const handleProviderReauth = async () => {
+    if (!reauthMethods.provider) return;
+    setIsSubmitting(true);
+    try {
+      await loginWithProvider(reauthMethods.provider.id, { forceLogin: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The identity provider could not be reached');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Modal isOpen={idleSecondsLeft !== null && !reauthReason} onClose={keepAlive} title="Still there?" size="sm">
+        <div className="space-y-4">
+          <div className="flex items-start space-x-3">
+            <Clock size={20} className="text-yellow-400 mt-0.5" />
+            <p className="text-sm text-slate-300">
+              You will be signed out in {idleSecondsLeft} second{idleSecondsLeft === 1 ? '' : 's'} because of inactivity.
+            </p>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="ghost" onClick={logout}>
+              Sign Out
+            </Button>
+            <Button variant="primary" onClick={keepAlive}>
+              Stay Signed In
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      <Modal isOpen={!!reauthReason} onClose={closeReauth} title="Confirm it's you" size="sm">
+        <div className="space-y-4">
+          <div className="flex items-start space-x-3">
+            <ShieldCheck size={20} className="text-blue-400 mt-0.5" />
+            <p className="text-sm text-slate-300">
+              {reauthMethods.secret === 'password' && <>Enter the password for {user?.email} to continue: {reauthReason}</>}
+              {reauthMethods.secret === 'code' && <>Enter a code from your authenticator app, or a recovery code, to continue: {reauthReason}</>}
+              {!reauthMethods.secret && reauthMethods.provider && (
+                <>To {reauthReason}, sign in again with {reauthMethods.provider.label}. You will come back to the dashboard and can then repeat the action.</>
+              )}
+              {!reauthMethods.secret && !reauthMethods.provider && (
+                <>{user?.email} has no password, second factor or sign-in provider to confirm it with. Ask an administrator for help.</>
+              )}
+            </p>
+          </div>
+          {reauthMethods.secret && (
+            <form id="reauth-form" onSubmit={handleReauth}>
+              <input
+                type={reauthMethods.secret === 'password' ? 'password' : 'text'}
+                value={secret}
+                onChange={(e) => setSecret(e.target.value)}
+                className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 placeholder-slate-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                placeholder={reauthMethods.secret === 'password' ? 'Password' : '123456'}
+                autoComplete={reauthMethods.secret === 'password' ? 'current-password' : 'one-time-code'}
+                autoFocus
+                required
+              />
+            </form>
+          )}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="ghost" onClick={closeReauth}>
+              Cancel
+            </Button>
+            {reauthMethods.provider && (
+              <Button
+                type="button"
+                variant={reauthMethods.secret ? 'secondary' : 'primary'}
+                onClick={handleProviderReauth}
+                isLoading={isSubmitting && !reauthMethods.secret}
+                disabled={isSubmitting}
+              >
+                {reauthMethods.secret ? `Use ${reauthMethods.provider.label}` : 'Sign In Again'}
+              </Button>
+            )}
+            {reauthMethods.secret && (
+              <Button type="submit" form="reauth-form" variant="primary" isLoading={isSubmitting}>
+                Confirm
+              </Button>
+            )}
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { Building2, Edit3, FlaskConical, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { useAuth } from '../../context/AuthContext';
+import { usePermission, usePermissions } from '../../hooks/usePermissions';
+import {
+  createAuthProviderId,
+  DEFAULT_OIDC_SCOPES,
+  mockOidcProviderConfig,
+  OidcProviderConfig,
+} from '../../store/authProviders';
+import { isMockIssuer, MOCK_IDP_ENABLED } from '../../store/mockIdentityProvider';
+import { OIDC_CALLBACK_PATH } from '../../store/oidc';
+
+const inputClassName = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 placeholder-slate-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500';
+
+const emptyDraft = (): OidcProviderConfig => ({
+  id: '',
+  label: '',
+  issuer: '',
+  clientId: '',
+  scopes: DEFAULT_OIDC_SCOPES,
+  groupsClaim: 'groups',
+  roleMappings: [{ group: '', role: 'viewer' }],
+  defaultRole: null,
+});
+
+// Why the provider cannot be saved, or null when it can
+function draftProblem(draft: OidcProviderConfig): string | null {
+  let issuer: URL;
+  try {
+    issuer = new URL(draft.issuer);
+  } catch {
+    return 'The issuer must be a full URL, such as https://login.example.com';
+  }
+  // Tokens must not travel in the clear, except to a provider on this machine
+  if (issuer.protocol !== 'https:' && issuer.hostname !== 'localhost' && !(MOCK_IDP_ENABLED && isMockIssuer(draft.issuer))) {
+    return 'The issuer must use https';
+  }
+  if (!draft.scopes.split(' ').includes('openid')) {
+    return 'The scopes must include "openid"';
+  }
+  return null;
+}
+
+/** The single sign-on part of Settings > Security: OpenID Connect providers and their group mappings. */
+export function SignInProviders() {
+  const { providerConfigs, setProviderConfigs, confirmIdentity } = useAuth();
+  const { roles } = usePermissions();
+  const canEditSettings = usePermission('settings:edit');
+  const [draft, setDraft] = useState<OidcProviderConfig | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const roleName = (roleId: string) => roles.find(role => role.id === roleId)?.name ?? `${roleId} (deleted)`;
+  const hasMockProvider = providerConfigs.some(config => isMockIssuer(config.issuer));
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const problem = draftProblem(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    const saved: OidcProviderConfig = {
+      ...draft,
+      id: draft.id || createAuthProviderId(draft.label),
+      label: draft.label.trim(),
+      issuer: draft.issuer.trim().replace(/\/+$/, ''),
+      clientId: draft.clientId.trim(),
+      roleMappings: draft.roleMappings
+        .map(mapping => ({ ...mapping, group: mapping.group.trim() }))
+        .filter(mapping => mapping.group),
+    };
+    setProviderConfigs(providerConfigs.some(config => config.id === saved.id)
+      ? providerConfigs.map(config => config.id === saved.id ? saved : config)
+      : [...providerConfigs, saved]);
+    setDraft(null);
+    setError(null);
+  };
+
+  const handleRemove = async (config: OidcProviderConfig) => {
+    if (!(await confirmIdentity(`remove the sign-in provider "${config.label}"`))) return;
+    setProviderConfigs(providerConfigs.filter(candidate => candidate.id !== config.id));
+  };
+
+  const renderEditor = (current: OidcProviderConfig) => (
+    <form onSubmit={handleSave} className="p-4 bg-slate-700/50 border border-slate-600 rounded-lg space-y-4">
+      <div className="grid md:grid-cols-2 gap-4">
+        {([
+          ['label', 'Button Label', 'Company SSO'],
+          ['issuer', 'Issuer URL', 'https://login.example.com'],
+          ['clientId', 'Client ID', 'ml-dashboard'],
+          ['scopes', 'Scopes', DEFAULT_OIDC_SCOPES],
+          ['groupsClaim', 'Groups Claim', 'groups'],
+        ] as const).map(([field, label, placeholder]) => (
+          <div key={field}>
+            <label className="block text-sm font-medium text-slate-200 mb-2">{label}</label>
+            <input
+              type="text"
+              value={current[field]}
+              onChange={(e) => setDraft({ ...current, [field]: e.target.value })}
+              placeholder={placeholder}
+              className={inputClassName}
+              required
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-sm font-medium text-slate-200 mb-2">Users in No Mapped Group</label>
+          <select
+            value={current.defaultRole ?? ''}
+            onChange={(e) => setDraft({ ...current, defaultRole: e.target.value || null })}
+            className={inputClassName}
+          >
+            <option value="">Cannot sign in</option>
+            {roles.map(role => (
+              <option key={role.id} value={role.id}>Sign in as {role.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-slate-200">Group to Role Mapping</p>
+        <p className="text-xs text-slate-400">Checked from the top; the first group the user is in sets their role at every sign-in.</p>
+        {current.roleMappings.map((mapping, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={mapping.group}
+              onChange={(e) => setDraft({ ...current, roleMappings: current.roleMappings.map((m, i) => i === index ? { ...m, group: e.target.value } : m) })}
+              placeholder="Group name"
+              className={inputClassName}
+            />
+            <select
+              value={mapping.role}
+              onChange={(e) => setDraft({ ...current, roleMappings: current.roleMappings.map((m, i) => i === index ? { ...m, role: e.target.value } : m) })}
+              className={inputClassName}
+            >
+              {roles.map(role => (
+                <option key={role.id} value={role.id}>{role.name}</option>
+              ))}
+            </select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setDraft({ ...current, roleMappings: current.roleMappings.filter((_, i) => i !== index) })}
+            >
+              <X size={14} />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setDraft({ ...current, roleMappings: [...current.roleMappings, { group: '', role: 'viewer' }] })}
+        >
+          <Plus size={14} className="mr-1" />
+          Add Mapping
+        </Button>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        Register {window.location.origin}{OIDC_CALLBACK_PATH} as the redirect URI of a public client with PKCE at the provider.
+      </p>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="ghost" size="sm" onClick={() => { setDraft(null); setError(null); }}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" size="sm">
+          Save Provider
+        </Button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-slate-200">Single Sign-On</p>
+          <p className="text-xs text-slate-400">OpenID Connect providers offered on the sign-in page, next to email and password</p>
+        </div>
+        {canEditSettings && (
+          <div className="flex space-x-2">
+            {MOCK_IDP_ENABLED && !hasMockProvider && (
+              <Button variant="ghost" size="sm" onClick={() => setDraft(mockOidcProviderConfig())} disabled={!!draft} title="A built-in provider for trying out single sign-on">
+                <FlaskConical size={14} className="mr-1" />
+                Local Test IdP
+              </Button>
+            )}
+            <Button variant="secondary" size="sm" onClick={() => setDraft(emptyDraft())} disabled={!!draft}>
+              <Plus size={14} className="mr-1" />
+              Add Provider
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {draft && !providerConfigs.some(config => config.id === draft.id) && renderEditor(draft)}
+
+      {providerConfigs.length === 0 && !draft && (
+        <p className="text-xs text-slate-500">No providers; everyone signs in with email and password.</p>
+      )}
+
+      {providerConfigs.map(config => draft?.id === config.id ? (
+        <div key={config.id}>{renderEditor(draft)}</div>
+      ) : (
+        <div key={config.id} className="p-3 bg-slate-700/50 rounded-lg flex items-center justify-between">
+          <div>
+            <div className="flex items-center space-x-2">
+              <Building2 size={14} className="text-slate-400" />
+              <p className="text-sm font-medium text-slate-200">{config.label}</p>
+              {isMockIssuer(config.issuer) && <Badge variant="warning" size="sm">Test only</Badge>}
+            </div>
+            <p className="text-xs text-slate-400">{config.issuer} • client {config.clientId}</p>
+            <p className="text-xs text-slate-500">
+              {config.roleMappings.map(mapping => `${mapping.group} → ${roleName(mapping.role)}`).join(', ') || 'No group mappings'}
+              {' • others: '}{config.defaultRole ? roleName(config.defaultRole) : 'cannot sign in'}
+            </p>
+          </div>
+          {canEditSettings && (
+            <div className="flex space-x-1">
+              <Button variant="ghost" size="sm" onClick={() => setDraft(config)} disabled={!!draft}>
+                <Edit3 size={14} />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => handleRemove(config)}>
+                <Trash2 size={14} />
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
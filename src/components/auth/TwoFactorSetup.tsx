@@ -0,0 +1,227 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ShieldCheck, Copy, Download, LogOut } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { QrCode } from '../ui/QrCode';
+import { useAuth } from '../../context/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import { isAdminRole } from '../../store/permissions';
+import { generateTotpSecret, otpauthUri } from '../../store/totp';
+
+interface TwoFactorSetupProps {
+  /** Called once the user has seen their recovery codes. */
+  onDone: () => void;
+  onCancel?: () => void;
+}
+
+/** Enrolment: scan the secret, prove it with a code, then keep the recovery codes. */
+export function TwoFactorSetup({ onDone, onCancel }: TwoFactorSetupProps) {
+  const { user, enableTwoFactor } = useAuth();
+  // A new secret per attempt; nothing is stored until a code proves the app has it
+  const secret = useMemo(() => generateTotpSecret(), []);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsVerifying(true);
+    try {
+      setRecoveryCodes(await enableTwoFactor(secret, code));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The code could not be checked');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return <RecoveryCodes codes={recoveryCodes} onDone={onDone} />;
+  }
+
+  return (
+    <form onSubmit={handleVerify} className="space-y-4">
+      <p className="text-sm text-slate-300">
+        Scan this code with an authenticator app such as Google Authenticator, 1Password or Authy, then enter the 6-digit code it shows.
+      </p>
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <QrCode value={otpauthUri(secret, user?.email ?? '')} className="rounded-lg" />
+        <div className="space-y-1">
+          <p className="text-xs text-slate-400">Can't scan it? Enter this key instead:</p>
+          <p className="font-mono text-sm text-slate-200 break-all">{secret.match(/.{1,4}/g)?.join(' ')}</p>
+        </div>
+      </div>
+      <div>
+        <label htmlFor="totp-code" className="block text-sm font-medium text-slate-200 mb-2">
+          Verification Code
+        </label>
+        <input
+          id="totp-code"
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="123456"
+          className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 placeholder-slate-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+          required
+        />
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" variant="primary" size="sm" isLoading={isVerifying}>
+          <ShieldCheck size={14} className="mr-1" />
+          Verify and Turn On
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface RecoveryCodesProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+/** Shows freshly generated recovery codes; they cannot be displayed again. */
+export function RecoveryCodes({ codes, onDone }: RecoveryCodesProps) {
+  const text = codes.join('\n');
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([`${text}\n`], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'ml-dashboard-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-300">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator. They are not shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-4 bg-slate-900 rounded-lg font-mono text-sm text-slate-200">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex justify-end space-x-2">
+        <Button variant="ghost" size="sm" onClick={() => navigator.clipboard?.writeText(text)}>
+          <Copy size={14} className="mr-1" />
+          Copy
+        </Button>
+        <Button variant="secondary" size="sm" onClick={handleDownload}>
+          <Download size={14} className="mr-1" />
+          Download
+        </Button>
+        <Button variant="primary" size="sm" onClick={onDone}>
+          I Saved Them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Holds administrators on an enrolment page, when the workspace requires it,
+ * until they have set up two-factor authentication and saved their codes.
+ */
+export function RequireTwoFactor({ children }: { children: React.ReactNode }) {
+  const { user, sessionPolicy, twoFactorEnabled, logout } = useAuth();
+  const { roles } = usePermissions();
+  const mustEnroll = sessionPolicy.requireTwoFactorForAdmins && !!user && isAdminRole(user.role, roles)
+    && !twoFactorEnabled;
+  // Stays set after enrolment so the recovery codes are shown before the app opens
+  const [isEnrolling, setIsEnrolling] = useState(mustEnroll);
+
+  useEffect(() => {
+    if (mustEnroll) setIsEnrolling(true);
+  }, [mustEnroll]);
+
+  if (!mustEnroll && !isEnrolling) {
+    return <>{children}</>;
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
+      <div className="max-w-lg w-full">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent mb-2">
+            Set Up Two-Factor Authentication
+          </h1>
+          <p className="text-slate-400">This workspace requires it for administrators</p>
+        </div>
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-xl">
+          <TwoFactorSetup onDone={() => setIsEnrolling(false)} />
+        </div>
+        <div className="mt-6 text-center">
+          <button type="button" onClick={logout} className="inline-flex items-center text-sm text-blue-400 hover:text-blue-300">
+            <LogOut size={14} className="mr-1" />
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface TwoFactorDisableProps {
+  onDone: () => void;
+  onCancel: () => void;
+}
+
+/** Turning two-factor off asks for a code, so a session left open is not enough to remove it. */
+export function TwoFactorDisable({ onDone, onCancel }: TwoFactorDisableProps) {
+  const { disableTwoFactor } = useAuth();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsVerifying(true);
+    try {
+      await disableTwoFactor(code);
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The code could not be checked');
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="totp-disable-code" className="block text-sm font-medium text-slate-200 mb-2">
+          Authenticator or Recovery Code
+        </label>
+        <input
+          id="totp-disable-code"
+          type="text"
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="123456"
+          className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 placeholder-slate-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+          autoFocus
+          required
+        />
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="danger" size="sm" isLoading={isVerifying}>
+          Turn Off
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import { UserPlus, Mail, Ban, RotateCcw, Copy, X, ShieldOff } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { useAuth } from '../../context/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useWorkspace } from '../../hooks/useWorkspace';
+import { useDashboardActions, useDashboardSelector } from '../../hooks/useDashboardStore';
+import { selectUsers } from '../../store/selectors';
+import { createAccount, createInvitation, isInvitationExpired, NewUser, passwordProblem } from '../../store/users';
+import { UserAccount } from '../../types';
+
+type DraftMode = 'invite' | 'create';
+
+interface UserDraft extends NewUser {
+  mode: DraftMode;
+  password: string;
+}
+
+const STATUS_BADGES: Record<UserAccount['status'], { variant: 'success' | 'warning' | 'default'; label: string }> = {
+  active: { variant: 'success', label: 'Active' },
+  invited: { variant: 'warning', label: 'Invited' },
+  deactivated: { variant: 'default', label: 'Deactivated' },
+};
+
+const inputClassName = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 placeholder-slate-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500';
+
+/** The Users tab of Settings: invites, creates, deactivates and re-roles accounts, and resets lost second factors. */
+export function UserManagement() {
+  const { user, confirmIdentity } = useAuth();
+  const { roles } = usePermissions();
+  const users = useDashboardSelector(selectUsers);
+  const { addUser, updateUser, setUserRole, deactivateUser, reactivateUser, setWorkspaceMember } = useDashboardActions();
+  const { activeWorkspace } = useWorkspace();
+  const [draft, setDraft] = useState<UserDraft | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Invitation codes are only ever shown here, right after they are generated
+  const [issuedCode, setIssuedCode] = useState<{ email: string; code: string } | null>(null);
+
+  const roleName = (roleId: string) => roles.find(role => role.id === roleId)?.name ?? `${roleId} (deleted)`;
+
+  // Asks for the password first; store actions throw when a change would leave no active administrator
+  const runConfirmed = async (reason: string, change: () => void) => {
+    setError(null);
+    if (!(await confirmIdentity(reason))) return;
+    try {
+      change();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The change could not be made');
+    }
+  };
+
+  const handleSubmitDraft = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    setError(null);
+
+    if (draft.mode === 'create') {
+      const problem = passwordProblem(draft.password);
+      if (problem) {
+        setError(problem);
+        return;
+      }
+    }
+
+    setIsSubmitting(true);
+    try {
+      let account: UserAccount;
+      if (draft.mode === 'create') {
+        account = await createAccount(draft);
+        addUser(account, 'User created');
+      } else {
+        const invited = await createInvitation(draft);
+        account = invited.account;
+        addUser(account, 'User invited');
+        setIssuedCode({ email: account.email, code: invited.code });
+      }
+      // New users join the open workspace with their account role; the Workspaces tab adds them elsewhere
+      if (activeWorkspace) {
+        setWorkspaceMember(activeWorkspace.id, account.id, account.role);
+      }
+      setDraft(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The user could not be added');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // A fresh code replaces the old one, which stops working
+  const handleResendInvitation = async (account: UserAccount) => {
+    setError(null);
+    const { account: invited, code } = await createInvitation(account);
+    updateUser(account.id, { invitation: invited.invitation }, 'Invitation resent');
+    setIssuedCode({ email: account.email, code });
+  };
+
+  const renderDraftForm = (current: UserDraft) => (
+    <form onSubmit={handleSubmitDraft} className="p-4 bg-slate-700/50 border border-slate-600 rounded-lg space-y-4">
+      <div className="flex space-x-2">
+        {(['invite', 'create'] as DraftMode[]).map(mode => (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => setDraft({ ...current, mode })}
+            className={`px-3 py-1 rounded-lg text-sm ${current.mode === mode ? 'bg-blue-600/20 text-blue-400 border border-blue-500/30' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            {mode === 'invite' ? 'Send invitation' : 'Set password now'}
+          </button>
+        ))}
+      </div>
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-200 mb-2">Full Name</label>
+          <input type="text" value={current.name} onChange={(e) => setDraft({ ...current, name: e.target.value })} className={inputClassName} required />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-200 mb-2">Email Address</label>
+          <input type="email" value={current.email} onChange={(e) => setDraft({ ...current, email: e.target.value })} className={inputClassName} required />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-200 mb-2">Role</label>
+          <select value={current.role} onChange={(e) => setDraft({ ...current, role: e.target.value })} className={inputClassName}>
+            {roles.map(role => (
+              <option key={role.id} value={role.id}>{role.name}</option>
+            ))}
+          </select>
+        </div>
+        {current.mode === 'create' && (
+          <div>
+            <label className="block text-sm font-medium text-slate-200 mb-2">Initial Password</label>
+            <input type="password" value={current.password} onChange={(e) => setDraft({ ...current, password: e.target.value })} className={inputClassName} autoComplete="new-password" required />
+          </div>
+        )}
+      </div>
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="ghost" size="sm" onClick={() => setDraft(null)}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" size="sm" isLoading={isSubmitting}>
+          {current.mode === 'invite' ? 'Create Invitation' : 'Create User'}
+        </Button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-200">Users</h3>
+          <p className="text-xs text-slate-400">Accounts are stored with the workspace. Deactivated users are signed out and cannot sign in.</p>
+        </div>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => setDraft({ mode: 'invite', name: '', email: '', role: 'viewer', password: '' })}
+          disabled={!!draft}
+        >
+          <UserPlus size={14} className="mr-1" />
+          Add User
+        </Button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-900/50 border border-red-800 rounded-lg">
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      {issuedCode && (
+        <div className="p-4 bg-blue-900/30 border border-blue-800 rounded-lg">
+          <div className="flex items-start justify-between">
+            <div>
+              <p className="text-sm text-slate-200">Invitation code for {issuedCode.email}</p>
+              <p className="font-mono text-lg text-blue-300 my-1">{issuedCode.code}</p>
+              <p className="text-xs text-slate-400">Share it with them now; it is not shown again. They enter it on the sign-in page under "Have an invitation code?".</p>
+            </div>
+            <div className="flex space-x-1">
+              <Button variant="ghost" size="sm" onClick={() => navigator.clipboard?.writeText(issuedCode.code)}>
+                <Copy size={14} />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setIssuedCode(null)}>
+                <X size={14} />
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {draft && renderDraftForm(draft)}
+
+      <div className="space-y-3">
+        {users.map(account => {
+          const status = STATUS_BADGES[account.status];
+          const isSelf = account.id === user?.id;
+          return (
+            <div key={account.id} className="p-3 bg-slate-700/50 rounded-lg">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <p className="text-sm font-medium text-slate-200">{account.name}</p>
+                    <Badge variant={status.variant} size="sm">{status.label}</Badge>
+                    {account.status === 'invited' && isInvitationExpired(account) && <Badge variant="danger" size="sm">Invitation expired</Badge>}
+                    {account.two_factor && <Badge variant="success" size="sm">2FA</Badge>}
+                    {account.external_identity && <Badge variant="info" size="sm">SSO</Badge>}
+                    {isSelf && <Badge variant="info" size="sm">You</Badge>}
+                  </div>
+                  <p className="text-xs text-slate-400">
+                    {account.email} • {account.last_login_at ? `Last sign-in ${new Date(account.last_login_at).toLocaleString()}` : 'Never signed in'}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={account.role}
+                    onChange={(e) => {
+                      const role = e.target.value;
+                      runConfirmed(`change the role of ${account.name} to ${roleName(role)}`, () => setUserRole(account.id, role));
+                    }}
+                    className="px-2 py-1 bg-slate-700 border border-slate-600 rounded-lg text-sm text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                  >
+                    {!roles.some(role => role.id === account.role) && (
+                      <option value={account.role}>{roleName(account.role)}</option>
+                    )}
+                    {roles.map(role => (
+                      <option key={role.id} value={role.id}>{role.name}</option>
+                    ))}
+                  </select>
+                  {account.status === 'invited' && (
+                    <Button variant="ghost" size="sm" onClick={() => handleResendInvitation(account)} title="New invitation code">
+                      <Mail size={14} />
+                    </Button>
+                  )}
+                  {account.two_factor && !isSelf && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => runConfirmed(`reset two-factor authentication for ${account.name}`, () => updateUser(account.id, { two_factor: undefined }, 'Two-factor authentication reset'))}
+                      title="Reset two-factor authentication"
+                    >
+                      <ShieldOff size={14} />
+                    </Button>
+                  )}
+                  {account.status === 'deactivated' ? (
+                    <Button variant="ghost" size="sm" onClick={() => runConfirmed(`reactivate ${account.name}`, () => reactivateUser(account.id))} title="Reactivate">
+                      <RotateCcw size={14} />
+                    </Button>
+                  ) : (
+                    <Button variant="ghost" size="sm" onClick={() => runConfirmed(`deactivate ${account.name}`, () => deactivateUser(account.id))} disabled={isSelf} title="Deactivate">
+                      <Ban size={14} />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import React, { useMemo, useState } from 'react';
+import { FolderPlus, Trash2, UserPlus, X, Edit3 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { useAuth } from '../../context/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useWorkspace } from '../../hooks/useWorkspace';
+import { useDashboardActions, useDashboardSelector } from '../../hooks/useDashboardStore';
+import { selectUsers, selectWorkspaces } from '../../store/selectors';
+import { WORKSPACE_SCOPED_COLLECTIONS } from '../../store/workspaces';
+import { Workspace } from '../../types';
+
+interface WorkspaceDraft {
+  /** Missing while creating a workspace. */
+  id?: string;
+  name: string;
+  description: string;
+}
+
+const inputClassName = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 placeholder-slate-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500';
+const selectClassName = 'px-2 py-1 bg-slate-700 border border-slate-600 rounded-lg text-sm text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500';
+
+/** The Workspaces tab of Settings: creates, renames and deletes workspaces, and chooses their members and roles. */
+export function WorkspaceManagement() {
+  const { confirmIdentity } = useAuth();
+  const { roles } = usePermissions();
+  const { activeWorkspace } = useWorkspace();
+  const workspaces = useDashboardSelector(selectWorkspaces);
+  const users = useDashboardSelector(selectUsers);
+  const state = useDashboardSelector(current => current);
+  const { addWorkspace, updateWorkspace, deleteWorkspace, setWorkspaceMember } = useDashboardActions();
+  const [draft, setDraft] = useState<WorkspaceDraft | null>(null);
+  // The user and role picked in each workspace's "Add member" row, by workspace id
+  const [newMembers, setNewMembers] = useState<Record<string, { userId: string; role: string }>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  // Everything a workspace holds, trash included, since only empty workspaces can be deleted
+  const itemCounts = useMemo(() => Object.fromEntries(workspaces.map(workspace => [
+    workspace.id,
+    WORKSPACE_SCOPED_COLLECTIONS.reduce((sum, collection) =>
+      sum + (state[collection] as { workspace_id?: string }[]).filter(entity => entity.workspace_id === workspace.id).length, 0),
+  ])), [workspaces, state]);
+
+  const roleName = (roleId: string) => roles.find(role => role.id === roleId)?.name ?? `${roleId} (deleted)`;
+  const userName = (userId: string) => users.find(account => account.id === userId)?.name ?? userId;
+
+  const run = (change: () => void) => {
+    setError(null);
+    try {
+      change();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The change could not be made');
+    }
+  };
+
+  // Like account roles, taking access away asks for the password first
+  const runConfirmed = async (reason: string, change: () => void) => {
+    setError(null);
+    if (!(await confirmIdentity(reason))) return;
+    run(change);
+  };
+
+  const handleSubmitDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    run(() => {
+      if (draft.id) {
+        updateWorkspace(draft.id, { name: draft.name.trim(), description: draft.description.trim() || undefined });
+      } else {
+        addWorkspace(draft.name, draft.description);
+      }
+      setDraft(null);
+    });
+  };
+
+  const handleAddMember = (workspace: Workspace) => {
+    const picked = newMembers[workspace.id];
+    if (!picked?.userId) return;
+    run(() => setWorkspaceMember(workspace.id, picked.userId, picked.role));
+    setNewMembers({ ...newMembers, [workspace.id]: { userId: '', role: picked.role } });
+  };
+
+  const renderDraftForm = (current: WorkspaceDraft) => (
+    <form onSubmit={handleSubmitDraft} className="p-4 bg-slate-700/50 border border-slate-600 rounded-lg space-y-4">
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-200 mb-2">Name</label>
+          <input type="text" value={current.name} onChange={(e) => setDraft({ ...current, name: e.target.value })} className={inputClassName} required />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-200 mb-2">Description</label>
+          <input type="text" value={current.description} onChange={(e) => setDraft({ ...current, description: e.target.value })} className={inputClassName} />
+        </div>
+      </div>
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="ghost" size="sm" onClick={() => setDraft(null)}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" size="sm">
+          {current.id ? 'Save Workspace' : 'Create Workspace'}
+        </Button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-200">Workspaces</h3>
+          <p className="text-xs text-slate-400">
+            Members only see the workspaces they belong to, and their role there replaces their account role.
+            Administrators and workspace managers can open every workspace.
+          </p>
+        </div>
+        <Button variant="secondary" size="sm" onClick={() => setDraft({ name: '', description: '' })} disabled={!!draft}>
+          <FolderPlus size={14} className="mr-1" />
+          New Workspace
+        </Button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-900/50 border border-red-800 rounded-lg">
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      {draft && !draft.id && renderDraftForm(draft)}
+
+      <div className="space-y-4">
+        {workspaces.map(workspace => {
+          const picked = newMembers[workspace.id] ?? { userId: '', role: 'viewer' };
+          const candidates = users.filter(account => !workspace.members.some(member => member.user_id === account.id));
+          return draft?.id === workspace.id ? (
+            <div key={workspace.id}>{renderDraftForm(draft)}</div>
+          ) : (
+            <div key={workspace.id} className="p-4 bg-slate-700/50 rounded-lg space-y-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <p className="text-sm font-medium text-slate-200">{workspace.name}</p>
+                    {workspace.id === activeWorkspace?.id && <Badge variant="info" size="sm">Open</Badge>}
+                  </div>
+                  <p className="text-xs text-slate-400">
+                    {workspace.description ? `${workspace.description} • ` : ''}{itemCounts[workspace.id]} item(s) • {workspace.members.length} member(s)
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft({ id: workspace.id, name: workspace.name, description: workspace.description ?? '' })}
+                    disabled={!!draft}
+                    title="Rename"
+                  >
+                    <Edit3 size={14} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => runConfirmed(`delete the workspace ${workspace.name}`, () => deleteWorkspace(workspace.id))}
+                    disabled={itemCounts[workspace.id] > 0 || workspaces.length === 1}
+                    title={itemCounts[workspace.id] > 0 ? 'Move or delete its items first' : 'Delete'}
+                  >
+                    <Trash2 size={14} />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {workspace.members.map(member => (
+                  <div key={member.user_id} className="flex items-center justify-between">
+                    <span className="text-sm text-slate-300">{userName(member.user_id)}</span>
+                    <div className="flex items-center space-x-2">
+                      <select
+                        value={member.role}
+                        onChange={(e) => {
+                          const role = e.target.value;
+                          runConfirmed(`change the role of ${userName(member.user_id)} in ${workspace.name} to ${roleName(role)}`, () => setWorkspaceMember(workspace.id, member.user_id, role));
+                        }}
+                        className={selectClassName}
+                      >
+                        {!roles.some(role => role.id === member.role) && (
+                          <option value={member.role}>{roleName(member.role)}</option>
+                        )}
+                        {roles.map(role => (
+                          <option key={role.id} value={role.id}>{role.name}</option>
+                        ))}
+                      </select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => runConfirmed(`remove ${userName(member.user_id)} from ${workspace.name}`, () => setWorkspaceMember(workspace.id, member.user_id, null))}
+                        title="Remove from workspace"
+                      >
+                        <X size={14} />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                {workspace.members.length === 0 && (
+                  <p className="text-xs text-slate-500">No members; only administrators and workspace managers can open it.</p>
+                )}
+              </div>
+
+              {candidates.length > 0 && (
+                <div className="flex items-center space-x-2 pt-2 border-t border-slate-600">
+                  <select
+                    value={picked.userId}
+                    onChange={(e) => setNewMembers({ ...newMembers, [workspace.id]: { ...picked, userId: e.target.value } })}
+                    className={`${selectClassName} flex-1`}
+                  >
+                    <option value="">Add a member…</option>
+                    {candidates.map(account => (
+                      <option key={account.id} value={account.id}>{account.name} ({account.email})</option>
+                    ))}
+                  </select>
+                  <select
+                    value={picked.role}
+                    onChange={(e) => setNewMembers({ ...newMembers, [workspace.id]: { ...picked, role: e.target.value } })}
+                    className={selectClassName}
+                  >
+                    {roles.map(role => (
+                      <option key={role.id} value={role.id}>{role.name}</option>
+                    ))}
+                  </select>
+                  <Button variant="secondary" size="sm" onClick={() => handleAddMember(workspace)} disabled={!picked.userId}>
+                    <UserPlus size={14} />
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -145,6 +145,7 @@ export function CreateModelForm({ onSuccess, onCancel }: CreateModelFormProps) {
       name: formData.name,
       status: 'completed' as const,
       algorithm: formData.algorithm,
+      dataset_id: formData.datasetId || undefined,
       metrics: {
         accuracy: Math.max(0.5, Math.min(0.99, accuracy)),
         precision: Math.max(0.5, Math.min(0.99, precision)),
@@ -4,6 +4,7 @@ import { Button } from '../ui/Button';
 import { Badge } from '../ui/Badge';
 import { ProgressBar } from '../ui/ProgressBar';
 import { useMockData, analyzeDatasetColumns } from '../../hooks/useMockData';
+import { defaultPipelineGraph } from '../../store/pipelineGraph';
 import { Dataset } from '../../types';
 
 interface CreatePipelineFormProps {
@@ -112,6 +113,7 @@ export function CreatePipelineForm({ onSuccess, onCancel }: CreatePipelineFormPr
       model_accuracy: undefined,
       data_drift_score: undefined,
       hyperparameters: getDefaultHyperparameters(formData.algorithm),
+      steps: defaultPipelineGraph(),
     };
 
     const createdPipeline = addPipeline(newPipeline);
@@ -0,0 +1,356 @@
+import React, { useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import { AlertTriangle, Trash2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import {
+  connectionError,
+  createStep,
+  findCycle,
+  layoutSteps,
+  STEP_NODE_HEIGHT,
+  STEP_NODE_WIDTH,
+  STEP_TYPE_ORDER,
+  STEP_TYPES,
+  validatePipelineGraph,
+} from '../../store/pipelineGraph';
+import { PipelineRunStep, PipelineStep, PipelineStepType } from '../../types';
+
+// Carries the step type from the palette to the canvas
+const DRAG_TYPE = 'application/x-pipeline-step';
+const GRID = 8;
+
+const STEP_STATUS_CLASSES: Record<PipelineRunStep['status'], string> = {
+  pending: 'border-slate-600 bg-slate-800',
+  running: 'border-blue-500 bg-blue-900/40',
+  succeeded: 'border-green-600 bg-green-900/30',
+  failed: 'border-red-500 bg-red-900/30',
+  cancelled: 'border-yellow-600 bg-yellow-900/20',
+  reused: 'border-slate-500 border-dashed bg-slate-800/60',
+};
+
+const STEP_STATUS_BADGES: Record<PipelineRunStep['status'], 'default' | 'success' | 'warning' | 'danger' | 'info'> = {
+  pending: 'default',
+  running: 'info',
+  succeeded: 'success',
+  failed: 'danger',
+  cancelled: 'warning',
+  reused: 'default',
+};
+
+interface PipelineGraphEditorProps {
+  steps: PipelineStep[];
+  /** Makes the graph editable; without it the graph is only shown. */
+  onChange?: (steps: PipelineStep[]) => void;
+  /** Where each step of a run is, shown on the step. */
+  stepStates?: PipelineRunStep[];
+  /** Extra controls for the selected step, such as re-running from it. */
+  renderStepActions?: (step: PipelineStep, state?: PipelineRunStep) => React.ReactNode;
+  disabled?: boolean;
+}
+
+const snap = (value: number) => Math.max(0, Math.round(value / GRID) * GRID);
+
+// A curve from the right edge of one step to the left edge of another
+const edgePath = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+  const bend = Math.max(40, Math.abs(to.x - from.x) / 2);
+  return `M ${from.x} ${from.y} C ${from.x + bend} ${from.y}, ${to.x - bend} ${to.y}, ${to.x} ${to.y}`;
+};
+
+/**
+ * A pipeline's steps as a graph. Editable, steps are dragged in from the
+ * palette and around the canvas, and an edge is drawn by dragging from a
+ * step's output handle onto the step that takes it; edges that would make a
+ * cycle or connect types that do not match are refused. Clicking an edge
+ * removes it. Read-only, it shows where each step of a run is.
+ */
+export function PipelineGraphEditor({ steps, onChange, stepStates, renderStepActions, disabled }: PipelineGraphEditorProps) {
+  const editable = Boolean(onChange) && !disabled;
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [moving, setMoving] = useState<{ stepId: string; dx: number; dy: number } | null>(null);
+  const [connecting, setConnecting] = useState<{ fromId: string; x: number; y: number } | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const issues = editable ? validatePipelineGraph(steps) : [];
+  const stepsWithIssues = new Set(issues.map(issue => issue.stepId));
+  const selected = steps.find(step => step.id === selectedId);
+  const stateOf = (stepId: string) => stepStates?.find(state => state.step_id === stepId);
+
+  const width = Math.max(640, ...steps.map(step => step.position.x + STEP_NODE_WIDTH + 32));
+  const height = Math.max(220, ...steps.map(step => step.position.y + STEP_NODE_HEIGHT + 32));
+
+  const change = (next: PipelineStep[]) => {
+    if (editable) onChange!(next);
+  };
+
+  const pointerIn = (event: { clientX: number; clientY: number }) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const addStep = (type: PipelineStepType, position?: PipelineStep['position']) => {
+    // Clicked rather than dropped: below everything else
+    const at = position ?? { x: 16, y: snap(Math.max(-STEP_NODE_HEIGHT, ...steps.map(step => step.position.y)) + STEP_NODE_HEIGHT + 24) };
+    const step = createStep(steps, type, at);
+    change([...steps, step]);
+    setSelectedId(step.id);
+    setNotice(null);
+  };
+
+  const removeStep = (stepId: string) => {
+    change(steps
+      .filter(step => step.id !== stepId)
+      .map(step => ({ ...step, depends_on: step.depends_on.filter(id => id !== stepId) })));
+    setSelectedId(null);
+  };
+
+  const connect = (fromId: string, toId: string) => {
+    const error = connectionError(steps, fromId, toId);
+    setNotice(error);
+    if (!error) {
+      change(steps.map(step => step.id === toId ? { ...step, depends_on: [...step.depends_on, fromId] } : step));
+    }
+  };
+
+  const disconnect = (fromId: string, toId: string) =>
+    change(steps.map(step => step.id === toId ? { ...step, depends_on: step.depends_on.filter(id => id !== fromId) } : step));
+
+  const handleDrop = (event: React.DragEvent) => {
+    const type = event.dataTransfer.getData(DRAG_TYPE) as PipelineStepType;
+    if (!editable || !STEP_TYPES[type]) return;
+    event.preventDefault();
+    const { x, y } = pointerIn(event);
+    addStep(type, { x: snap(x - STEP_NODE_WIDTH / 2), y: snap(y - STEP_NODE_HEIGHT / 2) });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const pointer = pointerIn(event);
+    if (moving) {
+      change(steps.map(step => step.id === moving.stepId
+        ? { ...step, position: { x: snap(pointer.x - moving.dx), y: snap(pointer.y - moving.dy) } }
+        : step));
+    } else if (connecting) {
+      setConnecting({ ...connecting, ...pointer });
+    }
+  };
+
+  // Dropping an edge anywhere but on a step, or letting go of a step, ends the gesture
+  const endGesture = () => {
+    setMoving(null);
+    setConnecting(null);
+  };
+
+  const startMove = (event: React.PointerEvent, step: PipelineStep) => {
+    setSelectedId(step.id);
+    if (!editable) return;
+    const pointer = pointerIn(event);
+    setMoving({ stepId: step.id, dx: pointer.x - step.position.x, dy: pointer.y - step.position.y });
+  };
+
+  const startConnect = (event: React.PointerEvent, step: PipelineStep) => {
+    event.stopPropagation();
+    setConnecting({ fromId: step.id, ...pointerIn(event) });
+  };
+
+  const handleStepPointerUp = (step: PipelineStep) => {
+    if (connecting && connecting.fromId !== step.id) {
+      connect(connecting.fromId, step.id);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (editable && selectedId && (event.key === 'Delete' || event.key === 'Backspace')) {
+      event.preventDefault();
+      removeStep(selectedId);
+    }
+  };
+
+  const outputPoint = (step: PipelineStep) => ({ x: step.position.x + STEP_NODE_WIDTH, y: step.position.y + STEP_NODE_HEIGHT / 2 });
+  const inputPoint = (step: PipelineStep) => ({ x: step.position.x, y: step.position.y + STEP_NODE_HEIGHT / 2 });
+  const connectingFrom = connecting && steps.find(step => step.id === connecting.fromId);
+
+  return (
+    <div className="space-y-3">
+      {editable && (
+        <div className="flex flex-wrap items-center gap-2">
+          {STEP_TYPE_ORDER.map(type => (
+            <button
+              key={type}
+              type="button"
+              draggable
+              onDragStart={event => event.dataTransfer.setData(DRAG_TYPE, type)}
+              onClick={() => addStep(type)}
+              title={`${STEP_TYPES[type].description}. Drag onto the canvas, or click to add.`}
+              className="px-3 py-1.5 text-xs rounded-lg border border-slate-600 bg-slate-700/50 text-slate-200 hover:bg-slate-600/60 cursor-grab"
+            >
+              + {STEP_TYPES[type].label}
+            </button>
+          ))}
+          <Button type="button" variant="ghost" size="sm" onClick={() => change(layoutSteps(steps))} disabled={findCycle(steps) !== null}>
+            Tidy layout
+          </Button>
+        </div>
+      )}
+
+      <div className="overflow-auto rounded-xl border border-slate-600/40 bg-slate-900/60">
+        <div
+          ref={canvasRef}
+          tabIndex={0}
+          className="relative select-none outline-none"
+          style={{ width, height }}
+          onDragOver={event => editable && event.preventDefault()}
+          onDrop={handleDrop}
+          onPointerMove={handlePointerMove}
+          onPointerUp={endGesture}
+          onPointerLeave={endGesture}
+          onKeyDown={handleKeyDown}
+          onClick={event => event.target === event.currentTarget && setSelectedId(null)}
+        >
+          <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+            <defs>
+              <marker id="pipeline-edge-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#64748b" />
+              </marker>
+            </defs>
+            {steps.flatMap(step => step.depends_on.map(fromId => {
+              const from = steps.find(s => s.id === fromId);
+              if (!from) return null;
+              const path = edgePath(outputPoint(from), inputPoint(step));
+              return (
+                <g key={`${fromId}->${step.id}`}>
+                  <path d={path} fill="none" stroke="#64748b" strokeWidth={2} markerEnd="url(#pipeline-edge-arrow)" />
+                  {editable && (
+                    <path
+                      d={path}
+                      fill="none"
+                      stroke="transparent"
+                      strokeWidth={12}
+                      className="pointer-events-auto cursor-pointer"
+                      onClick={() => disconnect(fromId, step.id)}
+                    >
+                      <title>{`Remove the edge from ${from.name} to ${step.name}`}</title>
+                    </path>
+                  )}
+                </g>
+              );
+            }))}
+            {connecting && connectingFrom && (
+              <path d={edgePath(outputPoint(connectingFrom), connecting)} fill="none" stroke="#3b82f6" strokeWidth={2} strokeDasharray="6 4" />
+            )}
+          </svg>
+
+          {steps.map(step => {
+            const state = stateOf(step.id);
+            return (
+              <div
+                key={step.id}
+                className={clsx(
+                  'absolute rounded-lg border-2 px-3 py-2 shadow-lg',
+                  state ? STEP_STATUS_CLASSES[state.status] : 'border-slate-600 bg-slate-800',
+                  stepsWithIssues.has(step.id) && 'border-red-500',
+                  selectedId === step.id && 'ring-2 ring-blue-400',
+                  editable ? 'cursor-move' : 'cursor-pointer'
+                )}
+                style={{ left: step.position.x, top: step.position.y, width: STEP_NODE_WIDTH, height: STEP_NODE_HEIGHT }}
+                onPointerDown={event => startMove(event, step)}
+                onPointerUp={() => handleStepPointerUp(step)}
+              >
+                <p className="text-sm font-medium text-slate-100 truncate">{step.name}</p>
+                <p className="text-xs text-slate-400 truncate">
+                  {state ? `${state.status}${state.status === 'running' ? ` ${Math.round(state.progress)}%` : ''}` : STEP_TYPES[step.type].label}
+                </p>
+                {state?.status === 'running' && (
+                  <div className="absolute left-0 bottom-0 h-1 bg-blue-500 rounded-bl" style={{ width: `${state.progress}%` }} />
+                )}
+                {editable && STEP_TYPES[step.type].outputs.length > 0 && (
+                  <div
+                    className="absolute -right-2 top-1/2 -translate-y-1/2 w-4 h-4 rounded-full border-2 border-blue-400 bg-slate-900 cursor-crosshair hover:bg-blue-500"
+                    title={`Drag onto the step that takes ${step.name}'s output`}
+                    onPointerDown={event => startConnect(event, step)}
+                  />
+                )}
+              </div>
+            );
+          })}
+
+          {steps.length === 0 && (
+            <p className="absolute inset-0 flex items-center justify-center text-sm text-slate-500 pointer-events-none">
+              Drag steps here to build the pipeline
+            </p>
+          )}
+        </div>
+      </div>
+
+      {notice && (
+        <p className="text-sm text-yellow-400 flex items-center">
+          <AlertTriangle size={14} className="mr-1" />
+          {notice}
+        </p>
+      )}
+
+      {selected && (
+        <div className="rounded-lg border border-slate-600/40 bg-slate-800/60 p-4 space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            {editable ? (
+              <input
+                value={selected.name}
+                onChange={event => change(steps.map(step => step.id === selected.id ? { ...step, name: event.target.value } : step))}
+                aria-label="Step name"
+                className="flex-1 px-3 py-1.5 bg-slate-700/40 border border-slate-600/40 rounded-lg text-slate-200 text-sm"
+              />
+            ) : (
+              <div className="flex items-center space-x-2">
+                <h4 className="text-sm font-semibold text-slate-100">{selected.name}</h4>
+                {stateOf(selected.id) && (
+                  <Badge variant={STEP_STATUS_BADGES[stateOf(selected.id)!.status]} size="sm">{stateOf(selected.id)!.status}</Badge>
+                )}
+              </div>
+            )}
+            <div className="flex items-center space-x-2">
+              {renderStepActions?.(selected, stateOf(selected.id))}
+              {editable && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => removeStep(selected.id)}>
+                  <Trash2 size={14} className="mr-1" />
+                  Remove
+                </Button>
+              )}
+            </div>
+          </div>
+          <p className="text-xs text-slate-400">{STEP_TYPES[selected.type].label}: {STEP_TYPES[selected.type].description}</p>
+          <dl className="grid grid-cols-3 gap-3 text-xs">
+            <div>
+              <dt className="text-slate-400">Takes</dt>
+              <dd className="text-slate-200 font-mono">
+                {STEP_TYPES[selected.type].inputs.map(input => `${input.name}: ${input.type}`).join(', ') || '—'}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-slate-400">Gives</dt>
+              <dd className="text-slate-200 font-mono">
+                {STEP_TYPES[selected.type].outputs.map(output => `${output.name}: ${output.type}`).join(', ') || '—'}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-slate-400">Depends on</dt>
+              <dd className="text-slate-200">
+                {selected.depends_on.map(id => steps.find(step => step.id === id)?.name ?? id).join(', ') || '—'}
+              </dd>
+            </div>
+          </dl>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <ul className="space-y-1">
+          {issues.map(issue => (
+            <li key={`${issue.stepId}:${issue.message}`} className="text-sm text-red-400 flex items-center">
+              <AlertTriangle size={14} className="mr-1 flex-shrink-0" />
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { Undo2, Redo2, X } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { useDashboardHistory } from '../../hooks/useDashboardStore';
+
+const TOAST_DURATION_MS = 6000;
+
+// Leave Ctrl+Z alone while typing so fields keep their native text undo
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Confirms every undoable step with an Undo (or Redo) button and binds
+ * Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) to the dashboard history.
+ */
+export function HistoryToast() {
+  const { past, future, lastApplied, undo, redo } = useDashboardHistory();
+  const [isVisible, setIsVisible] = useState(false);
+
+  const latest = past[past.length - 1];
+
+  useEffect(() => {
+    if (!latest && !lastApplied) return;
+    setIsVisible(true);
+    const timeout = setTimeout(() => setIsVisible(false), TOAST_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [latest, lastApplied]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  if (!isVisible) return null;
+
+  const message = lastApplied
+    ? `${lastApplied.direction === 'undo' ? 'Undone' : 'Redone'}: ${lastApplied.entry.label}`
+    : latest?.label;
+  const canRedo = !!lastApplied && lastApplied.direction === 'undo' && future.length > 0;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50">
+      <div className="flex items-center space-x-4 px-4 py-3 bg-slate-800 border border-slate-600 rounded-lg shadow-xl">
+        <span className="text-sm text-slate-200">{message}</span>
+        {canRedo ? (
+          <Button variant="ghost" size="sm" onClick={redo}>
+            <Redo2 size={14} className="mr-1" />
+            Redo
+          </Button>
+        ) : past.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={undo}>
+            <Undo2 size={14} className="mr-1" />
+            Undo
+          </Button>
+        )}
+        <button onClick={() => setIsVisible(false)} className="text-slate-400 hover:text-slate-200">
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
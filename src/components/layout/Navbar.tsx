@@ -1,10 +1,16 @@
 import React from 'react';
-import { Bell, User, LogOut } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Bell, User, LogOut, FolderKanban } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useWorkspace } from '../../hooks/useWorkspace';
+import { paths, VIEW_PATHS } from '../../routes';
 import { Button } from '../ui/Button';
 
 export function Navbar() {
   const { user, logout } = useAuth();
+  const { roles } = usePermissions();
+  const { workspaces, activeWorkspace, activeRole, switchWorkspace } = useWorkspace();
 
   return (
     <nav className="bg-slate-900 border-b border-slate-700 px-6 py-4">
@@ -13,25 +19,42 @@ export function Navbar() {
           <h1 className="text-xl font-bold bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
             ML Pipeline Dashboard
           </h1>
+          <label className="flex items-center space-x-2 text-slate-400" title="Workspace">
+            <FolderKanban size={16} />
+            <select
+              value={activeWorkspace?.id ?? ''}
+              onChange={(e) => switchWorkspace(e.target.value)}
+              disabled={workspaces.length < 2}
+              className="px-2 py-1 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+            >
+              {workspaces.map(workspace => (
+                <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+              ))}
+            </select>
+          </label>
         </div>
         
         <div className="flex items-center space-x-4">
-          <button className="p-2 text-slate-400 hover:text-slate-200 hover:bg-slate-800 rounded-lg transition-colors">
+          <Link
+            to={paths.withQuery(VIEW_PATHS.alerts, { status: 'active' })}
+            className="p-2 text-slate-400 hover:text-slate-200 hover:bg-slate-800 rounded-lg transition-colors"
+            title="Active alerts"
+          >
             <Bell size={20} />
-          </button>
+          </Link>
           
           <div className="flex items-center space-x-3">
             {user?.avatar ? (
-              <button 
+              <Link
+                to={VIEW_PATHS.alerts}
                 className="p-2 text-slate-400 hover:text-slate-200 hover:bg-slate-800 rounded-lg transition-colors"
-                onClick={() => window.location.href = '#alerts'}
               >
                 <img
                   src={user.avatar}
                   alt={user.name}
                   className="w-8 h-8 rounded-full object-cover"
                 />
-              </button>
+              </Link>
             ) : (
               <div className="w-8 h-8 bg-slate-700 rounded-full flex items-center justify-center">
                 <User size={16} className="text-slate-400" />
@@ -40,7 +63,8 @@ export function Navbar() {
             
             <div className="flex flex-col">
               <span className="text-sm font-medium text-slate-200">{user?.name}</span>
-              <span className="text-xs text-slate-400 capitalize">{user?.role}</span>
+              {/* The role that applies in the open workspace */}
+              <span className="text-xs text-slate-400">{roles.find(role => role.id === activeRole)?.name ?? activeRole ?? user?.role}</span>
             </div>
             
             <Button variant="ghost" size="sm" onClick={logout}>
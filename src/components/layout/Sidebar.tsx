@@ -1,13 +1,14 @@
-import React from 'react';
-import { BarChart3, Database, Cpu, UploadCloud as CloudUpload, Activity, AlertTriangle, FileText, Settings, RefreshCw } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { BarChart3, Database, Cpu, UploadCloud as CloudUpload, Activity, AlertTriangle, FileText, Settings, RefreshCw, Trash2 } from 'lucide-react';
 import { clsx } from 'clsx';
+import { View, VIEW_PATHS } from '../../routes';
 
 interface SidebarProps {
-  activeView: string;
-  onViewChange: (view: string) => void;
+  /** The view of the current route; entity pages highlight the list they belong to. */
+  activeView: View;
 }
 
-const menuItems = [
+const menuItems: { id: View; label: string; icon: typeof BarChart3 }[] = [
   { id: 'dashboard', label: 'Dashboard', icon: BarChart3 },
   { id: 'pipelines', label: 'Pipelines', icon: Cpu },
   { id: 'create-pipeline', label: 'Create Pipeline', icon: CloudUpload },
@@ -17,19 +18,21 @@ const menuItems = [
   { id: 'sync', label: 'Data Sync', icon: RefreshCw },
   { id: 'alerts', label: 'Alerts', icon: AlertTriangle },
   { id: 'logs', label: 'Logs', icon: FileText },
+  { id: 'trash', label: 'Trash', icon: Trash2 },
   { id: 'settings', label: 'Settings', icon: Settings },
 ];
 
-export function Sidebar({ activeView, onViewChange }: SidebarProps) {
+export function Sidebar({ activeView }: SidebarProps) {
   return (
     <aside className="w-64 bg-slate-900 border-r border-slate-700 h-full">
       <nav className="p-4 space-y-2">
         {menuItems.map((item) => {
           const Icon = item.icon;
           return (
-            <button
+            <Link
               key={item.id}
-              onClick={() => onViewChange(item.id)}
+              to={VIEW_PATHS[item.id]}
+              aria-current={activeView === item.id ? 'page' : undefined}
               className={clsx(
                 'w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-left transition-all duration-200',
                 {
@@ -40,7 +43,7 @@ export function Sidebar({ activeView, onViewChange }: SidebarProps) {
             >
               <Icon size={20} />
               <span className="font-medium">{item.label}</span>
-            </button>
+            </Link>
           );
         })}
       </nav>
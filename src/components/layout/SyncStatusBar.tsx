@@ -1,11 +1,17 @@
 import React from 'react';
-import { Wifi, WifiOff, RefreshCw, AlertTriangle, CheckCircle, Cloud } from 'lucide-react';
+import { Wifi, WifiOff, RefreshCw, AlertTriangle, CheckCircle, Cloud, Timer, TimerOff } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Badge } from '../ui/Badge';
 import { useDataSync } from '../../context/DataSyncContext';
 
 export function SyncStatusBar() {
-  const { syncStatus, triggerSync, syncAll } = useDataSync();
+  const { syncStatus, triggerSync, syncAll, conflicts, poisonedChanges, syncPolicy } = useDataSync();
+
+  const policyDetails = [
+    syncPolicy.syncOnFocus && 'on focus',
+    syncPolicy.compressionEnabled && 'compressed',
+    syncPolicy.excludedCollections.length > 0 && `not syncing ${syncPolicy.excludedCollections.join(', ')}`,
+  ].filter(Boolean).join(' • ');
 
   const formatLastSync = (date: Date) => {
     const now = new Date();
@@ -56,6 +62,23 @@ export function SyncStatusBar() {
             )}
           </div>
 
+          {/* Active Sync Policy */}
+          <div className="flex items-center space-x-2" title={policyDetails || undefined}>
+            {syncPolicy.autoSync ? (
+              <>
+                <Timer size={16} className="text-slate-400" />
+                <span className="text-sm text-slate-400">
+                  Auto-sync every {syncPolicy.syncInterval}s{policyDetails && ` • ${policyDetails}`}
+                </span>
+              </>
+            ) : (
+              <>
+                <TimerOff size={16} className="text-slate-500" />
+                <span className="text-sm text-slate-500">Auto-sync off</span>
+              </>
+            )}
+          </div>
+
           {/* Pending Changes */}
           {syncStatus.pendingChanges > 0 && (
             <Badge variant="warning" size="sm">
@@ -63,6 +86,20 @@ export function SyncStatusBar() {
             </Badge>
           )}
 
+          {/* Changes set aside after failing */}
+          {poisonedChanges.length > 0 && (
+            <Badge variant="danger" size="sm">
+              {poisonedChanges.length} failed
+            </Badge>
+          )}
+
+          {/* Open Conflicts */}
+          {conflicts.length > 0 && (
+            <Badge variant="danger" size="sm">
+              {conflicts.length} conflict{conflicts.length !== 1 ? 's' : ''}
+            </Badge>
+          )}
+
           {/* Sync Errors */}
           {syncStatus.syncErrors.length > 0 && (
             <div className="flex items-center space-x-2">
@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { GitMerge, Monitor, Server } from 'lucide-react';
+import { clsx } from 'clsx';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { diffFields, FieldChoice, SyncConflict, SyncEntity } from '../../store/sync';
+import { entityLabel } from '../../store/integrity';
+
+interface ConflictResolutionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onResolve: (resolution: FieldChoice | Record<string, FieldChoice>) => void;
+  conflict: SyncConflict;
+  /** The entity as it is in this tab now, which may include edits made after the conflict was found. */
+  local?: SyncEntity;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value, null, 2);
+  return String(value);
+};
+
+// Start from whichever side actually changed the field; fields changed on both sides start with this device
+const defaultChoices = (conflict: SyncConflict, local: SyncEntity, server: SyncEntity) =>
+  Object.fromEntries(diffFields(local, server).map(field => {
+    const serverChanged = JSON.stringify(server[field]) !== JSON.stringify(conflict.base?.[field]);
+    const localChanged = JSON.stringify(local[field]) !== JSON.stringify(conflict.base?.[field]);
+    return [field, serverChanged && !localChanged ? 'server' : 'local'];
+  })) as Record<string, FieldChoice>;
+
+export function ConflictResolutionModal({ isOpen, onClose, onResolve, conflict, local }: ConflictResolutionModalProps) {
+  const server = conflict.server;
+  const canPickFields = !!local && !!server;
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>({});
+
+  useEffect(() => {
+    setChoices(local && server ? defaultChoices(conflict, local, server) : {});
+  }, [conflict, local, server]);
+
+  const fields = local && server ? diffFields(local, server).filter(field => field !== 'id') : [];
+  const name = entityLabel(local ?? server ?? { id: conflict.entityId });
+
+  const renderCell = (field: string, side: FieldChoice, value: unknown) => (
+    <button
+      type="button"
+      onClick={() => setChoices(prev => ({ ...prev, [field]: side }))}
+      className={clsx(
+        'w-full text-left p-2 rounded-lg border transition-colors',
+        choices[field] === side
+          ? 'border-blue-500 bg-blue-500/10'
+          : 'border-slate-700 bg-slate-900/40 hover:border-slate-500'
+      )}
+    >
+      <pre className="text-xs text-slate-200 whitespace-pre-wrap break-all font-mono">{formatValue(value)}</pre>
+    </button>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Resolve Sync Conflict" size="xl">
+      <div className="space-y-4">
+        <div className="flex items-start space-x-3 p-3 bg-yellow-900/20 border border-yellow-800 rounded-lg">
+          <GitMerge size={18} className="text-yellow-400 mt-0.5" />
+          <p className="text-sm text-slate-300">
+            <span className="font-medium text-slate-100">"{name}"</span> was changed on this device and on the server
+            (revision {conflict.serverRevision}).{' '}
+            {canPickFields ? 'Pick which value to keep for each field.' : 'One side deleted it; choose which version to keep.'}
+          </p>
+        </div>
+
+        {canPickFields ? (
+          <div className="max-h-[28rem] overflow-y-auto">
+            <div className="grid grid-cols-[10rem_1fr_1fr] gap-2 text-xs font-medium text-slate-400 pb-2 border-b border-slate-700 sticky top-0 bg-slate-800">
+              <span>Field</span>
+              <span className="flex items-center"><Monitor size={12} className="mr-1" />This device</span>
+              <span className="flex items-center"><Server size={12} className="mr-1" />Server</span>
+            </div>
+            {fields.map(field => (
+              <div key={field} className="grid grid-cols-[10rem_1fr_1fr] gap-2 py-2 border-b border-slate-700/50">
+                <div className="text-sm text-slate-300 break-all">
+                  {field}
+                  {conflict.fields.includes(field) && (
+                    <Badge variant="warning" size="sm" className="mt-1">Both changed</Badge>
+                  )}
+                </div>
+                {renderCell(field, 'local', local?.[field])}
+                {renderCell(field, 'server', server?.[field])}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="p-3 bg-slate-900/40 border border-slate-700 rounded-lg">
+              <p className="text-xs text-slate-400 mb-1">This device</p>
+              <p className="text-sm text-slate-200">{local ? 'Edited' : 'Deleted'}</p>
+            </div>
+            <div className="p-3 bg-slate-900/40 border border-slate-700 rounded-lg">
+              <p className="text-xs text-slate-400 mb-1">Server</p>
+              <p className="text-sm text-slate-200">{server ? 'Edited' : 'Deleted'}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t border-slate-700">
+          <Button variant="secondary" onClick={() => onResolve('server')}>
+            Keep Server
+          </Button>
+          <Button variant="secondary" onClick={() => onResolve('local')}>
+            Keep This Device
+          </Button>
+          {canPickFields && (
+            <Button variant="primary" onClick={() => onResolve(choices)}>
+              Apply Selection
+            </Button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
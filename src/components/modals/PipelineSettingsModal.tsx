@@ -4,6 +4,8 @@ import { Modal } from '../ui/Modal';
 import { Button } from '../ui/Button';
 import { Badge } from '../ui/Badge';
 import { Pipeline } from '../../types';
+import { useDashboardSelector } from '../../hooks/useDashboardStore';
+import { selectPipelineById } from '../../store/selectors';
 
 interface PipelineSettingsModalProps {
   isOpen: boolean;
@@ -12,38 +14,52 @@ interface PipelineSettingsModalProps {
   pipeline: Pipeline;
 }
 
+const settingsFromPipeline = (pipeline: Pipeline) => ({
+  name: pipeline.name,
+  description: pipeline.description || '',
+  algorithm: pipeline.algorithm || 'random_forest',
+  hyperparameters: pipeline.hyperparameters || {
+    n_estimators: 100,
+    max_depth: 10,
+    min_samples_split: 5,
+    learning_rate: 0.1
+  },
+  notifications: pipeline.notifications || {
+    email: true,
+    slack: false,
+    webhook: ''
+  },
+  schedule: pipeline.schedule || {
+    enabled: false,
+    frequency: 'manual',
+    time: '09:00'
+  },
+  retries: pipeline.retries || {
+    enabled: true,
+    maxRetries: 3,
+    backoffStrategy: 'exponential'
+  }
+});
+
+// Fields this modal edits; a change to any of them elsewhere makes the open form stale
+const editedFields = (pipeline: Pipeline) => JSON.stringify(settingsFromPipeline(pipeline));
+
 export function PipelineSettingsModal({
   isOpen,
   onClose,
   onSave,
   pipeline
 }: PipelineSettingsModalProps) {
-  const [settings, setSettings] = useState({
-    name: pipeline.name,
-    description: pipeline.description || '',
-    algorithm: pipeline.algorithm || 'random_forest',
-    hyperparameters: pipeline.hyperparameters || {
-      n_estimators: 100,
-      max_depth: 10,
-      min_samples_split: 5,
-      learning_rate: 0.1
-    },
-    notifications: pipeline.notifications || {
-      email: true,
-      slack: false,
-      webhook: ''
-    },
-    schedule: pipeline.schedule || {
-      enabled: false,
-      frequency: 'manual',
-      time: '09:00'
-    },
-    retries: pipeline.retries || {
-      enabled: true,
-      maxRetries: 3,
-      backoffStrategy: 'exponential'
-    }
-  });
+  const latestPipeline = useDashboardSelector(selectPipelineById(pipeline.id));
+  const [basePipeline, setBasePipeline] = useState(pipeline);
+  const [settings, setSettings] = useState(() => settingsFromPipeline(pipeline));
+  const isStale = !!latestPipeline && editedFields(latestPipeline) !== editedFields(basePipeline);
+
+  const handleLoadLatest = () => {
+    if (!latestPipeline) return;
+    setBasePipeline(latestPipeline);
+    setSettings(settingsFromPipeline(latestPipeline));
+  };
 
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -94,6 +110,17 @@ export function PipelineSettingsModal({
   return (
     <Modal isOpen={isOpen} onClose={onClose} title="Pipeline Settings" size="xl">
       <form onSubmit={handleSubmit} className="space-y-6">
+        {isStale && (
+          <div className="flex items-center justify-between p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+            <p className="text-sm text-yellow-300">
+              This pipeline was changed elsewhere (for example in another tab) while you were editing. Saving will overwrite those changes.
+            </p>
+            <Button type="button" variant="secondary" size="sm" onClick={handleLoadLatest}>
+              Load latest
+            </Button>
+          </div>
+        )}
+
         {/* Basic Information */}
         <div className="space-y-4">
           <h3 className="text-lg font-semibold text-slate-200 flex items-center">
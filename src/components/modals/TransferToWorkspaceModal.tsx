@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRightLeft } from 'lucide-react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { useMockData } from '../../hooks/useMockData';
+import { useWorkspace } from '../../hooks/useWorkspace';
+import { EntityRef } from '../../types';
+
+interface TransferToWorkspaceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** The entity to move or copy. */
+  entity: { ref: EntityRef; name: string };
+  /** Moving takes the entity out of this workspace, so it needs delete rights here. */
+  allowMove: boolean;
+}
+
+/** Moves or copies an entity to another workspace the user can open. */
+export function TransferToWorkspaceModal({ isOpen, onClose, entity, allowMove }: TransferToWorkspaceModalProps) {
+  const { previewDelete, moveToWorkspace, copyToWorkspace } = useMockData();
+  const { workspaces, activeWorkspace } = useWorkspace();
+  const targets = workspaces.filter(workspace => workspace.id !== activeWorkspace?.id);
+  // Rendered only while an entity is picked, so each one starts from these
+  const [targetId, setTargetId] = useState(() => targets[0]?.id ?? '');
+  const [mode, setMode] = useState<'move' | 'copy'>(allowMove ? 'move' : 'copy');
+
+  // A move takes along what deleting the entity would take
+  const movedWith = useMemo(() => {
+    if (mode !== 'move') return [];
+    return previewDelete(entity.ref).removed.filter(item => item.collection !== 'alerts');
+  }, [entity, mode, previewDelete]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!targetId) return;
+    if (mode === 'move') {
+      moveToWorkspace(entity.ref, targetId);
+    } else {
+      copyToWorkspace(entity.ref, targetId);
+    }
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Move or Copy "${entity.name}"`} size="md">
+      {targets.length === 0 ? (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-300">There is no other workspace you can open. Ask an administrator to add you to one.</p>
+          <div className="flex justify-end">
+            <Button variant="secondary" onClick={onClose}>Close</Button>
+          </div>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-slate-200 mb-2">Workspace</label>
+            <select
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+            >
+              {targets.map(workspace => (
+                <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            {(['move', 'copy'] as const).map(option => (
+              <label key={option} className={`flex items-start space-x-3 p-3 rounded-lg border ${mode === option ? 'border-blue-500/50 bg-blue-600/10' : 'border-slate-600'} ${option === 'move' && !allowMove ? 'opacity-50' : 'cursor-pointer'}`}>
+                <input
+                  type="radio"
+                  name="transfer-mode"
+                  checked={mode === option}
+                  onChange={() => setMode(option)}
+                  disabled={option === 'move' && !allowMove}
+                  className="mt-1"
+                />
+                <div>
+                  <p className="text-sm font-medium text-slate-200">{option === 'move' ? 'Move' : 'Copy'}</p>
+                  <p className="text-xs text-slate-400">
+                    {option === 'move'
+                      ? 'Takes it, with everything that depends on it, out of this workspace.'
+                      : 'Leaves it here and puts a copy in the other workspace.'}
+                    {' '}Datasets and connections it needs are copied along, so nothing points across workspaces.
+                  </p>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {movedWith.length > 0 && (
+            <div className="p-3 bg-slate-700/50 border border-slate-600 rounded-lg">
+              <p className="text-sm font-medium text-slate-200 mb-1">Also moves:</p>
+              <ul className="max-h-40 overflow-y-auto space-y-1">
+                {movedWith.map(item => (
+                  <li key={`${item.collection}-${item.id}`} className="text-sm text-slate-300 truncate">{item.label}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex space-x-3">
+            <Button type="submit" variant="primary" className="flex-1" disabled={!targetId}>
+              <ArrowRightLeft size={16} className="mr-2" />
+              {mode === 'move' ? 'Move' : 'Copy'}
+            </Button>
+            <Button type="button" variant="secondary" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+    </Modal>
+  );
+}
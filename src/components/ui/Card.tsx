@@ -2,14 +2,17 @@ import React from 'react';
 import { clsx } from 'clsx';
 
 interface CardProps {
+  /** Lets deep links scroll to the card. */
+  id?: string;
   className?: string;
   children: React.ReactNode;
   hover?: boolean;
 }
 
-export function Card({ className, children, hover = false }: CardProps) {
+export function Card({ id, className, children, hover = false }: CardProps) {
   return (
     <div
+      id={id}
       className={clsx(
         'bg-slate-800 border border-slate-700 rounded-xl shadow-lg',
         {
@@ -2,6 +2,17 @@ import React from 'react';
 import { AlertTriangle } from 'lucide-react';
 import { Modal } from './Modal';
 import { Button } from './Button';
+import { CollectionKey } from '../../store/dashboardStore';
+import { DeletionImpact } from '../../store/integrity';
+
+const COLLECTION_LABELS: Partial<Record<CollectionKey, string>> = {
+  pipelines: 'Pipelines',
+  pipelineRuns: 'Runs',
+  datasets: 'Datasets',
+  experiments: 'Models',
+  externalConnections: 'Connections',
+  alerts: 'Alerts',
+};
 
 interface DeleteConfirmModalProps {
   isOpen: boolean;
@@ -11,6 +22,8 @@ interface DeleteConfirmModalProps {
   message: string;
   confirmText?: string;
   isLoading?: boolean;
+  /** Dry-run result listing everything else the delete will remove. */
+  impact?: DeletionImpact | null;
 }
 
 export function DeleteConfirmModal({
@@ -20,10 +33,16 @@ export function DeleteConfirmModal({
   title,
   message,
   confirmText = 'Delete',
-  isLoading = false
+  isLoading = false,
+  impact
 }: DeleteConfirmModalProps) {
+  const hasImpact = !!impact && (impact.removed.length > 0 || impact.detached.length > 0);
+  const groups = (Object.keys(COLLECTION_LABELS) as CollectionKey[])
+    .map(collection => ({ collection, entities: impact?.removed.filter(entity => entity.collection === collection) ?? [] }))
+    .filter(group => group.entities.length > 0);
+
   return (
-    <Modal isOpen={isOpen} onClose={onClose} title={title} size="sm">
+    <Modal isOpen={isOpen} onClose={onClose} title={title} size={hasImpact ? 'md' : 'sm'}>
       <div className="space-y-6">
         <div className="flex items-center space-x-4">
           <div className="p-3 bg-red-500/10 rounded-xl">
@@ -34,6 +53,40 @@ export function DeleteConfirmModal({
           </div>
         </div>
 
+        {hasImpact && (
+          <div className="space-y-3">
+            <p className="text-sm font-medium text-slate-200">This will also move to Trash:</p>
+            <div className="max-h-60 overflow-y-auto space-y-3 p-3 bg-slate-700/50 border border-slate-600 rounded-lg">
+              {groups.map(group => (
+                <div key={group.collection}>
+                  <p className="text-xs font-medium text-slate-400 uppercase tracking-wide mb-1">
+                    {COLLECTION_LABELS[group.collection]} ({group.entities.length})
+                  </p>
+                  <ul className="space-y-1">
+                    {group.entities.map(entity => (
+                      <li key={entity.id} className="text-sm text-slate-200 truncate">{entity.label}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+              {impact!.detached.length > 0 && (
+                <div>
+                  <p className="text-xs font-medium text-slate-400 uppercase tracking-wide mb-1">
+                    Kept, but unlinked ({impact!.detached.length})
+                  </p>
+                  <ul className="space-y-1">
+                    {impact!.detached.map(entity => (
+                      <li key={`${entity.collection}-${entity.id}`} className="text-sm text-slate-300 truncate">
+                        {entity.label} <span className="text-slate-500">({entity.field})</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         <div className="flex space-x-3">
           <Button
             variant="danger"
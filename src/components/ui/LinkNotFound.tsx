@@ -0,0 +1,24 @@
+import { Link } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+
+interface LinkNotFoundProps {
+  /** "pipeline", "dataset", ... */
+  noun: string;
+  /** Where "Show all" goes: the list the entity would be in. */
+  backTo: string;
+}
+
+/** Shown above a list when a deep link points at an entity that is not there. */
+export function LinkNotFound({ noun, backTo }: LinkNotFoundProps) {
+  return (
+    <div className="p-3 bg-yellow-900/30 border border-yellow-800 rounded-lg flex items-center justify-between">
+      <div className="flex items-center space-x-2">
+        <AlertTriangle size={16} className="text-yellow-400" />
+        <p className="text-yellow-200 text-sm">This {noun} was deleted, or is in a workspace you are not a member of.</p>
+      </div>
+      <Link to={backTo} className="text-sm text-blue-400 hover:text-blue-300">
+        Show all
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { useMemo } from 'react';
+import { encodeQrCode } from '../../store/qrCode';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+  className?: string;
+}
+
+// Scanners need a light margin of four modules around the code
+const QUIET_ZONE = 4;
+
+export function QrCode({ value, size = 192, className }: QrCodeProps) {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    const commands = modules.flatMap((row, y) =>
+      row.flatMap((dark, x) => (dark ? [`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`] : []))
+    );
+    return { path: commands.join(''), dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label="QR code"
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+}
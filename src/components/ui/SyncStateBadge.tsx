@@ -0,0 +1,41 @@
+import { Cloud, CloudOff, HardDrive, RefreshCw } from 'lucide-react';
+import { Badge } from './Badge';
+import { EntitySyncState } from '../../store/sync';
+
+interface SyncStateBadgeProps {
+  state: EntitySyncState;
+  className?: string;
+}
+
+export function SyncStateBadge({ state, className }: SyncStateBadgeProps) {
+  switch (state) {
+    case 'synced':
+      return (
+        <Badge variant="success" size="sm" className={className}>
+          <Cloud size={12} className="mr-1" />
+          Synced
+        </Badge>
+      );
+    case 'pending':
+      return (
+        <Badge variant="warning" size="sm" className={className}>
+          <RefreshCw size={12} className="mr-1" />
+          Pending
+        </Badge>
+      );
+    case 'failed':
+      return (
+        <Badge variant="danger" size="sm" className={className}>
+          <CloudOff size={12} className="mr-1" />
+          Sync failed
+        </Badge>
+      );
+    case 'local':
+      return (
+        <Badge variant="default" size="sm" className={className}>
+          <HardDrive size={12} className="mr-1" />
+          Local only
+        </Badge>
+      );
+  }
+}
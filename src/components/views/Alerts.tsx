@@ -1,27 +1,54 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { AlertTriangle, CheckCircle, Bell, X } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { Badge } from '../ui/Badge';
 import { useMockData } from '../../hooks/useMockData';
-import { useAuth } from '../../context/AuthContext';
+import { usePermission } from '../../hooks/usePermissions';
+import { useSearchParamState } from '../../hooks/useSearchParamState';
+import { entityPath } from '../../routes';
+import { Alert } from '../../types';
+
+const SEVERITY_FILTERS = ['all', 'high', 'medium', 'low'] as const;
+const STATUS_FILTERS = ['all', 'active', 'acknowledged'] as const;
+
+const selectClassName = 'px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-sm text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500';
+
+// "Open pipeline" and so on, for alerts about an entity
+const ENTITY_LINK_LABELS: Record<NonNullable<Alert['entity_ref']>['type'], string> = {
+  pipeline: 'Open pipeline',
+  dataset: 'Open dataset',
+  experiment: 'Open model',
+  connection: 'Open connection',
+};
 
 export function Alerts() {
-  const { alerts, setAlerts } = useMockData();
-  const { user } = useAuth();
+  const { alerts, acknowledgeAlert, dismissAlert } = useMockData();
+  const canManageAlerts = usePermission('alert:manage');
+  // /alerts?severity=high&status=active
+  const [severity, setSeverity] = useSearchParamState<typeof SEVERITY_FILTERS[number]>('severity', 'all', SEVERITY_FILTERS);
+  const [status, setStatus] = useSearchParamState<typeof STATUS_FILTERS[number]>('status', 'all', STATUS_FILTERS);
 
   const handleAcknowledge = (alertId: string) => {
-    setAlerts(prev => prev.map(alert => 
-      alert.id === alertId ? { ...alert, acknowledged: true } : alert
-    ));
+    acknowledgeAlert(alertId);
   };
 
   const handleDismiss = (alertId: string) => {
-    setAlerts(prev => prev.filter(alert => alert.id !== alertId));
+    dismissAlert(alertId);
   };
 
   const activeAlerts = alerts.filter(alert => !alert.acknowledged);
   const acknowledgedAlerts = alerts.filter(alert => alert.acknowledged);
+  const matchesSeverity = (alert: Alert) => severity === 'all' || alert.severity === severity;
+  const listedActive = status === 'acknowledged' ? [] : activeAlerts.filter(matchesSeverity);
+  const listedAcknowledged = status === 'active' ? [] : acknowledgedAlerts.filter(matchesSeverity);
+
+  const renderEntityLink = (alert: Alert) => alert.entity_ref && (
+    <Link to={entityPath(alert.entity_ref)} className="text-xs text-blue-400 hover:text-blue-300">
+      {ENTITY_LINK_LABELS[alert.entity_ref.type]}
+    </Link>
+  );
 
   return (
     <div className="space-y-6">
@@ -82,12 +109,26 @@ export function Alerts() {
         </Card>
       </div>
 
+      <div className="flex items-center space-x-3">
+        <select value={severity} onChange={(e) => setSeverity(e.target.value as typeof severity)} className={selectClassName}>
+          <option value="all">All severities</option>
+          <option value="high">High</option>
+          <option value="medium">Medium</option>
+          <option value="low">Low</option>
+        </select>
+        <select value={status} onChange={(e) => setStatus(e.target.value as typeof status)} className={selectClassName}>
+          <option value="all">Active and acknowledged</option>
+          <option value="active">Active only</option>
+          <option value="acknowledged">Acknowledged only</option>
+        </select>
+      </div>
+
       {/* Active Alerts */}
-      {activeAlerts.length > 0 && (
+      {listedActive.length > 0 && (
         <div className="space-y-4">
           <h2 className="text-xl font-semibold text-slate-100">Active Alerts</h2>
           
-          {activeAlerts.map((alert) => (
+          {listedActive.map((alert) => (
             <Card key={alert.id}>
               <CardContent className="flex items-center justify-between py-4">
                 <div className="flex items-center space-x-4">
@@ -114,11 +155,12 @@ export function Alerts() {
                       <span className="text-xs text-slate-400">
                         {alert.type} • {new Date(alert.timestamp).toLocaleString()}
                       </span>
+                      {renderEntityLink(alert)}
                     </div>
                   </div>
                 </div>
 
-                {user?.role === 'admin' && (
+                {canManageAlerts && (
                   <div className="flex space-x-2">
                     <Button
                       variant="secondary"
@@ -144,11 +186,11 @@ export function Alerts() {
       )}
 
       {/* Acknowledged Alerts */}
-      {acknowledgedAlerts.length > 0 && (
+      {listedAcknowledged.length > 0 && (
         <div className="space-y-4">
           <h2 className="text-xl font-semibold text-slate-100">Acknowledged Alerts</h2>
           
-          {acknowledgedAlerts.map((alert) => (
+          {listedAcknowledged.map((alert) => (
             <Card key={alert.id}>
               <CardContent className="flex items-center justify-between py-4 opacity-60">
                 <div className="flex items-center space-x-4">
@@ -163,11 +205,12 @@ export function Alerts() {
                       <span className="text-xs text-slate-500">
                         {alert.type} • {new Date(alert.timestamp).toLocaleString()}
                       </span>
+                      {renderEntityLink(alert)}
                     </div>
                   </div>
                 </div>
 
-                {user?.role === 'admin' && (
+                {canManageAlerts && (
                   <Button
                     variant="ghost"
                     size="sm"
@@ -182,6 +225,10 @@ export function Alerts() {
         </div>
       )}
 
+      {alerts.length > 0 && listedActive.length === 0 && listedAcknowledged.length === 0 && (
+        <p className="text-sm text-slate-400">No alerts match these filters.</p>
+      )}
+
       {alerts.length === 0 && (
         <Card>
           <CardContent className="text-center py-12">
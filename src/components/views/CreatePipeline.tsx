@@ -1,10 +1,14 @@
 import React, { useState } from 'react';
-import { Plus, ArrowLeft, Lightbulb, Cpu, Database, Target, Upload, Play, CheckCircle } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Plus, ArrowLeft, Lightbulb, Cpu, Database, Target, Upload, Play, CheckCircle, GitBranch } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { Badge } from '../ui/Badge';
+import { PipelineGraphEditor } from '../forms/PipelineGraphEditor';
 import { useMockData } from '../../hooks/useMockData';
-import { useAuth } from '../../context/AuthContext';
+import { usePermission } from '../../hooks/usePermissions';
+import { paths, VIEW_PATHS } from '../../routes';
+import { defaultPipelineGraph, validatePipelineGraph } from '../../store/pipelineGraph';
 
 interface CreatePipelineProps {
   onBack: () => void;
@@ -12,12 +16,14 @@ interface CreatePipelineProps {
 
 export function CreatePipeline({ onBack }: CreatePipelineProps) {
   const { datasets, pipelines, addPipeline, setAlerts } = useMockData();
-  const { user } = useAuth();
+  const canCreatePipelines = usePermission('pipeline:create');
+  const navigate = useNavigate();
   const [showForm, setShowForm] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [dragActive, setDragActive] = useState(false);
   const [createdPipelineId, setCreatedPipelineId] = useState<string | null>(null);
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [steps, setSteps] = useState(defaultPipelineGraph);
   
   const [formData, setFormData] = useState({
     pipelineName: '',
@@ -76,6 +82,11 @@ export function CreatePipeline({ onBack }: CreatePipelineProps) {
     if (!formData.trainingFile) {
       errors.trainingFile = 'Training data file is required';
     }
+
+    // Pipeline graph validation
+    if (validatePipelineGraph(steps).length > 0) {
+      errors.steps = 'Fix the issues in the pipeline steps';
+    }
     
     setFormErrors(errors);
     return Object.keys(errors).length === 0;
@@ -169,6 +180,7 @@ export function CreatePipeline({ onBack }: CreatePipelineProps) {
         test_size: formData.testSize,
         epochs: formData.epochs,
         learning_rate: formData.learningRate,
+        steps,
       };
       
       formDataToSend.append('config', JSON.stringify(pipelineConfig));
@@ -194,7 +206,8 @@ export function CreatePipeline({ onBack }: CreatePipelineProps) {
       }
 
       const newPipeline = {
-        id: `pipeline_${Date.now()}`,
+        // The API's id, when it gives one, so the links below reach this pipeline
+        id: result.pipeline_id ?? `pipeline_${Date.now()}`,
         name: formData.pipelineName,
         description: `${modelTypeOptions.find(m => m.value === formData.modelType)?.label} model for ${formData.targetColumn} prediction`,
         status: 'idle' as const,
@@ -208,6 +221,7 @@ export function CreatePipeline({ onBack }: CreatePipelineProps) {
           learning_rate: formData.learningRate,
           target_column: formData.targetColumn,
         },
+        steps,
       };
 
       addPipeline(newPipeline);
@@ -508,6 +522,26 @@ export function CreatePipeline({ onBack }: CreatePipelineProps) {
                   </div>
                 </div>
 
+                {/* Pipeline Steps */}
+                <div className="space-y-6">
+                  <h3 className="text-lg font-semibold text-slate-200 flex items-center">
+                    <div className="p-1.5 bg-cyan-500/20 rounded-lg mr-3">
+                      <GitBranch size={16} className="text-cyan-400" />
+                    </div>
+                    Pipeline Steps
+                  </h3>
+                  <p className="text-xs text-slate-400 leading-relaxed">
+                    Drag steps onto the canvas and connect an output handle to the step that takes it. Each step runs once everything it depends on has finished.
+                  </p>
+                  <PipelineGraphEditor steps={steps} onChange={setSteps} disabled={isSubmitting} />
+                  {formErrors.steps && (
+                    <p className="text-red-400 text-sm flex items-center">
+                      <span className="mr-1">⚠️</span>
+                      {formErrors.steps}
+                    </p>
+                  )}
+                </div>
+
                 {/* Configuration Summary */}
                 <div className="bg-gradient-to-r from-blue-900/20 to-purple-900/20 border border-blue-800/40 rounded-xl p-5 sm:p-6">
                   <h4 className="font-semibold text-blue-300 mb-4 flex items-center text-base">
@@ -531,6 +565,10 @@ export function CreatePipeline({ onBack }: CreatePipelineProps) {
                       <span className="text-slate-400">Test Split:</span>
                       <span className="text-slate-200 ml-2">{(formData.testSize * 100).toFixed(0)}%</span>
                     </div>
+                    <div>
+                      <span className="text-slate-400">Steps:</span>
+                      <span className="text-slate-200 ml-2">{steps.length}</span>
+                    </div>
                     <div>
                       <span className="text-slate-400">Training File:</span>
                       <span className="text-slate-200 ml-2">
@@ -558,11 +596,7 @@ export function CreatePipeline({ onBack }: CreatePipelineProps) {
                         <Button
                           variant="secondary"
                           size="sm"
-                          onClick={() => {
-                            // Navigate to pipeline logs view
-                            console.log('View logs for pipeline:', createdPipelineId);
-                            onBack(); // For now, go back to pipelines list
-                          }}
+                          onClick={() => navigate(paths.withQuery(VIEW_PATHS.logs, { q: formData.pipelineName }))}
                           className="flex-1"
                         >
                           <Database size={16} className="mr-2" />
@@ -571,11 +605,7 @@ export function CreatePipeline({ onBack }: CreatePipelineProps) {
                         <Button
                           variant="secondary"
                           size="sm"
-                          onClick={() => {
-                            // Navigate to pipeline details view
-                            console.log('View details for pipeline:', createdPipelineId);
-                            onBack(); // For now, go back to pipelines list
-                          }}
+                          onClick={() => navigate(paths.pipeline(createdPipelineId))}
                           className="flex-1"
                         >
                           <Cpu size={16} className="mr-2" />
@@ -713,7 +743,7 @@ export function CreatePipeline({ onBack }: CreatePipelineProps) {
                 </div>
               </div>
 
-              {user?.role === 'admin' ? (
+              {canCreatePipelines ? (
                 <div className="flex justify-center pt-4">
                   <Button 
                     variant="primary" 
@@ -729,7 +759,7 @@ export function CreatePipeline({ onBack }: CreatePipelineProps) {
                 <div className="text-center pt-4">
                   <div className="bg-yellow-900/20 border border-yellow-800 rounded-lg p-4">
                     <p className="text-yellow-300 text-sm">
-                      Admin access required to create pipelines. Contact your administrator for permissions.
+                      Your role does not allow creating pipelines. Contact your administrator for permissions.
                     </p>
                   </div>
                 </div>
@@ -7,11 +7,13 @@ import { ProgressBar } from '../ui/ProgressBar';
 import { LineChart } from '../charts/LineChart';
 import { useMockData } from '../../hooks/useMockData';
 import { SmartRecommendations } from '../ai/SmartRecommendations';
-import { useAuth } from '../../context/AuthContext';
+import { Can } from '../auth/Can';
+import { usePermission } from '../../hooks/usePermissions';
 
 export function Dashboard() {
   const { pipelines, datasets, experiments, alerts } = useMockData();
-  const { user } = useAuth();
+  const canUploadDatasets = usePermission('dataset:upload');
+  const canCreatePipelines = usePermission('pipeline:create');
 
   // Calculate actual performance metrics from real data
   const runningPipelines = pipelines.filter(p => p.status === 'running');
@@ -139,20 +141,22 @@ export function Dashboard() {
                 </div>
               </div>
 
-              {user?.role === 'admin' && (
+              {(canUploadDatasets || canCreatePipelines) ? (
                 <div className="flex flex-col sm:flex-row gap-3 justify-center">
-                  <Button variant="primary">
-                    <Database size={16} className="mr-2" />
-                    Upload First Dataset
-                  </Button>
-                  <Button variant="secondary">
-                    <Plus size={16} className="mr-2" />
-                    Create Pipeline
-                  </Button>
+                  {canUploadDatasets && (
+                    <Button variant="primary">
+                      <Database size={16} className="mr-2" />
+                      Upload First Dataset
+                    </Button>
+                  )}
+                  {canCreatePipelines && (
+                    <Button variant="secondary">
+                      <Plus size={16} className="mr-2" />
+                      Create Pipeline
+                    </Button>
+                  )}
                 </div>
-              )}
-              
-              {user?.role === 'viewer' && (
+              ) : (
                 <div className="bg-blue-900/20 border border-blue-800 rounded-lg p-4">
                   <p className="text-sm text-blue-300">
                     Contact your administrator to upload datasets and create ML pipelines.
@@ -202,7 +206,7 @@ export function Dashboard() {
                   <div className="text-center py-6">
                     <Cpu size={32} className="text-slate-600 mx-auto mb-3" />
                     <p className="text-sm text-slate-400">No pipelines created yet</p>
-                    {user?.role === 'admin' && (
+                    {canCreatePipelines && (
                       <Button variant="secondary" size="sm" className="mt-3">
                         Create Pipeline
                       </Button>
@@ -231,10 +235,12 @@ export function Dashboard() {
                     <p className="text-sm text-slate-400 text-center">
                       Performance trends will appear when you train models
                     </p>
-                    {user?.role === 'admin' && datasets.length > 0 && (
-                      <Button variant="secondary" size="sm" className="mt-3">
-                        Train First Model
-                      </Button>
+                    {datasets.length > 0 && (
+                      <Can permission="model:create">
+                        <Button variant="secondary" size="sm" className="mt-3">
+                          Train First Model
+                        </Button>
+                      </Can>
                     )}
                   </div>
                 )}
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
-import { Upload, Download, Database, FileText, AlertCircle, Globe, Activity, Link, Plus, Trash2, Merge, Check } from 'lucide-react';
+import { useParams } from 'react-router-dom';
+import { Upload, Download, Database, FileText, AlertCircle, Globe, Activity, Link, Plus, Trash2, Merge, Check, ArrowRightLeft } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 import { Modal } from '../ui/Modal';
 import { Button } from '../ui/Button';
@@ -7,13 +8,30 @@ import { Badge } from '../ui/Badge';
 import { ProgressBar } from '../ui/ProgressBar';
 import { ConnectExternalDataForm } from '../forms/ConnectExternalDataForm';
 import { DeleteConfirmModal } from '../ui/DeleteConfirmModal';
+import { LinkNotFound } from '../ui/LinkNotFound';
+import { TransferToWorkspaceModal } from '../modals/TransferToWorkspaceModal';
 import { MergeDatasetModal } from '../modals/MergeDatasetModal';
+import { SyncStateBadge } from '../ui/SyncStateBadge';
 import { useMockData } from '../../hooks/useMockData';
-import { useAuth } from '../../context/AuthContext';
+import { Can } from '../auth/Can';
+import { usePermission } from '../../hooks/usePermissions';
+import { useDataSync } from '../../context/DataSyncContext';
+import { DeletionImpact } from '../../store/integrity';
+import { TRASH_RETENTION_DAYS } from '../../store/trash';
+import { EntityRef } from '../../types';
+import { linkedElementId, useLinkedEntity } from '../../hooks/useLinkedEntity';
+import { VIEW_PATHS } from '../../routes';
 
 export function Data() {
-  const { datasets, addDataset, deleteDataset, mergeDatasets, externalConnections, addExternalConnection, deleteExternalConnection, setAlerts } = useMockData();
-  const { user } = useAuth();
+  const { datasets, addDataset, deleteDataset, mergeDatasets, externalConnections, addExternalConnection, deleteExternalConnection, setAlerts, previewDelete } = useMockData();
+  const { getEntitySyncState } = useDataSync();
+  const canProcessDatasets = usePermission('dataset:process');
+  const canDeleteDatasets = usePermission('dataset:delete');
+  const canManageConnections = usePermission('connection:manage');
+  // Set on /data/:datasetId and /data/connections/:connectionId
+  const { datasetId, connectionId } = useParams();
+  const linkedRef: EntityRef | null = datasetId ? { type: 'dataset', id: datasetId } : connectionId ? { type: 'connection', id: connectionId } : null;
+  const { missing } = useLinkedEntity(linkedRef);
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [showExternalModal, setShowExternalModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
@@ -22,6 +40,8 @@ export function Data() {
   const [selectedDatasets, setSelectedDatasets] = useState<Set<string>>(new Set());
   const [datasetToDelete, setDatasetToDelete] = useState<string | null>(null);
   const [connectionToDelete, setConnectionToDelete] = useState<string | null>(null);
+  const [deleteImpact, setDeleteImpact] = useState<DeletionImpact | null>(null);
+  const [entityToTransfer, setEntityToTransfer] = useState<{ ref: EntityRef; name: string; allowMove: boolean } | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const [processingDatasets, setProcessingDatasets] = useState<Set<string>>(new Set());
   const [uploadState, setUploadState] = useState({
@@ -256,6 +276,7 @@ export function Data() {
       message: `Dataset "${dataset.name}" downloaded successfully`,
       timestamp: new Date().toISOString(),
       acknowledged: false,
+      entity_ref: { type: 'dataset' as const, id: dataset.id },
     }, ...prev]);
   };
 
@@ -265,6 +286,7 @@ export function Data() {
 
   const handleDeleteDataset = (datasetId: string) => {
     setDatasetToDelete(datasetId);
+    setDeleteImpact(previewDelete({ type: 'dataset', id: datasetId }));
     setShowDeleteModal(true);
   };
 
@@ -284,6 +306,7 @@ export function Data() {
 
   const handleDeleteConnection = (connectionId: string) => {
     setConnectionToDelete(connectionId);
+    setDeleteImpact(previewDelete({ type: 'connection', id: connectionId }));
     setShowDeleteConnectionModal(true);
   };
 
@@ -337,7 +360,7 @@ export function Data() {
               <span className="text-sm text-slate-300">
                 {selectedDatasets.size} selected
               </span>
-              {selectedDatasets.size >= 2 && user?.role === 'admin' && (
+              {selectedDatasets.size >= 2 && canProcessDatasets && (
                 <Button variant="secondary" size="sm" onClick={() => setShowMergeModal(true)}>
                   <Merge size={16} className="mr-1" />
                   Merge ({selectedDatasets.size})
@@ -346,25 +369,31 @@ export function Data() {
             </div>
           )}
           
-          {user?.role === 'admin' && (
-            <div className="flex space-x-2">
-              <Button variant="secondary">
-                <Globe size={16} className="mr-2" />
-                Sync All
-              </Button>
-              <Button variant="secondary" onClick={() => setShowExternalModal(true)}>
-                <Link size={16} className="mr-2" />
-                Connect External
-              </Button>
+          <div className="flex space-x-2">
+            {canManageConnections && (
+              <>
+                <Button variant="secondary">
+                  <Globe size={16} className="mr-2" />
+                  Sync All
+                </Button>
+                <Button variant="secondary" onClick={() => setShowExternalModal(true)}>
+                  <Link size={16} className="mr-2" />
+                  Connect External
+                </Button>
+              </>
+            )}
+            <Can permission="dataset:upload">
               <Button variant="primary" onClick={() => setShowUploadModal(true)}>
                 <Upload size={16} className="mr-2" />
                 Upload Dataset
               </Button>
-            </div>
-          )}
+            </Can>
+          </div>
         </div>
       </div>
 
+      {missing && <LinkNotFound noun={linkedRef?.type === 'connection' ? 'connection' : 'dataset'} backTo={VIEW_PATHS.data} />}
+
       {/* Upload Modal */}
       <Modal
         isOpen={showUploadModal}
@@ -544,14 +573,24 @@ export function Data() {
         />
       </Modal>
 
+      {entityToTransfer && (
+        <TransferToWorkspaceModal
+          isOpen
+          onClose={() => setEntityToTransfer(null)}
+          entity={entityToTransfer}
+          allowMove={entityToTransfer.allowMove}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       <DeleteConfirmModal
         isOpen={showDeleteModal}
         onClose={() => setShowDeleteModal(false)}
         onConfirm={confirmDelete}
         title="Delete Dataset"
-        message="Are you sure you want to delete this dataset? This action cannot be undone and will remove all associated data."
+        message={`Are you sure you want to delete this dataset? It can be restored from Trash for ${TRASH_RETENTION_DAYS} days.`}
         confirmText="Delete Dataset"
+        impact={deleteImpact}
       />
 
       {/* Delete Connection Confirmation Modal */}
@@ -560,8 +599,9 @@ export function Data() {
         onClose={() => setShowDeleteConnectionModal(false)}
         onConfirm={confirmDeleteConnection}
         title="Delete External Connection"
-        message="Are you sure you want to delete this external connection? This will also remove the associated dataset and cannot be undone."
+        message={`Are you sure you want to delete this external connection? It can be restored from Trash for ${TRASH_RETENTION_DAYS} days.`}
         confirmText="Delete Connection"
+        impact={deleteImpact}
       />
 
       {/* Merge Datasets Modal */}
@@ -585,7 +625,12 @@ export function Data() {
           
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
             {externalConnections.map((connection) => (
-              <Card key={connection.id} hover>
+              <Card
+                key={connection.id}
+                id={linkedElementId({ type: 'connection', id: connection.id })}
+                className={connection.id === connectionId ? 'ring-2 ring-blue-500' : undefined}
+                hover
+              >
                 <CardContent className="p-4">
                   <div className="flex items-center justify-between mb-3">
                     <div className="flex items-center space-x-2">
@@ -631,12 +676,20 @@ export function Data() {
                     </div>
                   </div>
 
-                  {user?.role === 'admin' && (
+                  {canManageConnections && (
                     <div className="flex space-x-2 mt-4 pt-3 border-t border-slate-700">
                       <Button variant="ghost" size="sm" className="flex-1">
                         <Activity size={14} className="mr-1" />
                         Sync Now
                       </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEntityToTransfer({ ref: { type: 'connection', id: connection.id }, name: connection.name, allowMove: true })}
+                        title="Move or copy to another workspace"
+                      >
+                        <ArrowRightLeft size={14} />
+                      </Button>
                       <Button 
                         variant="danger" 
                         size="sm"
@@ -651,7 +704,7 @@ export function Data() {
               </Card>
             ))}
             
-            {user?.role === 'admin' && (
+            {canManageConnections && (
               <Card hover>
                 <CardContent className="p-4 flex flex-col items-center justify-center min-h-[180px] cursor-pointer" onClick={() => setShowExternalModal(true)}>
                   <div className="p-3 bg-slate-700 rounded-lg mb-3">
@@ -713,7 +766,7 @@ export function Data() {
       <div className="space-y-4">
         <div className="flex items-center justify-between">
           <h2 className="text-xl font-semibold text-slate-100">Available Datasets</h2>
-          {datasets.length > 0 && user?.role === 'admin' && (
+          {datasets.length > 0 && canProcessDatasets && (
             <div className="flex items-center space-x-2">
               <Button
                 variant="ghost"
@@ -728,10 +781,15 @@ export function Data() {
         </div>
         
         {datasets.map((dataset) => (
-          <Card key={dataset.id} hover>
+          <Card
+            key={dataset.id}
+            id={linkedElementId({ type: 'dataset', id: dataset.id })}
+            className={dataset.id === datasetId ? 'ring-2 ring-blue-500' : undefined}
+            hover
+          >
             <CardContent className="flex items-center justify-between py-4">
               <div className="flex items-center space-x-4">
-                {user?.role === 'admin' && (
+                {canProcessDatasets && (
                   <div className="flex items-center">
                     <input
                       type="checkbox"
@@ -756,6 +814,7 @@ export function Data() {
                     {processingDatasets.has(dataset.id) && (
                       <Badge variant="info" size="sm">Processing</Badge>
                     )}
+                    <SyncStateBadge state={getEntitySyncState('datasets', dataset.id)} />
                   </div>
                   <p className="text-sm text-slate-400">
                     {dataset.size.toLocaleString()} records • {dataset.columns} columns
@@ -796,26 +855,37 @@ export function Data() {
                   >
                     <Download size={16} />
                   </Button>
-                  {user?.role === 'admin' && (
-                    <>
-                      <Button 
-                        variant="secondary" 
-                        size="sm"
-                        onClick={() => handleManualPreprocess(dataset.id)}
-                        disabled={processingDatasets.has(dataset.id)}
-                        isLoading={processingDatasets.has(dataset.id)}
-                      >
-                        {processingDatasets.has(dataset.id) ? 'Processing...' : 'Preprocess'}
-                      </Button>
-                      <Button 
-                        variant="danger" 
-                        size="sm"
-                        onClick={() => handleDeleteDataset(dataset.id)}
-                        disabled={processingDatasets.has(dataset.id)}
-                      >
-                        <Trash2 size={16} />
-                      </Button>
-                    </>
+                  {canProcessDatasets && (
+                    <Button 
+                      variant="secondary" 
+                      size="sm"
+                      onClick={() => handleManualPreprocess(dataset.id)}
+                      disabled={processingDatasets.has(dataset.id)}
+                      isLoading={processingDatasets.has(dataset.id)}
+                    >
+                      {processingDatasets.has(dataset.id) ? 'Processing...' : 'Preprocess'}
+                    </Button>
+                  )}
+                  {canProcessDatasets && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEntityToTransfer({ ref: { type: 'dataset', id: dataset.id }, name: dataset.name, allowMove: canDeleteDatasets })}
+                      disabled={processingDatasets.has(dataset.id)}
+                      title="Move or copy to another workspace"
+                    >
+                      <ArrowRightLeft size={16} />
+                    </Button>
+                  )}
+                  {canDeleteDatasets && (
+                    <Button 
+                      variant="danger" 
+                      size="sm"
+                      onClick={() => handleDeleteDataset(dataset.id)}
+                      disabled={processingDatasets.has(dataset.id)}
+                    >
+                      <Trash2 size={16} />
+                    </Button>
                   )}
                 </div>
               </div>
@@ -830,12 +900,12 @@ export function Data() {
             <Database size={48} className="text-slate-600 mx-auto mb-4" />
             <h3 className="text-lg font-semibold text-slate-400 mb-2">No datasets uploaded yet</h3>
             <p className="text-slate-500 mb-6">Upload your first dataset to get started with ML pipelines</p>
-            {user?.role === 'admin' && (
+            <Can permission="dataset:upload">
               <Button variant="primary" onClick={() => setShowUploadModal(true)}>
                 <Upload size={16} className="mr-2" />
                 Upload Dataset
               </Button>
-            )}
+            </Can>
           </CardContent>
         </Card>
       )}
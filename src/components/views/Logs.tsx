@@ -1,8 +1,9 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { Search, Filter, Download, RefreshCw } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { Badge } from '../ui/Badge';
+import { useSearchParamState } from '../../hooks/useSearchParamState';
 
 interface LogEntry {
   id: string;
@@ -14,8 +15,8 @@ interface LogEntry {
 }
 
 export function Logs() {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedLevel, setSelectedLevel] = useState<string>('all');
+  const [searchTerm, setSearchTerm] = useSearchParamState<string>('q', '');
+  const [selectedLevel, setSelectedLevel] = useSearchParamState<string>('level', 'all', ['all', 'error', 'warning', 'info', 'debug']);
 
   const mockLogs: LogEntry[] = [
     {
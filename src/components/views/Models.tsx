@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
-import { Plus, GitCompare, Play, Trash2, TrendingUp, Target, Clock, CheckCircle } from 'lucide-react';
+import { useParams } from 'react-router-dom';
+import { Plus, GitCompare, Play, Trash2, TrendingUp, Target, Clock, CheckCircle, ArrowRightLeft } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 import { Badge } from '../ui/Badge';
 import { Button } from '../ui/Button';
@@ -8,22 +9,39 @@ import { MetricsChart } from '../charts/MetricsChart';
 import { CreateModelForm } from '../forms/CreateModelForm';
 import { ModelComparisonModal } from '../modals/ModelComparisonModal';
 import { DeleteConfirmModal } from '../ui/DeleteConfirmModal';
+import { LinkNotFound } from '../ui/LinkNotFound';
+import { TransferToWorkspaceModal } from '../modals/TransferToWorkspaceModal';
+import { SyncStateBadge } from '../ui/SyncStateBadge';
 import { useMockData } from '../../hooks/useMockData';
-import { useAuth } from '../../context/AuthContext';
+import { Can } from '../auth/Can';
+import { usePermission } from '../../hooks/usePermissions';
+import { useDataSync } from '../../context/DataSyncContext';
 import { Experiment } from '../../types';
+import { DeletionImpact } from '../../store/integrity';
+import { TRASH_RETENTION_DAYS } from '../../store/trash';
+import { linkedElementId, useLinkedEntity } from '../../hooks/useLinkedEntity';
+import { VIEW_PATHS } from '../../routes';
 
 export function Models() {
-  const { experiments, addExperiment, deleteExperiment, startModelTraining } = useMockData();
-  const { user } = useAuth();
+  const { experiments, addExperiment, deleteExperiment, startModelTraining, previewDelete } = useMockData();
+  const { getEntitySyncState } = useDataSync();
+  const canTrainModels = usePermission('model:train');
+  const canDeleteModels = usePermission('model:delete');
+  const canCreateModels = usePermission('model:create');
+  // Set on /models/:modelId
+  const { modelId } = useParams();
+  const { missing } = useLinkedEntity(modelId ? { type: 'experiment', id: modelId } : null);
   
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showComparisonModal, setShowComparisonModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [selectedModels, setSelectedModels] = useState<Set<string>>(new Set());
   const [modelToDelete, setModelToDelete] = useState<string | null>(null);
+  const [deleteImpact, setDeleteImpact] = useState<DeletionImpact | null>(null);
+  const [modelToTransfer, setModelToTransfer] = useState<Experiment | null>(null);
   
   // Sort experiments by creation date (newest first)
-  const sortedExperiments = experiments.sort((a, b) => 
+  const sortedExperiments = [...experiments].sort((a, b) => 
     new Date(b.start_time).getTime() - new Date(a.start_time).getTime()
   );
 
@@ -59,6 +77,7 @@ export function Models() {
 
   const handleDeleteModel = (modelId: string) => {
     setModelToDelete(modelId);
+    setDeleteImpact(previewDelete({ type: 'experiment', id: modelId }));
     setShowDeleteModal(true);
   };
 
@@ -108,23 +127,24 @@ export function Models() {
             </div>
           )}
           
-          {user?.role === 'admin' && (
-            <div className="flex space-x-2">
-              {experiments.length > 0 && (
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={handleSelectAll}
-                >
-                  {selectedModels.size === experiments.length ? 'Deselect All' : 'Select All'}
-                </Button>
-              )}
+          {/* Comparing only reads the models, so anyone can select them */}
+          <div className="flex space-x-2">
+            {experiments.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleSelectAll}
+              >
+                {selectedModels.size === experiments.length ? 'Deselect All' : 'Select All'}
+              </Button>
+            )}
+            <Can permission="model:create">
               <Button variant="primary" onClick={() => setShowCreateModal(true)}>
                 <Plus size={16} className="mr-2" />
                 Create New Model
               </Button>
-            </div>
-          )}
+            </Can>
+          </div>
         </div>
       </div>
 
@@ -148,14 +168,26 @@ export function Models() {
         selectedModels={experiments.filter(e => selectedModels.has(e.id))}
       />
 
+      {missing && <LinkNotFound noun="model" backTo={VIEW_PATHS.models} />}
+
+      {modelToTransfer && (
+        <TransferToWorkspaceModal
+          isOpen
+          onClose={() => setModelToTransfer(null)}
+          entity={{ ref: { type: 'experiment', id: modelToTransfer.id }, name: modelToTransfer.name }}
+          allowMove={canDeleteModels}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       <DeleteConfirmModal
         isOpen={showDeleteModal}
         onClose={() => setShowDeleteModal(false)}
         onConfirm={confirmDelete}
         title="Delete Model"
-        message="Are you sure you want to delete this model? This action cannot be undone and will remove all training history and metrics."
+        message={`Are you sure you want to delete this model? It can be restored from Trash for ${TRASH_RETENTION_DAYS} days.`}
         confirmText="Delete Model"
+        impact={deleteImpact}
       />
 
       {/* Model Performance Summary */}
@@ -226,24 +258,27 @@ export function Models() {
       {/* Model List */}
       <div className="grid gap-6">
         {sortedExperiments.map((experiment) => (
-          <Card key={experiment.id}>
+          <Card
+            key={experiment.id}
+            id={linkedElementId({ type: 'experiment', id: experiment.id })}
+            className={experiment.id === modelId ? 'ring-2 ring-blue-500' : undefined}
+          >
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-3">
-                  {user?.role === 'admin' && (
-                    <input
-                      type="checkbox"
-                      checked={selectedModels.has(experiment.id)}
-                      onChange={() => handleModelSelection(experiment.id)}
-                      className="w-4 h-4 text-blue-600 bg-slate-700 border-slate-600 rounded focus:ring-blue-500 focus:ring-2"
-                    />
-                  )}
+                  <input
+                    type="checkbox"
+                    checked={selectedModels.has(experiment.id)}
+                    onChange={() => handleModelSelection(experiment.id)}
+                    className="w-4 h-4 text-blue-600 bg-slate-700 border-slate-600 rounded focus:ring-blue-500 focus:ring-2"
+                  />
                   <div>
                     <CardTitle className="flex items-center space-x-2">
                       <span>{experiment.name}</span>
                       {experiment.isNew && (
                         <Badge variant="success" size="sm">New</Badge>
                       )}
+                      <SyncStateBadge state={getEntitySyncState('experiments', experiment.id)} />
                     </CardTitle>
                     <p className="text-sm text-slate-400 mt-1">
                       Started: {new Date(experiment.start_time).toLocaleString()}
@@ -324,31 +359,39 @@ export function Models() {
 
                   {/* Model Actions */}
                   <div className="flex space-x-2 pt-4 border-t border-slate-700">
-                    {user?.role === 'admin' && (
-                      <>
-                        {experiment.status === 'completed' && (
-                          <Button variant="primary" size="sm">
-                            Deploy Model
-                          </Button>
-                        )}
-                        {experiment.status === 'idle' && (
-                          <Button 
-                            variant="secondary" 
-                            size="sm"
-                            onClick={() => handleStartTraining(experiment.id)}
-                          >
-                            <Play size={16} className="mr-1" />
-                            Start Training
-                          </Button>
-                        )}
-                        <Button 
-                          variant="danger" 
-                          size="sm"
-                          onClick={() => handleDeleteModel(experiment.id)}
-                        >
-                          <Trash2 size={16} />
-                        </Button>
-                      </>
+                    {canTrainModels && experiment.status === 'completed' && (
+                      <Button variant="primary" size="sm">
+                        Deploy Model
+                      </Button>
+                    )}
+                    {canTrainModels && experiment.status === 'idle' && (
+                      <Button 
+                        variant="secondary" 
+                        size="sm"
+                        onClick={() => handleStartTraining(experiment.id)}
+                      >
+                        <Play size={16} className="mr-1" />
+                        Start Training
+                      </Button>
+                    )}
+                    {canCreateModels && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setModelToTransfer(experiment)}
+                        title="Move or copy to another workspace"
+                      >
+                        <ArrowRightLeft size={16} />
+                      </Button>
+                    )}
+                    {canDeleteModels && (
+                      <Button 
+                        variant="danger" 
+                        size="sm"
+                        onClick={() => handleDeleteModel(experiment.id)}
+                      >
+                        <Trash2 size={16} />
+                      </Button>
                     )}
                   </div>
                 </div>
@@ -365,12 +408,12 @@ export function Models() {
             <Target size={48} className="text-slate-600 mx-auto mb-4" />
             <h3 className="text-lg font-semibold text-slate-200 mb-2">No Models Created Yet</h3>
             <p className="text-slate-400 mb-6">Create your first machine learning model to get started</p>
-            {user?.role === 'admin' && (
+            <Can permission="model:create">
               <Button variant="primary" onClick={() => setShowCreateModal(true)}>
                 <Plus size={16} className="mr-2" />
                 Create Your First Model
               </Button>
-            )}
+            </Can>
           </CardContent>
         </Card>
       )}
@@ -0,0 +1,428 @@
+import { useMemo } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, GitCompare, Pause, Play, RotateCcw, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { ProgressBar } from '../ui/ProgressBar';
+import { PipelineGraphEditor } from '../forms/PipelineGraphEditor';
+import { LinkNotFound } from '../ui/LinkNotFound';
+import { Can } from '../auth/Can';
+import { usePermission } from '../../hooks/usePermissions';
+import { useRunExecutor } from '../../hooks/useRunExecutor';
+import { useMockData } from '../../hooks/useMockData';
+import { useLinkedEntity } from '../../hooks/useLinkedEntity';
+import { useSearchParamState } from '../../hooks/useSearchParamState';
+import { canRerunFromStep, compareRuns, formatRunDuration, isActiveRun, runDuration, runsOfPipeline } from '../../store/pipelineRuns';
+import { Pipeline, PipelineRun, PipelineRunLogEntry } from '../../types';
+import { paths, VIEW_PATHS } from '../../routes';
+
+type BadgeVariant = 'default' | 'success' | 'warning' | 'danger' | 'info';
+
+const PIPELINE_STATUS_BADGES: Record<Pipeline['status'], BadgeVariant> = {
+  idle: 'default',
+  queued: 'warning',
+  running: 'info',
+  completed: 'success',
+  failed: 'danger',
+};
+
+const RUN_STATUS_BADGES: Record<PipelineRun['status'], BadgeVariant> = {
+  queued: 'default',
+  running: 'info',
+  succeeded: 'success',
+  failed: 'danger',
+  cancelled: 'warning',
+};
+
+const TRIGGER_LABELS: Record<PipelineRun['trigger'], string> = {
+  manual: 'Manual',
+  schedule: 'Scheduled',
+  retry: 'Retry',
+};
+
+const LOG_LEVEL_CLASSES: Record<PipelineRunLogEntry['level'], string> = {
+  info: 'text-slate-300',
+  warning: 'text-yellow-400',
+  error: 'text-red-400',
+};
+
+const formatAlgorithm = (algorithm: string) => algorithm.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase());
+
+const formatStarted = (run: PipelineRun) => run.started_at ? new Date(run.started_at).toLocaleString() : 'Not yet';
+
+const formatAccuracy = (run: PipelineRun) =>
+  run.metrics?.accuracy !== undefined ? `${(run.metrics.accuracy * 100).toFixed(1)}%` : '—';
+
+interface RunDetailsProps {
+  run: PipelineRun;
+  /** The run it repeats, when it is still there. */
+  rerunOf?: PipelineRun;
+  /** A pipeline runs once at a time, so re-running waits for the queued or current run. */
+  canRerun: boolean;
+  onRerun: () => void;
+  /** Repeats the step and everything after it, reusing what the run's earlier steps made. */
+  onRerunFromStep: (stepId: string) => void;
+}
+
+function RunDetails({ run, rerunOf, canRerun, onRerun, onRerunFromStep }: RunDetailsProps) {
+  const hyperparameters = Object.entries(run.parameters.hyperparameters);
+  const fromStep = run.from_step && run.parameters.steps?.find(step => step.id === run.from_step);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <CardTitle>Run #{run.number}</CardTitle>
+            <Badge variant={RUN_STATUS_BADGES[run.status]} size="sm">{run.status}</Badge>
+            <Badge size="sm">{TRIGGER_LABELS[run.trigger]}</Badge>
+          </div>
+          <Can permission="pipeline:run">
+            <Button variant="secondary" size="sm" onClick={onRerun} disabled={!canRerun} title={canRerun ? undefined : 'Wait for the current run to finish'}>
+              <RotateCcw size={14} className="mr-1" />
+              Re-run with these parameters
+            </Button>
+          </Can>
+        </div>
+        {rerunOf && (
+          <p className="text-xs text-slate-400 mt-1">
+            Repeats <Link to={paths.pipelineRun(run.pipeline_id, rerunOf.id)} className="text-blue-400 hover:text-blue-300">run #{rerunOf.number}</Link>
+            {fromStep && <> from step "{fromStep.name}"</>}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <p className="text-xs text-slate-400">Started</p>
+            <p className="text-sm text-slate-200">{formatStarted(run)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400">Duration</p>
+            <p className="text-sm text-slate-200">{formatRunDuration(runDuration(run))}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400">Accuracy</p>
+            <p className="text-sm text-blue-400">{formatAccuracy(run)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400">Drift Score</p>
+            <p className="text-sm text-purple-400">{run.metrics?.data_drift_score?.toFixed(3) ?? '—'}</p>
+          </div>
+        </div>
+
+        {run.status === 'running' && <ProgressBar value={run.progress} />}
+
+        {run.parameters.steps && (
+          <div>
+            <h3 className="text-sm font-semibold text-slate-200 mb-2">Steps</h3>
+            <PipelineGraphEditor
+              steps={run.parameters.steps}
+              stepStates={run.steps}
+              renderStepActions={step => canRerunFromStep(run, step.id) && (
+                <Can permission="pipeline:run">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => onRerunFromStep(step.id)}
+                    disabled={!canRerun}
+                    title={canRerun ? undefined : 'Wait for the current run to finish'}
+                  >
+                    <RotateCcw size={14} className="mr-1" />
+                    Re-run from this step
+                  </Button>
+                </Can>
+              )}
+            />
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div>
+            <h3 className="text-sm font-semibold text-slate-200 mb-2">Parameters</h3>
+            <dl className="text-sm space-y-1">
+              <div className="flex justify-between">
+                <dt className="text-slate-400">Algorithm</dt>
+                <dd className="text-slate-200">{run.parameters.algorithm ? formatAlgorithm(run.parameters.algorithm) : '—'}</dd>
+              </div>
+              {hyperparameters.map(([name, value]) => (
+                <div key={name} className="flex justify-between">
+                  <dt className="text-slate-400 font-mono">{name}</dt>
+                  <dd className="text-slate-200 font-mono">{String(value)}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+          <div>
+            <h3 className="text-sm font-semibold text-slate-200 mb-2">Dataset</h3>
+            {run.dataset ? (
+              <dl className="text-sm space-y-1">
+                <div className="flex justify-between">
+                  <dt className="text-slate-400">Name</dt>
+                  <dd>
+                    <Link to={paths.dataset(run.dataset.id)} className="text-blue-400 hover:text-blue-300">{run.dataset.name}</Link>
+                  </dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-slate-400">Version</dt>
+                  <dd className="text-slate-200 font-mono">{run.dataset.version}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-slate-400">Rows × Columns</dt>
+                  <dd className="text-slate-200">{run.dataset.size.toLocaleString()} × {run.dataset.columns}</dd>
+                </div>
+              </dl>
+            ) : (
+              <p className="text-sm text-slate-500">No dataset was linked when this run started.</p>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-slate-200 mb-2">Logs</h3>
+          <div className="bg-slate-900 rounded-lg p-3 font-mono text-xs max-h-64 overflow-y-auto space-y-1">
+            {run.logs.length > 0 ? run.logs.map((entry, index) => (
+              <div key={index} className={LOG_LEVEL_CLASSES[entry.level]}>
+                <span className="text-slate-500 mr-2">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                {entry.message}
+              </div>
+            )) : (
+              <p className="text-slate-500">This run was recorded before run logs were kept.</p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function RunComparison({ runs: [a, b], onClose }: { runs: [PipelineRun, PipelineRun]; onClose: () => void }) {
+  const rows = compareRuns(a, b);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Run #{a.number} vs Run #{b.number}</CardTitle>
+          <Button variant="ghost" size="sm" onClick={onClose} title="Close comparison">
+            <X size={16} />
+          </Button>
+        </div>
+        <p className="text-xs text-slate-400 mt-1">Rows that differ are highlighted.</p>
+      </CardHeader>
+      <CardContent>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-slate-600">
+              <th className="text-left py-2 px-3 text-slate-300" />
+              <th className="text-left py-2 px-3 text-slate-300">Run #{a.number}</th>
+              <th className="text-left py-2 px-3 text-slate-300">Run #{b.number}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.label} className={row.differs ? 'bg-yellow-900/20' : undefined}>
+                <td className="py-2 px-3 text-slate-400">{row.label}</td>
+                <td className={`py-2 px-3 ${row.differs ? 'text-yellow-200' : 'text-slate-300'}`}>{row.a}</td>
+                <td className={`py-2 px-3 ${row.differs ? 'text-yellow-200' : 'text-slate-300'}`}>{row.b}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * A pipeline with its run history, at /pipelines/:pipelineId. A run opens at
+ * /pipelines/:pipelineId/runs/:runId, and two picked runs are compared
+ * side by side with ?compare=runA,runB.
+ */
+export function PipelineDetail() {
+  const { pipelineId = '', runId } = useParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { pipelines, pipelineRuns, datasets, startPipeline, stopPipeline, rerunPipelineRun, rerunPipelineRunFromStep } = useMockData();
+  const executor = useRunExecutor();
+  const canRun = usePermission('pipeline:run');
+  const { missing } = useLinkedEntity({ type: 'pipeline', id: pipelineId });
+  const [compareParam, setCompareParam] = useSearchParamState<string>('compare', '');
+
+  const pipeline = pipelines.find(p => p.id === pipelineId);
+  const runs = useMemo(() => runsOfPipeline(pipelineRuns, pipelineId), [pipelineRuns, pipelineId]);
+  const selectedRun = runId ? runs.find(run => run.id === runId) : undefined;
+  const activeRun = runs.find(isActiveRun);
+  const compareIds = compareParam.split(',').filter(Boolean);
+  // Oldest first, so the comparison reads from before to after
+  const compared = runs.filter(run => compareIds.includes(run.id)).sort((a, b) => a.number - b.number);
+
+  // Picking a third run drops the one picked first
+  const toggleCompare = (id: string) =>
+    setCompareParam((compareIds.includes(id) ? compareIds.filter(picked => picked !== id) : [...compareIds, id].slice(-2)).join(','));
+
+  const openRun = (run: PipelineRun | undefined) => {
+    if (run) navigate(paths.pipelineRun(run.pipeline_id, run.id));
+  };
+
+  const backLink = (
+    <Link to={VIEW_PATHS.pipelines} className="inline-flex items-center text-sm text-slate-400 hover:text-slate-200">
+      <ArrowLeft size={14} className="mr-1" />
+      Pipelines
+    </Link>
+  );
+
+  if (missing) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <LinkNotFound noun="pipeline" backTo={VIEW_PATHS.pipelines} />
+      </div>
+    );
+  }
+  // Still switching to the workspace the pipeline is in
+  if (!pipeline) return null;
+
+  const dataset = datasets.find(d => d.id === pipeline.dataset_id);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          {backLink}
+          <div className="flex items-center space-x-3 mt-2">
+            <h1 className="text-2xl font-bold text-slate-100">{pipeline.name}</h1>
+            <Badge variant={PIPELINE_STATUS_BADGES[pipeline.status]}>{pipeline.status}</Badge>
+          </div>
+          <p className="text-sm text-slate-400 mt-1">
+            {pipeline.description && <span className="block">{pipeline.description}</span>}
+            Created: {new Date(pipeline.created_at).toLocaleDateString()}
+            {pipeline.algorithm && <span className="ml-4">Algorithm: {formatAlgorithm(pipeline.algorithm)}</span>}
+            {dataset && (
+              <span className="ml-4">
+                Dataset: <Link to={paths.dataset(dataset.id)} className="text-blue-400 hover:text-blue-300">{dataset.name}</Link>
+              </span>
+            )}
+          </p>
+        </div>
+        <Can permission="pipeline:run">
+          {activeRun ? (
+            <Button variant="secondary" onClick={() => stopPipeline(pipeline.id)}>
+              <Pause size={16} className="mr-2" />
+              Stop
+            </Button>
+          ) : (
+            <Button variant="primary" onClick={() => openRun(startPipeline(pipeline.id))}>
+              <Play size={16} className="mr-2" />
+              Start Run
+            </Button>
+          )}
+        </Can>
+      </div>
+
+      {activeRun && activeRun.id !== selectedRun?.id && (
+        <div className="p-3 bg-blue-900/20 border border-blue-800 rounded-lg space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-500" />
+              <span className="text-sm text-blue-300">
+                Run #{activeRun.number} {activeRun.status === 'queued' ? 'queued, waiting for a free run slot' : 'in progress'}
+              </span>
+              <span className="text-xs text-slate-400">
+                {!executor.isExecuting
+                  ? 'Executed by another open tab'
+                  : executor.runner === 'simulator' ? 'Simulated in the browser' : 'Running on the training backend'}
+              </span>
+            </div>
+            <Link to={paths.pipelineRun(pipeline.id, activeRun.id)} className="text-sm text-blue-400 hover:text-blue-300">
+              Show logs
+            </Link>
+          </div>
+          <ProgressBar value={activeRun.progress} />
+        </div>
+      )}
+
+      {runId && !selectedRun && <LinkNotFound noun="run" backTo={paths.pipeline(pipeline.id)} />}
+
+      {compared.length === 2 && (
+        <RunComparison runs={[compared[0], compared[1]]} onClose={() => setCompareParam('')} />
+      )}
+
+      {selectedRun && (
+        <RunDetails
+          run={selectedRun}
+          rerunOf={runs.find(run => run.id === selectedRun.rerun_of)}
+          canRerun={!activeRun}
+          onRerun={() => openRun(rerunPipelineRun(selectedRun.id))}
+          onRerunFromStep={stepId => openRun(rerunPipelineRunFromStep(selectedRun.id, stepId))}
+        />
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Run History</CardTitle>
+            <span className="flex items-center text-xs text-slate-400">
+              <GitCompare size={14} className="mr-1" />
+              Tick two runs to compare them
+            </span>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {runs.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-600">
+                    <th className="py-2 px-3" />
+                    <th className="text-left py-2 px-3 text-slate-300">Run</th>
+                    <th className="text-left py-2 px-3 text-slate-300">Status</th>
+                    <th className="text-left py-2 px-3 text-slate-300">Trigger</th>
+                    <th className="text-left py-2 px-3 text-slate-300">Started</th>
+                    <th className="text-left py-2 px-3 text-slate-300">Duration</th>
+                    <th className="text-left py-2 px-3 text-slate-300">Accuracy</th>
+                    <th className="text-left py-2 px-3 text-slate-300">Dataset Version</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.map(run => (
+                    <tr key={run.id} className={run.id === runId ? 'bg-blue-900/20' : 'hover:bg-slate-700/50'}>
+                      <td className="py-2 px-3">
+                        <input
+                          type="checkbox"
+                          checked={compareIds.includes(run.id)}
+                          onChange={() => toggleCompare(run.id)}
+                          aria-label={`Compare run #${run.number}`}
+                          className="w-4 h-4 text-blue-600 bg-slate-700 border-slate-600 rounded focus:ring-blue-500"
+                        />
+                      </td>
+                      <td className="py-2 px-3">
+                        {/* Keeps the runs picked for comparison */}
+                        <Link to={{ pathname: paths.pipelineRun(pipeline.id, run.id), search: location.search }} className="text-blue-400 hover:text-blue-300">
+                          #{run.number}
+                        </Link>
+                      </td>
+                      <td className="py-2 px-3">
+                        <Badge variant={RUN_STATUS_BADGES[run.status]} size="sm">{run.status}</Badge>
+                      </td>
+                      <td className="py-2 px-3 text-slate-400">{TRIGGER_LABELS[run.trigger]}</td>
+                      <td className="py-2 px-3 text-slate-400">{formatStarted(run)}</td>
+                      <td className="py-2 px-3 text-slate-400">{formatRunDuration(runDuration(run))}</td>
+                      <td className="py-2 px-3 text-slate-200">{formatAccuracy(run)}</td>
+                      <td className="py-2 px-3 text-slate-400 font-mono">{run.dataset?.version ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-400 text-center py-6">
+              No runs yet.{canRun && ' Start a run to train this pipeline.'}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
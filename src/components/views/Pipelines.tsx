@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
-import { Play, Pause, RefreshCw, Settings, Eye, Trash2, Copy, MoreVertical, CheckCircle } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Play, Pause, RefreshCw, Settings, Eye, Trash2, Copy, MoreVertical, CheckCircle, ArrowRightLeft } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 import { Modal } from '../ui/Modal';
 import { Button } from '../ui/Button';
@@ -7,14 +8,25 @@ import { Badge } from '../ui/Badge';
 import { ProgressBar } from '../ui/ProgressBar';
 import { CreatePipelineForm } from '../forms/CreatePipelineForm';
 import { PipelineSettingsModal } from '../modals/PipelineSettingsModal';
+import { TransferToWorkspaceModal } from '../modals/TransferToWorkspaceModal';
 import { DeleteConfirmModal } from '../ui/DeleteConfirmModal';
+import { SyncStateBadge } from '../ui/SyncStateBadge';
 import { useMockData } from '../../hooks/useMockData';
-import { useAuth } from '../../context/AuthContext';
+import { Can } from '../auth/Can';
+import { usePermission } from '../../hooks/usePermissions';
+import { useDataSync } from '../../context/DataSyncContext';
 import { Pipeline } from '../../types';
+import { DeletionImpact } from '../../store/integrity';
+import { TRASH_RETENTION_DAYS } from '../../store/trash';
+import { activeRunOf } from '../../store/pipelineRuns';
+import { paths } from '../../routes';
 
 export function Pipelines() {
-  const { pipelines, setPipelines, deletePipeline, updatePipelineSettings, datasets } = useMockData();
-  const { user } = useAuth();
+  const { pipelines, pipelineRuns, startPipeline, stopPipeline, duplicatePipeline, deletePipeline, updatePipelineSettings, datasets, previewDelete } = useMockData();
+  const { getEntitySyncState } = useDataSync();
+  const canEditPipelines = usePermission('pipeline:edit');
+  const canDeletePipelines = usePermission('pipeline:delete');
+  const navigate = useNavigate();
   
   // Force re-render when pipelines change
   React.useEffect(() => {
@@ -23,106 +35,23 @@ export function Pipelines() {
   }, [pipelines]);
   
   // Sort pipelines by creation date (newest first) and mark recent ones
-  const sortedPipelines = pipelines
+  const sortedPipelines = [...pipelines]
     .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
     .map(pipeline => ({
       ...pipeline,
       isNew: (new Date().getTime() - new Date(pipeline.created_at).getTime()) < 24 * 60 * 60 * 1000 // Less than 24 hours old
     }));
 
-  const [selectedPipeline, setSelectedPipeline] = useState<string | null>(null);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [pipelineToEdit, setPipelineToEdit] = useState<Pipeline | null>(null);
   const [pipelineToDelete, setPipelineToDelete] = useState<string | null>(null);
+  const [deleteImpact, setDeleteImpact] = useState<DeletionImpact | null>(null);
   const [showActionsMenu, setShowActionsMenu] = useState<string | null>(null);
-
-  const handleStartPipeline = (id: string) => {
-    const pipeline = pipelines.find(p => p.id === id);
-    if (!pipeline) return;
-    
-    setPipelines(prev => prev.map(p => 
-      p.id === id ? { 
-        ...p, 
-        status: 'running' as const, 
-        progress: 0,
-        model_accuracy: undefined // Clear previous accuracy while training
-      } : p
-    ));
-    
-    // Simulate training progress with accuracy updates
-    const interval = setInterval(() => {
-      setPipelines(prev => prev.map(p => {
-        if (p.id === id && p.status === 'running') {
-          const newProgress = Math.min(100, p.progress + Math.random() * 10);
-          
-          // Update accuracy gradually during training
-          let newAccuracy = p.model_accuracy;
-          if (newProgress > 20) {
-            // Start showing accuracy after 20% progress
-            const baseAccuracy = {
-              'random_forest': 0.85,
-              'logistic_regression': 0.78,
-              'svm': 0.82,
-              'gradient_boosting': 0.87,
-              'neural_network': 0.89,
-              'decision_tree': 0.76,
-              'naive_bayes': 0.73,
-            }[p.algorithm || 'random_forest'] || 0.8;
-            
-            // Gradually improve accuracy as training progresses
-            const progressFactor = (newProgress - 20) / 80; // 0 to 1 as progress goes from 20% to 100%
-            const variability = (Math.random() - 0.5) * 0.1; // Random variation
-            newAccuracy = Math.max(0.5, Math.min(0.98, 
-              baseAccuracy * (0.7 + 0.3 * progressFactor) + variability
-            ));
-          }
-          
-          if (newProgress >= 100) {
-            clearInterval(interval);
-            
-            // Final accuracy calculation
-            const finalBaseAccuracy = {
-              'random_forest': 0.89,
-              'logistic_regression': 0.82,
-              'svm': 0.85,
-              'gradient_boosting': 0.91,
-              'neural_network': 0.93,
-              'decision_tree': 0.79,
-              'naive_bayes': 0.76,
-            }[p.algorithm || 'random_forest'] || 0.85;
-            
-            const finalAccuracy = Math.max(0.75, Math.min(0.98, 
-              finalBaseAccuracy + (Math.random() - 0.5) * 0.08
-            ));
-            
-            // Update data drift score as well
-            const driftScore = Math.max(0.02, Math.min(0.35, Math.random() * 0.25));
-            
-            return { 
-              ...p, 
-              progress: 100, 
-              status: 'completed' as const,
-              model_accuracy: finalAccuracy,
-              data_drift_score: driftScore,
-              last_run: new Date().toISOString()
-            };
-          }
-          return { 
-            ...p, 
-            progress: newProgress,
-            model_accuracy: newAccuracy
-          };
-        }
-        return p;
-      }));
-    }, 1500); // Slightly slower updates for better UX
-  };
+  const [pipelineToTransfer, setPipelineToTransfer] = useState<Pipeline | null>(null);
 
   const handleStopPipeline = (id: string) => {
-    setPipelines(prev => prev.map(p => 
-      p.id === id ? { ...p, status: 'idle' as const } : p
-    ));
+    stopPipeline(id);
   };
 
   const handleCreateSuccess = () => {
@@ -148,6 +77,7 @@ export function Pipelines() {
 
   const handleDeletePipeline = (pipelineId: string, pipelineName: string) => {
     setPipelineToDelete(pipelineId);
+    setDeleteImpact(previewDelete({ type: 'pipeline', id: pipelineId }));
     setShowDeleteModal(true);
     setShowActionsMenu(null);
   };
@@ -161,17 +91,7 @@ export function Pipelines() {
   };
 
   const handleDuplicatePipeline = (pipeline: Pipeline) => {
-    const duplicatedPipeline = {
-      ...pipeline,
-      id: `pipeline_${Date.now()}`,
-      name: `${pipeline.name} (Copy)`,
-      status: 'idle' as const,
-      progress: 0,
-      created_at: new Date().toISOString(),
-      last_run: undefined,
-    };
-    
-    setPipelines(prev => [duplicatedPipeline, ...prev]);
+    duplicatePipeline(pipeline.id);
     setShowActionsMenu(null);
   };
 
@@ -204,14 +124,24 @@ export function Pipelines() {
         />
       )}
 
+      {pipelineToTransfer && (
+        <TransferToWorkspaceModal
+          isOpen
+          onClose={() => setPipelineToTransfer(null)}
+          entity={{ ref: { type: 'pipeline', id: pipelineToTransfer.id }, name: pipelineToTransfer.name }}
+          allowMove={canDeletePipelines}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       <DeleteConfirmModal
         isOpen={showDeleteModal}
         onClose={() => setShowDeleteModal(false)}
         onConfirm={confirmDelete}
         title="Delete Pipeline"
-        message="Are you sure you want to delete this pipeline? This action cannot be undone and will remove all associated data and history."
+        message={`Are you sure you want to delete this pipeline? It can be restored from Trash for ${TRASH_RETENTION_DAYS} days.`}
         confirmText="Delete Pipeline"
+        impact={deleteImpact}
       />
 
       <div className="grid gap-6">
@@ -235,6 +165,11 @@ export function Pipelines() {
               const featureCount = associatedDataset 
                 ? associatedDataset.columns
                 : 18; // Default fallback
+
+              // While training, the accuracy the run has reached so far
+              const accuracy = pipeline.status === 'running'
+                ? activeRunOf(pipelineRuns, pipeline.id)?.metrics?.accuracy
+                : pipeline.model_accuracy;
               
               return (
             <>
@@ -246,6 +181,7 @@ export function Pipelines() {
                     {pipeline.isNew && (
                       <Badge variant="success" size="sm">New</Badge>
                     )}
+                    <SyncStateBadge state={getEntitySyncState('pipelines', pipeline.id)} />
                   </div>
                   <p className="text-sm text-slate-400 mt-1">
                     {pipeline.description && (
@@ -268,6 +204,7 @@ export function Pipelines() {
                   variant={
                     pipeline.status === 'completed' ? 'success' :
                     pipeline.status === 'running' ? 'info' :
+                    pipeline.status === 'queued' ? 'warning' :
                     pipeline.status === 'failed' ? 'danger' : 'default'
                   }
                 >
@@ -281,12 +218,15 @@ export function Pipelines() {
               {pipeline.status === 'running' && (
                 <ProgressBar value={pipeline.progress} />
               )}
+              {pipeline.status === 'queued' && (
+                <p className="text-sm text-slate-400">Queued, waiting for a free run slot</p>
+              )}
 
               {/* Metrics */}
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 <div className="text-center">
                   <p className="text-2xl font-bold text-blue-400">
-                    {pipeline.model_accuracy ? `${(pipeline.model_accuracy * 100).toFixed(1)}%` : 
+                    {accuracy ? `${(accuracy * 100).toFixed(1)}%` : 
                      pipeline.status === 'running' ? (
                        <span className="animate-pulse">Training...</span>
                      ) : 'N/A'}
@@ -377,46 +317,44 @@ export function Pipelines() {
               {/* Actions */}
               <div className="flex items-center justify-between pt-4 border-t border-slate-700">
                 <div className="flex space-x-2">
-                  {user?.role === 'admin' && (
-                    <>
-                      {pipeline.status === 'running' ? (
-                        <Button
-                          variant="secondary"
-                          size="sm"
-                          onClick={() => handleStopPipeline(pipeline.id)}
-                        >
-                          <Pause size={16} className="mr-1" />
-                          Stop
-                        </Button>
-                      ) : (
-                        <Button
-                          variant="primary"
-                          size="sm"
-                          onClick={() => handleStartPipeline(pipeline.id)}
-                        >
-                          <Play size={16} className="mr-1" />
-                          Start
-                        </Button>
-                      )}
-                      
-                      <Button variant="secondary" size="sm">
-                        <RefreshCw size={16} className="mr-1" />
-                        Retrain
+                  <Can permission="pipeline:run">
+                    {pipeline.status === 'running' || pipeline.status === 'queued' ? (
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => handleStopPipeline(pipeline.id)}
+                      >
+                        <Pause size={16} className="mr-1" />
+                        Stop
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="primary"
+                        size="sm"
+                        onClick={() => startPipeline(pipeline.id)}
+                      >
+                        <Play size={16} className="mr-1" />
+                        Start
                       </Button>
-                    </>
-                  )}
+                    )}
+
+                    <Button variant="secondary" size="sm">
+                      <RefreshCw size={16} className="mr-1" />
+                      Retrain
+                    </Button>
+                  </Can>
                   
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => setSelectedPipeline(pipeline.id)}
+                    onClick={() => navigate(paths.pipeline(pipeline.id))}
                   >
                     <Eye size={16} className="mr-1" />
                     View Details
                   </Button>
                 </div>
 
-                {user?.role === 'admin' && (
+                {(canEditPipelines || canDeletePipelines) && (
                   <div className="relative">
                     <Button 
                       variant="ghost" 
@@ -429,28 +367,46 @@ export function Pipelines() {
                     {showActionsMenu === pipeline.id && (
                       <div className="absolute right-0 top-full mt-2 w-48 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-10">
                         <div className="py-1">
-                          <button
-                            onClick={() => handleEditPipeline(pipeline)}
-                            className="flex items-center w-full px-4 py-2 text-sm text-slate-200 hover:bg-slate-700 transition-colors"
-                          >
-                            <Settings size={16} className="mr-2" />
-                            Edit Settings
-                          </button>
-                          <button
-                            onClick={() => handleDuplicatePipeline(pipeline)}
-                            className="flex items-center w-full px-4 py-2 text-sm text-slate-200 hover:bg-slate-700 transition-colors"
-                          >
-                            <Copy size={16} className="mr-2" />
-                            Duplicate
-                          </button>
-                          <div className="border-t border-slate-700 my-1" />
-                          <button
-                            onClick={() => handleDeletePipeline(pipeline.id, pipeline.name)}
-                            className="flex items-center w-full px-4 py-2 text-sm text-red-400 hover:bg-red-900/20 transition-colors"
-                          >
-                            <Trash2 size={16} className="mr-2" />
-                            Delete Pipeline
-                          </button>
+                          {canEditPipelines && (
+                            <>
+                              <button
+                                onClick={() => handleEditPipeline(pipeline)}
+                                className="flex items-center w-full px-4 py-2 text-sm text-slate-200 hover:bg-slate-700 transition-colors"
+                              >
+                                <Settings size={16} className="mr-2" />
+                                Edit Settings
+                              </button>
+                              <button
+                                onClick={() => handleDuplicatePipeline(pipeline)}
+                                className="flex items-center w-full px-4 py-2 text-sm text-slate-200 hover:bg-slate-700 transition-colors"
+                              >
+                                <Copy size={16} className="mr-2" />
+                                Duplicate
+                              </button>
+                              <button
+                                onClick={() => {
+                                  setPipelineToTransfer(pipeline);
+                                  setShowActionsMenu(null);
+                                }}
+                                className="flex items-center w-full px-4 py-2 text-sm text-slate-200 hover:bg-slate-700 transition-colors"
+                              >
+                                <ArrowRightLeft size={16} className="mr-2" />
+                                Move or Copy…
+                              </button>
+                            </>
+                          )}
+                          {canEditPipelines && canDeletePipelines && (
+                            <div className="border-t border-slate-700 my-1" />
+                          )}
+                          {canDeletePipelines && (
+                            <button
+                              onClick={() => handleDeletePipeline(pipeline.id, pipeline.name)}
+                              className="flex items-center w-full px-4 py-2 text-sm text-red-400 hover:bg-red-900/20 transition-colors"
+                            >
+                              <Trash2 size={16} className="mr-2" />
+                              Delete Pipeline
+                            </button>
+                          )}
                         </div>
                       </div>
                     )}
@@ -474,11 +430,11 @@ export function Pipelines() {
             </div>
             <h3 className="text-lg font-semibold text-slate-200 mb-2">No ML Pipelines Yet</h3>
             <p className="text-slate-400 mb-6">Create your first pipeline to start training machine learning models</p>
-            {user?.role === 'admin' && (
+            <Can permission="pipeline:create">
               <p className="text-sm text-blue-400">
                 Use the "Create Pipeline" option in the sidebar to get started
               </p>
-            )}
+            </Can>
           </CardContent>
         </Card>
       )}
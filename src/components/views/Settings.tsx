@@ -1,18 +1,70 @@
-import React, { useState } from 'react';
-import { User, Bell, Database, Key, Palette, Globe, Save, RefreshCw } from 'lucide-react';
+import React, { useMemo, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { User, Bell, Database, Key, Palette, Globe, Save, RefreshCw, Download, Upload, Trash2, ShieldAlert, Link2Off, Users, Plus, Edit3, UserCog, Lock, Smartphone, ScrollText, FolderKanban } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { Badge } from '../ui/Badge';
+import { UserManagement } from '../auth/UserManagement';
+import { RecoveryCodes, TwoFactorDisable, TwoFactorSetup } from '../auth/TwoFactorSetup';
+import { SignInProviders } from '../auth/SignInProviders';
+import { ApiTokens } from '../auth/ApiTokens';
+import { AuditLog } from '../auth/AuditLog';
+import { WorkspaceManagement } from '../auth/WorkspaceManagement';
 import { useAuth } from '../../context/AuthContext';
+import { useDataSync } from '../../context/DataSyncContext';
+import { usePermission, usePermissions } from '../../hooks/usePermissions';
+import { useWorkspace } from '../../hooks/useWorkspace';
+import { useDashboardActions, useDashboardSelector, useStorageLoadReport } from '../../hooks/useDashboardStore';
+import { checkIntegrity } from '../../store/integrity';
+import { createWorkspaceBundle, downloadWorkspaceBundle, ImportReport, parseWorkspaceBundle } from '../../store/workspaceBundle';
+import { loadQuarantine, removeFromQuarantine, downloadQuarantineEntries, QuarantineEntry } from '../../store/quarantine';
+import { CollectionKey } from '../../store/dashboardStore';
+import { createRoleId, isAdminRole, Permission, PERMISSIONS, Role } from '../../store/permissions';
+import { passwordProblem } from '../../store/users';
+import { RECOVERY_CODE_COUNT } from '../../store/totp';
+import { ROTATION_GRACE_DAYS } from '../../store/apiTokens';
+import { paths } from '../../routes';
+import { IDLE_TIMEOUT_OPTIONS, normalizeSessionPolicy } from '../../store/session';
+import { MAX_SYNC_INTERVAL_SECONDS, MIN_SYNC_INTERVAL_SECONDS, normalizeSyncPolicy, SYNCED_COLLECTIONS } from '../../store/sync';
+
+const SYNC_COLLECTION_LABELS: Partial<Record<CollectionKey, string>> = {
+  pipelines: 'Pipelines',
+  pipelineRuns: 'Pipeline runs',
+  datasets: 'Datasets',
+  alerts: 'Alerts',
+  experiments: 'Models',
+  externalConnections: 'Connections',
+};
 
 export function Settings() {
-  const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState('profile');
+  const {
+    user, changePassword, passwordChangedAt, sessionPolicy, setSessionPolicy, confirmIdentity,
+    twoFactorEnabled, recoveryCodesLeft, regenerateRecoveryCodes, sessionProvider,
+  } = useAuth();
+  const { syncPolicy, setSyncPolicy } = useDataSync();
+  const { roles, saveRole, deleteRole } = usePermissions();
+  const canEditSettings = usePermission('settings:edit');
+  const canManageRoles = usePermission('roles:manage');
+  const canManageUsers = usePermission('users:manage');
+  const canManageWorkspaces = usePermission('workspaces:manage');
+  const { activeWorkspace } = useWorkspace();
+  // The role being created or edited in the Roles tab
+  const [roleDraft, setRoleDraft] = useState<Role | null>(null);
+  const loadReport = useStorageLoadReport();
+  const [quarantine, setQuarantine] = useState<QuarantineEntry[]>(() =>
+    // Entries that did not fit in the quarantine store only exist in the load report
+    loadReport.quarantineSaved ? loadQuarantine() : loadReport.quarantined
+  );
+  const { repairIntegrity, importWorkspace } = useDashboardActions();
+  const dashboardState = useDashboardSelector(state => state);
+  const integrityIssues = useMemo(() => checkIntegrity(dashboardState), [dashboardState]);
+  const navigate = useNavigate();
+  // /settings/:tab, so each tab can be linked to and back steps between them
+  const activeTab = useParams().tab ?? 'profile';
   const [settings, setSettings] = useState({
     profile: {
       name: user?.name || '',
       email: user?.email || '',
-      role: user?.role || 'viewer',
       avatar: user?.avatar || '',
       timezone: 'UTC-8',
       language: 'English',
@@ -26,17 +78,17 @@ export function Settings() {
       webhookUrl: '',
     },
     system: {
-      autoSync: true,
-      syncInterval: '30',
+      ...syncPolicy,
       retentionPeriod: '90',
-      compressionEnabled: true,
       debugMode: false,
     },
     security: {
-      twoFactorAuth: false,
-      sessionTimeout: '24',
-      apiKeyRotation: 'manual',
-      lastPasswordChange: '2024-01-15',
+      requireTwoFactorForAdmins: sessionPolicy.requireTwoFactorForAdmins,
+      sessionTimeout: String(sessionPolicy.sessionTimeoutHours),
+      idleTimeout: String(sessionPolicy.idleTimeoutMinutes),
+      apiKeyRotation: sessionPolicy.apiKeyRotation,
+      // Kept current by the password-change flow, from the signed-in account
+      lastPasswordChange: passwordChangedAt,
     },
     appearance: {
       theme: 'dark',
@@ -47,7 +99,18 @@ export function Settings() {
   });
 
   const [isLoading, setIsLoading] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [passwordForm, setPasswordForm] = useState<{ current: string; next: string; confirm: string } | null>(null);
+  const [passwordStatus, setPasswordStatus] = useState<{ error?: string; saving?: boolean; changed?: boolean }>({});
+  // Enrolment in progress, or recovery codes waiting to be saved
+  const [twoFactorFlow, setTwoFactorFlow] = useState<{ step: 'setup' } | { step: 'disable' } | { step: 'codes'; codes: string[] } | null>(null);
+  const [twoFactorError, setTwoFactorError] = useState('');
+  // Admins cannot turn 2FA off while the workspace requires it for their role
+  const isAdmin = !!user && isAdminRole(user.role, roles);
+  const twoFactorRequired = sessionPolicy.requireTwoFactorForAdmins && isAdmin;
 
   const tabs = [
     { id: 'profile', label: 'Profile', icon: User },
@@ -55,11 +118,28 @@ export function Settings() {
     { id: 'system', label: 'System', icon: Database },
     { id: 'security', label: 'Security', icon: Key },
     { id: 'appearance', label: 'Appearance', icon: Palette },
+    ...(canManageUsers ? [{ id: 'users', label: 'Users', icon: UserCog }] : []),
+    ...(canManageRoles ? [{ id: 'roles', label: 'Roles', icon: Users }] : []),
+    ...(canManageWorkspaces ? [{ id: 'workspaces', label: 'Workspaces', icon: FolderKanban }] : []),
+    ...(isAdmin ? [{ id: 'audit', label: 'Audit Log', icon: ScrollText }] : []),
   ];
 
   const handleSave = async () => {
     setIsLoading(true);
     setSaveStatus('saving');
+
+    // The sync and session policies are stored and applied right away; the rest is not persisted yet
+    if (canEditSettings) {
+      const policy = normalizeSyncPolicy(settings.system);
+      setSyncPolicy(policy);
+      setSettings(prev => ({ ...prev, system: { ...prev.system, ...policy } }));
+      setSessionPolicy(normalizeSessionPolicy({
+        sessionTimeoutHours: Number(settings.security.sessionTimeout),
+        idleTimeoutMinutes: Number(settings.security.idleTimeout),
+        requireTwoFactorForAdmins: settings.security.requireTwoFactorForAdmins,
+        apiKeyRotation: settings.security.apiKeyRotation,
+      }));
+    }
     
     // Simulate API call
     await new Promise(resolve => setTimeout(resolve, 1500));
@@ -82,6 +162,60 @@ export function Settings() {
     setSaveStatus('idle');
   };
 
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passwordForm) return;
+
+    const problem = passwordForm.next !== passwordForm.confirm
+      ? 'The new passwords do not match'
+      : passwordProblem(passwordForm.next);
+    if (problem) {
+      setPasswordStatus({ error: problem });
+      return;
+    }
+
+    setPasswordStatus({ saving: true });
+    try {
+      await changePassword(passwordForm.current, passwordForm.next);
+      setPasswordForm(null);
+      setPasswordStatus({ changed: true });
+      updateSettings('security', 'lastPasswordChange', new Date().toISOString());
+    } catch (error) {
+      setPasswordStatus({ error: error instanceof Error ? error.message : 'The password could not be changed' });
+    }
+  };
+
+  // Profile and security belong to the signed-in user, not the workspace; only the open workspace's entities go
+  const handleExportWorkspace = () => {
+    const { notifications, system, appearance } = settings;
+    downloadWorkspaceBundle(createWorkspaceBundle(dashboardState, { notifications, system, appearance }, activeWorkspace?.id));
+  };
+
+  const handleImportWorkspace = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImportReport(null);
+    setImportError(null);
+    try {
+      const report = importWorkspace(parseWorkspaceBundle(await file.text()));
+      if (report.settings) {
+        const imported = report.settings as Partial<typeof settings>;
+        setSettings(prev => ({
+          ...prev,
+          notifications: { ...prev.notifications, ...imported.notifications },
+          system: { ...prev.system, ...imported.system },
+          appearance: { ...prev.appearance, ...imported.appearance },
+        }));
+        setSaveStatus('idle');
+      }
+      setImportReport(report);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Import failed');
+    }
+  };
+
   const renderProfileSettings = () => (
     <div className="space-y-6">
       <div>
@@ -115,18 +249,15 @@ export function Settings() {
             <label className="block text-sm font-medium text-slate-200 mb-2">
               Role
             </label>
-            <select
-              value={settings.profile.role}
-              onChange={(e) => updateSettings('profile', 'role', e.target.value)}
-              className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-              disabled={user?.role !== 'admin'}
-            >
-              <option value="admin">Administrator</option>
-              <option value="viewer">Viewer</option>
-            </select>
-            {user?.role !== 'admin' && (
-              <p className="text-xs text-slate-500 mt-1">Contact admin to change role</p>
-            )}
+            <input
+              type="text"
+              value={roles.find(role => role.id === user?.role)?.name ?? user?.role ?? ''}
+              className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-400"
+              disabled
+            />
+            <p className="text-xs text-slate-500 mt-1">
+              {canManageUsers ? 'Roles are assigned in the Users tab' : 'Contact admin to change role'}
+            </p>
           </div>
           
           <div>
@@ -231,7 +362,10 @@ export function Settings() {
 
   const renderSystemSettings = () => (
     <div className="space-y-6">
-      <div>
+      {!canEditSettings && (
+        <p className="text-sm text-slate-400">Your role can view these settings but not change them.</p>
+      )}
+      <fieldset disabled={!canEditSettings} className="disabled:opacity-60">
         <h3 className="text-lg font-semibold text-slate-200 mb-4">Data Synchronization</h3>
         <div className="grid md:grid-cols-2 gap-4">
           <div className="flex items-center justify-between">
@@ -253,19 +387,54 @@ export function Settings() {
             </label>
             <input
               type="number"
-              min="10"
-              max="300"
+              min={MIN_SYNC_INTERVAL_SECONDS}
+              max={MAX_SYNC_INTERVAL_SECONDS}
               value={settings.system.syncInterval}
-              onChange={(e) => updateSettings('system', 'syncInterval', e.target.value)}
-              className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+              disabled={!settings.system.autoSync}
+              onChange={(e) => updateSettings('system', 'syncInterval', Number(e.target.value))}
+              className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-slate-200">Sync on Focus</p>
+              <p className="text-xs text-slate-400">Sync when you come back to this tab</p>
+            </div>
+            <input
+              type="checkbox"
+              checked={settings.system.syncOnFocus}
+              disabled={!settings.system.autoSync}
+              onChange={(e) => updateSettings('system', 'syncOnFocus', e.target.checked)}
+              className="w-4 h-4 text-blue-600 bg-slate-700 border-slate-600 rounded focus:ring-blue-500"
             />
           </div>
         </div>
-      </div>
+
+        <div className="mt-4">
+          <p className="text-sm font-medium text-slate-200">Synced Data</p>
+          <p className="text-xs text-slate-400 mb-2">Unchecked types stay on this device and are never pushed or pulled</p>
+          <div className="flex flex-wrap gap-4">
+            {SYNCED_COLLECTIONS.map(collection => (
+              <label key={collection} className="flex items-center space-x-2 text-sm text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={!settings.system.excludedCollections.includes(collection)}
+                  onChange={(e) => updateSettings('system', 'excludedCollections', e.target.checked
+                    ? settings.system.excludedCollections.filter(excluded => excluded !== collection)
+                    : [...settings.system.excludedCollections, collection])}
+                  className="w-4 h-4 text-blue-600 bg-slate-700 border-slate-600 rounded focus:ring-blue-500"
+                />
+                <span>{SYNC_COLLECTION_LABELS[collection]}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      </fieldset>
       
       <div>
         <h3 className="text-lg font-semibold text-slate-200 mb-4">Data Management</h3>
-        <div className="grid md:grid-cols-2 gap-4">
+        <fieldset disabled={!canEditSettings} className="grid md:grid-cols-2 gap-4 disabled:opacity-60">
           <div>
             <label className="block text-sm font-medium text-slate-200 mb-2">
               Data Retention (days)
@@ -283,7 +452,7 @@ export function Settings() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-slate-200">Compression</p>
-              <p className="text-xs text-slate-400">Enable data compression</p>
+              <p className="text-xs text-slate-400">Compress sync uploads</p>
             </div>
             <input
               type="checkbox"
@@ -292,51 +461,359 @@ export function Settings() {
               className="w-4 h-4 text-blue-600 bg-slate-700 border-slate-600 rounded focus:ring-blue-500"
             />
           </div>
+        </fieldset>
+
+        <div className="mt-4 flex items-center justify-between p-4 bg-slate-700/50 rounded-lg">
+          <div>
+            <p className="text-sm font-medium text-slate-200">Workspace Export</p>
+            <p className="text-xs text-slate-400">Pipelines, dataset metadata, models, alerts, connections and settings of {activeWorkspace?.name ?? 'this workspace'}; imports go into it too. Credentials are removed.</p>
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="secondary" size="sm" onClick={handleExportWorkspace}>
+              <Download size={14} className="mr-1" />
+              Export
+            </Button>
+            <Button variant="secondary" size="sm" onClick={() => importInputRef.current?.click()} disabled={!canEditSettings}>
+              <Upload size={14} className="mr-1" />
+              Import
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImportWorkspace}
+              className="hidden"
+            />
+          </div>
+        </div>
+
+        {importError && (
+          <p className="mt-3 text-sm text-red-300">{importError}</p>
+        )}
+        {importReport && renderImportReport(importReport)}
+      </div>
+
+      {renderStorageStatus()}
+
+      {renderIntegrityStatus()}
+    </div>
+  );
+
+  const renderImportReport = (report: ImportReport) => (
+    <div className="mt-3 p-4 bg-slate-700/50 border border-slate-600 rounded-lg space-y-2 text-sm">
+      <p className="text-slate-200">
+        Merged: {Object.entries(report.merged).map(([collection, count]) => `${count} ${collection}`).join(', ') || 'nothing new'}
+        {report.settings && ' • settings applied (save to keep them)'}
+      </p>
+      {report.remapped.length > 0 && (
+        <div>
+          <p className="text-slate-400">Imported under a new id because the id was already taken:</p>
+          <ul className="text-xs text-slate-300">
+            {report.remapped.map(item => (
+              <li key={`${item.collection}-${item.from}`}>{item.collection}: {item.from} → {item.to}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {report.skipped.length > 0 && (
+        <div>
+          <p className="text-slate-400">Skipped ({report.skipped.length}):</p>
+          <ul className="text-xs text-slate-300">
+            {report.skipped.map((item, index) => (
+              <li key={`${item.collection}-${item.id ?? index}`}>{item.collection}{item.id ? ` ${item.id}` : ''}: {item.reason}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+
+  const handleDiscardQuarantined = async (entryId: string) => {
+    if (!(await confirmIdentity('discard a quarantined record permanently'))) return;
+    removeFromQuarantine([entryId]);
+    setQuarantine(prev => prev.filter(entry => entry.id !== entryId));
+  };
+
+  const renderStorageStatus = () => (
+    <div>
+      <h3 className="text-lg font-semibold text-slate-200 mb-4">Stored Data</h3>
+      <div className="bg-slate-700/50 rounded-lg p-4 space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span className="text-slate-400">Storage backend</span>
+          <span className="text-slate-200">{loadReport.backend}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-slate-400">Schema version</span>
+          <span className="text-slate-200">
+            v{loadReport.toVersion}
+            {loadReport.migrationsApplied.length > 0 && (
+              <span className="text-slate-400"> (upgraded from v{loadReport.fromVersion})</span>
+            )}
+          </span>
+        </div>
+        {loadReport.error && (
+          <p className="text-red-300">{loadReport.error}</p>
+        )}
+        {loadReport.readOnly && (
+          <p className="text-yellow-300">Stored data was left untouched; changes made in this session will not be saved.</p>
+        )}
+      </div>
+
+      {quarantine.length > 0 && (
+        <div className="mt-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <ShieldAlert size={16} className="text-yellow-400" />
+              <p className="text-sm font-medium text-slate-200">Quarantined records</p>
+              <Badge variant="warning" size="sm">{quarantine.length}</Badge>
+            </div>
+            <Button variant="secondary" size="sm" onClick={() => downloadQuarantineEntries(quarantine)}>
+              <Download size={14} className="mr-1" />
+              Download All
+            </Button>
+          </div>
+          {quarantine.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between p-3 bg-slate-700/50 border border-slate-600 rounded-lg">
+              <div>
+                <p className="text-sm text-slate-200">
+                  {entry.collection ?? 'Entire workspace'} • schema v{entry.schemaVersion}
+                </p>
+                <p className="text-xs text-slate-400">{entry.reason}</p>
+                <p className="text-xs text-slate-500">{new Date(entry.quarantinedAt).toLocaleString()}</p>
+              </div>
+              <div className="flex space-x-2">
+                <Button variant="ghost" size="sm" onClick={() => downloadQuarantineEntries([entry])}>
+                  <Download size={14} />
+                </Button>
+                {canEditSettings && (
+                  <Button variant="ghost" size="sm" onClick={() => handleDiscardQuarantined(entry.id)}>
+                    <Trash2 size={14} />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
         </div>
+      )}
+    </div>
+  );
+
+  const renderIntegrityStatus = () => (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-slate-200">Data Integrity</h3>
+        {canEditSettings && integrityIssues.length > 0 && (
+          <Button variant="secondary" size="sm" onClick={repairIntegrity}>
+            <RefreshCw size={14} className="mr-1" />
+            Repair
+          </Button>
+        )}
       </div>
+      {integrityIssues.length === 0 ? (
+        <p className="text-sm text-slate-400">All references between pipelines, datasets, models, connections and alerts are valid.</p>
+      ) : (
+        <div className="space-y-3">
+          {integrityIssues.map(issue => (
+            <div key={`${issue.collection}-${issue.id}-${issue.field}`} className="flex items-start space-x-3 p-3 bg-slate-700/50 border border-slate-600 rounded-lg">
+              <Link2Off size={16} className="text-yellow-400 mt-0.5" />
+              <div>
+                <p className="text-sm text-slate-200">{issue.label}</p>
+                <p className="text-xs text-slate-400">
+                  {issue.collection}.{issue.field} points at missing {issue.missingCollection} "{issue.missingId}"
+                </p>
+              </div>
+            </div>
+          ))}
+          <p className="text-xs text-slate-500">Repairing clears the dangling references; no entities are deleted.</p>
+        </div>
+      )}
     </div>
   );
 
+  const handleRegenerateRecoveryCodes = async () => {
+    setTwoFactorError('');
+    if (!(await confirmIdentity('replace your recovery codes'))) return;
+    try {
+      setTwoFactorFlow({ step: 'codes', codes: await regenerateRecoveryCodes() });
+    } catch (err) {
+      setTwoFactorError(err instanceof Error ? err.message : 'Recovery codes could not be generated');
+    }
+  };
+
   const renderSecuritySettings = () => (
     <div className="space-y-6">
       <div>
         <h3 className="text-lg font-semibold text-slate-200 mb-4">Account Security</h3>
         <div className="space-y-4">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-slate-200">Two-Factor Authentication</p>
-              <p className="text-xs text-slate-400">Add an extra layer of security</p>
+          {sessionProvider ? (
+            <div className="bg-slate-700/50 rounded-lg p-4">
+              <p className="text-sm font-medium text-slate-200">Signed in with {sessionProvider.label}</p>
+              <p className="text-xs text-slate-400">Your password is managed by the identity provider.</p>
             </div>
-            <input
-              type="checkbox"
-              checked={settings.security.twoFactorAuth}
-              onChange={(e) => updateSettings('security', 'twoFactorAuth', e.target.checked)}
-              className="w-4 h-4 text-blue-600 bg-slate-700 border-slate-600 rounded focus:ring-blue-500"
-            />
-          </div>
-          
-          <div>
-            <label className="block text-sm font-medium text-slate-200 mb-2">
-              Session Timeout (hours)
-            </label>
-            <select
-              value={settings.security.sessionTimeout}
-              onChange={(e) => updateSettings('security', 'sessionTimeout', e.target.value)}
-              className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-            >
-              <option value="1">1 hour</option>
-              <option value="8">8 hours</option>
-              <option value="24">24 hours</option>
-              <option value="168">1 week</option>
-            </select>
+          ) : (
+            <div className="bg-slate-700/50 rounded-lg p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-slate-200">Password</p>
+                  <p className="text-xs text-slate-400">
+                    Last changed: {settings.security.lastPasswordChange ? new Date(settings.security.lastPasswordChange).toLocaleString() : 'never'}
+                  </p>
+                </div>
+                {!passwordForm && (
+                  <Button variant="secondary" size="sm" onClick={() => { setPasswordForm({ current: '', next: '', confirm: '' }); setPasswordStatus({}); }}>
+                    <Lock size={14} className="mr-1" />
+                    Change Password
+                  </Button>
+                )}
+              </div>
+              {passwordStatus.changed && !passwordForm && (
+                <p className="text-xs text-green-400">Password changed</p>
+              )}
+              {passwordForm && (
+                <form onSubmit={handleChangePassword} className="space-y-3">
+                  {([
+                    ['current', 'Current Password', 'current-password'],
+                    ['next', 'New Password', 'new-password'],
+                    ['confirm', 'Confirm New Password', 'new-password'],
+                  ] as const).map(([field, label, autoComplete]) => (
+                    <div key={field}>
+                      <label className="block text-sm font-medium text-slate-200 mb-2">
+                        {label}
+                      </label>
+                      <input
+                        type="password"
+                        value={passwordForm[field]}
+                        onChange={(e) => setPasswordForm({ ...passwordForm, [field]: e.target.value })}
+                        autoComplete={autoComplete}
+                        className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                        required
+                      />
+                    </div>
+                  ))}
+                  {passwordStatus.error && (
+                    <p className="text-xs text-red-400">{passwordStatus.error}</p>
+                  )}
+                  <div className="flex justify-end space-x-2">
+                    <Button type="button" variant="ghost" size="sm" onClick={() => { setPasswordForm(null); setPasswordStatus({}); }}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" variant="primary" size="sm" isLoading={passwordStatus.saving}>
+                      Update Password
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </div>
+          )}
+
+          <div className="bg-slate-700/50 rounded-lg p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-slate-200 flex items-center">
+                  Two-Factor Authentication
+                  <Badge variant={twoFactorEnabled ? 'success' : 'default'} className="ml-2">
+                    {twoFactorEnabled ? 'On' : 'Off'}
+                  </Badge>
+                </p>
+                <p className="text-xs text-slate-400">
+                  {twoFactorEnabled
+                    ? `Sign-in asks for a code from your authenticator app. ${recoveryCodesLeft} of ${RECOVERY_CODE_COUNT} recovery codes left.`
+                    : 'Ask for a code from an authenticator app after your password'}
+                </p>
+              </div>
+              {!twoFactorFlow && (
+                twoFactorEnabled ? (
+                  <div className="flex space-x-2">
+                    <Button variant="secondary" size="sm" onClick={handleRegenerateRecoveryCodes}>
+                      <RefreshCw size={14} className="mr-1" />
+                      New Recovery Codes
+                    </Button>
+                    {!twoFactorRequired && (
+                      <Button variant="ghost" size="sm" onClick={() => { setTwoFactorFlow({ step: 'disable' }); setTwoFactorError(''); }}>
+                        Turn Off
+                      </Button>
+                    )}
+                  </div>
+                ) : (
+                  <Button variant="secondary" size="sm" onClick={() => { setTwoFactorFlow({ step: 'setup' }); setTwoFactorError(''); }}>
+                    <Smartphone size={14} className="mr-1" />
+                    Set Up
+                  </Button>
+                )
+              )}
+            </div>
+            {twoFactorError && (
+              <p className="text-xs text-red-400">{twoFactorError}</p>
+            )}
+            {twoFactorFlow?.step === 'setup' && (
+              <TwoFactorSetup onDone={() => setTwoFactorFlow(null)} onCancel={() => setTwoFactorFlow(null)} />
+            )}
+            {twoFactorFlow?.step === 'disable' && (
+              <TwoFactorDisable onDone={() => setTwoFactorFlow(null)} onCancel={() => setTwoFactorFlow(null)} />
+            )}
+            {twoFactorFlow?.step === 'codes' && (
+              <RecoveryCodes codes={twoFactorFlow.codes} onDone={() => setTwoFactorFlow(null)} />
+            )}
           </div>
+
+          <fieldset disabled={!canEditSettings} className="disabled:opacity-60">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-slate-200">Require Two-Factor for Administrators</p>
+                <p className="text-xs text-slate-400">Members of roles that manage users or roles must set it up before continuing</p>
+              </div>
+              <input
+                type="checkbox"
+                checked={settings.security.requireTwoFactorForAdmins}
+                onChange={(e) => updateSettings('security', 'requireTwoFactorForAdmins', e.target.checked)}
+                className="w-4 h-4 text-blue-600 bg-slate-700 border-slate-600 rounded focus:ring-blue-500"
+              />
+            </div>
+          </fieldset>
+
+          <fieldset disabled={!canEditSettings} className="grid md:grid-cols-2 gap-4 disabled:opacity-60">
+            <div>
+              <label className="block text-sm font-medium text-slate-200 mb-2">
+                Session Timeout (hours)
+              </label>
+              <select
+                value={settings.security.sessionTimeout}
+                onChange={(e) => updateSettings('security', 'sessionTimeout', e.target.value)}
+                className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+              >
+                <option value="1">1 hour</option>
+                <option value="8">8 hours</option>
+                <option value="24">24 hours</option>
+                <option value="168">1 week</option>
+              </select>
+              <p className="text-xs text-slate-500 mt-1">Sign in again after this long, even when active</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-200 mb-2">
+                Idle Timeout (minutes)
+              </label>
+              <select
+                value={settings.security.idleTimeout}
+                onChange={(e) => updateSettings('security', 'idleTimeout', e.target.value)}
+                className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+              >
+                {IDLE_TIMEOUT_OPTIONS.map(minutes => (
+                  <option key={minutes} value={String(minutes)}>{minutes} minutes</option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-500 mt-1">A warning appears a minute before signing out</p>
+            </div>
+          </fieldset>
+
+          <SignInProviders />
         </div>
       </div>
       
       <div>
         <h3 className="text-lg font-semibold text-slate-200 mb-4">API Security</h3>
         <div className="space-y-4">
-          <div>
+          <fieldset disabled={!canEditSettings} className="disabled:opacity-60">
             <label className="block text-sm font-medium text-slate-200 mb-2">
               API Key Rotation
             </label>
@@ -349,19 +826,13 @@ export function Settings() {
               <option value="monthly">Monthly</option>
               <option value="quarterly">Quarterly</option>
             </select>
-          </div>
-          
+            <p className="text-xs text-slate-500 mt-1">
+              Tokens older than the period are due for rotation and stop working {ROTATION_GRACE_DAYS} days later
+            </p>
+          </fieldset>
+
           <div className="bg-slate-700/50 rounded-lg p-4">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-slate-200">Current API Key</p>
-                <p className="text-xs text-slate-400">Last updated: {settings.security.lastPasswordChange}</p>
-              </div>
-              <Button variant="secondary" size="sm">
-                <RefreshCw size={14} className="mr-1" />
-                Regenerate
-              </Button>
-            </div>
+            <ApiTokens />
           </div>
         </div>
       </div>
@@ -418,6 +889,140 @@ export function Settings() {
     </div>
   );
 
+  const handleSaveRole = () => {
+    if (!roleDraft || !roleDraft.name.trim()) return;
+    saveRole({
+      ...roleDraft,
+      id: roleDraft.id || createRoleId(roleDraft.name, roles),
+      name: roleDraft.name.trim(),
+    });
+    setRoleDraft(null);
+  };
+
+  const handleDeleteRole = async (role: Role) => {
+    if (!(await confirmIdentity(`delete the role "${role.name}"`))) return;
+    deleteRole(role.id);
+  };
+
+  const toggleDraftPermission = (permission: Permission) => {
+    setRoleDraft(prev => prev && ({
+      ...prev,
+      permissions: prev.permissions.includes(permission)
+        ? prev.permissions.filter(granted => granted !== permission)
+        : [...prev.permissions, permission],
+    }));
+  };
+
+  const renderRoleEditor = (draft: Role) => (
+    <div className="p-4 bg-slate-700/50 border border-slate-600 rounded-lg space-y-4">
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-200 mb-2">
+            Role Name
+          </label>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setRoleDraft({ ...draft, name: e.target.value })}
+            placeholder="e.g. ML Engineer"
+            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-200 mb-2">
+            Description
+          </label>
+          <input
+            type="text"
+            value={draft.description ?? ''}
+            onChange={(e) => setRoleDraft({ ...draft, description: e.target.value })}
+            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+      <div className="grid md:grid-cols-2 gap-2">
+        {PERMISSIONS.map(permission => (
+          <label key={permission.value} className="flex items-center space-x-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={draft.permissions.includes(permission.value)}
+              onChange={() => toggleDraftPermission(permission.value)}
+              className="w-4 h-4 text-blue-600 bg-slate-700 border-slate-600 rounded focus:ring-blue-500"
+            />
+            <span>{permission.label}</span>
+          </label>
+        ))}
+      </div>
+      <div className="flex justify-end space-x-2">
+        <Button variant="ghost" size="sm" onClick={() => setRoleDraft(null)}>
+          Cancel
+        </Button>
+        <Button variant="primary" size="sm" onClick={handleSaveRole} disabled={!draft.name.trim()}>
+          Save Role
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderRolesSettings = () => (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-200">Roles & Permissions</h3>
+          <p className="text-xs text-slate-400">Built-in roles are fixed; custom roles grant any set of permissions.</p>
+        </div>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => setRoleDraft({ id: '', name: '', description: '', permissions: [] })}
+          disabled={!!roleDraft}
+        >
+          <Plus size={14} className="mr-1" />
+          New Role
+        </Button>
+      </div>
+
+      {roleDraft && !roleDraft.id && renderRoleEditor(roleDraft)}
+
+      <div className="space-y-3">
+        {roles.map(role => roleDraft?.id === role.id ? (
+          <div key={role.id}>{renderRoleEditor(roleDraft)}</div>
+        ) : (
+          <div key={role.id} className="p-3 bg-slate-700/50 rounded-lg">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <p className="text-sm font-medium text-slate-200">{role.name}</p>
+                  {role.builtIn && <Badge size="sm">Built-in</Badge>}
+                  {role.id === user?.role && <Badge variant="info" size="sm">Your role</Badge>}
+                </div>
+                {role.description && <p className="text-xs text-slate-400">{role.description}</p>}
+              </div>
+              {!role.builtIn && (
+                <div className="flex space-x-1">
+                  <Button variant="ghost" size="sm" onClick={() => setRoleDraft(role)} disabled={!!roleDraft}>
+                    <Edit3 size={14} />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDeleteRole(role)} disabled={role.id === user?.role}>
+                    <Trash2 size={14} />
+                  </Button>
+                </div>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-1 mt-2">
+              {role.permissions.length > 0 ? role.permissions.map(permission => (
+                <Badge key={permission} size="sm">{permission}</Badge>
+              )) : (
+                <span className="text-xs text-slate-500">Read-only</span>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500">Users whose role is deleted keep read-only access until they are given another role.</p>
+    </div>
+  );
+
   const renderTabContent = () => {
     switch (activeTab) {
       case 'profile': return renderProfileSettings();
@@ -425,6 +1030,10 @@ export function Settings() {
       case 'system': return renderSystemSettings();
       case 'security': return renderSecuritySettings();
       case 'appearance': return renderAppearanceSettings();
+      case 'roles': return canManageRoles ? renderRolesSettings() : renderProfileSettings();
+      case 'users': return canManageUsers ? <UserManagement /> : renderProfileSettings();
+      case 'workspaces': return canManageWorkspaces ? <WorkspaceManagement /> : renderProfileSettings();
+      case 'audit': return isAdmin ? <AuditLog /> : renderProfileSettings();
       default: return renderProfileSettings();
     }
   };
@@ -460,7 +1069,7 @@ export function Settings() {
                   return (
                     <button
                       key={tab.id}
-                      onClick={() => setActiveTab(tab.id)}
+                      onClick={() => navigate(paths.settingsTab(tab.id))}
                       className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-left transition-colors ${
                         activeTab === tab.id
                           ? 'bg-blue-600/20 text-blue-400 border border-blue-500/30'
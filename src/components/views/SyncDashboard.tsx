@@ -1,37 +1,69 @@
 import React, { useState, useEffect } from 'react';
-import { Activity, Database, Cpu, Cloud, RefreshCw, CheckCircle, AlertTriangle, Clock } from 'lucide-react';
+import { Activity, Database, Cpu, Cloud, RefreshCw, CheckCircle, AlertTriangle, Clock, GitMerge, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 import { Badge } from '../ui/Badge';
 import { Button } from '../ui/Button';
 import { ProgressBar } from '../ui/ProgressBar';
+import { ConflictResolutionModal } from '../modals/ConflictResolutionModal';
 import { useDataSync } from '../../context/DataSyncContext';
+import { useDashboardSelector } from '../../hooks/useDashboardStore';
 import { useMockData } from '../../hooks/useMockData';
+import { useSearchParamState } from '../../hooks/useSearchParamState';
+import { CollectionKey } from '../../store/dashboardStore';
+import { entityLabel } from '../../store/integrity';
+import { CONFLICT_STRATEGIES, ConflictStrategy, SYNCED_COLLECTIONS, SyncEntity, SyncJournalEntry } from '../../store/sync';
 
-interface SyncActivity {
-  id: string;
-  type: 'pipeline' | 'dataset' | 'alert' | 'experiment' | 'connection';
-  action: 'created' | 'updated' | 'deleted' | 'synced';
-  name: string;
-  timestamp: Date;
-  status: 'success' | 'pending' | 'error';
-}
+const COLLECTION_LABELS: Partial<Record<CollectionKey, string>> = {
+  pipelines: 'Pipeline',
+  pipelineRuns: 'Pipeline run',
+  datasets: 'Dataset',
+  experiments: 'Model',
+  externalConnections: 'Connection',
+  alerts: 'Alert',
+};
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const describeEntities = (entities: SyncJournalEntry['entities']) =>
+  Object.entries(entities).map(([collection, count]) => `${count} ${collection}`).join(', ') || 'no changes';
 
 export function SyncDashboard() {
-  const { syncStatus, triggerSync, syncAll } = useDataSync();
+  const {
+    syncStatus,
+    triggerSync,
+    syncAll,
+    pendingChanges,
+    poisonedChanges,
+    retryChange,
+    conflicts,
+    conflictStrategy,
+    setConflictStrategy,
+    resolveConflict,
+    journal,
+    clearJournal,
+    syncPolicy,
+  } = useDataSync();
   const { pipelines, datasets, alerts, experiments, externalConnections } = useMockData();
-  const [syncActivities, setSyncActivities] = useState<SyncActivity[]>([]);
+  // Kept in the query string, e.g. /sync?result=error&collection=datasets
+  const [journalKind, setJournalKind] = useSearchParamState<'all' | SyncJournalEntry['kind']>('kind', 'all', ['all', 'push', 'pull']);
+  const [journalStatus, setJournalStatus] = useSearchParamState<'all' | 'success' | 'error'>('result', 'all', ['all', 'success', 'error']);
+  const [journalCollection, setJournalCollection] = useSearchParamState<'all' | CollectionKey>('collection', 'all', ['all', ...SYNCED_COLLECTIONS]);
+  const journalFilter = { kind: journalKind, status: journalStatus, collection: journalCollection };
+  const [selectedConflictId, setSelectedConflictId] = useState<string | null>(null);
+  const selectedConflict = conflicts.find(conflict => conflict.id === selectedConflictId);
+  const selectedLocal = useDashboardSelector(state => selectedConflict
+    ? (state[selectedConflict.collection] as unknown as SyncEntity[]).find(entity => entity.id === selectedConflict.entityId)
+    : undefined);
   const [detailedMetrics, setDetailedMetrics] = useState({
     totalItems: 0,
     syncedItems: 0,
     pendingItems: 0,
     failedItems: 0,
     lastFullSync: new Date(),
-    avgSyncTime: 2.3,
     dataVolume: 0,
-    syncFrequency: '30s'
   });
 
-  // Track data changes and create sync activities
   useEffect(() => {
     const totalItems = pipelines.length + datasets.length + alerts.length + experiments.length + externalConnections.length;
     const pendingItems = syncStatus.pendingChanges;
@@ -53,31 +85,10 @@ export function SyncDashboard() {
       failedItems,
       dataVolume: Math.round(dataVolume * 100) / 100
     }));
-
-    // Add sync activity when data changes
-    if (totalItems > detailedMetrics.totalItems) {
-      const newActivity: SyncActivity = {
-        id: `activity_${Date.now()}`,
-        type: 'dataset', // This would be determined by which data changed
-        action: 'created',
-        name: 'New data item',
-        timestamp: new Date(),
-        status: 'pending'
-      };
-      setSyncActivities(prev => [newActivity, ...prev.slice(0, 9)]);
-    }
   }, [pipelines.length, datasets.length, alerts.length, experiments.length, externalConnections.length, syncStatus.pendingChanges, syncStatus.syncErrors.length]);
 
-  // Update sync activities when sync completes
   useEffect(() => {
     if (!syncStatus.isSyncing && syncStatus.pendingChanges === 0) {
-      setSyncActivities(prev => 
-        prev.map(activity => 
-          activity.status === 'pending' 
-            ? { ...activity, status: 'success' as const }
-            : activity
-        )
-      );
       setDetailedMetrics(prev => ({
         ...prev,
         lastFullSync: syncStatus.lastSync
@@ -85,6 +96,17 @@ export function SyncDashboard() {
     }
   }, [syncStatus.isSyncing, syncStatus.pendingChanges, syncStatus.lastSync]);
 
+  const completedSyncs = journal.filter(entry => !entry.error);
+  const avgSyncTime = completedSyncs.length > 0
+    ? completedSyncs.reduce((sum, entry) => sum + entry.durationMs, 0) / completedSyncs.length / 1000
+    : null;
+
+  const filteredJournal = journal.filter(entry =>
+    (journalFilter.kind === 'all' || entry.kind === journalFilter.kind) &&
+    (journalFilter.status === 'all' || (journalFilter.status === 'error') === !!entry.error) &&
+    (journalFilter.collection === 'all' || !!entry.entities[journalFilter.collection])
+  );
+
   const syncMetrics = [
     {
       title: 'Total Items',
@@ -116,24 +138,17 @@ export function SyncDashboard() {
     },
   ];
 
-  const getTypeIcon = (type: SyncActivity['type']) => {
-    switch (type) {
-      case 'pipeline': return Cpu;
-      case 'dataset': return Database;
-      case 'alert': return AlertTriangle;
-      case 'experiment': return Activity;
-      case 'connection': return Cloud;
-      default: return Database;
-    }
+  const getStatusBadge = (entry: SyncJournalEntry) => {
+    if (entry.error) return <Badge variant="danger" size="sm">Failed</Badge>;
+    if (entry.conflicts > 0 || entry.rejected > 0) return <Badge variant="warning" size="sm">Partial</Badge>;
+    return <Badge variant="success" size="sm">OK</Badge>;
   };
 
-  const getStatusBadge = (status: SyncActivity['status']) => {
-    switch (status) {
-      case 'success': return <Badge variant="success" size="sm">Synced</Badge>;
-      case 'pending': return <Badge variant="warning" size="sm">Pending</Badge>;
-      case 'error': return <Badge variant="danger" size="sm">Failed</Badge>;
-    }
-  };
+  const renderCollectionBadge = (collection: CollectionKey) => syncPolicy.excludedCollections.includes(collection)
+    ? <Badge variant="default" size="sm" className="mt-2">Not synced</Badge>
+    : <Badge variant="success" size="sm" className="mt-2">Synced</Badge>;
+
+  const filterSelectClass = 'px-2 py-1 bg-slate-700 border border-slate-600 rounded-lg text-slate-100 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500';
 
   return (
     <div className="space-y-6">
@@ -143,6 +158,16 @@ export function SyncDashboard() {
           <div className="text-sm text-slate-400">
             {syncStatus.isOnline ? '🟢 Online' : '🔴 Offline'}
           </div>
+          <select
+            value={conflictStrategy}
+            onChange={(e) => setConflictStrategy(e.target.value as ConflictStrategy)}
+            title={CONFLICT_STRATEGIES.find(strategy => strategy.value === conflictStrategy)?.description}
+            className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-slate-100 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {CONFLICT_STRATEGIES.map(strategy => (
+              <option key={strategy.value} value={strategy.value}>On conflict: {strategy.label}</option>
+            ))}
+          </select>
           <Button
             variant="primary"
             onClick={syncAll}
@@ -175,6 +200,107 @@ export function SyncDashboard() {
         })}
       </div>
 
+      {/* Open Conflicts */}
+      {conflicts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Sync Conflicts</CardTitle>
+              <Badge variant="warning" size="sm">{conflicts.length} to resolve</Badge>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {conflicts.map(conflict => (
+                <div
+                  key={conflict.id}
+                  className="flex items-center justify-between p-3 bg-slate-700/50 rounded-lg"
+                >
+                  <div className="flex items-center space-x-3">
+                    <div className="p-2 bg-yellow-500/10 rounded-lg">
+                      <GitMerge size={16} className="text-yellow-400" />
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-slate-200">
+                        {COLLECTION_LABELS[conflict.collection]} "{entityLabel(conflict.local ?? conflict.server ?? { id: conflict.entityId })}"
+                      </p>
+                      <p className="text-xs text-slate-400">
+                        {conflict.fields.length > 0
+                          ? `Both sides changed ${conflict.fields.join(', ')}`
+                          : 'Edited on one side, deleted on the other'} • {new Date(conflict.detectedAt).toLocaleTimeString()}
+                      </p>
+                    </div>
+                  </div>
+                  <Button variant="secondary" size="sm" onClick={() => setSelectedConflictId(conflict.id)}>
+                    Resolve
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Outbox */}
+      {(pendingChanges.length > 0 || poisonedChanges.length > 0) && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Outbox</CardTitle>
+              <div className="flex items-center space-x-2">
+                <Badge variant="warning" size="sm">{pendingChanges.length} queued</Badge>
+                {poisonedChanges.length > 0 && (
+                  <Badge variant="danger" size="sm">{poisonedChanges.length} failed</Badge>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {poisonedChanges.map(({ change, reason, poisonedAt }) => (
+                <div
+                  key={change.seq}
+                  className="flex items-center justify-between p-3 bg-red-900/20 border border-red-800 rounded-lg"
+                >
+                  <div>
+                    <p className="text-sm font-medium text-slate-200">
+                      {COLLECTION_LABELS[change.collection]} "{entityLabel(change.entity ?? { id: change.entityId })}" • {change.op}
+                    </p>
+                    <p className="text-xs text-red-300">
+                      {reason} • {new Date(poisonedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <Button variant="secondary" size="sm" onClick={() => retryChange(change.seq)} disabled={syncStatus.isSyncing}>
+                    <RefreshCw size={14} className="mr-1" />
+                    Retry
+                  </Button>
+                </div>
+              ))}
+              {pendingChanges.slice(0, 5).map(change => (
+                <div
+                  key={change.seq}
+                  className="flex items-center justify-between p-3 bg-slate-700/50 rounded-lg"
+                >
+                  <div>
+                    <p className="text-sm font-medium text-slate-200">
+                      {COLLECTION_LABELS[change.collection]} "{entityLabel(change.entity ?? { id: change.entityId })}" • {change.op}
+                    </p>
+                    <p className="text-xs text-slate-400">
+                      Queued {new Date(change.recordedAt).toLocaleTimeString()}
+                      {change.attempts ? ` • ${change.attempts} failed attempt${change.attempts !== 1 ? 's' : ''}: ${change.lastError}` : ''}
+                    </p>
+                  </div>
+                  <Badge variant="warning" size="sm">Pending</Badge>
+                </div>
+              ))}
+              {pendingChanges.length > 5 && (
+                <p className="text-xs text-slate-500">and {pendingChanges.length - 5} more, pushed in order</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid lg:grid-cols-2 gap-6">
         {/* Sync Status Overview */}
         <Card>
@@ -207,7 +333,7 @@ export function SyncDashboard() {
               <div>
                 <p className="text-sm text-slate-400">Avg Sync Time</p>
                 <p className="text-lg font-semibold text-slate-200">
-                  {detailedMetrics.avgSyncTime}s
+                  {avgSyncTime !== null ? `${avgSyncTime.toFixed(2)}s` : '—'}
                 </p>
               </div>
             </div>
@@ -219,8 +345,13 @@ export function SyncDashboard() {
                 {detailedMetrics.lastFullSync.toLocaleString()}
               </p>
               <p className="text-xs text-slate-500 mt-1">
-                Auto-sync every {detailedMetrics.syncFrequency}
+                {syncPolicy.autoSync ? `Auto-sync every ${syncPolicy.syncInterval}s` : 'Auto-sync is off'}
               </p>
+              {syncStatus.nextRetryAt && (
+                <p className="text-xs text-yellow-400 mt-1">
+                  Retry #{syncStatus.retryAttempt} at {syncStatus.nextRetryAt.toLocaleTimeString()}
+                </p>
+              )}
             </div>
 
             {/* Sync Errors */}
@@ -239,53 +370,103 @@ export function SyncDashboard() {
           </CardContent>
         </Card>
 
-        {/* Recent Sync Activities */}
+        {/* Sync Journal */}
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
-              <CardTitle>Recent Sync Activities</CardTitle>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={triggerSync}
-                disabled={syncStatus.isSyncing}
+              <CardTitle>Sync Journal</CardTitle>
+              <div className="flex items-center space-x-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={triggerSync}
+                  disabled={syncStatus.isSyncing}
+                  title="Sync now"
+                >
+                  <RefreshCw size={14} className={syncStatus.isSyncing ? 'animate-spin' : ''} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={clearJournal}
+                  disabled={journal.length === 0}
+                  title="Clear journal"
+                >
+                  <Trash2 size={14} />
+                </Button>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2 mt-3">
+              <select
+                value={journalFilter.kind}
+                onChange={(e) => setJournalKind(e.target.value as typeof journalKind)}
+                className={filterSelectClass}
+              >
+                <option value="all">Push & pull</option>
+                <option value="push">Pushes</option>
+                <option value="pull">Pulls</option>
+              </select>
+              <select
+                value={journalFilter.status}
+                onChange={(e) => setJournalStatus(e.target.value as typeof journalStatus)}
+                className={filterSelectClass}
               >
-                <RefreshCw size={14} className={syncStatus.isSyncing ? 'animate-spin' : ''} />
-              </Button>
+                <option value="all">Any result</option>
+                <option value="success">Succeeded</option>
+                <option value="error">Failed</option>
+              </select>
+              <select
+                value={journalFilter.collection}
+                onChange={(e) => setJournalCollection(e.target.value as typeof journalCollection)}
+                className={filterSelectClass}
+              >
+                <option value="all">All data types</option>
+                {SYNCED_COLLECTIONS.map(collection => (
+                  <option key={collection} value={collection}>{COLLECTION_LABELS[collection]}</option>
+                ))}
+              </select>
             </div>
           </CardHeader>
           <CardContent>
-            <div className="space-y-3">
-              {syncActivities.length > 0 ? (
-                syncActivities.map((activity) => {
-                  const TypeIcon = getTypeIcon(activity.type);
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+              {filteredJournal.length > 0 ? (
+                filteredJournal.map((entry) => {
+                  const KindIcon = entry.kind === 'push' ? ArrowUp : ArrowDown;
                   return (
                     <div
-                      key={activity.id}
+                      key={entry.id}
                       className="flex items-center justify-between p-3 bg-slate-700/50 rounded-lg"
                     >
-                      <div className="flex items-center space-x-3">
+                      <div className="flex items-center space-x-3 min-w-0">
                         <div className="p-2 bg-slate-600 rounded-lg">
-                          <TypeIcon size={16} className="text-slate-300" />
+                          <KindIcon size={16} className="text-slate-300" />
                         </div>
-                        <div>
+                        <div className="min-w-0">
                           <p className="text-sm font-medium text-slate-200">
-                            {activity.name}
+                            {entry.kind === 'push' ? 'Push' : 'Pull'} • {describeEntities(entry.entities)}
                           </p>
                           <p className="text-xs text-slate-400">
-                            {activity.action} • {activity.timestamp.toLocaleTimeString()}
+                            {new Date(entry.startedAt).toLocaleTimeString()} • {entry.durationMs} ms •
+                            {' '}↑ {formatBytes(entry.bytesSent)}{entry.compressed && ' (gzip)'} ↓ {formatBytes(entry.bytesReceived)}
+                            {entry.conflicts > 0 && ` • ${entry.conflicts} conflict${entry.conflicts !== 1 ? 's' : ''}`}
+                            {entry.rejected > 0 && ` • ${entry.rejected} rejected`}
                           </p>
+                          {entry.error && (
+                            <p className="text-xs text-red-300 truncate">{entry.error}</p>
+                          )}
                         </div>
                       </div>
-                      {getStatusBadge(activity.status)}
+                      {getStatusBadge(entry)}
                     </div>
                   );
                 })
               ) : (
                 <div className="text-center py-6">
                   <Cloud size={32} className="text-slate-600 mx-auto mb-2" />
-                  <p className="text-sm text-slate-400">No sync activities yet</p>
-                  <p className="text-xs text-slate-500">Activities will appear when data changes</p>
+                  <p className="text-sm text-slate-400">
+                    {journal.length > 0 ? 'No entries match these filters' : 'No sync activity yet'}
+                  </p>
+                  <p className="text-xs text-slate-500">Every push and pull is recorded here</p>
                 </div>
               )}
             </div>
@@ -304,39 +485,52 @@ export function SyncDashboard() {
               <Cpu size={24} className="text-blue-400 mx-auto mb-2" />
               <p className="text-lg font-bold text-slate-200">{pipelines.length}</p>
               <p className="text-sm text-slate-400">Pipelines</p>
-              <Badge variant="success" size="sm" className="mt-2">Synced</Badge>
+              {renderCollectionBadge('pipelines')}
             </div>
             
             <div className="text-center p-4 bg-slate-700/30 rounded-lg">
               <Database size={24} className="text-green-400 mx-auto mb-2" />
               <p className="text-lg font-bold text-slate-200">{datasets.length}</p>
               <p className="text-sm text-slate-400">Datasets</p>
-              <Badge variant="success" size="sm" className="mt-2">Synced</Badge>
+              {renderCollectionBadge('datasets')}
             </div>
             
             <div className="text-center p-4 bg-slate-700/30 rounded-lg">
               <AlertTriangle size={24} className="text-yellow-400 mx-auto mb-2" />
               <p className="text-lg font-bold text-slate-200">{alerts.length}</p>
               <p className="text-sm text-slate-400">Alerts</p>
-              <Badge variant="success" size="sm" className="mt-2">Synced</Badge>
+              {renderCollectionBadge('alerts')}
             </div>
             
             <div className="text-center p-4 bg-slate-700/30 rounded-lg">
               <Activity size={24} className="text-purple-400 mx-auto mb-2" />
               <p className="text-lg font-bold text-slate-200">{experiments.length}</p>
               <p className="text-sm text-slate-400">Experiments</p>
-              <Badge variant="success" size="sm" className="mt-2">Synced</Badge>
+              {renderCollectionBadge('experiments')}
             </div>
             
             <div className="text-center p-4 bg-slate-700/30 rounded-lg">
               <Cloud size={24} className="text-indigo-400 mx-auto mb-2" />
               <p className="text-lg font-bold text-slate-200">{externalConnections.length}</p>
               <p className="text-sm text-slate-400">Connections</p>
-              <Badge variant="success" size="sm" className="mt-2">Synced</Badge>
+              {renderCollectionBadge('externalConnections')}
             </div>
           </div>
         </CardContent>
       </Card>
+
+      {selectedConflict && (
+        <ConflictResolutionModal
+          isOpen={!!selectedConflict}
+          onClose={() => setSelectedConflictId(null)}
+          onResolve={(resolution) => {
+            setSelectedConflictId(null);
+            resolveConflict(selectedConflict.id, resolution);
+          }}
+          conflict={selectedConflict}
+          local={selectedLocal}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { Trash2, RotateCcw, Clock } from 'lucide-react';
+import { Card, CardContent } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { useAuth } from '../../context/AuthContext';
+import { useDashboardActions, useDashboardSelector } from '../../hooks/useDashboardStore';
+import { selectTrash } from '../../store/selectors';
+import { useWorkspaceEntities } from '../../hooks/useMockData';
+import { countTrashedEntities, TRASH_RETENTION_DAYS } from '../../store/trash';
+import { TrashEntry } from '../../types';
+
+const ROOT_LABELS: Record<TrashEntry['root']['type'], string> = {
+  pipeline: 'Pipeline',
+  dataset: 'Dataset',
+  experiment: 'Model',
+  connection: 'Connection',
+};
+
+const daysLeft = (entry: TrashEntry) =>
+  Math.max(0, Math.ceil((new Date(entry.expires_at).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+
+// "2 pipelines, 3 models, 1 alert" for everything that went with the root entity
+const describeGroup = (entry: TrashEntry) => {
+  const parts = [
+    ['pipeline', entry.entities.pipelines.length],
+    ['run', entry.entities.pipelineRuns.length],
+    ['dataset', entry.entities.datasets.length],
+    ['model', entry.entities.experiments.length],
+    ['connection', entry.entities.externalConnections.length],
+    ['alert', entry.entities.alerts.length],
+  ] as const;
+  return parts
+    .filter(([, count]) => count > 0)
+    .map(([label, count]) => `${count} ${label}${count === 1 ? '' : 's'}`)
+    .join(', ');
+};
+
+export function Trash() {
+  const trash = useWorkspaceEntities(useDashboardSelector(selectTrash));
+  const { restoreFromTrash, purgeTrash } = useDashboardActions();
+  const { confirmIdentity } = useAuth();
+
+  // Nothing brings these back, so the user proves who they are first
+  const handlePurge = async (entryIds: string[]) => {
+    if (await confirmIdentity(`delete ${entryIds.length} Trash item(s) permanently`)) {
+      purgeTrash(entryIds);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-100">Trash</h1>
+          <p className="text-sm text-slate-400 mt-1">
+            Deleted items and everything removed with them are kept for {TRASH_RETENTION_DAYS} days.
+          </p>
+        </div>
+        {trash.length > 0 && (
+          <Button variant="danger" size="sm" onClick={() => handlePurge(trash.map(entry => entry.id))}>
+            <Trash2 size={16} className="mr-2" />
+            Empty Trash
+          </Button>
+        )}
+      </div>
+
+      {trash.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <Trash2 size={48} className="text-slate-600 mx-auto mb-4" />
+            <p className="text-slate-400">Trash is empty</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {trash.map(entry => (
+            <Card key={entry.id}>
+              <CardContent className="flex items-center justify-between py-4">
+                <div>
+                  <div className="flex items-center space-x-3">
+                    <p className="font-medium text-slate-200">{entry.label}</p>
+                    <Badge variant="default" size="sm">{ROOT_LABELS[entry.root.type]}</Badge>
+                  </div>
+                  <p className="text-sm text-slate-400 mt-1">
+                    {countTrashedEntities(entry)} item(s): {describeGroup(entry)}
+                    {entry.detached.length > 0 && ` • ${entry.detached.length} link(s) to relink`}
+                  </p>
+                  <div className="flex items-center space-x-1 mt-1 text-xs text-slate-500">
+                    <Clock size={12} />
+                    <span>
+                      Deleted {new Date(entry.deleted_at).toLocaleString()} • purged in {daysLeft(entry)} day(s)
+                    </span>
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <Button variant="secondary" size="sm" onClick={() => restoreFromTrash(entry.id)}>
+                    <RotateCcw size={14} className="mr-1" />
+                    Restore
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handlePurge([entry.id])}>
+                    <Trash2 size={14} />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
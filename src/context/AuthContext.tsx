@@ -1,70 +1,566 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { User } from '../types';
+import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { User, UserAccount } from '../types';
+import { useDashboardActions, useDashboardSelector, useDashboardStore } from '../hooks/useDashboardStore';
+import { selectUsers } from '../store/selectors';
+import {
+  createAccount,
+  findAccountByEmail,
+  isInvitationExpired,
+  passwordChanges,
+  passwordProblem,
+  toSessionUser,
+  verifySecret,
+} from '../store/users';
+import { generateRecoveryCodes, redeemSecondFactor, verifyTotp } from '../store/totp';
+import {
+  AUTH_PROVIDERS_KEY,
+  createOidcProvider,
+  loadAuthProviderConfigs,
+  localPasswordProvider,
+  OidcProviderConfig,
+  resolveExternalSignIn,
+  saveAuthProviderConfigs,
+} from '../store/authProviders';
+import { OIDC_CALLBACK_PATH, pendingSignInProvider, pendingSignInReturnTo } from '../store/oidc';
+import { appendAuditEntry, AuditActor, auditChange, AuditChange, recordAuditTrail } from '../store/auditLog';
+import {
+  createSessionClaims,
+  IDLE_WARNING_MS,
+  lastActivityAt,
+  loadSessionPolicy,
+  loadSessionToken,
+  REAUTH_WINDOW_MS,
+  recordActivity,
+  saveSessionPolicy,
+  saveSessionToken,
+  SESSION_KEY,
+  SESSION_POLICY_KEY,
+  SessionClaims,
+  sessionExpiresAt,
+  SessionPolicy,
+  signSessionToken,
+  SignOutReason,
+  verifySessionToken,
+} from '../store/session';
+
+// Activity is written to storage at most this often; the idle check runs every second
+const ACTIVITY_THROTTLE_MS = 5000;
+const SESSION_CHECK_INTERVAL_MS = 1000;
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+// A correct password is good for this long, and this many wrong codes, before it has to be entered again
+const TWO_FACTOR_CHALLENGE_MS = 5 * 60 * 1000;
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+export type LoginResult = 'signed_in' | 'two_factor_required' | 'invalid';
+
+// A sign-in that passed the password check, or single sign-on, and waits for the second step
+interface TwoFactorChallenge {
+  accountId: string;
+  expiresAt: number;
+  attempts: number;
+  /** Set when the first step was single sign-on; what the provider says about the account waits for the second. */
+  provider?: { id: string; label: string; role: string; changes: Partial<UserAccount> };
+}
 
 interface AuthContextType {
   user: User | null;
-  login: (email: string, password: string) => Promise<boolean>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  /** The single sign-on providers offered on the sign-in page. */
+  providerConfigs: OidcProviderConfig[];
+  setProviderConfigs: (configs: OidcProviderConfig[]) => void;
+  /** Sends the browser to the provider's sign-in page; the session starts when it comes back. */
+  loginWithProvider: (providerId: string, options?: { forceLogin?: boolean }) => Promise<void>;
+  /** Why the last single sign-on attempt failed, for the sign-in page. */
+  providerError: string | null;
+  /** The provider this session was signed in with; null for a password sign-in. */
+  sessionProvider: { id: string; label: string } | null;
+  /** True after a correct password, or single sign-on, for an account with two-factor authentication. */
+  twoFactorPending: boolean;
+  /** The second sign-in step: an authenticator or recovery code. Resolves false for a wrong code. */
+  verifyTwoFactor: (code: string) => Promise<boolean>;
+  cancelTwoFactor: () => void;
+  twoFactorEnabled: boolean;
+  recoveryCodesLeft: number;
+  /** Enrols the secret once `code` proves the authenticator has it; resolves to the recovery codes. */
+  enableTwoFactor: (secret: string, code: string) => Promise<string[]>;
+  /** Turns two-factor off once `code`, from the authenticator or a recovery code, proves the user still has it. */
+  disableTwoFactor: (code: string) => Promise<void>;
+  /** Replaces every recovery code; resolves to the new ones. */
+  regenerateRecoveryCodes: () => Promise<string[]>;
   logout: () => void;
   isLoading: boolean;
+  /** Why the last session ended without the user signing out, for the sign-in page. */
+  signOutReason: SignOutReason | null;
+  /** True until the first administrator account has been created. */
+  needsSetup: boolean;
+  /** Creates the first administrator and signs them in; only works while `needsSetup`. */
+  setupAdmin: (name: string, email: string, password: string) => Promise<void>;
+  /** Sets the password of an invited account and signs it in. */
+  acceptInvitation: (email: string, code: string, password: string) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  /** When the signed-in user last set their password. */
+  passwordChangedAt?: string;
+  sessionPolicy: SessionPolicy;
+  setSessionPolicy: (policy: SessionPolicy) => void;
+  /** Writes a change to something kept outside the dashboard store to the audit log, as the signed-in user. */
+  recordAudit: (action: string, changes: (AuditChange | null)[]) => void;
+  /** Seconds until an idle sign-out, while the warning is due; null otherwise. */
+  idleSecondsLeft: number | null;
+  /** Counts as activity, for the "Stay signed in" button of the idle warning. */
+  keepAlive: () => void;
+  /**
+   * Resolves true once the user has proved who they are, asking for the
+   * password again unless they signed in within the last few minutes.
+   * Call it before destructive admin actions.
+   */
+  confirmIdentity: (reason: string) => Promise<boolean>;
+  /** What the user is about to do, while the password prompt is open. */
+  reauthReason: string | null;
+  /** How the prompt can check the user: the secret submitReauth takes, and a provider to sign in with again. */
+  reauthMethods: { secret: 'password' | 'code' | null; provider: { id: string; label: string } | null };
+  /** Checks the password, or an authenticator or recovery code for an account without one. */
+  submitReauth: (secret: string) => Promise<void>;
+  cancelReauth: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const mockUsers: User[] = [
-  {
-    id: '1',
-    email: 'admin@mlpipeline.com',
-    name: 'Admin User',
-    role: 'admin',
-    avatar: 'https://images.pexels.com/photos/220453/pexels-photo-220453.jpeg?w=100&h=100&fit=crop&crop=face'
-  },
-  {
-    id: '2',
-    email: 'viewer@mlpipeline.com',
-    name: 'Jane Smith',
-    role: 'viewer',
-    avatar: 'https://images.pexels.com/photos/415829/pexels-photo-415829.jpeg?w=100&h=100&fit=crop&crop=face'
-  }
-];
+// A session only counts while its account is active and still has the password it signed in with
+const sessionAccount = (users: UserAccount[], claims: SessionClaims | null) =>
+  claims ? users.find(u => u.id === claims.sub && u.status === 'active' && u.password_changed_at === claims.pwd) : undefined;
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const store = useDashboardStore();
+  const actions = useDashboardActions();
+  const users = useDashboardSelector(selectUsers);
+  const navigate = useNavigate();
+  const [claims, setClaims] = useState<SessionClaims | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [signOutReason, setSignOutReason] = useState<SignOutReason | null>(null);
+  const [sessionPolicy, setSessionPolicyState] = useState<SessionPolicy>(loadSessionPolicy);
+  const [idleSecondsLeft, setIdleSecondsLeft] = useState<number | null>(null);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [providerConfigs, setProviderConfigsState] = useState<OidcProviderConfig[]>(loadAuthProviderConfigs);
+  const [providerError, setProviderError] = useState<string | null>(null);
+  const [reauthReason, setReauthReason] = useState<string | null>(null);
+  // Settles the promise returned by confirmIdentity
+  const reauthResolver = useRef<((confirmed: boolean) => void) | null>(null);
+  const lastActivityWrite = useRef(0);
+  // Who the audit log names; a sign-in sets it before writing to the account, ahead of the next render
+  const auditActorId = useRef<string | null>(null);
+
+  const account = sessionAccount(users, claims);
+  const user = useMemo(() => account ? toSessionUser(account) : null, [account]);
 
   useEffect(() => {
-    // Check for existing session
-    const savedUser = localStorage.getItem('ml_dashboard_user');
-    if (savedUser) {
-      setUser(JSON.parse(savedUser));
-    }
-    setIsLoading(false);
+    auditActorId.current = account?.id ?? null;
+  }, [account?.id]);
+
+  const auditActor = useCallback((): AuditActor | null => {
+    const actor = store.getState().users.find(candidate => candidate.id === auditActorId.current);
+    return actor ? { id: actor.id, name: actor.name, email: actor.email } : null;
+  }, [store]);
+
+  useEffect(() => recordAuditTrail(store, auditActor), [store, auditActor]);
+
+  const recordAudit = useCallback((action: string, changes: (AuditChange | null)[]) => {
+    appendAuditEntry(auditActor(), action, changes.filter((change): change is AuditChange => change !== null));
+  }, [auditActor]);
+
+  const settleReauth = useCallback((confirmed: boolean) => {
+    reauthResolver.current?.(confirmed);
+    reauthResolver.current = null;
+    setReauthReason(null);
   }, []);
 
-  const login = async (email: string, password: string): Promise<boolean> => {
+  const endSession = useCallback((reason: SignOutReason | null) => {
+    saveSessionToken(null);
+    setClaims(null);
+    setSignOutReason(reason);
+    setIdleSecondsLeft(null);
+    settleReauth(false);
+  }, [settleReauth]);
+
+  // Signs before touching any state, so the new claims and the account change land in one render
+  const startSession = useCallback(async (signedIn: UserAccount, description: string, changes: Partial<UserAccount> = {}, provider?: string) => {
+    const next = createSessionClaims(signedIn.id, loadSessionPolicy(), changes.password_changed_at ?? signedIn.password_changed_at, provider);
+    const token = await signSessionToken(next);
+    recordActivity(next.iat);
+    saveSessionToken(token);
+    setSignOutReason(null);
+    setClaims(next);
+    auditActorId.current = signedIn.id;
+    actions.updateUser(signedIn.id, { ...changes, last_login_at: new Date(next.iat).toISOString() }, description);
+  }, [actions]);
+
+  // Adopts the token in storage, which another tab may have replaced, or ends the session
+  const restoreSession = useCallback(async (accountRevoked: boolean) => {
+    const token = loadSessionToken();
+    const restored = token ? await verifySessionToken(token) : null;
+    if (restored && Date.now() >= sessionExpiresAt(restored, loadSessionPolicy())) {
+      endSession('expired');
+    } else if (restored && sessionAccount(store.getState().users, restored)) {
+      setClaims(restored);
+    } else if (token || accountRevoked) {
+      endSession('revoked');
+    } else {
+      setClaims(null);
+    }
+    setIsRestoring(false);
+  }, [store, endSession]);
+
+  // The provider's groups decide the role, except where that would leave no administrator
+  const applyProviderRole = useCallback((signedIn: UserAccount, role: string) => {
+    if (role === signedIn.role) return;
+    try {
+      actions.setUserRole(signedIn.id, role);
+    } catch (error) {
+      console.warn('Kept the role of the last administrator:', error);
+    }
+  }, [actions]);
+
+  // Finishes a single sign-on when the provider sends the browser back to the callback path
+  const completeProviderSignIn = useCallback(async (params: URLSearchParams) => {
+    // Takes the code out of the address bar and history straight away
+    navigate(pendingSignInReturnTo(), { replace: true });
+    const config = loadAuthProviderConfigs().find(candidate => candidate.id === pendingSignInProvider());
+    try {
+      if (!config) {
+        throw new Error('This sign-in was not started here, or was already used. Try again.');
+      }
+      const identity = await createOidcProvider(config).completeSignIn(params);
+      const signIn = resolveExternalSignIn(store.getState().users, identity, config.label);
+      if (signIn.account.two_factor) {
+        // The provider stands in for the password only; the account's second factor is still asked for
+        setTwoFactorChallenge({
+          accountId: signIn.account.id,
+          expiresAt: Date.now() + TWO_FACTOR_CHALLENGE_MS,
+          attempts: 0,
+          provider: { id: config.id, label: config.label, role: signIn.role, changes: signIn.changes },
+        });
+        setProviderError(null);
+        setIsRestoring(false);
+        return;
+      }
+      auditActorId.current = signIn.account.id;
+      if (signIn.isNew) {
+        actions.addUser(signIn.account, `Account created at first sign-in with ${config.label}`);
+      } else {
+        applyProviderRole(signIn.account, signIn.role);
+      }
+      await startSession(signIn.account, `Signed in with ${config.label}`, signIn.changes, config.id);
+      setProviderError(null);
+    } catch (error) {
+      auditActorId.current = null;
+      setProviderError(error instanceof Error ? error.message : 'Single sign-on failed');
+      await restoreSession(false);
+    }
+    setIsRestoring(false);
+  }, [store, actions, navigate, startSession, restoreSession, applyProviderRole]);
+
+  useEffect(() => {
+    if (window.location.pathname === OIDC_CALLBACK_PATH) {
+      completeProviderSignIn(new URLSearchParams(window.location.search));
+    } else {
+      restoreSession(false);
+    }
+  }, [restoreSession, completeProviderSignIn]);
+
+  // Deactivating the account, or changing its password elsewhere, ends the session straight away
+  useEffect(() => {
+    if (claims && !account) {
+      restoreSession(true);
+    }
+  }, [claims, account, restoreSession]);
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === SESSION_KEY) {
+        restoreSession(false);
+      } else if (event.key === SESSION_POLICY_KEY) {
+        setSessionPolicyState(loadSessionPolicy());
+      } else if (event.key === AUTH_PROVIDERS_KEY) {
+        setProviderConfigsState(loadAuthProviderConfigs());
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [restoreSession]);
+
+  useEffect(() => {
+    if (!claims) return;
+
+    const handleActivity = () => {
+      const now = Date.now();
+      if (now - lastActivityWrite.current >= ACTIVITY_THROTTLE_MS) {
+        lastActivityWrite.current = now;
+        recordActivity(now);
+      }
+    };
+
+    const checkSession = () => {
+      const now = Date.now();
+      const expiresAt = sessionExpiresAt(claims, sessionPolicy);
+      const idleLimit = sessionPolicy.idleTimeoutMinutes * 60 * 1000;
+      const idleFor = now - Math.max(lastActivityAt(), claims.auth_time);
+
+      if (now >= expiresAt) {
+        endSession('expired');
+      } else if (idleFor >= idleLimit) {
+        endSession('idle');
+      } else {
+        setIdleSecondsLeft(idleFor >= idleLimit - IDLE_WARNING_MS ? Math.ceil((idleLimit - idleFor) / 1000) : null);
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, handleActivity, { passive: true }));
+    const interval = setInterval(checkSession, SESSION_CHECK_INTERVAL_MS);
+    checkSession();
+    return () => {
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, handleActivity));
+      clearInterval(interval);
+    };
+  }, [claims, sessionPolicy, endSession]);
+
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     setIsLoading(true);
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    const foundUser = mockUsers.find(u => u.email === email);
-    if (foundUser && (password === 'admin123' || password === 'viewer123')) {
-      setUser(foundUser);
-      localStorage.setItem('ml_dashboard_user', JSON.stringify(foundUser));
+    try {
+      const found = await localPasswordProvider.authenticate(email, password, store.getState().users);
+      if (!found) return 'invalid';
+      if (found.two_factor) {
+        setTwoFactorChallenge({ accountId: found.id, expiresAt: Date.now() + TWO_FACTOR_CHALLENGE_MS, attempts: 0 });
+        return 'two_factor_required';
+      }
+      await startSession(found, 'Signed in');
+      return 'signed_in';
+    } finally {
       setIsLoading(false);
+    }
+  };
+
+  const verifyTwoFactor = async (code: string): Promise<boolean> => {
+    const challenge = twoFactorChallenge;
+    const found = challenge && store.getState().users.find(u => u.id === challenge.accountId && u.status === 'active');
+    const startOver = challenge?.provider ? `Sign in with ${challenge.provider.label} again.` : 'Enter your password again.';
+    if (!challenge || !found?.two_factor || Date.now() > challenge.expiresAt) {
+      setTwoFactorChallenge(null);
+      throw new Error(`This sign-in attempt has expired. ${startOver}`);
+    }
+
+    setIsLoading(true);
+    try {
+      const redeemed = await redeemSecondFactor(found.two_factor, code);
+      if (!redeemed) {
+        if (challenge.attempts + 1 >= MAX_TWO_FACTOR_ATTEMPTS) {
+          setTwoFactorChallenge(null);
+          throw new Error(`Too many incorrect codes. ${startOver}`);
+        }
+        setTwoFactorChallenge({ ...challenge, attempts: challenge.attempts + 1 });
+        return false;
+      }
+      setTwoFactorChallenge(null);
+      const { provider } = challenge;
+      if (provider) {
+        auditActorId.current = found.id;
+        applyProviderRole(found, provider.role);
+        await startSession(found, `Signed in with ${provider.label} and two-factor authentication`, { ...provider.changes, two_factor: redeemed }, provider.id);
+      } else {
+        await startSession(found, 'Signed in with two-factor authentication', { two_factor: redeemed });
+      }
       return true;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelTwoFactor = () => setTwoFactorChallenge(null);
+
+  const loginWithProvider = async (providerId: string, options?: { forceLogin?: boolean }) => {
+    const config = providerConfigs.find(candidate => candidate.id === providerId);
+    if (!config) throw new Error('This sign-in provider is no longer configured');
+    setProviderError(null);
+    window.location.assign(await createOidcProvider(config).beginSignIn(options));
+  };
+
+  const setProviderConfigs = (configs: OidcProviderConfig[]) => {
+    const ids = new Set([...providerConfigs, ...configs].map(config => config.id));
+    recordAudit('Sign-in providers changed', [...ids].map(id => auditChange(
+      'authProviders',
+      id,
+      providerConfigs.find(config => config.id === id) as Record<string, unknown> | undefined,
+      configs.find(config => config.id === id) as Record<string, unknown> | undefined
+    )));
+    saveAuthProviderConfigs(configs);
+    setProviderConfigsState(configs);
+  };
+
+  const enableTwoFactor = async (secret: string, code: string) => {
+    if (!account) throw new Error('Sign in to set up two-factor authentication');
+    const step = await verifyTotp(secret, code);
+    if (step === null) {
+      throw new Error('That code does not match. Check that the time on your device is correct and try again.');
+    }
+    const { codes, hashes } = await generateRecoveryCodes();
+    actions.updateUser(account.id, {
+      two_factor: { secret, enrolled_at: new Date().toISOString(), recovery_codes: hashes, last_used_step: step },
+    }, 'Two-factor authentication turned on');
+    return codes;
+  };
+
+  const disableTwoFactor = async (code: string) => {
+    if (!account?.two_factor) throw new Error('Two-factor authentication is not set up');
+    if (!(await redeemSecondFactor(account.two_factor, code))) {
+      throw new Error('That code is incorrect');
+    }
+    actions.updateUser(account.id, { two_factor: undefined }, 'Two-factor authentication turned off');
+  };
+
+  const regenerateRecoveryCodes = async () => {
+    if (!account?.two_factor) throw new Error('Two-factor authentication is not set up');
+    const { codes, hashes } = await generateRecoveryCodes();
+    actions.updateUser(account.id, { two_factor: { ...account.two_factor, recovery_codes: hashes } }, 'Recovery codes replaced');
+    return codes;
+  };
+
+  const logout = () => endSession(null);
+
+  const setupAdmin = async (name: string, email: string, password: string) => {
+    const problem = passwordProblem(password);
+    if (problem) throw new Error(problem);
+    const admin = await createAccount({ name, email, role: 'admin', password });
+    if (store.getState().users.length > 0) {
+      throw new Error('This workspace already has users; sign in instead');
     }
-    
-    setIsLoading(false);
-    return false;
+    auditActorId.current = admin.id;
+    actions.addUser(admin, 'First administrator created');
+    await startSession(admin, 'Signed in');
   };
 
-  const logout = () => {
-    setUser(null);
-    localStorage.removeItem('ml_dashboard_user');
+  const acceptInvitation = async (email: string, code: string, password: string) => {
+    const invited = findAccountByEmail(store.getState().users, email);
+    const valid = invited?.status === 'invited' && invited.invitation && !isInvitationExpired(invited)
+      && await verifySecret(code.trim().toUpperCase(), invited.invitation.code);
+    if (!invited || !valid) {
+      throw new Error('This invitation is invalid or has expired. Ask an administrator to invite you again.');
+    }
+    const problem = passwordProblem(password);
+    if (problem) throw new Error(problem);
+    await startSession(invited, 'Invitation accepted', { ...(await passwordChanges(password)), status: 'active', invitation: undefined });
+  };
+
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    if (!claims || !account?.password || !(await verifySecret(currentPassword, account.password))) {
+      throw new Error('The current password is incorrect');
+    }
+    const problem = passwordProblem(newPassword);
+    if (problem) throw new Error(problem);
+    const changes = await passwordChanges(newPassword);
+    // This session carries on under the new password; every other one ends
+    const next = { ...claims, pwd: changes.password_changed_at, auth_time: Date.now() };
+    const token = await signSessionToken(next);
+    saveSessionToken(token);
+    setClaims(next);
+    actions.updateUser(account.id, changes, 'Password changed');
+  };
+
+  const setSessionPolicy = (policy: SessionPolicy) => {
+    recordAudit('Security policy changed', [
+      auditChange('sessionPolicy', 'session_policy', { ...sessionPolicy }, { ...policy }),
+    ]);
+    saveSessionPolicy(policy);
+    setSessionPolicyState(policy);
+  };
+
+  const keepAlive = () => {
+    lastActivityWrite.current = Date.now();
+    recordActivity(lastActivityWrite.current);
+    setIdleSecondsLeft(null);
   };
 
+  const confirmIdentity = (reason: string) => {
+    if (claims && Date.now() - claims.auth_time < REAUTH_WINDOW_MS) {
+      return Promise.resolve(true);
+    }
+    // A newer prompt replaces one still open, which counts as cancelled
+    reauthResolver.current?.(false);
+    return new Promise<boolean>(resolve => {
+      reauthResolver.current = resolve;
+      setReauthReason(reason);
+    });
+  };
+
+  // Accounts created by single sign-on have no password; their second factor, or the provider, stands in for it
+  const reauthProvider = providerConfigs.find(config => config.id === claims?.idp)
+    ?? providerConfigs.find(config => config.id === account?.external_identity?.provider);
+
+  const submitReauth = async (secret: string) => {
+    if (!claims || !account) throw new Error('Sign in again to continue');
+    if (account.password) {
+      if (!(await verifySecret(secret, account.password))) throw new Error('Incorrect password');
+    } else {
+      const redeemed = account.two_factor && await redeemSecondFactor(account.two_factor, secret);
+      if (!redeemed) throw new Error('That code is incorrect');
+      actions.updateUser(account.id, { two_factor: redeemed }, 'Identity confirmed with two-factor authentication');
+    }
+    const next = { ...claims, auth_time: Date.now() };
+    saveSessionToken(await signSessionToken(next));
+    setClaims(next);
+    settleReauth(true);
+  };
+
+  const cancelReauth = () => settleReauth(false);
+
+  if (isRestoring) {
+    return (
+      <div className="min-h-screen bg-slate-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
   return (
-    <AuthContext.Provider value={{ user, login, logout, isLoading }}>
+    <AuthContext.Provider value={{
+      user,
+      login,
+      providerConfigs,
+      setProviderConfigs,
+      loginWithProvider,
+      providerError,
+      sessionProvider: claims?.idp
+        ? { id: claims.idp, label: providerConfigs.find(config => config.id === claims.idp)?.label ?? claims.idp }
+        : null,
+      twoFactorPending: !!twoFactorChallenge,
+      verifyTwoFactor,
+      cancelTwoFactor,
+      twoFactorEnabled: !!account?.two_factor,
+      recoveryCodesLeft: account?.two_factor?.recovery_codes.length ?? 0,
+      enableTwoFactor,
+      disableTwoFactor,
+      regenerateRecoveryCodes,
+      logout,
+      isLoading,
+      signOutReason,
+      needsSetup: users.length === 0,
+      setupAdmin,
+      acceptInvitation,
+      changePassword,
+      passwordChangedAt: account?.password_changed_at,
+      sessionPolicy,
+      setSessionPolicy,
+      recordAudit,
+      idleSecondsLeft,
+      keepAlive,
+      confirmIdentity,
+      reauthReason,
+      reauthMethods: {
+        secret: account?.password ? 'password' : account?.two_factor ? 'code' : null,
+        provider: reauthProvider ? { id: reauthProvider.id, label: reauthProvider.label } : null,
+      },
+      submitReauth,
+      cancelReauth,
+    }}>
       {children}
     </AuthContext.Provider>
   );
@@ -76,4 +572,4 @@ export function useAuth() {
     throw new Error('useAuth must be used within AuthProvider');
   }
   return context;
-}
\ No newline at end of file
+}
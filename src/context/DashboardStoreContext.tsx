@@ -0,0 +1,114 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createDashboardStore } from '../store/dashboardStore';
+import { createDashboardActions } from '../store/actions';
+import { createDashboardHistory } from '../store/history';
+import { connectCrossTabSync } from '../store/crossTab';
+import { LoadReport, loadPersistedState, persistDashboardStore } from '../store/persistence';
+import { createStorageAdapter, StorageAdapter } from '../store/storage';
+import { createWorkspaceScope } from '../store/workspaces';
+import { DashboardStoreContext } from '../hooks/useDashboardStore';
+
+// Tells the user why some or all of their stored data did not load
+const createLoadReportAlert = (report: LoadReport) => {
+  const details = [
+    report.error,
+    report.quarantined.length > 0 ? `${report.quarantined.length} stored record(s) quarantined` : null,
+    report.readOnly ? 'changes in this session will not be saved' : null,
+  ].filter(Boolean).join('; ');
+
+  return {
+    id: `alert_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    type: 'system' as const,
+    severity: 'high' as const,
+    message: `Stored dashboard data could not be fully loaded: ${details}. See Settings > System.`,
+    timestamp: new Date().toISOString(),
+    acknowledged: false,
+  };
+};
+
+// Loading migrates and quarantines, so it must run once per adapter even when effects re-run.
+// A load that failed outright is forgotten so a remount tries again.
+const loads = new WeakMap<StorageAdapter, ReturnType<typeof loadPersistedState>>();
+const loadOnce = (storage: StorageAdapter) => {
+  if (!loads.has(storage)) {
+    loads.set(storage, loadPersistedState(storage).catch(error => {
+      loads.delete(storage);
+      throw error;
+    }));
+  }
+  return loads.get(storage)!;
+};
+
+export function DashboardStoreProvider({ children, storage: providedStorage }: { children: React.ReactNode; storage?: StorageAdapter }) {
+  const [store] = useState(() => createDashboardStore());
+  const [scope] = useState(createWorkspaceScope);
+  const [actions] = useState(() => createDashboardActions(store, scope));
+  const [history] = useState(() => createDashboardHistory(store));
+  const [storage] = useState(() => providedStorage ?? createStorageAdapter());
+  const [loadReport, setLoadReport] = useState<LoadReport | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const value = useMemo(
+    () => ({ store, actions, history, scope, storage, loadReport }),
+    [store, actions, history, scope, storage, loadReport]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
+    let disconnect: (() => void) | undefined;
+
+    loadOnce(storage).then(({ state, report }) => {
+      if (cancelled) return;
+      store.dispatch({ type: 'hydrate', state });
+      // Subscribe after hydrating so the loaded state is not written straight back
+      if (!report.readOnly) {
+        unsubscribe = persistDashboardStore(store, storage);
+      }
+      // A read-only tab still follows the others but keeps its unsaved changes to itself
+      disconnect = connectCrossTabSync(store, { broadcast: !report.readOnly });
+      actions.purgeExpiredTrash();
+      if (report.error || report.quarantined.length > 0) {
+        store.dispatch({ type: 'add', collection: 'alerts', entity: createLoadReportAlert(report) });
+      }
+      setLoadReport(report);
+    }).catch(error => {
+      if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Unknown error');
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+      disconnect?.();
+    };
+  }, [store, actions, storage]);
+
+  useEffect(() => history.start(), [history]);
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-slate-900 flex items-center justify-center p-6">
+        <div className="max-w-md text-center space-y-3">
+          <h1 className="text-lg font-semibold text-slate-100">The dashboard could not load its data</h1>
+          <p className="text-sm text-red-400">{loadError}</p>
+          <button onClick={() => window.location.reload()} className="text-sm text-blue-400 hover:text-blue-300">
+            Reload
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!loadReport) {
+    return (
+      <div className="min-h-screen bg-slate-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <DashboardStoreContext.Provider value={value}>
+      {children}
+    </DashboardStoreContext.Provider>
+  );
+}
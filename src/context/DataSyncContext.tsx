@@ -1,15 +1,31 @@
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { useMockData } from '../hooks/useMockData';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useSyncExternalStore } from 'react';
+import { useDashboardStore } from '../hooks/useDashboardStore';
+import { CollectionKey } from '../store/dashboardStore';
+import { createApiRequestAuthorizer } from '../store/apiTokens';
+import {
+  ChangeEntry,
+  ConflictStrategy,
+  createSyncEngine,
+  createSyncTransport,
+  EntitySyncState,
+  entitySyncStates,
+  FieldChoice,
+  PoisonedChange,
+  SyncConflict,
+  SyncJournalEntry,
+  syncKey,
+  SyncPolicy,
+} from '../store/sync';
 
 // Helper to check if 24 hours have passed since last sync alert
 const shouldShowSyncAlert = (): boolean => {
   const lastSyncAlert = localStorage.getItem('ml_dashboard_last_sync_alert');
   if (!lastSyncAlert) return true;
-  
+
   const lastAlertTime = new Date(lastSyncAlert).getTime();
   const now = new Date().getTime();
   const twentyFourHours = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-  
+
   return (now - lastAlertTime) >= twentyFourHours;
 };
 
@@ -23,156 +39,151 @@ interface SyncStatus {
   isSyncing: boolean;
   pendingChanges: number;
   syncErrors: string[];
+  /** Server revision this client has pulled up to. */
+  revision: number;
+  /** When the automatic retry of a failed sync is due. */
+  nextRetryAt: Date | null;
+  retryAttempt: number;
 }
 
 interface DataSyncContextType {
   syncStatus: SyncStatus;
+  /** Local changes not yet pushed, oldest first. */
+  pendingChanges: ChangeEntry[];
+  /** Changes set aside after repeated failures or a server rejection. */
+  poisonedChanges: PoisonedChange[];
+  /** Puts one poisoned change back in line and syncs. */
+  retryChange: (seq: number) => Promise<void>;
+  getEntitySyncState: (collection: CollectionKey, id: string) => EntitySyncState;
+  /** Every push and pull, newest first. */
+  journal: SyncJournalEntry[];
+  clearJournal: () => void;
+  /** When to sync automatically and which collections to sync, from Settings > System. */
+  syncPolicy: SyncPolicy;
+  setSyncPolicy: (policy: SyncPolicy) => void;
   triggerSync: () => Promise<void>;
+  /** Pushes local changes and pulls every entity again from the server. */
   syncAll: () => Promise<void>;
-  markDataChanged: () => void;
+  conflicts: SyncConflict[];
+  conflictStrategy: ConflictStrategy;
+  setConflictStrategy: (strategy: ConflictStrategy) => void;
+  /** Settles a conflict by taking one side, or a per-field choice, and pushes the result. */
+  resolveConflict: (conflictId: string, resolution: FieldChoice | Record<string, FieldChoice>) => Promise<void>;
 }
 
 const DataSyncContext = createContext<DataSyncContextType | undefined>(undefined);
 
 export function DataSyncProvider({ children }: { children: React.ReactNode }) {
-  const mockData = useMockData();
-  const [syncStatus, setSyncStatus] = useState<SyncStatus>({
-    isOnline: navigator.onLine,
-    lastSync: new Date(),
-    isSyncing: false,
-    pendingChanges: 0,
-    syncErrors: [],
-  });
-
-  // Track data changes
-  const [dataChangeCount, setDataChangeCount] = useState(0);
-
-  const markDataChanged = useCallback(() => {
-    setDataChangeCount(prev => prev + 1);
-    setSyncStatus(prev => ({
-      ...prev,
-      pendingChanges: prev.pendingChanges + 1
-    }));
-  }, []);
-
-  // Simulate server sync
-  const simulateServerSync = async (dataType: string, data: any) => {
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 1000));
-    
-    // Simulate occasional sync errors (5% chance)
-    if (Math.random() < 0.05) {
-      throw new Error(`Failed to sync ${dataType}: Network timeout`);
+  const store = useDashboardStore();
+  const [engine] = useState(() => createSyncEngine(store, createSyncTransport({ authorize: createApiRequestAuthorizer(store) })));
+  const snapshot = useSyncExternalStore(engine.subscribe, engine.getSnapshot);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [startedAt] = useState(() => new Date());
+
+  useEffect(() => engine.start(), [engine]);
+
+  const runSync = useCallback(async (full: boolean) => {
+    const result = await engine.sync({ full });
+    // Add success alert only once per 24 hours
+    if (result && shouldShowSyncAlert()) {
+      store.dispatch({ type: 'add', collection: 'alerts', entity: {
+        id: `sync_${Date.now()}`,
+        type: 'performance',
+        severity: 'low',
+        message: 'All data synchronized successfully',
+        timestamp: new Date().toISOString(),
+        acknowledged: false,
+      }});
+      markSyncAlertShown();
     }
-    
-    return { success: true, synced_at: new Date() };
-  };
-
-  const triggerSync = useCallback(async () => {
-    if (syncStatus.isSyncing) return;
-    
-    setSyncStatus(prev => ({ ...prev, isSyncing: true, syncErrors: [] }));
-    
-    try {
-      const syncPromises = [];
-      let errors: string[] = [];
-
-      // Sync all data types
-      if (mockData.pipelines.length > 0) {
-        syncPromises.push(
-          simulateServerSync('pipelines', mockData.pipelines)
-            .catch(err => errors.push(err.message))
-        );
-      }
-
-      if (mockData.datasets.length > 0) {
-        syncPromises.push(
-          simulateServerSync('datasets', mockData.datasets)
-            .catch(err => errors.push(err.message))
-        );
-      }
-
-      if (mockData.alerts.length > 0) {
-        syncPromises.push(
-          simulateServerSync('alerts', mockData.alerts)
-            .catch(err => errors.push(err.message))
-        );
-      }
-
-      if (mockData.experiments.length > 0) {
-        syncPromises.push(
-          simulateServerSync('experiments', mockData.experiments)
-            .catch(err => errors.push(err.message))
-        );
-      }
+  }, [engine, store]);
+
+  const triggerSync = useCallback(() => runSync(false), [runSync]);
+  const syncAll = useCallback(() => runSync(true), [runSync]);
+
+  const retryChange = useCallback(async (seq: number) => {
+    engine.retryPoisoned(seq);
+    await engine.sync();
+  }, [engine]);
+
+  const resolveConflict = useCallback(async (conflictId: string, resolution: FieldChoice | Record<string, FieldChoice>) => {
+    engine.resolveConflict(conflictId, resolution);
+    await engine.sync();
+  }, [engine]);
+
+  const syncStatus = useMemo<SyncStatus>(() => ({
+    isOnline,
+    lastSync: snapshot.lastSync ? new Date(snapshot.lastSync) : startedAt,
+    isSyncing: snapshot.isSyncing,
+    pendingChanges: snapshot.pending.length,
+    syncErrors: snapshot.errors,
+    revision: snapshot.revision,
+    nextRetryAt: snapshot.retry ? new Date(snapshot.retry.nextRetryAt) : null,
+    retryAttempt: snapshot.retry?.attempt ?? 0,
+  }), [isOnline, snapshot, startedAt]);
+
+  const entityStates = useMemo(() => entitySyncStates(snapshot), [snapshot]);
+  const getEntitySyncState = useCallback(
+    (collection: CollectionKey, id: string) => snapshot.policy.excludedCollections.includes(collection)
+      ? 'local'
+      : entityStates.get(syncKey(collection, id)) ?? 'synced',
+    [entityStates, snapshot.policy]
+  );
 
-      if (mockData.externalConnections.length > 0) {
-        syncPromises.push(
-          simulateServerSync('external_connections', mockData.externalConnections)
-            .catch(err => errors.push(err.message))
-        );
-      }
+  const { autoSync, syncInterval, syncOnFocus } = snapshot.policy;
 
-      await Promise.allSettled(syncPromises);
-
-      setSyncStatus(prev => ({
-        ...prev,
-        isSyncing: false,
-        lastSync: new Date(),
-        pendingChanges: errors.length > 0 ? prev.pendingChanges : 0,
-        syncErrors: errors
-      }));
-
-      if (errors.length === 0) {
-        // Add success alert only once per 24 hours
-        if (shouldShowSyncAlert()) {
-          mockData.setAlerts(prev => [{
-            id: `sync_${Date.now()}`,
-            type: 'performance' as const,
-            severity: 'low' as const,
-            message: 'All data synchronized successfully',
-            timestamp: new Date().toISOString(),
-            acknowledged: false,
-          }, ...prev]);
-          markSyncAlertShown();
-        }
-      }
+  // Syncs in the background unless a sync is already running or the policy turned auto-sync off
+  const autoSyncNow = useCallback(() => {
+    const { isSyncing, policy } = engine.getSnapshot();
+    if (policy.autoSync && !isSyncing && navigator.onLine) {
+      triggerSync();
+    }
+  }, [engine, triggerSync]);
 
-    } catch (error) {
-      setSyncStatus(prev => ({
-        ...prev,
-        isSyncing: false,
-        syncErrors: [...prev.syncErrors, `Sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`]
-      }));
+  // Replay what a previous session left in the outbox
+  useEffect(() => {
+    if (engine.getSnapshot().pending.length > 0) {
+      autoSyncNow();
     }
-  }, [syncStatus.isSyncing, mockData]);
+  }, [engine, autoSyncNow]);
 
-  const syncAll = useCallback(async () => {
-    await triggerSync();
-  }, [triggerSync]);
+  // Push local changes and pull everyone else's on the configured interval
+  useEffect(() => {
+    if (!autoSync) return;
+    const interval = setInterval(autoSyncNow, syncInterval * 1000);
+    return () => clearInterval(interval);
+  }, [autoSync, syncInterval, autoSyncNow]);
 
-  // Auto-sync every 30 seconds if there are pending changes
+  // Catch up when the user comes back to the tab
   useEffect(() => {
-    const interval = setInterval(() => {
-      if (syncStatus.pendingChanges > 0 && !syncStatus.isSyncing && syncStatus.isOnline) {
-        triggerSync();
+    if (!autoSync || !syncOnFocus) return;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        autoSyncNow();
       }
-    }, 30000);
+    };
 
-    return () => clearInterval(interval);
-  }, [syncStatus.pendingChanges, syncStatus.isSyncing, syncStatus.isOnline, triggerSync]);
+    window.addEventListener('focus', autoSyncNow);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.removeEventListener('focus', autoSyncNow);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [autoSync, syncOnFocus, autoSyncNow]);
 
   // Monitor online status
   useEffect(() => {
     const handleOnline = () => {
-      setSyncStatus(prev => ({ ...prev, isOnline: true }));
-      if (syncStatus.pendingChanges > 0) {
-        triggerSync();
+      setIsOnline(true);
+      if (engine.getSnapshot().pending.length > 0) {
+        autoSyncNow();
       }
     };
 
     const handleOffline = () => {
-      setSyncStatus(prev => ({ ...prev, isOnline: false }));
+      setIsOnline(false);
     };
 
     window.addEventListener('online', handleOnline);
@@ -182,26 +193,25 @@ export function DataSyncProvider({ children }: { children: React.ReactNode }) {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
-  }, [syncStatus.pendingChanges, triggerSync]);
-
-  // Watch for data changes
-  useEffect(() => {
-    markDataChanged();
-  }, [
-    mockData.pipelines.length,
-    mockData.datasets.length,
-    mockData.alerts.length,
-    mockData.experiments.length,
-    mockData.externalConnections.length,
-    markDataChanged
-  ]);
+  }, [engine, autoSyncNow]);
 
   return (
     <DataSyncContext.Provider value={{
       syncStatus,
+      pendingChanges: snapshot.pending,
+      poisonedChanges: snapshot.poisoned,
+      retryChange,
+      getEntitySyncState,
+      journal: snapshot.journal,
+      clearJournal: engine.clearJournal,
+      syncPolicy: snapshot.policy,
+      setSyncPolicy: engine.setPolicy,
       triggerSync,
       syncAll,
-      markDataChanged
+      conflicts: snapshot.conflicts,
+      conflictStrategy: snapshot.strategy,
+      setConflictStrategy: engine.setConflictStrategy,
+      resolveConflict,
     }}>
       {children}
     </DataSyncContext.Provider>
@@ -214,4 +224,4 @@ export function useDataSync() {
     throw new Error('useDataSync must be used within DataSyncProvider');
   }
   return context;
-}
\ No newline at end of file
+}
@@ -0,0 +1,64 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from './AuthContext';
+import { useActiveWorkspaceId, useDashboardSelector } from '../hooks/useDashboardStore';
+import { PermissionsContext } from '../hooks/usePermissions';
+import { auditChange } from '../store/auditLog';
+import { BUILT_IN_ROLES, loadCustomRoles, Permission, Role, ROLES_KEY, saveCustomRoles } from '../store/permissions';
+import { selectWorkspaceById } from '../store/selectors';
+import { workspacePermissions } from '../store/workspaces';
+
+export function PermissionsProvider({ children }: { children: React.ReactNode }) {
+  const { user, recordAudit } = useAuth();
+  const [customRoles, setCustomRoles] = useState<Role[]>(loadCustomRoles);
+  const roles = useMemo(() => [...BUILT_IN_ROLES, ...customRoles], [customRoles]);
+  const workspace = useDashboardSelector(selectWorkspaceById(useActiveWorkspaceId()));
+  const granted = useMemo(() => workspacePermissions(workspace, user ?? undefined, roles), [workspace, user, roles]);
+
+  const can = useCallback((permission: Permission) => granted.has(permission), [granted]);
+
+  const updateCustomRoles = useCallback((update: (prev: Role[]) => Role[]) => {
+    setCustomRoles(prev => {
+      const next = update(prev);
+      saveCustomRoles(next);
+      return next;
+    });
+  }, []);
+
+  const saveRole = useCallback((role: Role) => {
+    if (BUILT_IN_ROLES.some(builtIn => builtIn.id === role.id)) {
+      throw new Error(`The built-in role "${role.id}" cannot be changed`);
+    }
+    const existing = customRoles.find(candidate => candidate.id === role.id);
+    recordAudit(existing ? `Role "${role.name}" updated` : `Role "${role.name}" created`, [
+      auditChange('roles', role.id, existing && { ...existing }, { ...role, builtIn: false }),
+    ]);
+    updateCustomRoles(prev => prev.some(existing => existing.id === role.id)
+      ? prev.map(existing => existing.id === role.id ? { ...role, builtIn: false } : existing)
+      : [...prev, { ...role, builtIn: false }]);
+  }, [customRoles, recordAudit, updateCustomRoles]);
+
+  const deleteRole = useCallback((roleId: string) => {
+    const existing = customRoles.find(role => role.id === roleId);
+    if (existing) {
+      recordAudit(`Role "${existing.name}" deleted`, [auditChange('roles', roleId, { ...existing })]);
+    }
+    updateCustomRoles(prev => prev.filter(role => role.id !== roleId));
+  }, [customRoles, recordAudit, updateCustomRoles]);
+
+  // Roles edited in another tab apply here too
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === ROLES_KEY) {
+        setCustomRoles(loadCustomRoles());
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  return (
+    <PermissionsContext.Provider value={{ roles, can, saveRole, deleteRole }}>
+      {children}
+    </PermissionsContext.Provider>
+  );
+}
@@ -0,0 +1,22 @@
+import React, { useEffect, useState } from 'react';
+import { useDashboardStore } from '../hooks/useDashboardStore';
+import { RunExecutorContext } from '../hooks/useRunExecutor';
+import { createRunExecutor, createStepRunner } from '../store/runner';
+
+/**
+ * Executes pipeline runs for as long as the dashboard is open, whichever view
+ * is showing. Views start and stop runs through the store actions; the
+ * executor picks them up from there.
+ */
+export function RunExecutorProvider({ children }: { children: React.ReactNode }) {
+  const store = useDashboardStore();
+  const [executor] = useState(() => createRunExecutor(store, createStepRunner()));
+
+  useEffect(() => executor.start(), [executor]);
+
+  return (
+    <RunExecutorContext.Provider value={executor}>
+      {children}
+    </RunExecutorContext.Provider>
+  );
+}
@@ -0,0 +1,54 @@
+import React, { useCallback, useEffect, useMemo } from 'react';
+import { useAuth } from './AuthContext';
+import { usePermissions } from '../hooks/usePermissions';
+import { useActiveWorkspaceId, useDashboardHistory, useDashboardSelector, useWorkspaceScope } from '../hooks/useDashboardStore';
+import { WorkspaceContext } from '../hooks/useWorkspace';
+import { selectWorkspaces } from '../store/selectors';
+import { loadActiveWorkspaceId, saveActiveWorkspaceId, visibleWorkspaces, workspaceRole } from '../store/workspaces';
+
+export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const { roles } = usePermissions();
+  const scope = useWorkspaceScope();
+  const { clear: clearHistory } = useDashboardHistory();
+  const activeWorkspaceId = useActiveWorkspaceId();
+  const allWorkspaces = useDashboardSelector(selectWorkspaces);
+  const workspaces = useMemo(() => user ? visibleWorkspaces(allWorkspaces, user, roles) : [], [allWorkspaces, user, roles]);
+  const activeWorkspace = workspaces.find(workspace => workspace.id === activeWorkspaceId) ?? null;
+  const activeRole = workspaceRole(activeWorkspace ?? undefined, user ?? undefined, roles);
+
+  // Keeps a workspace the user can see open: the one they had last, or else the first.
+  // Runs again when the open one is deleted or the user is removed from it.
+  useEffect(() => {
+    if (!user) {
+      scope.set(null);
+      return;
+    }
+    if (workspaces.some(workspace => workspace.id === activeWorkspaceId)) return;
+    const saved = loadActiveWorkspaceId(user.id);
+    scope.set((workspaces.find(workspace => workspace.id === saved) ?? workspaces[0])?.id ?? null);
+  }, [user, workspaces, activeWorkspaceId, scope]);
+
+  // Undo only reaches back to the signed-in user's own steps in the open workspace
+  const userId = user?.id;
+  useEffect(() => {
+    clearHistory();
+  }, [userId, activeWorkspaceId, clearHistory]);
+
+  const switchWorkspace = useCallback((workspaceId: string) => {
+    if (!user || !workspaces.some(workspace => workspace.id === workspaceId)) return;
+    scope.set(workspaceId);
+    saveActiveWorkspaceId(user.id, workspaceId);
+  }, [user, workspaces, scope]);
+
+  const value = useMemo(
+    () => ({ workspaces, activeWorkspace, activeRole, switchWorkspace }),
+    [workspaces, activeWorkspace, activeRole, switchWorkspace]
+  );
+
+  return (
+    <WorkspaceContext.Provider value={value}>
+      {children}
+    </WorkspaceContext.Provider>
+  );
+}
@@ -0,0 +1,64 @@
+import { createContext, useContext, useSyncExternalStore } from 'react';
+import { DashboardState, DashboardStore } from '../store/dashboardStore';
+import { DashboardActions } from '../store/actions';
+import { DashboardHistory } from '../store/history';
+import { LoadReport } from '../store/persistence';
+import { StorageAdapter } from '../store/storage';
+import { WorkspaceScope } from '../store/workspaces';
+
+interface DashboardStoreContextType {
+  store: DashboardStore;
+  actions: DashboardActions;
+  history: DashboardHistory;
+  /** The workspace open in this tab, chosen by WorkspaceProvider. */
+  scope: WorkspaceScope;
+  storage: StorageAdapter;
+  loadReport: LoadReport | null;
+}
+
+export const DashboardStoreContext = createContext<DashboardStoreContextType | undefined>(undefined);
+
+function useDashboardStoreContext() {
+  const context = useContext(DashboardStoreContext);
+  if (!context) {
+    throw new Error('useDashboardStore must be used within DashboardStoreProvider');
+  }
+  return context;
+}
+
+export function useDashboardStore() {
+  return useDashboardStoreContext().store;
+}
+
+export function useDashboardActions() {
+  return useDashboardStoreContext().actions;
+}
+
+export function useDashboardHistory() {
+  const { history } = useDashboardStoreContext();
+  const snapshot = useSyncExternalStore(history.subscribe, history.getSnapshot);
+  return { ...snapshot, undo: history.undo, redo: history.redo, clear: history.clear };
+}
+
+export function useWorkspaceScope() {
+  return useDashboardStoreContext().scope;
+}
+
+export function useActiveWorkspaceId() {
+  const { scope } = useDashboardStoreContext();
+  return useSyncExternalStore(scope.subscribe, scope.get);
+}
+
+export function useStorageAdapter() {
+  return useDashboardStoreContext().storage;
+}
+
+export function useStorageLoadReport() {
+  // The provider only renders its children once loading has finished
+  return useDashboardStoreContext().loadReport as LoadReport;
+}
+
+export function useDashboardSelector<T>(selector: (state: DashboardState) => T): T {
+  const { store } = useDashboardStoreContext();
+  return useSyncExternalStore(store.subscribe, () => selector(store.getState()));
+}
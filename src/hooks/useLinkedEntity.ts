@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import { useActiveWorkspaceId, useDashboardSelector } from './useDashboardStore';
+import { useWorkspace } from './useWorkspace';
+import { EntityRef } from '../types';
+import { ENTITY_REF_COLLECTIONS } from '../store/integrity';
+import { inWorkspace } from '../store/workspaces';
+
+/** The element id of an entity's card, which a deep link scrolls to. */
+export const linkedElementId = (ref: EntityRef) => `${ref.type}-${ref.id}`;
+
+/**
+ * Follows a deep link such as /pipelines/:id. A link into another workspace
+ * the user can open switches to it, and the entity's card is scrolled into
+ * view once it is shown. `missing` is true when the entity does not exist,
+ * or only in a workspace the user cannot open.
+ */
+export function useLinkedEntity(ref: EntityRef | null): { missing: boolean } {
+  const workspaceId = useActiveWorkspaceId();
+  const { workspaces, switchWorkspace } = useWorkspace();
+  const entity = useDashboardSelector(state => ref
+    ? (state[ENTITY_REF_COLLECTIONS[ref.type]] as { id: string; workspace_id?: string }[]).find(candidate => candidate.id === ref.id)
+    : undefined);
+  const shown = !!entity && inWorkspace(entity, workspaceId);
+  const elsewhere = !!entity && !shown && workspaces.some(workspace => workspace.id === entity.workspace_id);
+
+  useEffect(() => {
+    if (elsewhere && entity?.workspace_id) switchWorkspace(entity.workspace_id);
+  }, [elsewhere, entity?.workspace_id, switchWorkspace]);
+
+  const elementId = ref && shown ? linkedElementId(ref) : null;
+  useEffect(() => {
+    if (elementId) document.getElementById(elementId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [elementId]);
+
+  return { missing: !!ref && !shown && !elsewhere };
+}
@@ -0,0 +1,26 @@
+import { createContext, useContext } from 'react';
+import { Permission, Role } from '../store/permissions';
+
+interface PermissionsContextType {
+  /** Built-in roles first, then custom ones. */
+  roles: Role[];
+  /** Whether the signed-in user's role in the open workspace grants the permission. */
+  can: (permission: Permission) => boolean;
+  /** Adds a custom role, or replaces the one with the same id. */
+  saveRole: (role: Role) => void;
+  deleteRole: (roleId: string) => void;
+}
+
+export const PermissionsContext = createContext<PermissionsContextType | undefined>(undefined);
+
+export function usePermissions() {
+  const context = useContext(PermissionsContext);
+  if (!context) {
+    throw new Error('usePermissions must be used within PermissionsProvider');
+  }
+  return context;
+}
+
+export function usePermission(permission: Permission): boolean {
+  return usePermissions().can(permission);
+}
@@ -0,0 +1,12 @@
+import { createContext, useContext, useSyncExternalStore } from 'react';
+import { RunExecutor, RunExecutorSnapshot } from '../store/runner';
+
+export const RunExecutorContext = createContext<RunExecutor | undefined>(undefined);
+
+export function useRunExecutor(): RunExecutorSnapshot {
+  const executor = useContext(RunExecutorContext);
+  if (!executor) {
+    throw new Error('useRunExecutor must be used within RunExecutorProvider');
+  }
+  return useSyncExternalStore(executor.subscribe, executor.getSnapshot);
+}
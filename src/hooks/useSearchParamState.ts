@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+/**
+ * A filter kept in the query string, so a refresh or a shared link shows the
+ * same list. The parameter is left out while the filter has its default
+ * value, and changes replace the history entry rather than adding one, so
+ * the back button leaves the view instead of stepping through the filters.
+ */
+export function useSearchParamState<T extends string>(name: string, defaultValue: T, allowed?: readonly T[]): [T, (value: T) => void] {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const raw = searchParams.get(name);
+  // Hand-edited links can hold anything; unknown values fall back to the default
+  const value = raw !== null && (!allowed || allowed.includes(raw as T)) ? raw as T : defaultValue;
+
+  const setValue = useCallback((next: T) => {
+    setSearchParams(prev => {
+      const params = new URLSearchParams(prev);
+      if (next === defaultValue) {
+        params.delete(name);
+      } else {
+        params.set(name, next);
+      }
+      return params;
+    }, { replace: true });
+  }, [name, defaultValue, setSearchParams]);
+
+  return [value, setValue];
+}
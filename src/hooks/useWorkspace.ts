@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+import { Workspace } from '../types';
+
+interface WorkspaceContextType {
+  /** The workspaces the signed-in user can open. */
+  workspaces: Workspace[];
+  /** Null while signed out, or when the user is not a member of any workspace. */
+  activeWorkspace: Workspace | null;
+  /** The signed-in user's role in the open workspace. */
+  activeRole: string | null;
+  switchWorkspace: (workspaceId: string) => void;
+}
+
+export const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+export function useWorkspace() {
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error('useWorkspace must be used within WorkspaceProvider');
+  }
+  return context;
+}
@@ -0,0 +1,64 @@
+import { EntityRef } from './types';
+
+/** The views of the dashboard, as the sidebar and the assistant name them. */
+export type View =
+  | 'dashboard'
+  | 'pipelines'
+  | 'create-pipeline'
+  | 'data'
+  | 'models'
+  | 'monitoring'
+  | 'sync'
+  | 'alerts'
+  | 'logs'
+  | 'trash'
+  | 'settings';
+
+export const VIEW_PATHS: Record<View, string> = {
+  dashboard: '/',
+  pipelines: '/pipelines',
+  'create-pipeline': '/pipelines/new',
+  data: '/data',
+  models: '/models',
+  monitoring: '/monitoring',
+  sync: '/sync',
+  alerts: '/alerts',
+  logs: '/logs',
+  trash: '/trash',
+  settings: '/settings',
+};
+
+// Ids come from imports and other tabs too, so they are encoded rather than trusted to be URL-safe
+const segment = (id: string) => encodeURIComponent(id);
+
+/** Links to single entities and to views with filters; the route table in App.tsx matches them. */
+export const paths = {
+  pipeline: (id: string) => `/pipelines/${segment(id)}`,
+  pipelineRun: (pipelineId: string, runId: string) => `/pipelines/${segment(pipelineId)}/runs/${segment(runId)}`,
+  dataset: (id: string) => `/data/${segment(id)}`,
+  connection: (id: string) => `/data/connections/${segment(id)}`,
+  model: (id: string) => `/models/${segment(id)}`,
+  settingsTab: (tab: string) => `/settings/${segment(tab)}`,
+  /** `/alerts?severity=high`, leaving out the filters that are not set. */
+  withQuery: (path: string, query: Record<string, string | undefined>) => {
+    const search = new URLSearchParams(Object.entries(query).filter((entry): entry is [string, string] => !!entry[1])).toString();
+    return search ? `${path}?${search}` : path;
+  },
+};
+
+const ENTITY_PATHS: Record<EntityRef['type'], (id: string) => string> = {
+  pipeline: paths.pipeline,
+  dataset: paths.dataset,
+  experiment: paths.model,
+  connection: paths.connection,
+};
+
+export const entityPath = (ref: EntityRef) => ENTITY_PATHS[ref.type](ref.id);
+
+/** The view a path belongs to, for highlighting it in the sidebar. */
+export function viewOfPath(pathname: string): View {
+  if (pathname === VIEW_PATHS['create-pipeline']) return 'create-pipeline';
+  const first = pathname.split('/').filter(Boolean)[0];
+  const view = (Object.keys(VIEW_PATHS) as View[]).find(candidate => VIEW_PATHS[candidate] === `/${first}`);
+  return view ?? 'dashboard';
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { createDashboardActions } from './actions';
+import { createDashboardStore, EntityOf } from './dashboardStore';
+
+const pipeline = { id: 'p1', name: 'Churn', status: 'completed', progress: 100, steps: [], model_accuracy: 0.9 } as unknown as EntityOf<'pipelines'>;
+
+// Queues a run of the pipeline and takes it off the queue, as the run executor does
+const startedRun = () => {
+  const store = createDashboardStore();
+  const actions = createDashboardActions(store);
+  actions.setPipelines([pipeline]);
+  const run = actions.startPipeline('p1')!;
+  actions.beginPipelineRun(run.id);
+  const pipelineOf = () => store.getState().pipelines[0];
+  const runOf = () => store.getState().pipelineRuns.find(r => r.id === run.id)!;
+  return { actions, run, pipelineOf, runOf };
+};
+
+describe('pipeline runs', () => {
+  it('keeps the accuracy of the last model while a run trains, and reports the run\'s own on the run', () => {
+    const { actions, run, pipelineOf, runOf } = startedRun();
+    expect(actions.recordRunProgress(run.id, 50, 0.7)).toBe(true);
+    expect(pipelineOf()).toMatchObject({ status: 'running', progress: 50, model_accuracy: 0.9 });
+    expect(runOf().metrics).toEqual({ accuracy: 0.7 });
+  });
+
+  it('keeps the previous accuracy when a run fails', () => {
+    const { actions, run, pipelineOf } = startedRun();
+    actions.recordRunProgress(run.id, 50, 0.7);
+    actions.finishPipelineRun(run.id, 'failed', { reason: 'out of memory' });
+    expect(pipelineOf()).toMatchObject({ status: 'failed', model_accuracy: 0.9 });
+  });
+
+  it('takes the accuracy of a run that succeeds', () => {
+    const { actions, run, pipelineOf } = startedRun();
+    actions.finishPipelineRun(run.id, 'succeeded', { metrics: { accuracy: 0.95 } });
+    expect(pipelineOf()).toMatchObject({ status: 'completed', progress: 100, model_accuracy: 0.95 });
+  });
+});
@@ -0,0 +1,693 @@
+import type { SetStateAction } from 'react';
+import { Pipeline, PipelineRun, PipelineRunLogEntry, PipelineRunStep, Dataset, Alert, Experiment, ExternalConnection, EntityRef, UserAccount, Workspace } from '../types';
+import { DashboardStore, DashboardAction, CollectionKey, dashboardReducer, entityAction } from './dashboardStore';
+import {
+  CascadePlan,
+  cascadeDeleteActions,
+  checkIntegrity,
+  ENTITY_REF_COLLECTIONS,
+  planCascadeDelete,
+  previewCascadeDelete,
+  repairIntegrityActions,
+} from './integrity';
+import { activeRunOf, canRerunFromStep, canTransition, createPipelineRun, runLogEntry } from './pipelineRuns';
+import { createTrashEntry, isTrashExpired, restoreTrashActions } from './trash';
+import { activeAdminCount, findAccountByEmail } from './users';
+import { planWorkspaceImport, WorkspaceBundle } from './workspaceBundle';
+import { createWorkspace, inWorkspace, planWorkspaceTransfer, stampWorkspace, WORKSPACE_SCOPED_COLLECTIONS, WorkspaceScope } from './workspaces';
+
+export interface NewDataset {
+  name: string;
+  file: File;
+  size: number;
+  columns: number;
+}
+
+export interface NewExternalConnection {
+  name: string;
+  type: string;
+  url: string;
+  syncFrequency: string;
+}
+
+const createAlert = (message: string, severity: Alert['severity'] = 'low', entityRef?: EntityRef): Alert => ({
+  id: `alert_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  type: 'performance' as const,
+  severity,
+  message,
+  timestamp: new Date().toISOString(),
+  acknowledged: false,
+  entity_ref: entityRef,
+});
+
+const addAlert = (message: string, severity?: Alert['severity'], entityRef?: EntityRef): DashboardAction => ({
+  type: 'add',
+  collection: 'alerts',
+  entity: createAlert(message, severity, entityRef),
+});
+
+const RELATED_LABELS: Partial<Record<CollectionKey, string>> = {
+  pipelines: 'related pipeline(s) removed',
+  pipelineRuns: 'pipeline run(s) removed',
+  datasets: 'related dataset(s) removed',
+  experiments: 'related model(s) removed',
+  alerts: 'related alert(s) cleared',
+  externalConnections: 'related connection(s) removed',
+};
+
+// "Dataset "x" deleted, 2 related pipeline(s) removed, ..." for a cascade plan
+const describeCascade = (headline: string, root: CollectionKey, plan: CascadePlan) => [
+  headline,
+  ...(Object.keys(RELATED_LABELS) as CollectionKey[]).map(collection => {
+    const count = plan.removes[collection].length - (collection === root ? 1 : 0);
+    return count > 0 ? `${count} ${RELATED_LABELS[collection]}` : null;
+  }),
+  plan.detaches.length > 0 ? `${plan.detaches.length} reference(s) cleared` : null,
+].filter(Boolean).join(', ');
+
+/**
+ * Domain operations on the dashboard store. Every operation reads the latest
+ * state at call time and applies all of its entity changes as one batch.
+ * New entities go into the workspace open in `scope`.
+ */
+export function createDashboardActions(store: DashboardStore, scope?: WorkspaceScope) {
+  const { getState } = store;
+  const dispatch = (action: DashboardAction) => store.dispatch(stampWorkspace(action, scope?.get() ?? null, getState()));
+  const inActiveWorkspace = (entity: { workspace_id?: string }) => {
+    const workspaceId = scope?.get();
+    return !workspaceId || inWorkspace(entity, workspaceId);
+  };
+
+  const setPipelines = (update: SetStateAction<Pipeline[]>) =>
+    dispatch({ type: 'set', collection: 'pipelines', update });
+
+  const setDatasets = (update: SetStateAction<Dataset[]>) =>
+    dispatch({ type: 'set', collection: 'datasets', update });
+
+  const setAlerts = (update: SetStateAction<Alert[]>) =>
+    dispatch({ type: 'set', collection: 'alerts', update });
+
+  const setExperiments = (update: SetStateAction<Experiment[]>) =>
+    dispatch({ type: 'set', collection: 'experiments', update });
+
+  const setExternalConnections = (update: SetStateAction<ExternalConnection[]>) =>
+    dispatch({ type: 'set', collection: 'externalConnections', update });
+
+  // Moves one entity, and everything its references cascade to, into the trash as one group
+  const cascadeDelete = (root: EntityRef, label: string, headline: string) => {
+    const state = getState();
+    const collection = ENTITY_REF_COLLECTIONS[root.type];
+    const plan = planCascadeDelete(state, collection, [root.id]);
+    const hasRelated = plan.detaches.length > 0 || Object.values(plan.removes).flat().length > 1;
+
+    dispatch({ type: 'batch', label: headline, actions: [
+      ...cascadeDeleteActions(plan),
+      { type: 'add', collection: 'trash', entity: createTrashEntry(state, plan, root, label) },
+      addAlert(describeCascade(headline, collection, plan), hasRelated ? 'medium' : 'low'),
+    ]});
+  };
+
+  const previewDelete = (root: EntityRef) =>
+    previewCascadeDelete(getState(), ENTITY_REF_COLLECTIONS[root.type], root.id);
+
+  const addPipeline = (pipeline: Pipeline) => {
+    const datasets = getState().datasets.filter(inActiveWorkspace);
+    // Ensure pipeline has a dataset_id - use first available dataset as fallback
+    if (!pipeline.dataset_id && datasets.length > 0) {
+      pipeline.dataset_id = datasets[0].id;
+    }
+
+    dispatch({ type: 'batch', label: `Pipeline "${pipeline.name}" created`, actions: [
+      { type: 'add', collection: 'pipelines', entity: pipeline },
+      addAlert(`Pipeline "${pipeline.name}" created successfully`, 'low', { type: 'pipeline', id: pipeline.id }),
+    ]});
+
+    return pipeline;
+  };
+
+  const duplicatePipeline = (pipelineId: string) => {
+    const pipeline = getState().pipelines.find(p => p.id === pipelineId);
+    if (!pipeline) return;
+
+    const duplicatedPipeline: Pipeline = {
+      ...pipeline,
+      id: `pipeline_${Date.now()}`,
+      name: `${pipeline.name} (Copy)`,
+      status: 'idle' as const,
+      progress: 0,
+      created_at: new Date().toISOString(),
+      last_run: undefined,
+    };
+
+    dispatch({ type: 'batch', label: `Pipeline "${pipeline.name}" duplicated`, actions: [
+      { type: 'add', collection: 'pipelines', entity: duplicatedPipeline },
+    ]});
+
+    return duplicatedPipeline;
+  };
+
+  const deletePipeline = (pipelineId: string) => {
+    const pipeline = getState().pipelines.find(p => p.id === pipelineId);
+    if (!pipeline) return;
+
+    cascadeDelete({ type: 'pipeline', id: pipelineId }, pipeline.name, `Pipeline "${pipeline.name}" moved to Trash`);
+  };
+
+  // Runs are not undoable steps, but starting and stopping them is audited.
+  // The run is queued for the run executor to start; returns it, or nothing
+  // when the pipeline is missing or already has a run queued or going.
+  const startPipeline = (pipelineId: string, options: { trigger?: PipelineRun['trigger']; rerunOf?: string; fromStep?: string } = {}) => {
+    const state = getState();
+    const pipeline = state.pipelines.find(p => p.id === pipelineId);
+    if (!pipeline || activeRunOf(state.pipelineRuns, pipelineId)) return;
+
+    const rerunOf = options.rerunOf ? state.pipelineRuns.find(run => run.id === options.rerunOf) : undefined;
+    if (options.fromStep && !(rerunOf && canRerunFromStep(rerunOf, options.fromStep))) return;
+    // A re-run trains on the dataset the earlier run used, in the version it has now
+    const dataset = state.datasets.find(d => d.id === (rerunOf?.dataset?.id ?? pipeline.dataset_id))
+      ?? state.datasets.find(d => d.id === pipeline.dataset_id);
+    const run = createPipelineRun(state.pipelineRuns, pipeline, dataset, { trigger: options.trigger ?? 'manual', rerunOf, fromStep: options.fromStep });
+
+    dispatch({ type: 'batch', audit: rerunOf ? `Pipeline "${pipeline.name}" re-run from run #${rerunOf.number}` : `Pipeline "${pipeline.name}" started`, actions: [
+      { type: 'add', collection: 'pipelineRuns', entity: run },
+      { type: 'update', collection: 'pipelines', id: pipelineId, changes: { status: 'queued' as const, progress: 0 } },
+    ]});
+
+    return run;
+  };
+
+  // Called by the run executor when it takes a run off the queue
+  const beginPipelineRun = (runId: string) => {
+    const run = getState().pipelineRuns.find(r => r.id === runId);
+    if (!run || !canTransition(run.status, 'running')) return false;
+
+    const algorithm = run.parameters.algorithm;
+    dispatch({ type: 'batch', actions: [
+      { type: 'update', collection: 'pipelineRuns', id: runId, changes: {
+        status: 'running' as const,
+        started_at: new Date().toISOString(),
+        logs: [...run.logs, runLogEntry(algorithm ? `Training with ${algorithm.replace(/_/g, ' ')}` : 'Training')],
+      } },
+      { type: 'update', collection: 'pipelines', id: run.pipeline_id, changes: { status: 'running' as const } },
+    ]});
+    return true;
+  };
+
+  const logRunEvent = (runId: string, message: string, level?: PipelineRunLogEntry['level']) => {
+    const run = getState().pipelineRuns.find(r => r.id === runId);
+    if (!run) return;
+    dispatch({ type: 'update', collection: 'pipelineRuns', id: runId, changes: { logs: [...run.logs, runLogEntry(message, level)] } });
+  };
+
+  const rerunPipelineRun = (runId: string) => {
+    const run = getState().pipelineRuns.find(r => r.id === runId);
+    if (!run) return;
+    // Repeating a failed run is a retry
+    return startPipeline(run.pipeline_id, { trigger: run.status === 'failed' ? 'retry' : 'manual', rerunOf: runId });
+  };
+
+  // Repeats a run from one step on, typically the step it failed at, reusing the outputs of the steps before it
+  const rerunPipelineRunFromStep = (runId: string, stepId: string) => {
+    const run = getState().pipelineRuns.find(r => r.id === runId);
+    if (!run) return;
+    return startPipeline(run.pipeline_id, { trigger: run.status === 'failed' ? 'retry' : 'manual', rerunOf: runId, fromStep: stepId });
+  };
+
+  const stopPipeline = (pipelineId: string) => {
+    const state = getState();
+    const pipeline = state.pipelines.find(p => p.id === pipelineId);
+    if (!pipeline) return;
+    const run = activeRunOf(state.pipelineRuns, pipelineId);
+
+    dispatch({ type: 'batch', audit: `Pipeline "${pipeline.name}" stopped`, actions: [
+      { type: 'update', collection: 'pipelines', id: pipelineId, changes: { status: 'idle' as const } },
+      ...(run ? [entityAction({ type: 'update', collection: 'pipelineRuns', id: run.id, changes: {
+        status: 'cancelled',
+        ended_at: new Date().toISOString(),
+        steps: run.steps?.map(step => step.status === 'running' ? { ...step, status: 'cancelled' as const, ended_at: new Date().toISOString() } : step),
+        logs: [...run.logs, runLogEntry(run.status === 'queued' ? 'Cancelled before it started' : 'Stopped before it finished', 'warning')],
+      } })] : []),
+    ]});
+  };
+
+  // A log entry for every step that started, finished or failed since the run's steps were last recorded
+  const stepChangeLogs = (run: PipelineRun, steps: PipelineRunStep[] = []) => {
+    const stepName = (stepId: string) => run.parameters.steps?.find(step => step.id === stepId)?.name ?? stepId;
+    return steps
+      .filter(step => run.steps?.find(previous => previous.step_id === step.step_id)?.status !== step.status)
+      .flatMap(step =>
+        step.status === 'running' ? [runLogEntry(`Step "${stepName(step.step_id)}" started`)]
+        : step.status === 'succeeded' ? [runLogEntry(`Step "${stepName(step.step_id)}" finished`)]
+        : step.status === 'failed' ? [runLogEntry(`Step "${stepName(step.step_id)}" failed`, 'error')]
+        : []);
+  };
+
+  // Progress is neither undoable nor audited; it changes every few seconds.
+  // The accuracy so far stays on the run: the pipeline keeps its model's accuracy until a run succeeds.
+  // Returns false once the run is no longer going, so the caller can stop reporting.
+  const recordRunProgress = (runId: string, progress: number, accuracy?: number, steps?: PipelineRunStep[]) => {
+    const run = getState().pipelineRuns.find(r => r.id === runId);
+    if (!run || run.status !== 'running') return false;
+
+    const milestone = [25, 50, 75].find(percent => run.progress < percent && progress >= percent);
+    const logs = [
+      ...run.logs,
+      ...stepChangeLogs(run, steps),
+      ...(milestone ? [runLogEntry(`${milestone}% done${accuracy !== undefined ? `, accuracy so far ${(accuracy * 100).toFixed(1)}%` : ''}`)] : []),
+    ];
+
+    dispatch({ type: 'batch', actions: [
+      { type: 'update', collection: 'pipelineRuns', id: runId, changes: {
+        progress,
+        logs,
+        ...(steps ? { steps } : {}),
+        ...(accuracy !== undefined ? { metrics: { ...run.metrics, accuracy } } : {}),
+      } },
+      { type: 'update', collection: 'pipelines', id: run.pipeline_id, changes: { progress } },
+    ]});
+    return true;
+  };
+
+  // `reason` explains a failure in the run's log; `steps` is where the run's steps ended up
+  const finishPipelineRun = (
+    runId: string,
+    status: 'succeeded' | 'failed',
+    { metrics = {}, reason, steps }: { metrics?: NonNullable<PipelineRun['metrics']>; reason?: string; steps?: PipelineRunStep[] } = {},
+  ) => {
+    const run = getState().pipelineRuns.find(r => r.id === runId);
+    if (!run || !canTransition(run.status, status)) return;
+
+    const endedAt = new Date().toISOString();
+    const summary = status === 'succeeded'
+      ? runLogEntry(`Finished${metrics.accuracy !== undefined ? ` with ${(metrics.accuracy * 100).toFixed(1)}% accuracy` : ''}`)
+      : runLogEntry(reason ? `Failed: ${reason}` : 'Failed', 'error');
+
+    dispatch({ type: 'batch', actions: [
+      { type: 'update', collection: 'pipelineRuns', id: runId, changes: {
+        status,
+        progress: status === 'succeeded' ? 100 : run.progress,
+        ended_at: endedAt,
+        metrics,
+        ...(steps ? { steps } : {}),
+        logs: [...run.logs, ...stepChangeLogs(run, steps), summary],
+      } },
+      { type: 'update', collection: 'pipelines', id: run.pipeline_id, changes: {
+        status: status === 'succeeded' ? 'completed' as const : 'failed' as const,
+        progress: status === 'succeeded' ? 100 : run.progress,
+        ...(metrics.accuracy !== undefined ? { model_accuracy: metrics.accuracy } : {}),
+        ...(metrics.data_drift_score !== undefined ? { data_drift_score: metrics.data_drift_score } : {}),
+        last_run: endedAt,
+      } },
+    ]});
+  };
+
+  const updatePipelineSettings = (pipelineId: string, settings: Partial<Pipeline>) => {
+    dispatch({ type: 'batch', label: 'Pipeline settings updated', actions: [
+      { type: 'update', collection: 'pipelines', id: pipelineId, changes: settings },
+      addAlert('Pipeline settings updated successfully', 'low', { type: 'pipeline', id: pipelineId }),
+    ]});
+  };
+
+  const addExperiment = (experiment: Experiment) => {
+    dispatch({ type: 'batch', label: `Model "${experiment.name}" added`, actions: [
+      { type: 'add', collection: 'experiments', entity: experiment },
+      addAlert(
+        `Model "${experiment.name}" trained successfully with ${(experiment.metrics.accuracy * 100).toFixed(1)}% accuracy`,
+        'low',
+        { type: 'experiment', id: experiment.id }
+      ),
+    ]});
+
+    return experiment;
+  };
+
+  const deleteExperiment = (experimentId: string) => {
+    const experiment = getState().experiments.find(e => e.id === experimentId);
+    if (!experiment) return;
+
+    cascadeDelete({ type: 'experiment', id: experimentId }, experiment.name, `Model "${experiment.name}" moved to Trash`);
+  };
+
+  const acknowledgeAlert = (alertId: string) => {
+    dispatch({ type: 'batch', label: 'Alert acknowledged', actions: [
+      { type: 'update', collection: 'alerts', id: alertId, changes: { acknowledged: true } },
+    ]});
+  };
+
+  const dismissAlert = (alertId: string) => {
+    dispatch({ type: 'batch', label: 'Alert dismissed', actions: [
+      { type: 'remove', collection: 'alerts', ids: [alertId] },
+    ]});
+  };
+
+  const startModelTraining = (experimentId: string) => {
+    const model = getState().experiments.find(e => e.id === experimentId);
+    dispatch({ type: 'batch', audit: `Model "${model?.name ?? experimentId}" training started`, actions: [
+      { type: 'update', collection: 'experiments', id: experimentId, changes: { status: 'running' as const } },
+    ]});
+
+    // Simulate training completion after 10-15 seconds
+    setTimeout(() => {
+      const experiment = getState().experiments.find(e => e.id === experimentId);
+      if (!experiment) return;
+
+      dispatch({ type: 'batch', actions: [
+        {
+          type: 'update',
+          collection: 'experiments',
+          id: experimentId,
+          changes: {
+            status: 'completed' as const,
+            duration: Math.round(180 + Math.random() * 120), // 3-5 minutes
+            metrics: {
+              ...experiment.metrics,
+              accuracy: Math.max(0.7, Math.min(0.95, experiment.metrics.accuracy + (Math.random() - 0.5) * 0.1)),
+              precision: Math.max(0.7, Math.min(0.95, experiment.metrics.precision + (Math.random() - 0.5) * 0.08)),
+              recall: Math.max(0.7, Math.min(0.95, experiment.metrics.recall + (Math.random() - 0.5) * 0.08)),
+            }
+          },
+        },
+        addAlert('Model training completed successfully', 'low', { type: 'experiment', id: experimentId }),
+      ]});
+    }, 10000 + Math.random() * 5000);
+  };
+
+  const addDataset = (newDataset: NewDataset) => {
+    const dataset: Dataset = {
+      id: `dataset_${Date.now()}`,
+      name: newDataset.name,
+      size: newDataset.size,
+      columns: newDataset.columns,
+      null_percentage: Math.round(Math.random() * 10 * 100) / 100, // Random null percentage for demo
+      created_at: new Date().toISOString(),
+    };
+
+    dispatch({ type: 'batch', label: `Dataset "${newDataset.name}" uploaded`, actions: [
+      { type: 'add', collection: 'datasets', entity: dataset },
+      addAlert(`Dataset "${newDataset.name}" uploaded successfully`, 'low', { type: 'dataset', id: dataset.id }),
+    ]});
+
+    return dataset;
+  };
+
+  const deleteDataset = (datasetId: string) => {
+    const dataset = getState().datasets.find(d => d.id === datasetId);
+    if (!dataset) return;
+
+    cascadeDelete({ type: 'dataset', id: datasetId }, dataset.name, `Dataset "${dataset.name}" moved to Trash`);
+  };
+
+  const mergeDatasets = (datasetIds: string[], newName: string) => {
+    const selectedDatasets = getState().datasets.filter(d => datasetIds.includes(d.id));
+
+    const mergedDataset: Dataset = {
+      id: `dataset_${Date.now()}`,
+      name: newName,
+      size: selectedDatasets.reduce((sum, d) => sum + d.size, 0),
+      columns: Math.max(...selectedDatasets.map(d => d.columns)), // Use max columns
+      null_percentage: selectedDatasets.reduce((sum, d) => sum + d.null_percentage, 0) / selectedDatasets.length,
+      created_at: new Date().toISOString(),
+    };
+
+    dispatch({ type: 'batch', label: `Datasets merged into "${newName}"`, actions: [
+      { type: 'add', collection: 'datasets', entity: mergedDataset },
+      addAlert(`Successfully merged ${selectedDatasets.length} datasets into "${newName}"`, 'low', { type: 'dataset', id: mergedDataset.id }),
+    ]});
+
+    return mergedDataset;
+  };
+
+  const addExternalConnection = (connectionData: NewExternalConnection) => {
+    const connection: ExternalConnection = {
+      id: `conn_${Date.now()}`,
+      name: connectionData.name,
+      type: connectionData.type as ExternalConnection['type'],
+      url: connectionData.url,
+      status: 'connected',
+      lastSync: new Date().toISOString(),
+      recordCount: Math.floor(Math.random() * 100000) + 1000,
+      syncFrequency: connectionData.syncFrequency,
+      created_at: new Date().toISOString(),
+    };
+
+    // Also create a corresponding dataset
+    const dataset: Dataset = {
+      id: `dataset_${Date.now()}`,
+      name: `${connectionData.name} (External)`,
+      size: connection.recordCount,
+      columns: Math.floor(Math.random() * 20) + 5,
+      null_percentage: Math.random() * 5,
+      created_at: new Date().toISOString(),
+      source_connection_id: connection.id,
+    };
+
+    dispatch({ type: 'batch', label: `Connection "${connection.name}" added`, actions: [
+      { type: 'add', collection: 'externalConnections', entity: connection },
+      { type: 'add', collection: 'datasets', entity: dataset },
+      addAlert(`External connection "${connectionData.name}" created successfully`, 'low', { type: 'connection', id: connection.id }),
+    ]});
+
+    return connection;
+  };
+
+  const deleteExternalConnection = (connectionId: string) => {
+    const connection = getState().externalConnections.find(c => c.id === connectionId);
+    if (!connection) return;
+
+    cascadeDelete({ type: 'connection', id: connectionId }, connection.name, `External connection "${connection.name}" moved to Trash`);
+  };
+
+  const repairIntegrity = () => {
+    const issues = checkIntegrity(getState());
+    if (issues.length === 0) return;
+
+    dispatch({ type: 'batch', label: 'Dangling references repaired', actions: [
+      ...repairIntegrityActions(issues),
+      addAlert(`Cleared ${issues.length} dangling reference(s)`),
+    ]});
+  };
+
+  const restoreFromTrash = (entryId: string) => {
+    const state = getState();
+    const entry = state.trash.find(t => t.id === entryId);
+    if (!entry) return;
+
+    const restore = restoreTrashActions(state, entry);
+    // Parents deleted separately stay in their own trash group until restored too
+    const dangling = checkIntegrity(dashboardReducer(state, { type: 'batch', actions: restore })).length;
+    const message = dangling > 0
+      ? `Restored "${entry.label}" from Trash; ${dangling} reference(s) point at entities that are still deleted. Restore them from Trash or repair them in Settings > System.`
+      : `Restored "${entry.label}" from Trash`;
+
+    dispatch({ type: 'batch', label: `"${entry.label}" restored from Trash`, actions: [
+      ...restore,
+      addAlert(message, dangling > 0 ? 'medium' : 'low', entry.root),
+    ]});
+  };
+
+  const purgeTrash = (entryIds: string[]) => {
+    dispatch({ type: 'batch', label: `${entryIds.length} Trash item(s) deleted permanently`, actions: [
+      { type: 'remove', collection: 'trash', ids: entryIds },
+    ]});
+  };
+
+  const purgeExpiredTrash = () => {
+    const expired = getState().trash.filter(entry => isTrashExpired(entry)).map(entry => entry.id);
+    if (expired.length > 0) {
+      dispatch({ type: 'remove', collection: 'trash', ids: expired });
+    }
+  };
+
+  // Account changes are deliberately unlabelled: undo must never bring back a revoked role or an old password.
+  // They still go to the audit log under their `description`.
+
+  const addUser = (account: UserAccount, description: string) => {
+    if (findAccountByEmail(getState().users, account.email)) {
+      throw new Error(`A user with the email ${account.email} already exists`);
+    }
+    dispatch({ type: 'batch', audit: description, actions: [
+      { type: 'add', collection: 'users', entity: account },
+    ]});
+  };
+
+  const updateUser = (userId: string, changes: Partial<UserAccount>, description: string) =>
+    dispatch({ type: 'batch', audit: description, actions: [
+      { type: 'update', collection: 'users', id: userId, changes },
+    ]});
+
+  // Throws when the change would leave the workspace without an active administrator
+  const assertAdminRemains = (userId: string, changes: Partial<UserAccount>) => {
+    const users = getState().users;
+    const next = users.map(account => account.id === userId ? { ...account, ...changes } : account);
+    if (activeAdminCount(users) > 0 && activeAdminCount(next) === 0) {
+      throw new Error('The workspace needs at least one active administrator');
+    }
+  };
+
+  const setUserRole = (userId: string, role: string) => {
+    assertAdminRemains(userId, { role });
+    updateUser(userId, { role }, `Role changed to ${role}`);
+  };
+
+  const deactivateUser = (userId: string) => {
+    assertAdminRemains(userId, { status: 'deactivated' });
+    updateUser(userId, { status: 'deactivated' }, 'User deactivated');
+  };
+
+  // Accounts that never accepted their invitation go back to waiting for it
+  const reactivateUser = (userId: string) => {
+    const account = getState().users.find(u => u.id === userId);
+    if (!account) return;
+    updateUser(userId, { status: account.password ? 'active' : 'invited' }, 'User reactivated');
+  };
+
+  const importWorkspace = (bundle: WorkspaceBundle) => {
+    const { actions: importActions, report } = planWorkspaceImport(getState(), bundle, scope?.get() ?? undefined);
+    const imported = Object.values(report.merged).reduce((sum, count) => sum + (count ?? 0), 0);
+
+    if (imported > 0) {
+      dispatch({ type: 'batch', label: `${imported} item(s) imported from workspace export`, actions: [
+        ...importActions,
+        addAlert(`Imported ${imported} item(s) from workspace export${report.skipped.length > 0 ? `, ${report.skipped.length} skipped` : ''}`),
+      ]});
+    }
+
+    return report;
+  };
+
+  // Moving or copying is an undoable step like any other change to the entities
+  const transferToWorkspace = (ref: EntityRef, targetWorkspaceId: string, mode: 'move' | 'copy') => {
+    const state = getState();
+    const collection = ENTITY_REF_COLLECTIONS[ref.type];
+    const entity = (state[collection] as { id: string; name?: string }[]).find(candidate => candidate.id === ref.id);
+    const target = state.workspaces.find(workspace => workspace.id === targetWorkspaceId);
+    if (!entity || !target) return;
+
+    const transfer = planWorkspaceTransfer(state, collection, ref.id, targetWorkspaceId, mode);
+    const headline = `"${entity.name ?? ref.id}" ${mode === 'move' ? 'moved' : 'copied'} to workspace "${target.name}"`;
+    const details = [
+      mode === 'move' && transfer.moved > 1 ? `${transfer.moved - 1} related item(s) moved with it` : null,
+      transfer.copied > (mode === 'copy' ? 1 : 0) ? `${transfer.copied - (mode === 'copy' ? 1 : 0)} required item(s) copied` : null,
+    ].filter(Boolean).join(', ');
+
+    dispatch({ type: 'batch', label: headline, actions: [
+      ...transfer.actions,
+      // The alert goes with the entity, to the workspace it is now in
+      { type: 'add', collection: 'alerts', entity: { ...createAlert(details ? `${headline}, ${details}` : headline, 'low', mode === 'move' ? ref : undefined), workspace_id: targetWorkspaceId } },
+    ]});
+
+    return transfer;
+  };
+
+  const moveToWorkspace = (ref: EntityRef, targetWorkspaceId: string) => transferToWorkspace(ref, targetWorkspaceId, 'move');
+  const copyToWorkspace = (ref: EntityRef, targetWorkspaceId: string) => transferToWorkspace(ref, targetWorkspaceId, 'copy');
+
+  // Like accounts, workspaces and their members are left out of undo, so a removed member cannot be brought back by it
+
+  const addWorkspace = (name: string, description?: string) => {
+    if (getState().workspaces.some(workspace => workspace.name.toLowerCase() === name.trim().toLowerCase())) {
+      throw new Error(`A workspace named "${name.trim()}" already exists`);
+    }
+    const workspace = createWorkspace(name, description);
+    dispatch({ type: 'batch', audit: `Workspace "${workspace.name}" created`, actions: [
+      { type: 'add', collection: 'workspaces', entity: workspace },
+    ]});
+    return workspace;
+  };
+
+  const updateWorkspace = (workspaceId: string, changes: Partial<Pick<Workspace, 'name' | 'description'>>) => {
+    const workspace = getState().workspaces.find(candidate => candidate.id === workspaceId);
+    if (!workspace) return;
+    dispatch({ type: 'batch', audit: `Workspace "${workspace.name}" updated`, actions: [
+      { type: 'update', collection: 'workspaces', id: workspaceId, changes },
+    ]});
+  };
+
+  // Throws unless the workspace is empty, trash included, so nothing is left without a workspace
+  const deleteWorkspace = (workspaceId: string) => {
+    const state = getState();
+    const workspace = state.workspaces.find(candidate => candidate.id === workspaceId);
+    if (!workspace) return;
+    if (state.workspaces.length === 1) {
+      throw new Error('The last workspace cannot be deleted');
+    }
+    const remaining = WORKSPACE_SCOPED_COLLECTIONS
+      .reduce((sum, collection) => sum + (state[collection] as { workspace_id?: string }[]).filter(entity => entity.workspace_id === workspaceId).length, 0);
+    if (remaining > 0) {
+      throw new Error(`Workspace "${workspace.name}" still holds ${remaining} item(s); move or delete them first`);
+    }
+    dispatch({ type: 'batch', audit: `Workspace "${workspace.name}" deleted`, actions: [
+      { type: 'remove', collection: 'workspaces', ids: [workspaceId] },
+    ]});
+  };
+
+  /** Adds the user to the workspace with `role`, changes their role there, or removes them when `role` is null. */
+  const setWorkspaceMember = (workspaceId: string, userId: string, role: string | null) => {
+    const state = getState();
+    const workspace = state.workspaces.find(candidate => candidate.id === workspaceId);
+    const account = state.users.find(candidate => candidate.id === userId);
+    if (!workspace || !account) return;
+
+    const existing = workspace.members.find(member => member.user_id === userId);
+    const others = workspace.members.filter(member => member.user_id !== userId);
+    const members = role === null ? others : [...others, { user_id: userId, role, added_at: existing?.added_at ?? new Date().toISOString() }];
+    const description = role === null
+      ? `${account.name} removed from workspace "${workspace.name}"`
+      : existing
+        ? `${account.name} given role ${role} in workspace "${workspace.name}"`
+        : `${account.name} added to workspace "${workspace.name}" as ${role}`;
+
+    dispatch({ type: 'batch', audit: description, actions: [
+      { type: 'update', collection: 'workspaces', id: workspaceId, changes: { members } },
+    ]});
+  };
+
+  return {
+    setPipelines,
+    addPipeline,
+    duplicatePipeline,
+    deletePipeline,
+    startPipeline,
+    rerunPipelineRun,
+    rerunPipelineRunFromStep,
+    stopPipeline,
+    beginPipelineRun,
+    logRunEvent,
+    recordRunProgress,
+    finishPipelineRun,
+    updatePipelineSettings,
+    setDatasets,
+    addDataset,
+    deleteDataset,
+    mergeDatasets,
+    setAlerts,
+    acknowledgeAlert,
+    dismissAlert,
+    setExperiments,
+    addExperiment,
+    deleteExperiment,
+    startModelTraining,
+    setExternalConnections,
+    addExternalConnection,
+    deleteExternalConnection,
+    repairIntegrity,
+    previewDelete,
+    restoreFromTrash,
+    purgeTrash,
+    purgeExpiredTrash,
+    addUser,
+    updateUser,
+    setUserRole,
+    deactivateUser,
+    reactivateUser,
+    importWorkspace,
+    moveToWorkspace,
+    copyToWorkspace,
+    addWorkspace,
+    updateWorkspace,
+    deleteWorkspace,
+    setWorkspaceMember,
+  };
+}
+
+export type DashboardActions = ReturnType<typeof createDashboardActions>;
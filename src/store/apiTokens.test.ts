@@ -0,0 +1,123 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  apiTokenStatus,
+  authenticateApiRequest,
+  createApiRequestAuthorizer,
+  createApiToken,
+  READ_SCOPE,
+  rotateApiToken,
+} from './apiTokens';
+import { createDashboardStore, emptyDashboardState } from './dashboardStore';
+import { BUILT_IN_ROLES } from './permissions';
+import { ApiToken, UserAccount } from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const CREATED = new Date('2024-01-01T00:00:00.000Z');
+
+// Roles and the rotation policy are read from localStorage, which starts empty
+beforeAll(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+});
+
+const owner = (token: ApiToken, overrides: Partial<UserAccount> = {}): UserAccount => ({
+  id: 'user_1',
+  name: 'Ada',
+  email: 'ada@example.com',
+  role: 'admin',
+  status: 'active',
+  created_at: CREATED.toISOString(),
+  api_tokens: [token],
+  ...overrides,
+});
+
+const newToken = (created = CREATED) =>
+  createApiToken({ name: ' CI ', scopes: [READ_SCOPE, 'pipeline:run'], expiresInDays: 90 }, created);
+
+describe('createApiToken', () => {
+  it('stores a hash of a value in the recognisable format', async () => {
+    const { token, value } = await newToken();
+    expect(value).toMatch(new RegExp(`^mld_${token.id}_[A-Za-z0-9_-]{43}$`));
+    expect(token).toMatchObject({ name: 'CI', expires_at: new Date(CREATED.getTime() + 90 * DAY).toISOString() });
+    expect(JSON.stringify(token)).not.toContain(value.split('_')[2]);
+  });
+});
+
+describe('apiTokenStatus', () => {
+  it('follows the rotation policy, its grace period and the expiry', async () => {
+    const { token } = await newToken();
+    const at = (days: number) => new Date(CREATED.getTime() + days * DAY);
+    expect(apiTokenStatus(token, 'monthly', at(29))).toBe('active');
+    expect(apiTokenStatus(token, 'monthly', at(30))).toBe('rotation_due');
+    expect(apiTokenStatus(token, 'monthly', at(37))).toBe('rotation_overdue');
+    expect(apiTokenStatus(token, 'manual', at(89))).toBe('active');
+    expect(apiTokenStatus(token, 'manual', at(90))).toBe('expired');
+    expect(apiTokenStatus({ ...token, revoked_at: at(1).toISOString() }, 'manual', at(2))).toBe('revoked');
+  });
+});
+
+describe('rotateApiToken', () => {
+  it('keeps the lifetime and lets the old token overlap for a day', async () => {
+    const { token } = await newToken();
+    const now = new Date(CREATED.getTime() + 10 * DAY);
+    const { replacement, retired } = await rotateApiToken(token, now);
+    expect(replacement).toMatchObject({ name: 'CI', scopes: token.scopes, rotated_from: token.id });
+    expect(new Date(replacement.expires_at).getTime() - now.getTime()).toBe(90 * DAY);
+    expect(new Date(retired.expires_at).getTime() - now.getTime()).toBe(DAY);
+  });
+});
+
+describe('authenticateApiRequest', () => {
+  const now = new Date(CREATED.getTime() + DAY);
+
+  it('accepts a valid token and records its use', async () => {
+    const { token, value } = await newToken();
+    const result = await authenticateApiRequest(`Bearer ${value}`, 'pipeline:run', [owner(token)], BUILT_IN_ROLES, 'manual', now);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.changes.api_tokens?.[0].last_used_at).toBe(now.toISOString());
+    }
+  });
+
+  it('answers 401 for a missing, unknown or altered token', async () => {
+    const { token, value } = await newToken();
+    const users = [owner(token)];
+    const altered = `${value.slice(0, -1)}${value.endsWith('A') ? 'B' : 'A'}`;
+    for (const header of [null, 'Bearer nonsense', `Bearer ${altered}`]) {
+      expect(await authenticateApiRequest(header, READ_SCOPE, users, BUILT_IN_ROLES, 'manual', now)).toMatchObject({ ok: false, status: 401 });
+    }
+  });
+
+  it('answers 401 for a revoked or expired token, or a deactivated owner', async () => {
+    const { token, value } = await newToken();
+    const check = (users: UserAccount[], at = now) => authenticateApiRequest(`Bearer ${value}`, READ_SCOPE, users, BUILT_IN_ROLES, 'manual', at);
+    expect(await check([owner({ ...token, revoked_at: now.toISOString() })])).toMatchObject({ status: 401, error: /revoked/ });
+    expect(await check([owner(token)], new Date(CREATED.getTime() + 90 * DAY))).toMatchObject({ status: 401, error: /expired/ });
+    expect(await check([owner(token, { status: 'deactivated' })])).toMatchObject({ status: 401, error: /deactivated/ });
+  });
+
+  it("answers 403 outside the token's scopes or its owner's role", async () => {
+    const { token, value } = await newToken();
+    const check = (scope: Parameters<typeof authenticateApiRequest>[1], users: UserAccount[]) =>
+      authenticateApiRequest(`Bearer ${value}`, scope, users, BUILT_IN_ROLES, 'manual', now);
+    expect(await check('pipeline:delete', [owner(token)])).toMatchObject({ status: 403, error: /does not grant pipeline:delete/ });
+    expect(await check('pipeline:run', [owner(token, { role: 'viewer' })])).toMatchObject({ status: 403, error: /no longer allows/ });
+    // Reading needs no permission, so a viewer's token can still read
+    expect(await check(READ_SCOPE, [owner(token, { role: 'viewer' })])).toMatchObject({ ok: true });
+  });
+});
+
+describe('createApiRequestAuthorizer', () => {
+  it("saves the token's last use on its owner", async () => {
+    // The authorizer checks against the current time
+    const { token, value } = await newToken(new Date());
+    const store = createDashboardStore({ ...emptyDashboardState, users: [owner(token)] });
+    const result = await createApiRequestAuthorizer(store)(`Bearer ${value}`, READ_SCOPE);
+    expect(result.ok).toBe(true);
+    expect(store.getState().users[0].api_tokens?.[0].last_used_at).toBeDefined();
+  });
+});
@@ -0,0 +1,168 @@
+import { ApiToken, UserAccount } from '../types';
+import { DashboardStore } from './dashboardStore';
+import { hashSecret, verifySecret } from './users';
+import { BUILT_IN_ROLES, loadCustomRoles, Permission, PERMISSIONS, permissionsOf, Role } from './permissions';
+import { ApiKeyRotation, loadSessionPolicy } from './session';
+
+// Tokens look like "mld_<id>_<secret>"; the prefix lets secret scanners recognise leaked ones
+const TOKEN_PREFIX = 'mld';
+const TOKEN_PATTERN = /^mld_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+// Tokens are random, not chosen by people, so a light work factor is enough
+const API_TOKEN_ITERATIONS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const API_TOKEN_EXPIRY_DAYS = [7, 30, 90, 365];
+
+/** Under a rotation policy, tokens are due for replacement this long after they were created. */
+export const ROTATION_PERIOD_DAYS: Record<ApiKeyRotation, number | null> = {
+  manual: null,
+  monthly: 30,
+  quarterly: 90,
+};
+// A token past its rotation date keeps working this long, so nothing breaks on the day
+export const ROTATION_GRACE_DAYS = 7;
+// After a rotation the old token keeps working this long, while jobs switch to the new one
+export const ROTATION_OVERLAP_HOURS = 24;
+
+/** Reading needs no permission in the dashboard, so tokens get it as a scope of its own. */
+export const READ_SCOPE = 'workspace:read';
+
+export type ApiScope = typeof READ_SCOPE | Permission;
+
+export const API_TOKEN_SCOPES: { value: ApiScope; label: string }[] = [
+  { value: READ_SCOPE, label: 'Read pipelines, datasets, models and alerts' },
+  ...PERMISSIONS,
+];
+
+export type ApiTokenStatus = 'active' | 'rotation_due' | 'rotation_overdue' | 'expired' | 'revoked';
+
+export interface NewApiToken {
+  name: string;
+  scopes: ApiScope[];
+  expiresInDays: number;
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/** A new token, plus its value, which is shown once and only stored as a hash. */
+export async function createApiToken(input: NewApiToken, now = new Date()): Promise<{ token: ApiToken; value: string }> {
+  const id = toHex(crypto.getRandomValues(new Uint8Array(6)));
+  const secret = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  return {
+    value: `${TOKEN_PREFIX}_${id}_${secret}`,
+    token: {
+      id,
+      name: input.name.trim(),
+      scopes: input.scopes,
+      secret: await hashSecret(secret, API_TOKEN_ITERATIONS),
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + input.expiresInDays * DAY_MS).toISOString(),
+    },
+  };
+}
+
+/**
+ * A replacement with the same name, scopes and lifetime. The old token is
+ * returned with its expiry brought forward to the end of the overlap.
+ */
+export async function rotateApiToken(old: ApiToken, now = new Date()): Promise<{ replacement: ApiToken; value: string; retired: ApiToken }> {
+  const lifetimeDays = Math.max(1, Math.round((new Date(old.expires_at).getTime() - new Date(old.created_at).getTime()) / DAY_MS));
+  const { token, value } = await createApiToken({ name: old.name, scopes: old.scopes as ApiScope[], expiresInDays: lifetimeDays }, now);
+  const overlapEnd = now.getTime() + ROTATION_OVERLAP_HOURS * 60 * 60 * 1000;
+  return {
+    value,
+    replacement: { ...token, rotated_from: old.id },
+    retired: { ...old, expires_at: new Date(Math.min(new Date(old.expires_at).getTime(), overlapEnd)).toISOString() },
+  };
+}
+
+/** When the rotation policy wants the token replaced, or null when it does not. */
+export function rotationDueAt(token: ApiToken, rotation: ApiKeyRotation): Date | null {
+  const days = ROTATION_PERIOD_DAYS[rotation];
+  return days === null ? null : new Date(new Date(token.created_at).getTime() + days * DAY_MS);
+}
+
+export function apiTokenStatus(token: ApiToken, rotation: ApiKeyRotation, now = new Date()): ApiTokenStatus {
+  if (token.revoked_at) return 'revoked';
+  if (new Date(token.expires_at).getTime() <= now.getTime()) return 'expired';
+  const due = rotationDueAt(token, rotation);
+  if (due && due.getTime() + ROTATION_GRACE_DAYS * DAY_MS <= now.getTime()) return 'rotation_overdue';
+  if (due && due.getTime() <= now.getTime()) return 'rotation_due';
+  return 'active';
+}
+
+export type ApiAuthResult =
+  | {
+    ok: true;
+    account: UserAccount;
+    token: ApiToken;
+    /** Records the token's last use; the caller saves it on the account. */
+    changes: Partial<UserAccount>;
+  }
+  | { ok: false; status: 401 | 403; error: string };
+
+/**
+ * Checks the `Authorization: Bearer <token>` header of an API request that
+ * needs `scope`. A token only grants what its scopes and its owner's current
+ * role both allow, so a demoted or deactivated owner takes its tokens down too.
+ */
+export async function authenticateApiRequest(
+  authorization: string | null,
+  scope: ApiScope,
+  users: UserAccount[],
+  roles: Role[],
+  rotation: ApiKeyRotation,
+  now = new Date()
+): Promise<ApiAuthResult> {
+  const match = TOKEN_PATTERN.exec(authorization?.replace(/^Bearer\s+/i, '').trim() ?? '');
+  const unauthorized = (error: string): ApiAuthResult => ({ ok: false, status: 401, error });
+  if (!match) return unauthorized('Missing or malformed API token');
+
+  const [, id, secret] = match;
+  const account = users.find(candidate => candidate.api_tokens?.some(token => token.id === id));
+  const token = account?.api_tokens?.find(candidate => candidate.id === id);
+  if (!account || !token || !(await verifySecret(secret, token.secret))) {
+    return unauthorized('Invalid API token');
+  }
+  if (account.status !== 'active') return unauthorized('The owner of this API token has been deactivated');
+
+  const status = apiTokenStatus(token, rotation, now);
+  if (status === 'revoked') return unauthorized('This API token has been revoked');
+  if (status === 'expired') return unauthorized('This API token has expired');
+  if (status === 'rotation_overdue') return unauthorized('This API token is overdue for rotation');
+
+  if (!token.scopes.includes(scope)) {
+    return { ok: false, status: 403, error: `This API token does not grant ${scope}` };
+  }
+  if (scope !== READ_SCOPE && !permissionsOf(account.role, roles).has(scope)) {
+    return { ok: false, status: 403, error: `The owner's role no longer allows ${scope}` };
+  }
+  return {
+    ok: true,
+    account,
+    token,
+    changes: {
+      api_tokens: account.api_tokens?.map(candidate => candidate.id === id ? { ...candidate, last_used_at: now.toISOString() } : candidate),
+    },
+  };
+}
+
+/**
+ * Checks API requests against the accounts in the store, with the saved roles
+ * and rotation policy, and records each token's use on its account. The
+ * record is not an audited edit, so it neither fills the audit log nor undoes.
+ */
+export function createApiRequestAuthorizer(store: DashboardStore) {
+  return async (authorization: string | null, scope: ApiScope): Promise<ApiAuthResult> => {
+    const roles = [...BUILT_IN_ROLES, ...loadCustomRoles()];
+    const result = await authenticateApiRequest(authorization, scope, store.getState().users, roles, loadSessionPolicy().apiKeyRotation);
+    if (result.ok) {
+      store.dispatch({ type: 'update', collection: 'users', id: result.account.id, changes: result.changes });
+    }
+    return result;
+  };
+}
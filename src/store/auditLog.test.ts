@@ -0,0 +1,192 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  appendAuditEntry,
+  AUDIT_LOG_KEY,
+  AuditActor,
+  auditChange,
+  AuditEntry,
+  auditLogToCsv,
+  getAuditWriteFailure,
+  loadAuditLog,
+  recordAuditTrail,
+  trimAuditLog,
+  verifyAuditLog,
+} from './auditLog';
+import { createDashboardStore } from './dashboardStore';
+import { SecretHash, UserAccount } from '../types';
+
+const ADA: AuditActor = { id: 'user_1', name: 'Ada', email: 'ada@example.com' };
+const HASH: SecretHash = { algorithm: 'PBKDF2-SHA256', iterations: 1000, salt: 'salt', hash: 'hash' };
+
+// A localStorage that holds at most `capacity` characters, like the browser's quota
+const items = new Map<string, string>();
+let capacity = Infinity;
+
+beforeAll(() => {
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (value.length > capacity) throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      items.set(key, value);
+    },
+    removeItem: (key: string) => items.delete(key),
+  });
+  // Without the Web Locks API the log is written without a lock
+  vi.stubGlobal('navigator', {});
+});
+
+beforeEach(() => {
+  items.clear();
+  capacity = Infinity;
+});
+
+const change = (name: string) => auditChange('pipelines', 'p1', { name: 'Churn' }, { name })!;
+
+// Appends without waiting in between, as handlers do
+const appendAll = (actions: string[]) =>
+  Promise.all(actions.map(action => appendAuditEntry(ADA, action, [change(action)])));
+
+const entriesOf = () => loadAuditLog().entries;
+
+describe('appendAuditEntry', () => {
+  it('appends in order with consecutive seq values, each chained to the one before', async () => {
+    await appendAll(['First', 'Second', 'Third']);
+    const entries = entriesOf();
+    expect(entries.map(entry => [entry.seq, entry.action])).toEqual([[1, 'First'], [2, 'Second'], [3, 'Third']]);
+    expect(entries[1].prev_hash).toBe(entries[0].hash);
+    expect(entries[2].prev_hash).toBe(entries[1].hash);
+    expect(await verifyAuditLog(entries)).toBeNull();
+  });
+
+  it('writes nothing for an action that changed nothing', async () => {
+    await appendAuditEntry(ADA, 'Nothing', []);
+    expect(items.has(AUDIT_LOG_KEY)).toBe(false);
+  });
+
+  it('drops the oldest entries when storage is full and anchors the log on the last one dropped', async () => {
+    await appendAll(['First', 'Second', 'Third']);
+    const before = entriesOf();
+    capacity = JSON.stringify(loadAuditLog()).length;
+
+    await appendAll(['Fourth']);
+    const { anchor, entries } = loadAuditLog();
+    expect(entries[entries.length - 1]).toMatchObject({ seq: 4, action: 'Fourth', prev_hash: before[2].hash });
+    expect(anchor).toEqual({ seq: entries[0].seq - 1, hash: entries[0].prev_hash });
+    expect(await verifyAuditLog(entries, anchor)).toBeNull();
+    expect(getAuditWriteFailure()).toBeNull();
+  });
+
+  it('reports a write that fails, and leaves a log it cannot read as it is', async () => {
+    items.set(AUDIT_LOG_KEY, '{"entries": [');
+    await appendAll(['Lost']);
+    expect(items.get(AUDIT_LOG_KEY)).toBe('{"entries": [');
+    expect(getAuditWriteFailure()).toMatchObject({ count: 1, action: 'Lost' });
+
+    items.clear();
+    capacity = 10;
+    await appendAll(['Also lost']);
+    expect(getAuditWriteFailure()).toMatchObject({ count: 2, action: 'Also lost' });
+  });
+});
+
+describe('verifyAuditLog', () => {
+  const chain = async () => {
+    await appendAll(['First', 'Second', 'Third']);
+    return entriesOf();
+  };
+
+  it('finds the entry that was edited', async () => {
+    const entries = await chain();
+    const edited = entries.map(entry => entry.seq === 2 ? { ...entry, action: 'Something else' } : entry);
+    expect(await verifyAuditLog(edited)).toBe(2);
+  });
+
+  it('finds where an entry was removed', async () => {
+    const [first, , third] = await chain();
+    expect(await verifyAuditLog([first, third])).toBe(3);
+    expect(await verifyAuditLog([third])).toBe(3);
+  });
+
+  it('finds where entries were reordered', async () => {
+    const [first, second, third] = await chain();
+    expect(await verifyAuditLog([first, third, second])).toBe(3);
+  });
+
+  it('checks a trimmed log from its anchor', async () => {
+    const log = trimAuditLog({ anchor: null, entries: await chain() }, 2);
+    expect(log.entries.map(entry => entry.seq)).toEqual([2, 3]);
+    expect(await verifyAuditLog(log.entries, log.anchor)).toBeNull();
+    // Without the anchor the kept entries look like a log whose start was removed
+    expect(await verifyAuditLog(log.entries)).toBe(2);
+  });
+});
+
+describe('auditChange', () => {
+  it('records the fields that changed and the kind of change', () => {
+    expect(auditChange('roles', 'r1', undefined, { name: 'Viewer' })).toMatchObject({ op: 'create', entity_name: 'Viewer' });
+    expect(auditChange('roles', 'r1', { name: 'Viewer' }, undefined)).toMatchObject({ op: 'delete', diff: { name: { before: 'Viewer' } } });
+    expect(auditChange('roles', 'r1', { name: 'Viewer' }, { name: 'Viewer' })).toBeNull();
+  });
+
+  it('leaves secrets of user accounts out of the trail', async () => {
+    const store = createDashboardStore();
+    const stop = recordAuditTrail(store, () => ADA);
+    const account: UserAccount = {
+      id: 'user_2',
+      name: 'Grace',
+      email: 'grace@example.com',
+      role: 'viewer',
+      status: 'active',
+      created_at: '2024-01-01T00:00:00.000Z',
+      password: HASH,
+      invitation: { code: HASH, expires_at: '2024-01-08T00:00:00.000Z' },
+      two_factor: { secret: 'JBSWY3DPEHPK3PXP', enrolled_at: '2024-01-02T00:00:00.000Z', recovery_codes: [HASH, HASH], last_used_step: -1 },
+      api_tokens: [{ id: 'tok_1', name: 'CI', scopes: [], secret: HASH, created_at: '2024-01-01T00:00:00.000Z', expires_at: '2024-04-01T00:00:00.000Z' }],
+    };
+    store.dispatch({ type: 'batch', label: 'User added', actions: [{ type: 'add', collection: 'users', entity: account }] });
+    await appendAuditEntry(null, 'Flush', []);
+    stop();
+
+    const [entry] = entriesOf();
+    const recorded = JSON.stringify(entry.changes);
+    expect(recorded).not.toContain('JBSWY3DPEHPK3PXP');
+    expect(recorded).not.toContain('"hash"');
+    expect(entry.changes[0].diff).toMatchObject({
+      password: { after: '[redacted]' },
+      invitation: { after: { expires_at: '2024-01-08T00:00:00.000Z' } },
+      two_factor: { after: { enrolled_at: '2024-01-02T00:00:00.000Z', recovery_codes_left: 2 } },
+      api_tokens: { after: [{ id: 'tok_1', name: 'CI' }] },
+    });
+  });
+});
+
+describe('auditLogToCsv', () => {
+  const entry = (before: unknown, after: unknown): AuditEntry => ({
+    seq: 1,
+    id: 'audit_1',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    actor: ADA,
+    action: 'Pipeline renamed',
+    changes: [{ subject: 'pipelines', entity_id: 'p1', entity_name: 'Churn', op: 'update', diff: { name: { before, after } } }],
+    prev_hash: '0',
+    hash: 'abc',
+  });
+
+  const cells = (before: unknown, after: unknown) => auditLogToCsv([entry(before, after)]).split('\r\n')[1];
+
+  it('writes one row per changed field under a header', () => {
+    const [header, row] = auditLogToCsv([entry('Churn', 'Churn v2')]).split('\r\n');
+    expect(header).toBe('seq,timestamp,actor_id,actor_name,actor_email,action,subject,entity_id,entity_name,operation,field,before,after,hash');
+    expect(row).toBe('1,2024-01-01T00:00:00.000Z,user_1,Ada,ada@example.com,Pipeline renamed,pipelines,p1,Churn,update,name,Churn,Churn v2,abc');
+  });
+
+  it('keeps cells from running as spreadsheet formulas', () => {
+    expect(cells('=SUM(A1)', '+1')).toContain(",'=SUM(A1),'+1,");
+    expect(cells('-1', '@cmd')).toContain(",'-1,'@cmd,");
+  });
+
+  it('quotes cells with commas, quotes or line breaks', () => {
+    expect(cells('a, b', 'say "hi"')).toContain(',"a, b","say ""hi""",');
+    expect(cells('two\nlines', undefined)).toContain(',"two\nlines",,');
+  });
+});
@@ -0,0 +1,312 @@
+import { UserAccount } from '../types';
+import { COLLECTION_KEYS, CollectionKey, DashboardState, DashboardStore } from './dashboardStore';
+
+export const AUDIT_LOG_KEY = 'ml_dashboard_audit_log';
+// The hash the first entry chains from
+const GENESIS_HASH = '0'.repeat(64);
+// Entries kept; older ones are dropped, see AuditAnchor
+export const MAX_AUDIT_ENTRIES = 5000;
+
+/** What an audit entry can change: a store collection, or settings kept outside the store. */
+export type AuditSubject = CollectionKey | 'roles' | 'authProviders' | 'sessionPolicy';
+
+export interface AuditActor {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export type AuditOperation = 'create' | 'update' | 'delete';
+
+export interface AuditChange {
+  subject: AuditSubject;
+  entity_id: string;
+  /** The entity's name when the entry was written, so the log still reads after it is gone. */
+  entity_name?: string;
+  op: AuditOperation;
+  /** The fields that changed; secrets are left out or summarised. */
+  diff: Record<string, { before?: unknown; after?: unknown }>;
+}
+
+/**
+ * One mutating action. Entries are only ever appended, and each carries the
+ * hash of the one before it, so editing or removing an entry breaks the chain
+ * from that point on (see verifyAuditLog).
+ */
+export interface AuditEntry {
+  seq: number;
+  id: string;
+  timestamp: string;
+  /** Null for changes made while nobody was signed in. */
+  actor: AuditActor | null;
+  action: string;
+  changes: AuditChange[];
+  prev_hash: string;
+  hash: string;
+}
+
+/**
+ * The retention policy: entries are dropped oldest first once the log grows
+ * past MAX_AUDIT_ENTRIES, or when storage has no room for the next one. The
+ * anchor is the last entry dropped, which the first kept entry chains from,
+ * so what is kept still verifies as one unbroken chain.
+ */
+export interface AuditAnchor {
+  seq: number;
+  hash: string;
+}
+
+export interface StoredAuditLog {
+  /** Null until the retention policy first drops entries. */
+  anchor: AuditAnchor | null;
+  entries: AuditEntry[];
+}
+
+/** Appends that could not be written since the dashboard was opened. */
+export interface AuditWriteFailure {
+  count: number;
+  /** The action of the last entry that was lost. */
+  action: string;
+  error: string;
+  failedAt: string;
+}
+
+type AnyEntity = { id: string } & Record<string, unknown>;
+
+// Throws when the saved log cannot be read, so an append never overwrites it
+const readAuditLog = (): StoredAuditLog => {
+  const saved = localStorage.getItem(AUDIT_LOG_KEY);
+  if (!saved) return { anchor: null, entries: [] };
+  const parsed = JSON.parse(saved);
+  // Logs written before the retention policy are a bare list of entries
+  return Array.isArray(parsed) ? { anchor: null, entries: parsed } : parsed;
+};
+
+export function loadAuditLog(): StoredAuditLog {
+  try {
+    return readAuditLog();
+  } catch (error) {
+    console.warn('Failed to load the audit log:', error);
+    return { anchor: null, entries: [] };
+  }
+}
+
+/** Keeps the newest `keep` entries (at least one) and anchors the log on the last one dropped. */
+export function trimAuditLog(log: StoredAuditLog, keep: number): StoredAuditLog {
+  const drop = log.entries.length - Math.max(1, keep);
+  if (drop <= 0) return log;
+  const { seq, hash } = log.entries[drop - 1];
+  return { anchor: { seq, hash }, entries: log.entries.slice(drop) };
+}
+
+// A failed write leaves storage as it was, so the oldest tenth is dropped and the write tried again
+const saveAuditLog = (log: StoredAuditLog) => {
+  let kept = log;
+  for (;;) {
+    try {
+      localStorage.setItem(AUDIT_LOG_KEY, JSON.stringify(kept));
+      return;
+    } catch (error) {
+      if (kept.entries.length <= 1) throw error;
+      kept = trimAuditLog(kept, Math.floor(kept.entries.length * 0.9));
+    }
+  }
+};
+
+// The fields are listed one by one so the hash does not depend on how an entry was parsed
+const hashEntry = async (entry: Omit<AuditEntry, 'hash'>) => {
+  const content = JSON.stringify([entry.seq, entry.id, entry.timestamp, entry.actor, entry.action, entry.changes, entry.prev_hash]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * The seq of the first entry that was altered, removed or reordered, or null
+ * when the chain is intact. A trimmed log is checked from its anchor.
+ */
+export async function verifyAuditLog(entries: AuditEntry[], anchor: AuditAnchor | null = null): Promise<number | null> {
+  let previous: AuditAnchor | null = anchor;
+  for (const entry of entries) {
+    const chained = entry.prev_hash === (previous?.hash ?? GENESIS_HASH) && entry.seq === (previous?.seq ?? 0) + 1;
+    if (!chained || entry.hash !== await hashEntry(entry)) return entry.seq;
+    previous = entry;
+  }
+  return null;
+}
+
+const listeners = new Set<() => void>();
+
+let writeFailure: AuditWriteFailure | null = null;
+
+export const getAuditWriteFailure = () => writeFailure;
+
+/** Calls `listener` whenever an entry is appended, here or in another tab, or fails to be. */
+export function subscribeAuditLog(listener: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === AUDIT_LOG_KEY) listener();
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
+
+// Appends one at a time, so each entry chains from the one written just before it
+let appendQueue: Promise<void> = Promise.resolve();
+
+// Tabs share the log, so where the browser supports it they take turns writing to it
+const withLogLock = (write: () => Promise<void>) =>
+  navigator.locks ? navigator.locks.request(AUDIT_LOG_KEY, write) : write();
+
+export function appendAuditEntry(actor: AuditActor | null, action: string, changes: AuditChange[]): Promise<void> {
+  if (changes.length === 0) return appendQueue;
+  const timestamp = new Date().toISOString();
+  appendQueue = appendQueue
+    .then(() => withLogLock(async () => {
+      const log = readAuditLog();
+      const previous = log.entries[log.entries.length - 1] ?? log.anchor;
+      const draft = {
+        seq: (previous?.seq ?? 0) + 1,
+        id: `audit_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        timestamp,
+        actor,
+        action,
+        changes,
+        prev_hash: previous?.hash ?? GENESIS_HASH,
+      };
+      saveAuditLog(trimAuditLog({ ...log, entries: [...log.entries, { ...draft, hash: await hashEntry(draft) }] }, MAX_AUDIT_ENTRIES));
+    }))
+    .catch(error => {
+      // Shown to administrators in the audit log viewer
+      writeFailure = {
+        count: (writeFailure?.count ?? 0) + 1,
+        action,
+        error: error instanceof Error ? error.message : String(error),
+        failedAt: new Date().toISOString(),
+      };
+    })
+    .then(() => listeners.forEach(listener => listener()));
+  return appendQueue;
+}
+
+// What the log keeps of an account: no password hashes, invitation codes, TOTP secrets or token hashes
+const auditedAccount = (account: UserAccount): Record<string, unknown> => ({
+  ...account,
+  password: account.password ? '[redacted]' : undefined,
+  invitation: account.invitation && { expires_at: account.invitation.expires_at },
+  two_factor: account.two_factor && {
+    enrolled_at: account.two_factor.enrolled_at,
+    recovery_codes_left: account.two_factor.recovery_codes.length,
+  },
+  api_tokens: account.api_tokens?.map(token => ({ ...token, secret: undefined })),
+});
+
+const auditedEntity = (collection: CollectionKey, entity: AnyEntity): Record<string, unknown> => {
+  if (collection === 'users') return auditedAccount(entity as unknown as UserAccount);
+  // The entities a trash entry holds show up as deletes of their own
+  if (collection === 'trash') return { ...entity, root: undefined, entities: undefined };
+  return entity;
+};
+
+const entityName = (entity: Record<string, unknown>) =>
+  [entity.name, entity.label, entity.message].find((value): value is string => typeof value === 'string');
+
+// The fields that differ between two versions of a record; either side is missing for a create or delete
+const diffRecords = (before?: Record<string, unknown>, after?: Record<string, unknown>): AuditChange['diff'] => {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  return Object.fromEntries([...fields]
+    .filter(field => JSON.stringify(before?.[field]) !== JSON.stringify(after?.[field]))
+    .map(field => [field, { before: before?.[field], after: after?.[field] }]));
+};
+
+/** Describes one record of any subject going from `before` to `after`. */
+export function auditChange(subject: AuditSubject, id: string, before?: Record<string, unknown>, after?: Record<string, unknown>): AuditChange | null {
+  const diff = diffRecords(before, after);
+  if (Object.keys(diff).length === 0) return null;
+  return {
+    subject,
+    entity_id: id,
+    entity_name: entityName(after ?? before ?? {}),
+    op: !before ? 'create' : !after ? 'delete' : 'update',
+    diff,
+  };
+}
+
+const diffDashboardChanges = (previous: DashboardState, next: DashboardState): AuditChange[] =>
+  COLLECTION_KEYS.flatMap(collection => {
+    const before = previous[collection] as unknown as AnyEntity[];
+    const after = next[collection] as unknown as AnyEntity[];
+    if (before === after) return [];
+
+    const beforeById = new Map(before.map(entity => [entity.id, entity]));
+    const afterById = new Map(after.map(entity => [entity.id, entity]));
+    return [...new Set([...beforeById.keys(), ...afterById.keys()])]
+      .filter(id => beforeById.get(id) !== afterById.get(id))
+      .map(id => {
+        const was = beforeById.get(id);
+        const is = afterById.get(id);
+        return auditChange(collection, id, was && auditedEntity(collection, was), is && auditedEntity(collection, is));
+      })
+      .filter((change): change is AuditChange => change !== null);
+  });
+
+/**
+ * Writes every user operation dispatched to the store to the audit log:
+ * labelled batches, and unlabelled batches that carry an audit description,
+ * such as account changes and undo. Background work (simulated progress,
+ * expired trash, loading) and changes arriving from other tabs or the sync
+ * server are not recorded here; they were audited where they were made.
+ * Returns the function that stops recording.
+ */
+export function recordAuditTrail(store: DashboardStore, getActor: () => AuditActor | null): () => void {
+  return store.subscribe((state, previous, action) => {
+    if (action.type !== 'batch' || action.source) return;
+    const description = action.label ?? action.audit;
+    if (!description) return;
+    appendAuditEntry(getActor(), description, diffDashboardChanges(previous, state));
+  });
+}
+
+// Keeps a cell from being run as a formula when the file is opened in a spreadsheet
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/** One row per changed field, for spreadsheets and SIEM imports. */
+export function auditLogToCsv(entries: AuditEntry[]): string {
+  const header = ['seq', 'timestamp', 'actor_id', 'actor_name', 'actor_email', 'action', 'subject', 'entity_id', 'entity_name', 'operation', 'field', 'before', 'after', 'hash'];
+  const rows = entries.flatMap(entry => entry.changes.flatMap(change =>
+    Object.entries(change.diff).map(([field, { before, after }]) => [
+      entry.seq,
+      entry.timestamp,
+      entry.actor?.id,
+      entry.actor?.name,
+      entry.actor?.email,
+      entry.action,
+      change.subject,
+      change.entity_id,
+      change.entity_name,
+      change.op,
+      field,
+      before,
+      after,
+      entry.hash,
+    ])));
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+}
+
+export function downloadAuditLogCsv(entries: AuditEntry[]) {
+  const blob = new Blob([auditLogToCsv(entries)], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `ml_dashboard_audit_log_${new Date().toISOString().slice(0, 10)}.csv`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
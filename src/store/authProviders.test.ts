@@ -0,0 +1,87 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ExternalIdentity, OidcProviderConfig, resolveExternalSignIn, roleForGroups } from './authProviders';
+import { UserAccount } from '../types';
+
+const ORIGIN = 'http://localhost:5173';
+
+// The stand-in provider's issuer is read from the page's origin
+beforeAll(() => {
+  vi.stubGlobal('window', { location: { origin: ORIGIN } });
+});
+
+const identity = (overrides: Partial<ExternalIdentity> = {}): ExternalIdentity => ({
+  provider: 'corp',
+  issuer: 'https://idp.example.com',
+  subject: 'sub-1',
+  email: 'ada@example.com',
+  emailVerified: true,
+  name: 'Ada',
+  groups: ['ml-admins'],
+  role: 'admin',
+  ...overrides,
+});
+
+const account = (overrides: Partial<UserAccount> = {}): UserAccount => ({
+  id: 'user_1',
+  name: 'Ada',
+  email: 'ada@example.com',
+  role: 'viewer',
+  status: 'active',
+  created_at: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const link = { provider: 'corp', issuer: 'https://idp.example.com', subject: 'sub-1', linked_at: '2024-01-01T00:00:00.000Z' };
+
+describe('roleForGroups', () => {
+  const config = {
+    roleMappings: [{ group: 'ml-admins', role: 'admin' }, { group: 'ml-team', role: 'editor' }],
+    defaultRole: null,
+  } as unknown as OidcProviderConfig;
+
+  it('takes the first mapping the user is in, or the default', () => {
+    expect(roleForGroups(config, ['ml-team', 'ml-admins'])).toBe('admin');
+    expect(roleForGroups(config, ['ml-team'])).toBe('editor');
+    expect(roleForGroups(config, ['sales'])).toBeNull();
+    expect(roleForGroups({ ...config, defaultRole: 'viewer' }, [])).toBe('viewer');
+  });
+});
+
+describe('resolveExternalSignIn', () => {
+  it('turns away users none of whose groups grants access', () => {
+    expect(() => resolveExternalSignIn([], identity({ role: null }), 'Corp SSO')).toThrow(/None of your groups at Corp SSO/);
+  });
+
+  it('finds the linked account, even after its email changed', () => {
+    const linked = account({ email: 'old@example.com', external_identity: link });
+    const signIn = resolveExternalSignIn([linked], identity(), 'Corp SSO');
+    expect(signIn).toMatchObject({ account: linked, isNew: false, role: 'admin', changes: {} });
+  });
+
+  it('links an account by a verified email address, accepting its invitation', () => {
+    const invited = account({ status: 'invited', invitation: { code: { algorithm: 'PBKDF2-SHA256', iterations: 1, salt: '', hash: '' }, expires_at: '' } });
+    const signIn = resolveExternalSignIn([invited], identity(), 'Corp SSO', new Date(link.linked_at));
+    expect(signIn.account).toBe(invited);
+    expect(signIn.changes).toEqual({ external_identity: link, status: 'active', invitation: undefined });
+  });
+
+  it('never links by an unverified address, one already linked, or the stand-in provider', () => {
+    expect(() => resolveExternalSignIn([account()], identity({ emailVerified: false }), 'Corp SSO')).toThrow(/cannot be linked/);
+    expect(() => resolveExternalSignIn([account({ external_identity: { ...link, subject: 'sub-2' } })], identity(), 'Corp SSO'))
+      .toThrow(/cannot be linked/);
+    expect(() => resolveExternalSignIn([account()], identity({ issuer: `${ORIGIN}/mock-idp` }), 'Test IdP')).toThrow(/cannot be linked/);
+  });
+
+  it('turns away deactivated accounts', () => {
+    expect(() => resolveExternalSignIn([account({ status: 'deactivated', external_identity: link })], identity(), 'Corp SSO'))
+      .toThrow(/deactivated/);
+  });
+
+  it('prepares a new account without a password', () => {
+    const signIn = resolveExternalSignIn([], identity({ email: 'New@Example.com' }), 'Corp SSO');
+    expect(signIn.isNew).toBe(true);
+    expect(signIn.account).toMatchObject({ email: 'new@example.com', role: 'admin', status: 'active', external_identity: { subject: 'sub-1' } });
+    expect(signIn.account.password).toBeUndefined();
+    expect(() => resolveExternalSignIn([], identity({ email: undefined }), 'Corp SSO')).toThrow(/did not share an email address/);
+  });
+});
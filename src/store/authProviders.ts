@@ -0,0 +1,233 @@
+import { UserAccount } from '../types';
+import { createLinkedAccount, findAccountByEmail, verifySecret } from './users';
+import { beginAuthorization, completeAuthorization, OidcFetch } from './oidc';
+import { isMockIssuer, MOCK_IDP_CLIENT_ID, MOCK_IDP_ENABLED, MOCK_ROLE_MAPPINGS, mockIdpFetch, mockIdpIssuer } from './mockIdentityProvider';
+
+// The single sign-on providers configured under Settings > Security
+export const AUTH_PROVIDERS_KEY = 'ml_dashboard_auth_providers';
+
+export const LOCAL_PROVIDER_ID = 'local';
+
+/** Checks an email and password on the sign-in form. */
+export interface PasswordAuthProvider {
+  kind: 'password';
+  id: string;
+  label: string;
+  /** The account the credentials belong to, or null when they are wrong. */
+  authenticate: (email: string, password: string, users: UserAccount[]) => Promise<UserAccount | null>;
+}
+
+/** Hands the sign-in off to an identity provider, which sends the browser back with the result. */
+export interface RedirectAuthProvider {
+  kind: 'redirect';
+  id: string;
+  label: string;
+  /** The URL to send the browser to; `forceLogin` asks the provider to check the user again. */
+  beginSignIn: (options?: { forceLogin?: boolean }) => Promise<string>;
+  /** Verifies the callback and resolves to who signed in. */
+  completeSignIn: (params: URLSearchParams) => Promise<ExternalIdentity>;
+}
+
+/** A way to sign in to the dashboard. */
+export type AuthProvider = PasswordAuthProvider | RedirectAuthProvider;
+
+/** A user as vouched for by an identity provider. */
+export interface ExternalIdentity {
+  provider: string;
+  issuer: string;
+  subject: string;
+  email?: string;
+  /** True when the provider has confirmed the user owns the email address. */
+  emailVerified: boolean;
+  name?: string;
+  groups: string[];
+  /** The role the groups map to, or null when none of them grants access. */
+  role: string | null;
+}
+
+export interface RoleMapping {
+  group: string;
+  role: string;
+}
+
+export interface OidcProviderConfig {
+  id: string;
+  label: string;
+  issuer: string;
+  clientId: string;
+  scopes: string;
+  /** The ID token claim that lists the user's groups. */
+  groupsClaim: string;
+  /** Checked in order; the first group the user is in decides the role. */
+  roleMappings: RoleMapping[];
+  /** The role of users in none of the mapped groups; null turns them away. */
+  defaultRole: string | null;
+}
+
+export const DEFAULT_OIDC_SCOPES = 'openid profile email groups';
+
+export const localPasswordProvider: PasswordAuthProvider = {
+  kind: 'password',
+  id: LOCAL_PROVIDER_ID,
+  label: 'Email and password',
+  authenticate: async (email, password, users) => {
+    const found = findAccountByEmail(users, email);
+    if (!found || found.status !== 'active' || !found.password) return null;
+    return await verifySecret(password, found.password) ? found : null;
+  },
+};
+
+/** The role for a user in `groups`, following the provider's mapping. */
+export function roleForGroups(config: OidcProviderConfig, groups: string[]): string | null {
+  return config.roleMappings.find(mapping => groups.includes(mapping.group))?.role ?? config.defaultRole;
+}
+
+const claimGroups = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.filter((group): group is string => typeof group === 'string');
+  // Some providers send a single group as a plain string
+  return typeof value === 'string' && value ? [value] : [];
+};
+
+export function createOidcProvider(config: OidcProviderConfig): RedirectAuthProvider {
+  // The bundled stand-in answers its endpoints in place, without a network
+  const fetcher: OidcFetch = MOCK_IDP_ENABLED && isMockIssuer(config.issuer) ? mockIdpFetch : (url, init) => fetch(url, init);
+  const client = { issuer: config.issuer, clientId: config.clientId, scopes: config.scopes };
+
+  return {
+    kind: 'redirect',
+    id: config.id,
+    label: config.label,
+    beginSignIn: options => beginAuthorization(config.id, client, fetcher, options),
+    completeSignIn: async params => {
+      const claims = await completeAuthorization(params, client, fetcher);
+      const groups = claimGroups(claims[config.groupsClaim]);
+      const email = typeof claims.email === 'string' ? claims.email : undefined;
+      const name = [claims.name, claims.preferred_username].find(value => typeof value === 'string') as string | undefined;
+      return {
+        provider: config.id,
+        issuer: claims.iss,
+        subject: claims.sub,
+        email,
+        emailVerified: claims.email_verified === true,
+        name,
+        groups,
+        role: roleForGroups(config, groups),
+      };
+    },
+  };
+}
+
+/** How a provider sign-in maps onto the local accounts. */
+export interface ExternalSignIn {
+  account: UserAccount;
+  /** True for an account created by this sign-in, which still has to be added. */
+  isNew: boolean;
+  /** Changes to an existing account, apart from its role. */
+  changes: Partial<UserAccount>;
+  role: string;
+}
+
+/**
+ * Finds the account for an identity, by its link or else by a verified email
+ * address, or prepares a new one. Throws with a message for the sign-in page
+ * when the identity cannot be let in.
+ */
+export function resolveExternalSignIn(users: UserAccount[], identity: ExternalIdentity, providerLabel: string, now = new Date()): ExternalSignIn {
+  if (!identity.role) {
+    throw new Error(`None of your groups at ${providerLabel} grants access to this dashboard. Ask an administrator to map one of them to a role.`);
+  }
+  const link = { provider: identity.provider, issuer: identity.issuer, subject: identity.subject, linked_at: now.toISOString() };
+  const linked = users.find(account =>
+    account.external_identity?.issuer === identity.issuer && account.external_identity.subject === identity.subject);
+  const byEmail = !linked && identity.email ? findAccountByEmail(users, identity.email) : undefined;
+
+  // Linking by email lets the provider speak for an existing account, so the address must be verified and free,
+  // and the stand-in provider, where anyone can claim any address, never speaks for one
+  if (byEmail && (!identity.emailVerified || byEmail.external_identity || isMockIssuer(identity.issuer))) {
+    throw new Error(`An account for ${identity.email} already exists and cannot be linked to this ${providerLabel} identity. Ask an administrator for help.`);
+  }
+  const account = linked ?? byEmail;
+  if (account) {
+    if (account.status === 'deactivated') {
+      throw new Error('This account has been deactivated');
+    }
+    return {
+      account,
+      isNew: false,
+      role: identity.role,
+      changes: {
+        ...(linked ? {} : { external_identity: link }),
+        // Signing in through the provider accepts a pending invitation
+        ...(account.status === 'invited' ? { status: 'active' as const, invitation: undefined } : {}),
+      },
+    };
+  }
+
+  if (!identity.email) {
+    throw new Error(`${providerLabel} did not share an email address; check that the "email" scope is requested`);
+  }
+  return {
+    account: createLinkedAccount({ name: identity.name ?? identity.email, email: identity.email, role: identity.role }, link, now),
+    isNew: true,
+    role: identity.role,
+    changes: {},
+  };
+}
+
+/** A provider set up for the bundled stand-in identity provider. */
+export function mockOidcProviderConfig(): OidcProviderConfig {
+  return {
+    id: 'mock-idp',
+    label: 'Local Test IdP',
+    issuer: mockIdpIssuer(),
+    clientId: MOCK_IDP_CLIENT_ID,
+    scopes: DEFAULT_OIDC_SCOPES,
+    groupsClaim: 'groups',
+    roleMappings: MOCK_ROLE_MAPPINGS,
+    defaultRole: null,
+  };
+}
+
+export const createAuthProviderId = (label: string) =>
+  `${label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'sso'}-${Math.random().toString(36).slice(2, 6)}`;
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+// Drops anything that is not a complete provider, so a bad entry cannot break sign-in
+function normalizeProviderConfig(raw: unknown): OidcProviderConfig | null {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof OidcProviderConfig, unknown>>;
+  if (!isText(value.id) || !isText(value.label) || !isText(value.issuer) || !isText(value.clientId)) return null;
+  const roleMappings = Array.isArray(value.roleMappings)
+    ? value.roleMappings.filter((mapping): mapping is RoleMapping => isText(mapping?.group) && isText(mapping?.role))
+    : [];
+  return {
+    id: value.id,
+    label: value.label,
+    issuer: value.issuer,
+    clientId: value.clientId,
+    scopes: isText(value.scopes) && value.scopes.split(' ').includes('openid') ? value.scopes : DEFAULT_OIDC_SCOPES,
+    groupsClaim: isText(value.groupsClaim) ? value.groupsClaim : 'groups',
+    roleMappings,
+    defaultRole: isText(value.defaultRole) ? value.defaultRole : null,
+  };
+}
+
+export function loadAuthProviderConfigs(): OidcProviderConfig[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(AUTH_PROVIDERS_KEY) ?? '[]');
+    return Array.isArray(saved)
+      ? saved.map(normalizeProviderConfig).filter((config): config is OidcProviderConfig => config !== null)
+      : [];
+  } catch (error) {
+    console.warn('Failed to load the sign-in providers:', error);
+    return [];
+  }
+}
+
+export function saveAuthProviderConfigs(configs: OidcProviderConfig[]) {
+  try {
+    localStorage.setItem(AUTH_PROVIDERS_KEY, JSON.stringify(configs));
+  } catch (error) {
+    console.warn('Failed to save the sign-in providers:', error);
+  }
+}
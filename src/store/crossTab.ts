@@ -0,0 +1,196 @@
+import { Alert } from '../types';
+import { CollectionKey, DashboardAction, DashboardState, DashboardStore, entityAction, EntityOf } from './dashboardStore';
+import { entityLabel } from './integrity';
+import { diffDashboardState } from './persistence';
+import { CollectionChanges } from './storage';
+
+const CHANNEL_NAME = 'ml_dashboard_sync';
+// Fallback transport for browsers without BroadcastChannel: the storage event fires in every other tab
+const MESSAGE_KEY = 'ml_dashboard_cross_tab_message';
+
+// Conflicts in these collections are resolved silently; an alert about an alert is just noise
+const SILENT_COLLECTIONS: CollectionKey[] = ['alerts', 'trash'];
+
+type AnyEntity = { id: string };
+
+interface CrossTabMessage {
+  tabId: string;
+  sentAt: number;
+  changes: CollectionChanges[];
+  /** Version each upserted entity was edited from, keyed by `collection:id`; null for new entities. */
+  bases: Record<string, AnyEntity | null>;
+}
+
+interface CrossTabConflict {
+  collection: CollectionKey;
+  id: string;
+  label: string;
+  /** Whether this tab's version was kept. */
+  keptLocal: boolean;
+}
+
+const entityKey = (collection: CollectionKey, id: string) => `${collection}:${id}`;
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  return [...keys].every(key => isEqual(aRecord[key], bRecord[key]));
+};
+
+// Upserts replace entities in place; new entities and the `order` list decide positions
+const applyChanges = <T extends AnyEntity>(items: T[], upserts: T[], deletes: string[], order?: string[]) => {
+  const upsertsById = new Map(upserts.map(entity => [entity.id, entity]));
+  const updated = items
+    .filter(item => !deletes.includes(item.id))
+    .map(item => upsertsById.get(item.id) ?? item);
+  const added = upserts.filter(entity => !items.some(item => item.id === entity.id));
+  const merged = [...added, ...updated];
+  if (!order) return merged;
+
+  const position = new Map(order.map((id, index) => [id, index]));
+  return [...merged].sort((a, b) => (position.get(a.id) ?? order.length) - (position.get(b.id) ?? order.length));
+};
+
+const createTransport = (onMessage: (message: CrossTabMessage) => void) => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = event => onMessage(event.data as CrossTabMessage);
+    return {
+      post: (message: CrossTabMessage) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== MESSAGE_KEY || !event.newValue) return;
+    try {
+      onMessage(JSON.parse(event.newValue));
+    } catch (error) {
+      console.warn('Ignoring unreadable cross-tab message:', error);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: (message: CrossTabMessage) => {
+      localStorage.setItem(MESSAGE_KEY, JSON.stringify(message));
+      localStorage.removeItem(MESSAGE_KEY);
+    },
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+};
+
+const createConflictAlert = (conflicts: CrossTabConflict[]): Alert => ({
+  id: `alert_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  type: 'system',
+  severity: 'medium',
+  message: conflicts.length === 1
+    ? `"${conflicts[0].label}" was edited in another tab at the same time; the most recent edit was kept`
+    : `${conflicts.length} items were edited in another tab at the same time; the most recent edits were kept`,
+  timestamp: new Date().toISOString(),
+  acknowledged: false,
+});
+
+/**
+ * Keeps the store of every open tab in step. Local changes are broadcast as
+ * entity-level changes and remote ones are merged into this tab's state as
+ * remote batches, which are neither persisted again nor recorded in the
+ * history. When both tabs changed the same entity since they last agreed on
+ * it, the most recent edit wins in both tabs and the winner reports it.
+ * Changes pulled from the sync server are not broadcast, since every tab
+ * pulls them itself. Returns the function that disconnects the tab.
+ */
+export function connectCrossTabSync(
+  store: DashboardStore,
+  { broadcast = true }: { broadcast?: boolean } = {},
+): () => void {
+  const tabId = `tab_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  // When this tab last changed each entity, to decide which side of a conflict is newer
+  const localEdits = new Map<string, number>();
+
+  const isLocalNewer = (key: string, message: CrossTabMessage) => {
+    const editedAt = localEdits.get(key) ?? 0;
+    return editedAt > message.sentAt || (editedAt === message.sentAt && tabId > message.tabId);
+  };
+
+  const receive = (message: CrossTabMessage) => {
+    if (message.tabId === tabId) return;
+
+    const state = store.getState();
+    const conflicts: CrossTabConflict[] = [];
+    const remoteActions: DashboardAction[] = [];
+
+    message.changes.forEach(({ collection, upserts, deletes, order }) => {
+      const current = new Map((state[collection] as AnyEntity[]).map(entity => [entity.id, entity]));
+
+      const accepted = upserts.filter(entity => {
+        const local = current.get(entity.id);
+        const base = message.bases[entityKey(collection, entity.id)] ?? null;
+        if (isEqual(local, entity)) return false;
+        // Deleted here while edited there: the delete reaches the other tab next
+        if (!local) return base === null;
+        if (isEqual(local, base)) return true;
+
+        const keptLocal = isLocalNewer(entityKey(collection, entity.id), message);
+        conflicts.push({ collection, id: entity.id, label: entityLabel(local), keptLocal });
+        return !keptLocal;
+      });
+
+      if (accepted.length === 0 && deletes.length === 0 && !order) return;
+      // Another tab's store wrote them, so they are entities of this collection
+      const upserted = accepted as EntityOf<CollectionKey>[];
+      remoteActions.push(entityAction({
+        type: 'set',
+        collection,
+        update: prev => applyChanges(prev, upserted, deletes, order),
+      }));
+    });
+
+    if (remoteActions.length > 0) {
+      store.dispatch({ type: 'batch', source: 'remote', actions: remoteActions });
+    }
+
+    // Re-save the versions this tab kept so storage and the other tab end up with them
+    const kept = conflicts.filter(conflict => conflict.keptLocal);
+    const reported = kept.filter(conflict => !SILENT_COLLECTIONS.includes(conflict.collection));
+    if (kept.length > 0) {
+      store.dispatch({ type: 'batch', actions: [
+        ...kept.map(({ collection, id }) => entityAction({ type: 'update', collection, id, changes: {} })),
+        ...(reported.length > 0 ? [entityAction({ type: 'add', collection: 'alerts', entity: createConflictAlert(reported) })] : []),
+      ]});
+    }
+  };
+
+  const transport = createTransport(receive);
+
+  const unsubscribe = store.subscribe((state: DashboardState, previous: DashboardState, action) => {
+    if (action.type === 'hydrate' || (action.type === 'batch' && action.source)) return;
+
+    const changes = diffDashboardState(previous, state);
+    if (changes.length === 0) return;
+
+    const sentAt = Date.now();
+    const bases: CrossTabMessage['bases'] = {};
+    changes.forEach(({ collection, upserts, deletes }) => {
+      const before = previous[collection] as AnyEntity[];
+      upserts.forEach(entity => {
+        bases[entityKey(collection, entity.id)] = before.find(e => e.id === entity.id) ?? null;
+        localEdits.set(entityKey(collection, entity.id), sentAt);
+      });
+      deletes.forEach(id => localEdits.set(entityKey(collection, id), sentAt));
+    });
+
+    if (broadcast) {
+      transport.post({ tabId, sentAt, changes, bases });
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    transport.close();
+  };
+}
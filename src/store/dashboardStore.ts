@@ -0,0 +1,143 @@
+import type { SetStateAction } from 'react';
+import { Pipeline, PipelineRun, Dataset, Alert, Experiment, ExternalConnection, TrashEntry, UserAccount, Workspace } from '../types';
+
+export interface DashboardState {
+  pipelines: Pipeline[];
+  pipelineRuns: PipelineRun[];
+  datasets: Dataset[];
+  alerts: Alert[];
+  experiments: Experiment[];
+  externalConnections: ExternalConnection[];
+  trash: TrashEntry[];
+  users: UserAccount[];
+  workspaces: Workspace[];
+}
+
+export type CollectionKey = keyof DashboardState;
+
+export type EntityOf<K extends CollectionKey> = DashboardState[K][number];
+
+export const COLLECTION_KEYS: CollectionKey[] = [
+  'pipelines',
+  'pipelineRuns',
+  'datasets',
+  'alerts',
+  'experiments',
+  'externalConnections',
+  'trash',
+  'users',
+  'workspaces',
+];
+
+// Entity-level actions, one variant per collection so `entity`/`changes` stay typed
+type CollectionAction = {
+  [K in CollectionKey]:
+    | { type: 'set'; collection: K; update: SetStateAction<DashboardState[K]> }
+    | { type: 'add'; collection: K; entity: EntityOf<K> }
+    | { type: 'update'; collection: K; id: string; changes: Partial<EntityOf<K>> }
+    | { type: 'remove'; collection: K; ids: string[] };
+}[CollectionKey];
+
+/** An entity action on collection `K`, with entities typed as elements of the collection. */
+export type EntityAction<K extends CollectionKey> =
+  | { type: 'set'; collection: K; update: SetStateAction<EntityOf<K>[]> }
+  | { type: 'add'; collection: K; entity: EntityOf<K> }
+  | { type: 'update'; collection: K; id: string; changes: Partial<EntityOf<K>> }
+  | { type: 'remove'; collection: K; ids: string[] };
+
+/**
+ * Builds an entity action for a collection only known at run time, such as
+ * one picked from COLLECTION_KEYS. The types check each entity against its
+ * collection; only the step into the per-collection union is taken on trust.
+ */
+export function entityAction<K extends CollectionKey>(action: EntityAction<K>): DashboardAction {
+  return action as DashboardAction;
+}
+
+export type DashboardAction =
+  | CollectionAction
+  // A labelled batch is a user operation; the history records it as one undoable step.
+  // A remote batch carries changes another tab already persisted, so it is not written again.
+  // A server batch carries changes pulled from the sync server; each tab pulls them itself.
+  // An audit description puts an unlabelled batch in the audit log; labelled ones go there under their label.
+  | { type: 'batch'; actions: DashboardAction[]; label?: string; audit?: string; source?: 'remote' | 'server' }
+  | { type: 'hydrate'; state: DashboardState };
+
+export const emptyDashboardState: DashboardState = {
+  pipelines: [],
+  pipelineRuns: [],
+  datasets: [],
+  alerts: [],
+  experiments: [],
+  externalConnections: [],
+  trash: [],
+  users: [],
+  workspaces: [],
+};
+
+type AnyEntity = { id: string };
+
+const reduceCollection = (items: AnyEntity[], action: CollectionAction): AnyEntity[] => {
+  switch (action.type) {
+    case 'set':
+      return typeof action.update === 'function'
+        ? (action.update as unknown as (prev: AnyEntity[]) => AnyEntity[])(items)
+        : action.update;
+    case 'add':
+      return [action.entity, ...items];
+    case 'update':
+      return items.map(item => item.id === action.id ? { ...item, ...action.changes } : item);
+    case 'remove': {
+      const remaining = items.filter(item => !action.ids.includes(item.id));
+      return remaining.length === items.length ? items : remaining;
+    }
+  }
+};
+
+export function dashboardReducer(state: DashboardState, action: DashboardAction): DashboardState {
+  switch (action.type) {
+    case 'batch':
+      return action.actions.reduce(dashboardReducer, state);
+    case 'hydrate':
+      return action.state;
+    default: {
+      const current = state[action.collection] as AnyEntity[];
+      const next = reduceCollection(current, action);
+      return next === current ? state : { ...state, [action.collection]: next };
+    }
+  }
+}
+
+export type DashboardListener = (state: DashboardState, previous: DashboardState, action: DashboardAction) => void;
+
+export interface DashboardStore {
+  getState: () => DashboardState;
+  dispatch: (action: DashboardAction) => void;
+  subscribe: (listener: DashboardListener) => () => void;
+}
+
+/**
+ * Creates the app-wide in-memory store. It lives outside React so that timers,
+ * persistence and other background work can read and update the same state the
+ * views render from.
+ */
+export function createDashboardStore(initialState: DashboardState = emptyDashboardState): DashboardStore {
+  let state = initialState;
+  const listeners = new Set<DashboardListener>();
+
+  return {
+    getState: () => state,
+    dispatch: (action) => {
+      const previous = state;
+      state = dashboardReducer(state, action);
+      if (state === previous) return;
+      listeners.forEach(listener => listener(state, previous, action));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
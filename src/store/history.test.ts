@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { createDashboardStore, EntityOf } from './dashboardStore';
+import { createDashboardHistory } from './history';
+
+const pipeline = (id: string, name: string) => ({ id, name }) as EntityOf<'pipelines'>;
+
+const recordedStore = () => {
+  const store = createDashboardStore();
+  const history = createDashboardHistory(store);
+  history.start();
+  return { store, history };
+};
+
+describe('createDashboardHistory', () => {
+  it('undoes and redoes labelled steps only', () => {
+    const { store, history } = recordedStore();
+    store.dispatch({ type: 'batch', label: 'Pipeline added', actions: [{ type: 'add', collection: 'pipelines', entity: pipeline('p1', 'Churn') }] });
+    store.dispatch({ type: 'update', collection: 'pipelines', id: 'p1', changes: { name: 'Churn v2' } });
+    expect(history.getSnapshot().past.map(entry => entry.label)).toEqual(['Pipeline added']);
+
+    history.undo();
+    expect(store.getState().pipelines).toEqual([]);
+    history.redo();
+    expect(store.getState().pipelines).toEqual([pipeline('p1', 'Churn')]);
+  });
+
+  it('forgets every step when cleared', () => {
+    const { store, history } = recordedStore();
+    store.dispatch({ type: 'batch', label: 'Pipeline added', actions: [{ type: 'add', collection: 'pipelines', entity: pipeline('p1', 'Churn') }] });
+    store.dispatch({ type: 'batch', label: 'Pipeline added', actions: [{ type: 'add', collection: 'pipelines', entity: pipeline('p2', 'Fraud') }] });
+    history.undo();
+
+    history.clear();
+    expect(history.getSnapshot()).toEqual({ past: [], future: [] });
+    history.undo();
+    history.redo();
+    expect(store.getState().pipelines).toEqual([pipeline('p1', 'Churn')]);
+  });
+});
@@ -0,0 +1,162 @@
+import { COLLECTION_KEYS, CollectionKey, DashboardAction, DashboardState, DashboardStore, entityAction, EntityOf } from './dashboardStore';
+
+// Older steps are dropped once the history grows past this
+const MAX_HISTORY = 50;
+
+type AnyEntity = EntityOf<CollectionKey>;
+
+/** One entity before and after a step, with its position so undo can put it back in place. */
+interface EntityPatch {
+  collection: CollectionKey;
+  id: string;
+  before?: AnyEntity;
+  after?: AnyEntity;
+  beforeIndex: number;
+  afterIndex: number;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: string;
+  patches: EntityPatch[];
+}
+
+export interface HistorySnapshot {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  /** Set right after an undo or redo so the UI can confirm it. */
+  lastApplied?: { entry: HistoryEntry; direction: 'undo' | 'redo' };
+}
+
+const diffPatches = (previous: DashboardState, next: DashboardState): EntityPatch[] =>
+  COLLECTION_KEYS.flatMap(collection => {
+    const before: AnyEntity[] = previous[collection];
+    const after: AnyEntity[] = next[collection];
+    if (before === after) return [];
+
+    const beforeIndex = new Map(before.map((entity, index) => [entity.id, index]));
+    const afterIndex = new Map(after.map((entity, index) => [entity.id, index]));
+    const ids = new Set([...beforeIndex.keys(), ...afterIndex.keys()]);
+
+    return [...ids]
+      .map(id => ({
+        collection,
+        id,
+        before: before[beforeIndex.get(id) ?? -1],
+        after: after[afterIndex.get(id) ?? -1],
+        beforeIndex: beforeIndex.get(id) ?? -1,
+        afterIndex: afterIndex.get(id) ?? -1,
+      }))
+      .filter(patch => patch.before !== patch.after);
+  });
+
+// Sets every patched entity to one side of the patch, leaving all other entities untouched
+const applyPatches = (entry: HistoryEntry, direction: 'undo' | 'redo'): DashboardAction => ({
+  type: 'batch',
+  audit: `${direction === 'undo' ? 'Undo' : 'Redo'}: ${entry.label}`,
+  actions: COLLECTION_KEYS
+    .map(collection => entry.patches.filter(patch => patch.collection === collection))
+    .filter(collectionPatches => collectionPatches.length > 0)
+    .map(collectionPatches => entityAction({
+      type: 'set',
+      collection: collectionPatches[0].collection,
+      update: prev => {
+        const patchedIds = new Set(collectionPatches.map(patch => patch.id));
+        const result = prev.filter(entity => !patchedIds.has(entity.id));
+        collectionPatches
+          .map(patch => direction === 'undo'
+            ? { entity: patch.before, index: patch.beforeIndex }
+            : { entity: patch.after, index: patch.afterIndex })
+          .filter((target): target is { entity: AnyEntity; index: number } => !!target.entity)
+          .sort((a, b) => a.index - b.index)
+          .forEach(({ entity, index }) => result.splice(Math.min(index, result.length), 0, entity));
+        return result;
+      },
+    })),
+});
+
+export interface DashboardHistory {
+  /** Starts recording store changes; returns the function that stops it. */
+  start: () => () => void;
+  undo: () => void;
+  redo: () => void;
+  /** Forgets every step, for when the steps stop being the current user's to undo. */
+  clear: () => void;
+  getSnapshot: () => HistorySnapshot;
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Records every labelled batch dispatched to the store as an entity-level
+ * patch, so undo and redo restore exactly the entities a step touched and
+ * leave later, unrelated changes alone. Multi-entity operations such as
+ * cascading deletes are recorded, undone and redone as a single step.
+ */
+export function createDashboardHistory(store: DashboardStore): DashboardHistory {
+  let snapshot: HistorySnapshot = { past: [], future: [] };
+  const listeners = new Set<() => void>();
+
+  const setSnapshot = (next: HistorySnapshot) => {
+    snapshot = next;
+    listeners.forEach(listener => listener());
+  };
+
+  const start = () => store.subscribe((state, previous, action) => {
+    if (action.type !== 'batch' || !action.label) return;
+
+    const patches = diffPatches(previous, state);
+    if (patches.length === 0) return;
+
+    const entry: HistoryEntry = {
+      id: `history_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      label: action.label,
+      timestamp: new Date().toISOString(),
+      patches,
+    };
+    setSnapshot({ past: [...snapshot.past, entry].slice(-MAX_HISTORY), future: [] });
+  });
+
+  const undo = () => {
+    const entry = snapshot.past[snapshot.past.length - 1];
+    if (!entry) return;
+
+    store.dispatch(applyPatches(entry, 'undo'));
+    setSnapshot({
+      past: snapshot.past.slice(0, -1),
+      future: [entry, ...snapshot.future],
+      lastApplied: { entry, direction: 'undo' },
+    });
+  };
+
+  const redo = () => {
+    const [entry, ...future] = snapshot.future;
+    if (!entry) return;
+
+    store.dispatch(applyPatches(entry, 'redo'));
+    setSnapshot({
+      past: [...snapshot.past, entry],
+      future,
+      lastApplied: { entry, direction: 'redo' },
+    });
+  };
+
+  const clear = () => {
+    if (snapshot.past.length === 0 && snapshot.future.length === 0 && !snapshot.lastApplied) return;
+    setSnapshot({ past: [], future: [] });
+  };
+
+  return {
+    start,
+    undo,
+    redo,
+    clear,
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
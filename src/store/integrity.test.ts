@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { CollectionKey, dashboardReducer, DashboardState, emptyDashboardState } from './dashboardStore';
+import { cascadeDeleteActions, checkIntegrity, planCascadeDelete, repairIntegrityActions } from './integrity';
+
+// Only the fields references go through; the rest of each entity does not matter here
+const stateWith = (collections: Partial<Record<CollectionKey, object[]>>) =>
+  ({ ...emptyDashboardState, ...collections }) as unknown as DashboardState;
+
+// A connection feeding one dataset, with a second dataset uploaded directly
+const state = stateWith({
+  externalConnections: [{ id: 'c1', name: 'Warehouse' }],
+  datasets: [{ id: 'd1', name: 'Orders', source_connection_id: 'c1' }, { id: 'd2', name: 'Upload' }],
+  pipelines: [{ id: 'p1', name: 'Churn', dataset_id: 'd1' }, { id: 'p2', name: 'Fraud', dataset_id: 'd2' }],
+  pipelineRuns: [{ id: 'r1', pipeline_id: 'p1', number: 1 }, { id: 'r2', pipeline_id: 'p2', number: 1 }],
+  experiments: [
+    { id: 'e1', name: 'Churn v1', dataset_id: 'd1', pipeline_id: 'p1' },
+    { id: 'e2', name: 'Churn on upload', dataset_id: 'd2', pipeline_id: 'p1' },
+  ],
+  alerts: [
+    { id: 'a1', message: 'Churn failed', entity_ref: { type: 'pipeline', id: 'p1' } },
+    { id: 'a2', message: 'Upload drifted', entity_ref: { type: 'dataset', id: 'd2' } },
+    { id: 'a3', message: 'Sync finished' },
+  ],
+});
+
+describe('planCascadeDelete', () => {
+  it('follows references transitively, from a connection to the runs and models of its data', () => {
+    const { removes } = planCascadeDelete(state, 'externalConnections', ['c1']);
+    expect(removes).toMatchObject({
+      externalConnections: ['c1'],
+      datasets: ['d1'],
+      pipelines: ['p1'],
+      pipelineRuns: ['r1'],
+      experiments: ['e1'],
+      alerts: ['a1'],
+    });
+  });
+
+  it('detaches models from a deleted pipeline instead of deleting them', () => {
+    const plan = planCascadeDelete(state, 'pipelines', ['p1']);
+    expect(plan.removes.experiments).toEqual([]);
+    expect(plan.detaches).toEqual([
+      { collection: 'experiments', id: 'e1', field: 'pipeline_id', value: 'p1' },
+      { collection: 'experiments', id: 'e2', field: 'pipeline_id', value: 'p1' },
+    ]);
+  });
+
+  it('does not detach a model that is removed anyway', () => {
+    const plan = planCascadeDelete(state, 'datasets', ['d1']);
+    expect(plan.removes.experiments).toEqual(['e1']);
+    expect(plan.detaches).toEqual([{ collection: 'experiments', id: 'e2', field: 'pipeline_id', value: 'p1' }]);
+  });
+
+  it('removes the alerts about removed entities only', () => {
+    expect(planCascadeDelete(state, 'datasets', ['d2']).removes.alerts).toEqual(['a2']);
+  });
+
+  it('leaves nothing dangling once applied', () => {
+    const actions = cascadeDeleteActions(planCascadeDelete(state, 'externalConnections', ['c1']));
+    const next = actions.reduce(dashboardReducer, state);
+    expect(next.experiments.map(experiment => [experiment.id, experiment.pipeline_id])).toEqual([['e2', undefined]]);
+    expect(next.pipelines.map(pipeline => pipeline.id)).toEqual(['p2']);
+    expect(checkIntegrity(next)).toEqual([]);
+  });
+});
+
+describe('checkIntegrity and repairIntegrityActions', () => {
+  const broken = stateWith({
+    ...state,
+    pipelines: [...state.pipelines, { id: 'p3', name: 'Orphan', dataset_id: 'gone' }],
+    alerts: [...state.alerts, { id: 'a4', message: 'Old run failed', entity_ref: { type: 'experiment', id: 'gone' } }],
+  });
+
+  it('finds references to entities that no longer exist', () => {
+    expect(checkIntegrity(state)).toEqual([]);
+    expect(checkIntegrity(broken)).toEqual([
+      { collection: 'pipelines', id: 'p3', label: 'Orphan', field: 'dataset_id', missingCollection: 'datasets', missingId: 'gone' },
+      { collection: 'alerts', id: 'a4', label: 'Old run failed', field: 'entity_ref', missingCollection: 'experiments', missingId: 'gone' },
+    ]);
+  });
+
+  it('clears the dangling references and keeps the entities', () => {
+    const repaired = repairIntegrityActions(checkIntegrity(broken)).reduce(dashboardReducer, broken);
+    expect(checkIntegrity(repaired)).toEqual([]);
+    expect(repaired.pipelines.find(pipeline => pipeline.id === 'p3')?.dataset_id).toBeUndefined();
+    expect(repaired.alerts).toHaveLength(4);
+  });
+});
@@ -0,0 +1,186 @@
+import { EntityRef } from '../types';
+import { DashboardState, DashboardAction, CollectionKey, COLLECTION_KEYS, entityAction } from './dashboardStore';
+
+export const ENTITY_REF_COLLECTIONS: Record<EntityRef['type'], CollectionKey> = {
+  pipeline: 'pipelines',
+  dataset: 'datasets',
+  experiment: 'experiments',
+  connection: 'externalConnections',
+};
+
+interface ForeignKey {
+  from: CollectionKey;
+  field: string;
+  to: CollectionKey;
+  /** `cascade` deletes the referencing entity, `detach` only clears the reference. */
+  onDelete: 'cascade' | 'detach';
+}
+
+/**
+ * Every reference between entities. Deletes follow these rules only; nothing
+ * is ever matched by name. Alerts are cleared through their `entity_ref`.
+ */
+export const FOREIGN_KEYS: ForeignKey[] = [
+  { from: 'pipelines', field: 'dataset_id', to: 'datasets', onDelete: 'cascade' },
+  { from: 'pipelineRuns', field: 'pipeline_id', to: 'pipelines', onDelete: 'cascade' },
+  { from: 'experiments', field: 'dataset_id', to: 'datasets', onDelete: 'cascade' },
+  // Trained models outlive the pipeline definition that produced them
+  { from: 'experiments', field: 'pipeline_id', to: 'pipelines', onDelete: 'detach' },
+  { from: 'datasets', field: 'source_connection_id', to: 'externalConnections', onDelete: 'cascade' },
+];
+
+type StoredEntity = { id: string } & Record<string, unknown>;
+
+const entitiesOf = (state: DashboardState, collection: CollectionKey) =>
+  state[collection] as unknown as StoredEntity[];
+
+const alertTarget = (alert: StoredEntity) => {
+  const ref = alert.entity_ref as EntityRef | undefined;
+  return ref ? { collection: ENTITY_REF_COLLECTIONS[ref.type], id: ref.id } : null;
+};
+
+export interface CascadePlan {
+  /** Ids to remove per collection, including the entities the delete started from. */
+  removes: Record<CollectionKey, string[]>;
+  /** References to clear on entities that are kept, with the id they pointed at. */
+  detaches: { collection: CollectionKey; id: string; field: string; value: string }[];
+}
+
+/**
+ * Works out everything a delete takes with it by following FOREIGN_KEYS
+ * transitively, plus the alerts that point at any removed entity.
+ */
+export function planCascadeDelete(state: DashboardState, collection: CollectionKey, ids: string[]): CascadePlan {
+  const removing = Object.fromEntries(COLLECTION_KEYS.map(key => [key, new Set<string>()])) as Record<CollectionKey, Set<string>>;
+  const pending: { collection: CollectionKey; id: string }[] = [];
+
+  const remove = (target: CollectionKey, id: string) => {
+    if (removing[target].has(id)) return;
+    removing[target].add(id);
+    pending.push({ collection: target, id });
+  };
+
+  ids.forEach(id => remove(collection, id));
+
+  while (pending.length > 0) {
+    const deleted = pending.pop()!;
+    FOREIGN_KEYS
+      .filter(key => key.to === deleted.collection && key.onDelete === 'cascade')
+      .forEach(key => {
+        entitiesOf(state, key.from)
+          .filter(entity => entity[key.field] === deleted.id)
+          .forEach(entity => remove(key.from, entity.id));
+      });
+    entitiesOf(state, 'alerts')
+      .filter(alert => {
+        const target = alertTarget(alert);
+        return target?.collection === deleted.collection && target.id === deleted.id;
+      })
+      .forEach(alert => remove('alerts', alert.id));
+  }
+
+  const detaches = FOREIGN_KEYS
+    .filter(key => key.onDelete === 'detach')
+    .flatMap(key => entitiesOf(state, key.from)
+      .filter(entity => !removing[key.from].has(entity.id))
+      .filter(entity => typeof entity[key.field] === 'string' && removing[key.to].has(entity[key.field] as string))
+      .map(entity => ({ collection: key.from, id: entity.id, field: key.field, value: entity[key.field] as string })));
+
+  return {
+    removes: Object.fromEntries(COLLECTION_KEYS.map(key => [key, [...removing[key]]])) as Record<CollectionKey, string[]>,
+    detaches,
+  };
+}
+
+const clearField = (collection: CollectionKey, id: string, field: string) =>
+  ({ type: 'update', collection, id, changes: { [field]: undefined } }) as DashboardAction;
+
+export interface DeletionImpact {
+  plan: CascadePlan;
+  /** Entities removed along with the one being deleted. */
+  removed: { collection: CollectionKey; id: string; label: string }[];
+  /** Entities that are kept but lose a reference. */
+  detached: { collection: CollectionKey; id: string; label: string; field: string }[];
+}
+
+export const entityLabel = (entity: { id: string }) => {
+  const fields = entity as StoredEntity;
+  // Pipeline runs have neither, only their number
+  return String(fields.name ?? fields.message ?? (typeof fields.number === 'number' ? `Run #${fields.number}` : fields.id));
+};
+
+/** Dry run of a delete: lists everything it would take with it, without changing the state. */
+export function previewCascadeDelete(state: DashboardState, collection: CollectionKey, id: string): DeletionImpact {
+  const plan = planCascadeDelete(state, collection, [id]);
+  const find = (target: CollectionKey, entityId: string) =>
+    entitiesOf(state, target).find(entity => entity.id === entityId);
+
+  return {
+    plan,
+    removed: COLLECTION_KEYS.flatMap(target => plan.removes[target]
+      .filter(entityId => !(target === collection && entityId === id))
+      .map(entityId => ({ collection: target, id: entityId, label: entityLabel(find(target, entityId) ?? { id: entityId }) }))),
+    detached: plan.detaches.map(detach => ({
+      collection: detach.collection,
+      id: detach.id,
+      field: detach.field,
+      label: entityLabel(find(detach.collection, detach.id) ?? { id: detach.id }),
+    })),
+  };
+}
+
+export function cascadeDeleteActions(plan: CascadePlan): DashboardAction[] {
+  return [
+    ...plan.detaches.map(({ collection, id, field }) => clearField(collection, id, field)),
+    ...COLLECTION_KEYS
+      .filter(collection => plan.removes[collection].length > 0)
+      .map(collection => entityAction({ type: 'remove', collection, ids: plan.removes[collection] })),
+  ];
+}
+
+export interface IntegrityIssue {
+  collection: CollectionKey;
+  id: string;
+  /** Name of the entity, or the message for alerts. */
+  label: string;
+  field: string;
+  missingCollection: CollectionKey;
+  missingId: string;
+}
+
+/** Finds references that point at entities which no longer exist. */
+export function checkIntegrity(state: DashboardState): IntegrityIssue[] {
+  const exists = (collection: CollectionKey, id: string) =>
+    entitiesOf(state, collection).some(entity => entity.id === id);
+
+  const danglingKeys = FOREIGN_KEYS.flatMap(key => entitiesOf(state, key.from)
+    .filter(entity => typeof entity[key.field] === 'string' && !exists(key.to, entity[key.field] as string))
+    .map(entity => ({
+      collection: key.from,
+      id: entity.id,
+      label: entityLabel(entity),
+      field: key.field,
+      missingCollection: key.to,
+      missingId: entity[key.field] as string,
+    })));
+
+  const danglingAlerts = entitiesOf(state, 'alerts').flatMap(alert => {
+    const target = alertTarget(alert);
+    if (!target || exists(target.collection, target.id)) return [];
+    return [{
+      collection: 'alerts' as const,
+      id: alert.id,
+      label: entityLabel(alert),
+      field: 'entity_ref',
+      missingCollection: target.collection,
+      missingId: target.id,
+    }];
+  });
+
+  return [...danglingKeys, ...danglingAlerts];
+}
+
+/** Clears dangling references; the entities themselves are kept. */
+export function repairIntegrityActions(issues: IntegrityIssue[]): DashboardAction[] {
+  return issues.map(issue => clearField(issue.collection, issue.id, issue.field));
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, migratePersistedData, migrations, PersistedData } from './migrations';
+import { DEFAULT_WORKSPACE_ID } from './workspaces';
+
+// Data as the first schema stored it: no trash, users, workspaces or runs
+const v1Data = (overrides: Partial<PersistedData> = {}): PersistedData => ({
+  pipelines: [],
+  datasets: [],
+  alerts: [],
+  experiments: [],
+  externalConnections: [],
+  ...overrides,
+} as PersistedData);
+
+const migrateFrom = (fromVersion: number, data: PersistedData) => migratePersistedData(data, fromVersion).data;
+
+describe('migratePersistedData', () => {
+  it('applies every newer migration in order', () => {
+    const { applied } = migratePersistedData(v1Data(), 1);
+    expect(applied).toEqual(migrations.map(migration => migration.version));
+    expect(applied[applied.length - 1]).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('applies nothing to current data', () => {
+    const data = migrateFrom(1, v1Data());
+    expect(migratePersistedData(data, CURRENT_SCHEMA_VERSION)).toEqual({ data, applied: [] });
+  });
+
+  it('refuses data from a newer schema', () => {
+    expect(() => migratePersistedData(v1Data(), CURRENT_SCHEMA_VERSION + 1)).toThrow(/only supports up to/);
+  });
+
+  it('names the migration that failed', () => {
+    expect(() => migratePersistedData({ ...v1Data(), alerts: undefined } as unknown as PersistedData, 1))
+      .toThrow(/^Migration to schema v2 failed/);
+  });
+});
+
+describe('v2', () => {
+  it('renames legacy alert types and fills experiment fields', () => {
+    const data = migrateFrom(1, v1Data({
+      alerts: [{ id: 'a', type: 'data_drift' }, { id: 'b', type: 'performance' }],
+      experiments: [{ id: 'e', created_at: '2024-01-01', duration: 30, metrics: { accuracy: 0.9 } }],
+    }));
+    expect(data.alerts.map(alert => alert.type)).toEqual(['drift', 'performance']);
+    expect(data.experiments[0]).toMatchObject({
+      start_time: '2024-01-01',
+      metrics: { accuracy: 0.9, auc_roc: 0, training_time: 30 },
+    });
+    expect(data.experiments[0]).not.toHaveProperty('created_at');
+  });
+});
+
+describe('v3', () => {
+  it('links datasets to the connection named after them', () => {
+    const data = migrateFrom(2, v1Data({
+      externalConnections: [{ id: 'c1', name: 'Warehouse' }],
+      datasets: [{ id: 'd1', name: 'Warehouse (External)' }, { id: 'd2', name: 'Upload' }],
+    }));
+    expect(data.datasets.map(dataset => dataset.source_connection_id)).toEqual(['c1', undefined]);
+  });
+});
+
+describe('v4 and v5', () => {
+  it('add the trash and users collections', () => {
+    const data = migrateFrom(3, v1Data());
+    expect(data.trash).toEqual([]);
+    expect(data.users).toEqual([]);
+  });
+});
+
+describe('v6', () => {
+  it('puts entities in the default workspace, with every user a member', () => {
+    const data = migrateFrom(5, v1Data({
+      pipelines: [{ id: 'p1' }, { id: 'p2', workspace_id: 'other' }],
+      alerts: [{ id: 'a1', type: 'system' }, { id: 'a2', type: 'drift' }],
+      trash: [],
+      users: [{ id: 'u1', role: 'admin' }],
+    }));
+    expect(data.pipelines.map(pipeline => pipeline.workspace_id)).toEqual([DEFAULT_WORKSPACE_ID, 'other']);
+    expect(data.alerts.map(alert => alert.workspace_id)).toEqual([undefined, DEFAULT_WORKSPACE_ID]);
+    expect(data.workspaces).toHaveLength(1);
+    expect(data.workspaces[0]).toMatchObject({ id: DEFAULT_WORKSPACE_ID, members: [{ user_id: 'u1', role: 'admin' }] });
+  });
+
+  it('puts trashed entities in the workspace of their entry', () => {
+    const data = migrateFrom(5, v1Data({
+      trash: [
+        { id: 't1', entities: { pipelines: [{ id: 'p1' }], alerts: [{ id: 'a1', type: 'system' }, { id: 'a2', type: 'drift' }] } },
+        { id: 't2', workspace_id: 'other', entities: { datasets: [{ id: 'd1' }, { id: 'd2', workspace_id: 'third' }] } },
+      ],
+      users: [],
+    }));
+    const [first, second] = data.trash.map(entry => entry.entities as PersistedData);
+    expect(data.trash.map(entry => entry.workspace_id)).toEqual([DEFAULT_WORKSPACE_ID, 'other']);
+    expect(first.pipelines[0].workspace_id).toBe(DEFAULT_WORKSPACE_ID);
+    expect(first.alerts.map(alert => alert.workspace_id)).toEqual([undefined, DEFAULT_WORKSPACE_ID]);
+    expect(second.datasets.map(dataset => dataset.workspace_id)).toEqual(['other', 'third']);
+  });
+
+  it('keeps workspaces that are already there', () => {
+    const data = migrateFrom(5, v1Data({ trash: [], users: [], workspaces: [{ id: 'w1' }] }));
+    expect(data.workspaces).toEqual([{ id: 'w1' }]);
+  });
+});
+
+describe('v7', () => {
+  it("starts each pipeline's run history with its last run", () => {
+    const data = migrateFrom(6, v1Data({
+      pipelines: [
+        { id: 'p1', workspace_id: 'w', status: 'failed', last_run: '2024-02-01', algorithm: 'svm', model_accuracy: 0.8 },
+        { id: 'p2', status: 'idle' },
+      ],
+      trash: [{ id: 't', entities: { pipelines: [] } }],
+      workspaces: [{ id: 'w' }],
+    }));
+    expect(data.pipelineRuns).toHaveLength(1);
+    expect(data.pipelineRuns[0]).toMatchObject({
+      id: 'run_p1_1',
+      pipeline_id: 'p1',
+      workspace_id: 'w',
+      status: 'failed',
+      started_at: '2024-02-01',
+      parameters: { algorithm: 'svm', hyperparameters: {} },
+    });
+    expect((data.trash[0].entities as PersistedData).pipelineRuns).toEqual([]);
+  });
+});
+
+describe('v8', () => {
+  it('records runs as queued when they started, in the trash too', () => {
+    const data = migrateFrom(7, v1Data({
+      pipelineRuns: [{ id: 'r1', started_at: '2024-03-01' }],
+      trash: [{ id: 't', entities: { pipelineRuns: [{ id: 'r2', started_at: '2024-03-02' }] } }],
+    }));
+    expect(data.pipelineRuns[0].queued_at).toBe('2024-03-01');
+    expect((data.trash[0].entities as PersistedData).pipelineRuns[0].queued_at).toBe('2024-03-02');
+  });
+});
+
+describe('v9', () => {
+  it('gives pipelines the default graph and keeps ones they have', () => {
+    const ownSteps = [{ id: 'ingest' }];
+    const data = migrateFrom(8, v1Data({
+      pipelines: [{ id: 'p1' }, { id: 'p2', steps: ownSteps }],
+      trash: [{ id: 't', entities: { pipelines: [{ id: 'p3' }] } }],
+    }));
+    const steps = data.pipelines[0].steps as { id: string }[];
+    expect(steps.map(step => step.id)).toEqual(['ingest', 'validate', 'clean', 'split', 'train', 'evaluate']);
+    expect(data.pipelines[1].steps).toBe(ownSteps);
+    expect((data.trash[0].entities as PersistedData).pipelines[0].steps).toHaveLength(6);
+  });
+});
@@ -0,0 +1,197 @@
+import { CollectionKey } from './dashboardStore';
+import { defaultPipelineGraph } from './pipelineGraph';
+import { DEFAULT_WORKSPACE_ID } from './workspaces';
+
+type StoredRecord = Record<string, unknown>;
+export type PersistedData = Record<CollectionKey, StoredRecord[]>;
+
+export interface Migration {
+  /** Schema version the migration upgrades the data to. */
+  version: number;
+  description: string;
+  migrate: (data: PersistedData) => PersistedData;
+}
+
+const LEGACY_ALERT_TYPES: Record<string, string> = {
+  data_drift: 'drift',
+};
+
+/**
+ * Ordered upgrades for persisted data. Append new entries with the next
+ * version number; never edit one that has shipped.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 2,
+    description: 'Align alert types and experiment fields with types/index.ts',
+    migrate: data => ({
+      ...data,
+      alerts: data.alerts.map(alert => ({
+        ...alert,
+        type: LEGACY_ALERT_TYPES[alert.type as string] ?? alert.type,
+      })),
+      experiments: data.experiments.map(({ created_at, ...experiment }) => ({
+        ...experiment,
+        start_time: experiment.start_time ?? created_at,
+        metrics: {
+          auc_roc: 0,
+          training_time: experiment.duration ?? 0,
+          ...(experiment.metrics as StoredRecord),
+        },
+      })),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Link datasets created by external connections through source_connection_id',
+    migrate: data => {
+      // Connections used to be tied to their dataset only by this exact name
+      const connectionIdsByDatasetName = new Map(
+        data.externalConnections.map(connection => [`${connection.name} (External)`, connection.id])
+      );
+      return {
+        ...data,
+        datasets: data.datasets.map(dataset => {
+          const connectionId = connectionIdsByDatasetName.get(dataset.name as string);
+          return connectionId && !dataset.source_connection_id
+            ? { ...dataset, source_connection_id: connectionId }
+            : dataset;
+        }),
+      };
+    },
+  },
+  {
+    version: 4,
+    description: 'Add the trash collection for soft-deleted entities',
+    migrate: data => ({
+      ...data,
+      trash: data.trash ?? [],
+    }),
+  },
+  {
+    version: 5,
+    description: 'Add the users collection for accounts stored with the workspace',
+    migrate: data => ({
+      ...data,
+      users: data.users ?? [],
+    }),
+  },
+  {
+    version: 6,
+    description: 'Put every entity in a default workspace that all existing users are members of',
+    migrate: data => {
+      // System alerts stay out of workspaces and show in all of them
+      const inWorkspace = (collection: string, records: StoredRecord[], workspaceId: unknown = DEFAULT_WORKSPACE_ID) =>
+        records.map(record => collection === 'alerts' && record.type === 'system'
+          ? record
+          : { ...record, workspace_id: record.workspace_id ?? workspaceId });
+      const now = new Date().toISOString();
+      return {
+        ...data,
+        pipelines: inWorkspace('pipelines', data.pipelines),
+        datasets: inWorkspace('datasets', data.datasets),
+        alerts: inWorkspace('alerts', data.alerts),
+        experiments: inWorkspace('experiments', data.experiments),
+        externalConnections: inWorkspace('externalConnections', data.externalConnections),
+        // Trashed entities are restored into their entry's workspace, so they get it too
+        trash: inWorkspace('trash', data.trash).map(entry => ({
+          ...entry,
+          entities: Object.fromEntries(Object.entries((entry.entities ?? {}) as Record<string, unknown>).map(([collection, records]) =>
+            [collection, Array.isArray(records) ? inWorkspace(collection, records, entry.workspace_id) : records])),
+        })),
+        // Storage loads a collection it has never written as an empty list
+        workspaces: data.workspaces?.length ? data.workspaces : [{
+          id: DEFAULT_WORKSPACE_ID,
+          name: 'Default',
+          created_at: now,
+          // Workspace exports carry no accounts
+          members: (data.users ?? []).map(user => ({ user_id: user.id, role: user.role, added_at: now })),
+        }],
+      };
+    },
+  },
+  {
+    version: 7,
+    description: 'Add pipeline runs, starting each history with the last run recorded on the pipeline',
+    migrate: data => ({
+      ...data,
+      pipelineRuns: data.pipelineRuns?.length ? data.pipelineRuns : data.pipelines
+        .filter(pipeline => typeof pipeline.last_run === 'string')
+        .map(pipeline => ({
+          id: `run_${pipeline.id}_1`,
+          pipeline_id: pipeline.id,
+          workspace_id: pipeline.workspace_id,
+          number: 1,
+          trigger: 'manual',
+          // A running pipeline's last_run is the run before the current one
+          status: pipeline.status === 'failed' ? 'failed' : 'succeeded',
+          progress: 100,
+          started_at: pipeline.last_run,
+          ended_at: pipeline.last_run,
+          parameters: { algorithm: pipeline.algorithm, hyperparameters: pipeline.hyperparameters ?? {} },
+          metrics: { accuracy: pipeline.model_accuracy, data_drift_score: pipeline.data_drift_score },
+          logs: [],
+        })),
+      // Trashed pipelines take their runs with them from now on
+      trash: data.trash.map(entry => ({ ...entry, entities: { pipelineRuns: [], ...(entry.entities as StoredRecord) } })),
+    }),
+  },
+  {
+    version: 8,
+    description: 'Queue pipeline runs before they start, recording when each was queued',
+    migrate: data => {
+      // Runs so far started the moment they were asked for
+      const withQueuedAt = (runs: StoredRecord[] = []) => runs.map(run => ({ queued_at: run.started_at, ...run }));
+      return {
+        ...data,
+        pipelineRuns: withQueuedAt(data.pipelineRuns),
+        trash: data.trash.map(entry => {
+          const entities = entry.entities as Record<string, StoredRecord[]>;
+          return { ...entry, entities: { ...entities, pipelineRuns: withQueuedAt(entities.pipelineRuns) } };
+        }),
+      };
+    },
+  },
+  {
+    version: 9,
+    description: 'Build pipelines from steps, giving existing pipelines the graph they used to run implicitly',
+    migrate: data => {
+      const withSteps = (pipelines: StoredRecord[] = []) =>
+        pipelines.map(pipeline => ({ steps: defaultPipelineGraph(), ...pipeline }));
+      return {
+        ...data,
+        pipelines: withSteps(data.pipelines),
+        trash: data.trash.map(entry => {
+          const entities = entry.entities as Record<string, StoredRecord[]>;
+          return { ...entry, entities: { ...entities, pipelines: withSteps(entities.pipelines) } };
+        }),
+      };
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Runs every migration newer than `fromVersion`, in order. Throws when the
+ * data comes from a newer schema or a migration fails.
+ */
+export function migratePersistedData(data: PersistedData, fromVersion: number): { data: PersistedData; applied: number[] } {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Stored data uses schema v${fromVersion}, but this version of the dashboard only supports up to v${CURRENT_SCHEMA_VERSION}`);
+  }
+
+  const pending = migrations
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  const migrated = pending.reduce((current, migration) => {
+    try {
+      return migration.migrate(current);
+    } catch (error) {
+      throw new Error(`Migration to schema v${migration.version} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, data);
+
+  return { data: migrated, applied: pending.map(migration => migration.version) };
+}
@@ -0,0 +1,222 @@
+import { base64UrlEncode, pkceChallenge } from './oidc';
+
+// A stand-in OpenID Connect provider that runs inside the dashboard, so single
+// sign-on can be tried without a real identity provider. Its sign-in page is
+// a route of this app and its endpoints answer through `mockIdpFetch`.
+// It lets anyone sign in as anyone, so it only exists in development builds.
+
+export const MOCK_IDP_ENABLED = import.meta.env.DEV;
+
+export const MOCK_IDP_PATH = '/mock-idp';
+export const MOCK_IDP_AUTHORIZE_PATH = `${MOCK_IDP_PATH}/authorize`;
+export const MOCK_IDP_CLIENT_ID = 'ml-dashboard';
+
+// The signing key pair; this is a development stand-in, so the private key is kept in plain storage
+const KEYS_KEY = 'ml_dashboard_mock_idp_keys';
+// Issued codes, redeemed by the same tab right after the redirect
+const CODES_KEY = 'ml_dashboard_mock_idp_codes';
+const CODE_LIFETIME_MS = 60 * 1000;
+const ID_TOKEN_LIFETIME_SECONDS = 5 * 60;
+
+export const mockIdpIssuer = () => `${window.location.origin}${MOCK_IDP_PATH}`;
+
+export const isMockIssuer = (issuer: string) => issuer.replace(/\/+$/, '') === mockIdpIssuer();
+
+/** A user of the stand-in provider. */
+export interface MockIdentity {
+  sub: string;
+  name: string;
+  email: string;
+  groups: string[];
+}
+
+/** Ready-made users, one per group of the suggested role mapping. */
+export const MOCK_IDENTITIES: MockIdentity[] = [
+  { sub: 'mock-ada', name: 'Ada Admin', email: 'ada@mock-idp.local', groups: ['ml-admins'] },
+  { sub: 'mock-eli', name: 'Eli Engineer', email: 'eli@mock-idp.local', groups: ['ml-engineers'] },
+  { sub: 'mock-dee', name: 'Dee Steward', email: 'dee@mock-idp.local', groups: ['data-stewards'] },
+  { sub: 'mock-vic', name: 'Vic Viewer', email: 'vic@mock-idp.local', groups: ['ml-viewers'] },
+  { sub: 'mock-nia', name: 'Nia Nobody', email: 'nia@mock-idp.local', groups: [] },
+];
+
+/** Group to role mapping that matches the groups of `MOCK_IDENTITIES`. */
+export const MOCK_ROLE_MAPPINGS = [
+  { group: 'ml-admins', role: 'admin' },
+  { group: 'ml-engineers', role: 'ml-engineer' },
+  { group: 'data-stewards', role: 'data-steward' },
+  { group: 'ml-viewers', role: 'viewer' },
+];
+
+/** The authorization request parameters the sign-in page needs. */
+export interface MockAuthorizationRequest {
+  clientId: string;
+  redirectUri: string;
+  state: string;
+  nonce?: string;
+  codeChallenge: string;
+  scope: string;
+}
+
+interface IssuedCode {
+  request: MockAuthorizationRequest;
+  identity: MockIdentity;
+  expiresAt: number;
+}
+
+interface StoredKeys {
+  kid: string;
+  privateKey: JsonWebKey;
+  publicKey: JsonWebKey;
+}
+
+/** Reads an authorization request, or explains why it cannot be served. */
+export function parseAuthorizationRequest(params: URLSearchParams): MockAuthorizationRequest | string {
+  if (params.get('response_type') !== 'code') return 'Only the authorization code flow is supported';
+  if (params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) return 'A PKCE S256 code challenge is required';
+  if (!params.get('state')) return 'The request has no state';
+  if (!(params.get('scope') ?? '').split(' ').includes('openid')) return 'The "openid" scope is required';
+  const redirectUri = params.get('redirect_uri') ?? '';
+  // Only this app can receive codes, so a crafted link cannot send them elsewhere
+  try {
+    if (new URL(redirectUri).origin !== window.location.origin) return 'The redirect URI must be on this site';
+  } catch {
+    return 'The redirect URI is not valid';
+  }
+  return {
+    clientId: params.get('client_id') ?? '',
+    redirectUri,
+    state: params.get('state') ?? '',
+    nonce: params.get('nonce') ?? undefined,
+    codeChallenge: params.get('code_challenge') ?? '',
+    scope: params.get('scope') ?? '',
+  };
+}
+
+const loadCodes = (): Record<string, IssuedCode> => {
+  try {
+    return JSON.parse(sessionStorage.getItem(CODES_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveCodes = (codes: Record<string, IssuedCode>) => sessionStorage.setItem(CODES_KEY, JSON.stringify(codes));
+
+/** Signs the user in at the stand-in provider; returns the URL to send the browser back to. */
+export function authorize(request: MockAuthorizationRequest, identity: MockIdentity): string {
+  const code = base64UrlEncode(crypto.getRandomValues(new Uint8Array(24)));
+  const now = Date.now();
+  const codes = Object.fromEntries(Object.entries(loadCodes()).filter(([, issued]) => issued.expiresAt > now));
+  saveCodes({ ...codes, [code]: { request, identity, expiresAt: now + CODE_LIFETIME_MS } });
+  return redirectWith(request, { code, state: request.state });
+}
+
+/** The URL that tells the client the user declined to sign in. */
+export const denyAuthorization = (request: MockAuthorizationRequest) =>
+  redirectWith(request, { error: 'access_denied', state: request.state });
+
+function redirectWith(request: MockAuthorizationRequest, params: Record<string, string>): string {
+  const url = new URL(request.redirectUri);
+  Object.entries(params).forEach(([name, value]) => url.searchParams.set(name, value));
+  return url.toString();
+}
+
+async function signingKeys(): Promise<StoredKeys> {
+  const saved = localStorage.getItem(KEYS_KEY);
+  if (saved) return JSON.parse(saved) as StoredKeys;
+  const pair = await crypto.subtle.generateKey(
+    { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+    true,
+    ['sign', 'verify']
+  );
+  const keys: StoredKeys = {
+    kid: base64UrlEncode(crypto.getRandomValues(new Uint8Array(8))),
+    privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey),
+    publicKey: await crypto.subtle.exportKey('jwk', pair.publicKey),
+  };
+  localStorage.setItem(KEYS_KEY, JSON.stringify(keys));
+  return keys;
+}
+
+async function signIdToken(claims: Record<string, unknown>): Promise<string> {
+  const keys = await signingKeys();
+  const encode = (value: object) => base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+  const signingInput = `${encode({ alg: 'RS256', typ: 'JWT', kid: keys.kid })}.${encode(claims)}`;
+  const key = await crypto.subtle.importKey('jwk', keys.privateKey, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// The token endpoint (RFC 6749 4.1.3 with the PKCE check of RFC 7636 4.6)
+async function redeemCode(form: URLSearchParams): Promise<Response> {
+  if (form.get('grant_type') !== 'authorization_code') {
+    return json({ error: 'unsupported_grant_type' }, 400);
+  }
+  const codes = loadCodes();
+  const code = form.get('code') ?? '';
+  const issued = codes[code];
+  // Codes work once, whatever the outcome
+  delete codes[code];
+  saveCodes(codes);
+
+  const verifier = form.get('code_verifier') ?? '';
+  if (!issued || issued.expiresAt <= Date.now()
+    || form.get('client_id') !== issued.request.clientId
+    || form.get('redirect_uri') !== issued.request.redirectUri
+    || await pkceChallenge(verifier) !== issued.request.codeChallenge) {
+    return json({ error: 'invalid_grant', error_description: 'The code is invalid, expired or was issued to another client' }, 400);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const scopes = issued.request.scope.split(' ');
+  const { identity } = issued;
+  const idToken = await signIdToken({
+    iss: mockIdpIssuer(),
+    sub: identity.sub,
+    aud: issued.request.clientId,
+    iat: now,
+    exp: now + ID_TOKEN_LIFETIME_SECONDS,
+    auth_time: now,
+    ...(issued.request.nonce ? { nonce: issued.request.nonce } : {}),
+    ...(scopes.includes('profile') ? { name: identity.name } : {}),
+    ...(scopes.includes('email') ? { email: identity.email, email_verified: true } : {}),
+    ...(scopes.includes('groups') ? { groups: identity.groups } : {}),
+  });
+  return json({
+    access_token: base64UrlEncode(crypto.getRandomValues(new Uint8Array(24))),
+    token_type: 'Bearer',
+    expires_in: ID_TOKEN_LIFETIME_SECONDS,
+    id_token: idToken,
+  });
+}
+
+/** Answers the stand-in provider's discovery, key and token endpoints in place of the network. */
+export async function mockIdpFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const issuer = mockIdpIssuer();
+  const path = url.startsWith(issuer) ? url.slice(issuer.length) : null;
+
+  if (path === '/.well-known/openid-configuration') {
+    return json({
+      issuer,
+      authorization_endpoint: `${window.location.origin}${MOCK_IDP_AUTHORIZE_PATH}`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      scopes_supported: ['openid', 'profile', 'email', 'groups'],
+    });
+  }
+  if (path === '/jwks') {
+    const { kid, publicKey } = await signingKeys();
+    return json({ keys: [{ kty: publicKey.kty, n: publicKey.n, e: publicKey.e, kid, alg: 'RS256', use: 'sig' }] });
+  }
+  if (path === '/token' && init.method === 'POST') {
+    return redeemCode(new URLSearchParams(String(init.body ?? '')));
+  }
+  return json({ error: 'not_found' }, 404);
+}
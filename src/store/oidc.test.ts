@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { base64UrlDecode, base64UrlEncode, discoverProvider, OidcFetch, pkceChallenge } from './oidc';
+
+const respondWith = (body: unknown, status = 200): OidcFetch => async () => new Response(JSON.stringify(body), { status });
+
+describe('pkceChallenge', () => {
+  it('matches the RFC 7636 example', async () => {
+    expect(await pkceChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')).toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+  });
+});
+
+describe('base64url', () => {
+  it('round-trips bytes without padding or URL-unsafe characters', () => {
+    const bytes = Uint8Array.from([251, 255, 191, 0, 1]);
+    const encoded = base64UrlEncode(bytes);
+    expect(encoded).toBe('-_-_AAE');
+    expect(base64UrlDecode(encoded)).toEqual(bytes);
+  });
+});
+
+describe('discoverProvider', () => {
+  const discovery = {
+    issuer: 'https://idp.example.com',
+    authorization_endpoint: 'https://idp.example.com/authorize',
+    token_endpoint: 'https://idp.example.com/token',
+    jwks_uri: 'https://idp.example.com/jwks',
+  };
+
+  it('loads the configuration, whether or not the issuer ends in a slash', async () => {
+    expect(await discoverProvider('https://idp.example.com/', respondWith(discovery))).toEqual(discovery);
+  });
+
+  it('refuses a configuration for a different issuer', async () => {
+    await expect(discoverProvider('https://idp.example.com', respondWith({ ...discovery, issuer: 'https://evil.example.com' })))
+      .rejects.toThrow(/different issuer/);
+  });
+
+  it('reports an HTTP failure', async () => {
+    await expect(discoverProvider('https://idp.example.com', respondWith({}, 404))).rejects.toThrow(/HTTP 404/);
+  });
+});
@@ -0,0 +1,238 @@
+// OpenID Connect authorization code flow with PKCE, for a public browser client
+
+/** Where identity providers send the browser back to, on this origin. */
+export const OIDC_CALLBACK_PATH = '/auth/callback';
+// The verifier, state and nonce of the sign-in in progress; they only need to survive the redirect
+const PENDING_SIGN_IN_KEY = 'ml_dashboard_oidc_pending';
+// An abandoned sign-in stops being accepted after this long
+const PENDING_SIGN_IN_MS = 10 * 60 * 1000;
+// Allowed difference between this clock and the provider's when checking token times
+const CLOCK_SKEW_SECONDS = 120;
+
+/** Fetches from the identity provider; the local stand-in provider answers without a network. */
+export type OidcFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface OidcClient {
+  issuer: string;
+  clientId: string;
+  /** Space-separated; must include "openid". */
+  scopes: string;
+}
+
+/** The fields of the provider's discovery document this client uses. */
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/** The verified claims of an ID token. */
+export type IdTokenClaims = Record<string, unknown> & {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+};
+
+interface PendingSignIn {
+  providerId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  startedAt: number;
+  /** The page the sign-in started from, opened again once it completes. */
+  returnTo?: string;
+}
+
+export const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const base64UrlDecode = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+const randomString = (bytes = 32) => base64UrlEncode(crypto.getRandomValues(new Uint8Array(bytes)));
+
+/** The S256 code challenge for a PKCE code verifier (RFC 7636). */
+export async function pkceChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+export const oidcRedirectUri = () => `${window.location.origin}${OIDC_CALLBACK_PATH}`;
+
+const trimIssuer = (issuer: string) => issuer.replace(/\/+$/, '');
+
+export async function discoverProvider(issuer: string, fetcher: OidcFetch): Promise<OidcDiscovery> {
+  const response = await fetcher(`${trimIssuer(issuer)}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`The identity provider's configuration could not be loaded (HTTP ${response.status})`);
+  }
+  const discovery = await response.json() as OidcDiscovery;
+  // A provider must describe itself under the issuer it was configured with (OpenID Connect Discovery 4.3)
+  if (trimIssuer(discovery.issuer ?? '') !== trimIssuer(issuer)) {
+    throw new Error('The identity provider reported a different issuer than the one configured');
+  }
+  return discovery;
+}
+
+function loadPendingSignIn(): PendingSignIn | null {
+  try {
+    const saved = sessionStorage.getItem(PENDING_SIGN_IN_KEY);
+    return saved ? JSON.parse(saved) as PendingSignIn : null;
+  } catch (error) {
+    console.warn('Failed to load the pending sign-in:', error);
+    return null;
+  }
+}
+
+/** The provider a callback belongs to, before it is completed. */
+export const pendingSignInProvider = () => loadPendingSignIn()?.providerId ?? null;
+
+/** Where to go after the callback; only paths on this site, so a crafted value cannot send the user elsewhere. */
+export const pendingSignInReturnTo = () => {
+  const returnTo = loadPendingSignIn()?.returnTo;
+  return returnTo && /^\/(?![/\\])/.test(returnTo) ? returnTo : '/';
+};
+
+/**
+ * Starts a sign-in: remembers a fresh PKCE verifier, state and nonce for the
+ * callback and returns the provider's authorization URL to send the browser to.
+ */
+export async function beginAuthorization(
+  providerId: string,
+  client: OidcClient,
+  fetcher: OidcFetch,
+  options: { forceLogin?: boolean } = {}
+): Promise<string> {
+  const discovery = await discoverProvider(client.issuer, fetcher);
+  const pending: PendingSignIn = {
+    providerId,
+    state: randomString(),
+    nonce: randomString(),
+    codeVerifier: randomString(48),
+    startedAt: Date.now(),
+    // A shared link opened while signed out still leads to its page after single sign-on
+    returnTo: window.location.pathname === OIDC_CALLBACK_PATH ? '/' : `${window.location.pathname}${window.location.search}`,
+  };
+  sessionStorage.setItem(PENDING_SIGN_IN_KEY, JSON.stringify(pending));
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: client.clientId,
+    redirect_uri: oidcRedirectUri(),
+    scope: client.scopes,
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: await pkceChallenge(pending.codeVerifier),
+    code_challenge_method: 'S256',
+    ...(options.forceLogin ? { prompt: 'login', max_age: '0' } : {}),
+  }).toString();
+  return url.toString();
+}
+
+async function verifyIdToken(idToken: string, client: OidcClient, discovery: OidcDiscovery, nonce: string, fetcher: OidcFetch): Promise<IdTokenClaims> {
+  const [encodedHeader, encodedPayload, encodedSignature] = idToken.split('.');
+  if (!encodedHeader || !encodedPayload || !encodedSignature) {
+    throw new Error('The identity provider returned a malformed ID token');
+  }
+  const decodeJson = (part: string) => JSON.parse(new TextDecoder().decode(base64UrlDecode(part)));
+  const header = decodeJson(encodedHeader) as { alg?: string; kid?: string };
+  if (header.alg !== 'RS256') {
+    throw new Error(`ID tokens signed with ${header.alg ?? 'no algorithm'} are not supported`);
+  }
+
+  const response = await fetcher(discovery.jwks_uri);
+  if (!response.ok) {
+    throw new Error(`The identity provider's signing keys could not be loaded (HTTP ${response.status})`);
+  }
+  const { keys = [] } = await response.json() as { keys?: (JsonWebKey & { kid?: string })[] };
+  const candidates = keys.filter(key => key.kty === 'RSA' && (!header.kid || key.kid === header.kid));
+  const jwk = candidates.length === 1 ? candidates[0] : undefined;
+  if (!jwk) {
+    throw new Error('The ID token was signed with a key the identity provider does not publish');
+  }
+  const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+  const valid = await crypto.subtle.verify(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    base64UrlDecode(encodedSignature),
+    new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+  );
+  if (!valid) {
+    throw new Error('The ID token signature is not valid');
+  }
+
+  // The checks of OpenID Connect Core 3.1.3.7 that apply to a public client
+  const claims = decodeJson(encodedPayload) as IdTokenClaims;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const now = Date.now() / 1000;
+  if (trimIssuer(claims.iss ?? '') !== trimIssuer(discovery.issuer)) {
+    throw new Error('The ID token was issued by a different provider');
+  }
+  if (!audiences.includes(client.clientId) || (audiences.length > 1 && claims.azp !== client.clientId)) {
+    throw new Error('The ID token was issued for a different client');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('The ID token has expired');
+  }
+  if (typeof claims.iat !== 'number' || claims.iat - CLOCK_SKEW_SECONDS > now) {
+    throw new Error('The ID token was issued in the future; check this device\'s clock');
+  }
+  if (claims.nonce !== nonce) {
+    throw new Error('The ID token does not belong to this sign-in');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new Error('The ID token does not identify a user');
+  }
+  return claims;
+}
+
+/**
+ * Finishes the sign-in started by `beginAuthorization` from the callback's
+ * query parameters: checks the state, redeems the code with the PKCE verifier
+ * and returns the verified ID token claims. The pending sign-in is used up
+ * whether or not this succeeds.
+ */
+export async function completeAuthorization(params: URLSearchParams, client: OidcClient, fetcher: OidcFetch): Promise<IdTokenClaims> {
+  const pending = loadPendingSignIn();
+  sessionStorage.removeItem(PENDING_SIGN_IN_KEY);
+
+  if (!pending || params.get('state') !== pending.state) {
+    throw new Error('This sign-in was not started here, or was already used. Try again.');
+  }
+  if (Date.now() - pending.startedAt > PENDING_SIGN_IN_MS) {
+    throw new Error('The sign-in took too long. Try again.');
+  }
+  const error = params.get('error');
+  if (error) {
+    throw new Error(error === 'access_denied'
+      ? 'The sign-in was cancelled at the identity provider'
+      : `The identity provider refused the sign-in: ${params.get('error_description') ?? error}`);
+  }
+  const code = params.get('code');
+  if (!code) {
+    throw new Error('The identity provider did not return an authorization code');
+  }
+
+  const discovery = await discoverProvider(client.issuer, fetcher);
+  const response = await fetcher(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: oidcRedirectUri(),
+      client_id: client.clientId,
+      code_verifier: pending.codeVerifier,
+    }).toString(),
+  });
+  const tokens = await response.json() as { id_token?: string; error?: string; error_description?: string };
+  if (!response.ok || !tokens.id_token) {
+    throw new Error(`The authorization code could not be redeemed: ${tokens.error_description ?? tokens.error ?? `HTTP ${response.status}`}`);
+  }
+  return verifyIdToken(tokens.id_token, client, discovery, pending.nonce, fetcher);
+}
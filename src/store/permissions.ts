@@ -0,0 +1,111 @@
+export const ROLES_KEY = 'ml_dashboard_roles';
+
+export const PERMISSIONS = [
+  { value: 'pipeline:create', label: 'Create pipelines' },
+  { value: 'pipeline:run', label: 'Start, stop and retrain pipelines' },
+  { value: 'pipeline:edit', label: 'Edit and duplicate pipelines' },
+  { value: 'pipeline:delete', label: 'Delete pipelines' },
+  { value: 'dataset:upload', label: 'Upload datasets' },
+  { value: 'dataset:process', label: 'Preprocess and merge datasets' },
+  { value: 'dataset:delete', label: 'Delete datasets' },
+  { value: 'connection:manage', label: 'Add and remove external connections' },
+  { value: 'model:create', label: 'Create models' },
+  { value: 'model:train', label: 'Train and deploy models' },
+  { value: 'model:delete', label: 'Delete models' },
+  { value: 'alert:manage', label: 'Acknowledge and dismiss alerts' },
+  { value: 'settings:edit', label: 'Change workspace settings, import data and repair integrity' },
+  { value: 'roles:manage', label: 'Edit custom roles' },
+  { value: 'users:manage', label: 'Invite, create, deactivate and re-role users' },
+  { value: 'workspaces:manage', label: 'Create workspaces and choose their members' },
+] as const;
+
+export type Permission = typeof PERMISSIONS[number]['value'];
+
+/** Permissions that only an account role grants; a role given in a workspace cannot. */
+export const ACCOUNT_PERMISSIONS: Permission[] = ['roles:manage', 'users:manage', 'workspaces:manage'];
+
+export interface Role {
+  id: string;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  /** Built-in roles cannot be edited or deleted. */
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_ROLES: Role[] = [
+  {
+    id: 'admin',
+    name: 'Administrator',
+    description: 'Full access, including users, roles and workspace settings',
+    permissions: PERMISSIONS.map(permission => permission.value),
+    builtIn: true,
+  },
+  {
+    id: 'viewer',
+    name: 'Viewer',
+    description: 'Read-only access',
+    permissions: [],
+    builtIn: true,
+  },
+];
+
+// Starting points for a new workspace; they can be changed or removed like any custom role
+const DEFAULT_CUSTOM_ROLES: Role[] = [
+  {
+    id: 'ml-engineer',
+    name: 'ML Engineer',
+    description: 'Builds, runs and trains pipelines and models',
+    permissions: ['pipeline:create', 'pipeline:run', 'pipeline:edit', 'pipeline:delete', 'dataset:process', 'model:create', 'model:train', 'model:delete', 'alert:manage'],
+  },
+  {
+    id: 'data-steward',
+    name: 'Data Steward',
+    description: 'Owns datasets and external connections',
+    permissions: ['dataset:upload', 'dataset:process', 'dataset:delete', 'connection:manage', 'alert:manage'],
+  },
+];
+
+const isPermission = (value: unknown): value is Permission =>
+  PERMISSIONS.some(permission => permission.value === value);
+
+export function loadCustomRoles(): Role[] {
+  try {
+    const saved = localStorage.getItem(ROLES_KEY);
+    if (!saved) return DEFAULT_CUSTOM_ROLES;
+    // Permissions removed from the app since the role was saved are dropped
+    return (JSON.parse(saved) as Role[]).map(role => ({ ...role, permissions: role.permissions.filter(isPermission), builtIn: false }));
+  } catch (error) {
+    console.warn('Failed to load custom roles:', error);
+    return DEFAULT_CUSTOM_ROLES;
+  }
+}
+
+export function saveCustomRoles(roles: Role[]) {
+  try {
+    localStorage.setItem(ROLES_KEY, JSON.stringify(roles.filter(role => !role.builtIn)));
+  } catch (error) {
+    console.warn('Failed to save custom roles:', error);
+  }
+}
+
+/** A role id that does not clash with existing roles, derived from its name. */
+export function createRoleId(name: string, roles: Role[]): string {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'role';
+  let id = base;
+  for (let suffix = 2; roles.some(role => role.id === id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+/** Roles that can change who has access; the "require two-factor for admins" policy covers these. */
+export function isAdminRole(roleId: string | undefined, roles: Role[]): boolean {
+  const granted = permissionsOf(roleId, roles);
+  return granted.has('users:manage') || granted.has('roles:manage');
+}
+
+/** Users whose role no longer exists get no permissions, as if they were viewers. */
+export function permissionsOf(roleId: string | undefined, roles: Role[]): Set<Permission> {
+  return new Set(roles.find(role => role.id === roleId)?.permissions ?? []);
+}
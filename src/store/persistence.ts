@@ -0,0 +1,198 @@
+import { DashboardState, DashboardStore, COLLECTION_KEYS, CollectionKey, emptyDashboardState } from './dashboardStore';
+import { seedDashboardState } from './seedData';
+import { CURRENT_SCHEMA_VERSION, migratePersistedData, PersistedData } from './migrations';
+import { addToQuarantine, createQuarantineEntry, QuarantineEntry } from './quarantine';
+import { validateEntity } from './validation';
+import { CollectionChanges, PersistedEnvelope, StorageAdapter } from './storage';
+
+/**
+ * Computes per-entity changes between two states. The reducer keeps the
+ * references of untouched entities, so a reference check is enough to find
+ * what was added or edited.
+ */
+export function diffDashboardState(previous: DashboardState, next: DashboardState): CollectionChanges[] {
+  return COLLECTION_KEYS.flatMap(collection => {
+    const before = previous[collection] as { id: string }[];
+    const after = next[collection] as { id: string }[];
+    if (before === after) return [];
+
+    const beforeById = new Map(before.map(entity => [entity.id, entity]));
+    const afterIds = new Set(after.map(entity => entity.id));
+
+    const upserts = after.filter(entity => beforeById.get(entity.id) !== entity);
+    const deletes = before.filter(entity => !afterIds.has(entity.id)).map(entity => entity.id);
+    const orderChanged = before.length !== after.length || after.some((entity, index) => before[index].id !== entity.id);
+
+    if (upserts.length === 0 && deletes.length === 0 && !orderChanged) return [];
+    return [{
+      collection,
+      upserts,
+      deletes,
+      order: orderChanged ? after.map(entity => entity.id) : undefined,
+    }];
+  });
+}
+
+export interface LoadReport {
+  backend: string;
+  /** Schema version found in storage; null when the demo seed was used. */
+  fromVersion: number | null;
+  toVersion: number;
+  migrationsApplied: number[];
+  quarantined: QuarantineEntry[];
+  /** False when quarantined entries did not fit in the quarantine store. */
+  quarantineSaved: boolean;
+  /** Set when nothing could be loaded. */
+  error?: string;
+  /** When true, the stored data must not be overwritten during this session. */
+  readOnly: boolean;
+}
+
+const describeError = (error: unknown) => error instanceof Error ? error.message : 'Unknown error';
+
+// Writes every entity of the state, for use after migrations or quarantining
+const rewriteChanges = (state: DashboardState, deletes: Partial<Record<CollectionKey, string[]>>): CollectionChanges[] =>
+  COLLECTION_KEYS.map(collection => ({
+    collection,
+    upserts: state[collection],
+    deletes: deletes[collection] ?? [],
+    order: state[collection].map(entity => entity.id),
+  }));
+
+/**
+ * Loads the persisted workspace and upgrades it to the current schema.
+ * Records that cannot be read, migrated or validated are quarantined and
+ * reported rather than silently replaced by defaults. Falls back to the demo
+ * seed data (and writes it through the adapter) when nothing has been
+ * persisted yet.
+ */
+export async function loadPersistedState(adapter: StorageAdapter): Promise<{ state: DashboardState; report: LoadReport }> {
+  const report: LoadReport = {
+    backend: adapter.name,
+    fromVersion: null,
+    toVersion: CURRENT_SCHEMA_VERSION,
+    migrationsApplied: [],
+    quarantined: [],
+    quarantineSaved: true,
+    readOnly: false,
+  };
+
+  let envelope: PersistedEnvelope | null;
+  try {
+    envelope = await adapter.load();
+  } catch (error) {
+    // Nothing was read, so leave the stored data alone until the backend recovers
+    return {
+      state: emptyDashboardState,
+      report: { ...report, readOnly: true, error: `Failed to load from ${adapter.name}: ${describeError(error)}` },
+    };
+  }
+
+  if (!envelope) {
+    try {
+      await adapter.write(diffDashboardState(emptyDashboardState, seedDashboardState), CURRENT_SCHEMA_VERSION);
+    } catch (error) {
+      report.error = `Failed to save initial data to ${adapter.name}: ${describeError(error)}`;
+    }
+    return { state: seedDashboardState, report };
+  }
+
+  report.fromVersion = envelope.schemaVersion;
+  if (envelope.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    return {
+      state: emptyDashboardState,
+      report: { ...report, readOnly: true, error: `Stored data uses schema v${envelope.schemaVersion}, which is newer than this dashboard supports (v${CURRENT_SCHEMA_VERSION})` },
+    };
+  }
+
+  let migrated: PersistedData;
+  try {
+    const result = migratePersistedData(envelope.data as PersistedData, envelope.schemaVersion);
+    migrated = result.data;
+    report.migrationsApplied = result.applied;
+  } catch (error) {
+    const message = describeError(error);
+    const snapshot = createQuarantineEntry({ reason: message, schemaVersion: envelope.schemaVersion, payload: envelope.data });
+    report.quarantined = [snapshot];
+    report.quarantineSaved = addToQuarantine(report.quarantined);
+    report.error = message;
+
+    // Only start over once the snapshot is safe in quarantine
+    if (!report.quarantineSaved) {
+      return { state: emptyDashboardState, report: { ...report, readOnly: true } };
+    }
+    try {
+      await adapter.clear();
+    } catch (clearError) {
+      // The unmigratable data is still stored, so nothing may be written over it
+      return {
+        state: emptyDashboardState,
+        report: { ...report, readOnly: true, error: `${message}; failed to clear ${adapter.name}: ${describeError(clearError)}` },
+      };
+    }
+    return { state: emptyDashboardState, report };
+  }
+
+  const deletes: Partial<Record<CollectionKey, string[]>> = {};
+  const quarantine = (collection: CollectionKey, reason: string, payload: unknown, id?: string) => {
+    report.quarantined.push(createQuarantineEntry({ collection, reason, schemaVersion: envelope.schemaVersion, payload }));
+    if (id) {
+      deletes[collection] = [...(deletes[collection] ?? []), id];
+    }
+  };
+
+  envelope.unreadable.forEach(record => quarantine(record.collection, record.error, record.raw, record.id));
+
+  const state = COLLECTION_KEYS.reduce((current, collection) => {
+    const valid = migrated[collection].filter(record => {
+      const problem = validateEntity(collection, record);
+      if (problem) {
+        quarantine(collection, problem, record, typeof record.id === 'string' ? record.id : undefined);
+      }
+      return !problem;
+    });
+    return { ...current, [collection]: valid };
+  }, {} as DashboardState);
+
+  report.quarantineSaved = addToQuarantine(report.quarantined);
+
+  const needsRewrite = report.migrationsApplied.length > 0 || report.quarantined.length > 0;
+  if (needsRewrite && report.quarantineSaved) {
+    try {
+      await adapter.write(rewriteChanges(state, deletes), CURRENT_SCHEMA_VERSION);
+    } catch (error) {
+      // Storage still holds the old version; incremental writes on top of it would mix schemas
+      return {
+        state,
+        report: { ...report, readOnly: true, error: `Failed to save migrated data to ${adapter.name}: ${describeError(error)}` },
+      };
+    }
+  }
+
+  return { state, report: { ...report, readOnly: !report.quarantineSaved } };
+}
+
+/**
+ * Writes every store change through the adapter as incremental entity
+ * updates. Writes are queued so they reach the backend in dispatch order.
+ * Remote batches are skipped because their origin has already written them.
+ * Returns the unsubscribe function.
+ */
+export function persistDashboardStore(
+  store: DashboardStore,
+  adapter: StorageAdapter,
+  onError: (error: unknown) => void = error => console.warn(`Failed to persist to ${adapter.name}:`, error),
+): () => void {
+  let queue = Promise.resolve();
+
+  return store.subscribe((state, previous, action) => {
+    if (action.type === 'batch' && action.source === 'remote') return;
+
+    const changes = diffDashboardState(previous, state);
+    if (changes.length === 0) return;
+
+    queue = queue
+      .then(() => adapter.write(changes, CURRENT_SCHEMA_VERSION))
+      .catch(onError);
+  });
+}
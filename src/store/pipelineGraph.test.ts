@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { connectionError, createStep, defaultPipelineGraph, findCycle, topologicalOrder, validatePipelineGraph } from './pipelineGraph';
+import { PipelineStep, PipelineStepType } from '../types';
+
+const step = (id: string, type: PipelineStepType, dependsOn: string[] = []): PipelineStep => ({
+  id,
+  type,
+  name: id,
+  depends_on: dependsOn,
+  position: { x: 0, y: 0 },
+});
+
+// The default graph, ingest → validate → clean → split → train → evaluate, with some dependencies replaced
+const defaultGraphWith = (dependencies: Record<string, string[]> = {}) =>
+  defaultPipelineGraph().map(s => dependencies[s.id] ? { ...s, depends_on: dependencies[s.id] } : s);
+
+describe('findCycle', () => {
+  it('finds none in the default graph', () => {
+    expect(findCycle(defaultPipelineGraph())).toBeNull();
+  });
+
+  it('returns the steps of a cycle in the order data flows through them', () => {
+    expect(findCycle([step('a', 'clean', ['c']), step('b', 'clean', ['a']), step('c', 'clean', ['b'])])).toEqual(['b', 'c', 'a']);
+  });
+
+  it('ignores dependencies on steps that are gone', () => {
+    expect(findCycle([step('a', 'clean', ['gone'])])).toBeNull();
+  });
+});
+
+describe('topologicalOrder', () => {
+  it('puts each step after its dependencies', () => {
+    const ordered = topologicalOrder([...defaultPipelineGraph()].reverse());
+    expect(ordered.map(s => s.id)).toEqual(['ingest', 'validate', 'clean', 'split', 'train', 'evaluate']);
+  });
+
+  it('treats dependencies on steps that are gone as met', () => {
+    expect(topologicalOrder([step('b', 'clean', ['a']), step('a', 'clean', ['gone'])]).map(s => s.id)).toEqual(['a', 'b']);
+  });
+
+  it('throws on a cycle', () => {
+    expect(() => topologicalOrder([step('a', 'clean', ['b']), step('b', 'clean', ['a'])])).toThrow(/has a cycle/);
+  });
+});
+
+describe('connectionError', () => {
+  const steps = defaultPipelineGraph();
+
+  it('allows an edge along which data can flow', () => {
+    expect(connectionError(steps, 'ingest', 'clean')).toBeNull();
+  });
+
+  it('refuses edges to missing steps, to the step itself and ones already there', () => {
+    expect(connectionError(steps, 'gone', 'train')).toBe('The step no longer exists');
+    expect(connectionError(steps, 'train', 'train')).toBe('A step cannot depend on itself');
+    expect(connectionError(steps, 'split', 'train')).toBe("Train already takes Split's output");
+  });
+
+  it('refuses an edge between steps that share no artifact type', () => {
+    expect(connectionError(steps, 'ingest', 'train')).toBe('Ingest gives table, but Train takes split');
+    expect(connectionError(steps, 'evaluate', 'ingest')).toBe('Evaluate gives metrics, but Ingest takes nothing');
+  });
+
+  it('refuses an edge that would make a cycle', () => {
+    expect(connectionError(steps, 'clean', 'validate')).toBe('Clean already depends on Validate; the edge would make a cycle');
+  });
+});
+
+describe('validatePipelineGraph', () => {
+  it('finds nothing wrong with the default graph', () => {
+    expect(validatePipelineGraph(defaultPipelineGraph())).toEqual([]);
+  });
+
+  it('asks for a step when there are none', () => {
+    expect(validatePipelineGraph([])).toEqual([{ message: 'Add at least one step' }]);
+  });
+
+  it('names the steps of a cycle', () => {
+    expect(validatePipelineGraph(defaultGraphWith({ validate: ['ingest', 'clean'] }))).toEqual([
+      { message: 'Steps form a cycle: Clean → Validate → Clean', stepId: 'clean' },
+    ]);
+  });
+
+  it('reports dependencies that are gone or give the wrong artifacts, and inputs nothing gives', () => {
+    expect(validatePipelineGraph(defaultGraphWith({ train: ['clean'] }))).toEqual([
+      { message: 'Train cannot take the output of Clean', stepId: 'train' },
+      { message: 'Train needs a split input (sets)', stepId: 'train' },
+    ]);
+    expect(validatePipelineGraph([step('clean', 'clean', ['gone'])])).toEqual([
+      { message: 'clean depends on a step that was removed', stepId: 'clean' },
+      { message: 'clean needs a table input (data)', stepId: 'clean' },
+      { message: 'Add a train step to produce a model' },
+    ]);
+  });
+});
+
+describe('createStep', () => {
+  it('numbers a step whose type is already in the graph', () => {
+    expect(createStep(defaultPipelineGraph(), 'train', { x: 0, y: 0 })).toMatchObject({ id: 'train_2', name: 'Train 2', depends_on: [] });
+    expect(createStep(defaultPipelineGraph(), 'deploy', { x: 0, y: 0 })).toMatchObject({ id: 'deploy', name: 'Deploy' });
+  });
+});
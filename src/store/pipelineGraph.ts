@@ -0,0 +1,274 @@
+import { PipelineStep, PipelineStepType } from '../types';
+
+/** What flows along an edge of the graph. */
+export type ArtifactType = 'table' | 'split' | 'model' | 'metrics' | 'model_version' | 'deployment';
+
+export interface StepPort {
+  name: string;
+  type: ArtifactType;
+}
+
+export interface StepTypeDefinition {
+  label: string;
+  description: string;
+  inputs: StepPort[];
+  outputs: StepPort[];
+}
+
+/** Every step type, with the inputs it needs from its dependencies and the outputs it gives its dependents. */
+export const STEP_TYPES: Record<PipelineStepType, StepTypeDefinition> = {
+  ingest: {
+    label: 'Ingest',
+    description: "Loads the pipeline's dataset",
+    inputs: [],
+    outputs: [{ name: 'data', type: 'table' }],
+  },
+  validate: {
+    label: 'Validate',
+    description: 'Checks the schema and rejects rows that break it',
+    inputs: [{ name: 'data', type: 'table' }],
+    outputs: [{ name: 'data', type: 'table' }],
+  },
+  clean: {
+    label: 'Clean',
+    description: 'Fills or drops missing values and removes duplicates',
+    inputs: [{ name: 'data', type: 'table' }],
+    outputs: [{ name: 'data', type: 'table' }],
+  },
+  feature_engineer: {
+    label: 'Feature Engineering',
+    description: 'Encodes, scales and derives features',
+    inputs: [{ name: 'data', type: 'table' }],
+    outputs: [{ name: 'features', type: 'table' }],
+  },
+  split: {
+    label: 'Split',
+    description: 'Holds out a test set',
+    inputs: [{ name: 'data', type: 'table' }],
+    outputs: [{ name: 'sets', type: 'split' }],
+  },
+  train: {
+    label: 'Train',
+    description: "Fits the pipeline's algorithm with its hyperparameters",
+    inputs: [{ name: 'sets', type: 'split' }],
+    outputs: [{ name: 'model', type: 'model' }],
+  },
+  evaluate: {
+    label: 'Evaluate',
+    description: 'Scores the model on the test set',
+    inputs: [{ name: 'model', type: 'model' }, { name: 'sets', type: 'split' }],
+    outputs: [{ name: 'metrics', type: 'metrics' }],
+  },
+  register: {
+    label: 'Register',
+    description: 'Adds the model and its metrics to the registry',
+    inputs: [{ name: 'model', type: 'model' }, { name: 'metrics', type: 'metrics' }],
+    outputs: [{ name: 'version', type: 'model_version' }],
+  },
+  deploy: {
+    label: 'Deploy',
+    description: 'Serves a registered model version',
+    inputs: [{ name: 'version', type: 'model_version' }],
+    outputs: [{ name: 'endpoint', type: 'deployment' }],
+  },
+};
+
+export const STEP_TYPE_ORDER = Object.keys(STEP_TYPES) as PipelineStepType[];
+
+export interface GraphIssue {
+  message: string;
+  /** The step the issue is about, when it is about one. */
+  stepId?: string;
+}
+
+const byId = (steps: PipelineStep[]) => new Map(steps.map(step => [step.id, step]));
+
+/** Types `from` gives that `to` takes. */
+export const sharedArtifactTypes = (from: PipelineStepType, to: PipelineStepType) =>
+  STEP_TYPES[to].inputs.map(input => input.type).filter(type => STEP_TYPES[from].outputs.some(output => output.type === type));
+
+/** Every step `stepId` depends on, directly or through others. */
+export function upstreamOf(steps: PipelineStep[], stepId: string): Set<string> {
+  const stepsById = byId(steps);
+  const seen = new Set<string>();
+  const visit = (id: string) => stepsById.get(id)?.depends_on.forEach(dependency => {
+    if (seen.has(dependency)) return;
+    seen.add(dependency);
+    visit(dependency);
+  });
+  visit(stepId);
+  return seen;
+}
+
+/** `stepId` and every step that depends on it, directly or through others. */
+export function downstreamOf(steps: PipelineStep[], stepId: string): Set<string> {
+  const seen = new Set<string>([stepId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    steps.forEach(step => {
+      if (!seen.has(step.id) && step.depends_on.some(dependency => seen.has(dependency))) {
+        seen.add(step.id);
+        grew = true;
+      }
+    });
+  }
+  return seen;
+}
+
+/** The steps of one cycle, in order, or null when the graph has none. */
+export function findCycle(steps: PipelineStep[]): string[] | null {
+  const stepsById = byId(steps);
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done' || !stepsById.has(id)) return null;
+    if (state.get(id) === 'visiting') return path.slice(path.indexOf(id));
+    state.set(id, 'visiting');
+    path.push(id);
+    for (const dependency of stepsById.get(id)!.depends_on) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.id);
+    if (cycle) return cycle.reverse();
+  }
+  return null;
+}
+
+/** Steps ordered so each comes after its dependencies; throws on a cycle. */
+export function topologicalOrder(steps: PipelineStep[]): PipelineStep[] {
+  if (findCycle(steps)) {
+    throw new Error('The pipeline graph has a cycle');
+  }
+  const ordered: PipelineStep[] = [];
+  const placed = new Set<string>();
+  while (ordered.length < steps.length) {
+    steps
+      .filter(step => !placed.has(step.id) && step.depends_on.every(dependency => placed.has(dependency) || !steps.some(s => s.id === dependency)))
+      .forEach(step => {
+        ordered.push(step);
+        placed.add(step.id);
+      });
+  }
+  return ordered;
+}
+
+/** Why `to` cannot take `from`'s output, or null when the edge can be added. */
+export function connectionError(steps: PipelineStep[], fromId: string, toId: string): string | null {
+  const stepsById = byId(steps);
+  const from = stepsById.get(fromId);
+  const to = stepsById.get(toId);
+  if (!from || !to) return 'The step no longer exists';
+  if (fromId === toId) return 'A step cannot depend on itself';
+  if (to.depends_on.includes(fromId)) return `${to.name} already takes ${from.name}'s output`;
+  if (sharedArtifactTypes(from.type, to.type).length === 0) {
+    const gives = STEP_TYPES[from.type].outputs.map(output => output.type).join(', ') || 'nothing';
+    const takes = STEP_TYPES[to.type].inputs.map(input => input.type).join(', ') || 'nothing';
+    return `${from.name} gives ${gives}, but ${to.name} takes ${takes}`;
+  }
+  if (upstreamOf(steps, fromId).has(toId)) {
+    return `${from.name} already depends on ${to.name}; the edge would make a cycle`;
+  }
+  return null;
+}
+
+/**
+ * Everything that keeps the graph from running: a cycle, dependencies that
+ * are gone or give nothing the step takes, and inputs no dependency gives.
+ */
+export function validatePipelineGraph(steps: PipelineStep[]): GraphIssue[] {
+  if (steps.length === 0) {
+    return [{ message: 'Add at least one step' }];
+  }
+  const stepsById = byId(steps);
+  const issues: GraphIssue[] = [];
+
+  const cycle = findCycle(steps);
+  if (cycle) {
+    issues.push({ message: `Steps form a cycle: ${[...cycle, cycle[0]].map(id => stepsById.get(id)!.name).join(' → ')}`, stepId: cycle[0] });
+  }
+
+  steps.forEach(step => {
+    const dependencies = step.depends_on.map(id => stepsById.get(id));
+    if (dependencies.some(dependency => !dependency)) {
+      issues.push({ message: `${step.name} depends on a step that was removed`, stepId: step.id });
+    }
+    dependencies.forEach(dependency => {
+      if (dependency && sharedArtifactTypes(dependency.type, step.type).length === 0) {
+        issues.push({ message: `${step.name} cannot take the output of ${dependency.name}`, stepId: step.id });
+      }
+    });
+    STEP_TYPES[step.type].inputs
+      .filter(input => !dependencies.some(dependency => dependency && STEP_TYPES[dependency.type].outputs.some(output => output.type === input.type)))
+      .forEach(input => issues.push({ message: `${step.name} needs a ${input.type} input (${input.name})`, stepId: step.id }));
+  });
+
+  if (!steps.some(step => step.type === 'train')) {
+    issues.push({ message: 'Add a train step to produce a model' });
+  }
+  return issues;
+}
+
+/** A new step of `type`, named and identified apart from the ones in `steps`. */
+export function createStep(steps: PipelineStep[], type: PipelineStepType, position: PipelineStep['position']): PipelineStep {
+  const idFor = (n: number) => n === 1 ? type : `${type}_${n}`;
+  let n = 1;
+  while (steps.some(step => step.id === idFor(n))) n++;
+
+  return {
+    id: idFor(n),
+    type,
+    name: n === 1 ? STEP_TYPES[type].label : `${STEP_TYPES[type].label} ${n}`,
+    depends_on: [],
+    position,
+  };
+}
+
+export const STEP_NODE_WIDTH = 150;
+export const STEP_NODE_HEIGHT = 56;
+const COLUMN_GAP = 40;
+const ROW_GAP = 24;
+
+/** Places each step one column right of its furthest dependency. */
+export function layoutSteps(steps: PipelineStep[]): PipelineStep[] {
+  const depth = new Map<string, number>();
+  topologicalOrder(steps).forEach(step => {
+    depth.set(step.id, Math.max(-1, ...step.depends_on.map(id => depth.get(id) ?? -1)) + 1);
+  });
+  const rows = new Map<number, number>();
+  return steps.map(step => {
+    const column = depth.get(step.id)!;
+    const row = rows.get(column) ?? 0;
+    rows.set(column, row + 1);
+    return { ...step, position: { x: 16 + column * (STEP_NODE_WIDTH + COLUMN_GAP), y: 16 + row * (STEP_NODE_HEIGHT + ROW_GAP) } };
+  });
+}
+
+// ingest → validate → clean → split → train, with evaluate taking both the model and the test set
+const DEFAULT_GRAPH: [PipelineStepType, PipelineStepType[]][] = [
+  ['ingest', []],
+  ['validate', ['ingest']],
+  ['clean', ['validate']],
+  ['split', ['clean']],
+  ['train', ['split']],
+  ['evaluate', ['train', 'split']],
+];
+
+/** The graph every pipeline had before pipelines were built from steps. */
+export function defaultPipelineGraph(): PipelineStep[] {
+  return layoutSteps(DEFAULT_GRAPH.map(([type, dependsOn]) => ({
+    id: type,
+    type,
+    name: STEP_TYPES[type].label,
+    depends_on: dependsOn,
+    position: { x: 0, y: 0 },
+  })));
+}
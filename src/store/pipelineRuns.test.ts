@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { canTransition, RUN_TRANSITIONS, runDuration } from './pipelineRuns';
+import { PipelineRun } from '../types';
+
+const STATUSES = Object.keys(RUN_TRANSITIONS) as PipelineRun['status'][];
+
+describe('canTransition', () => {
+  it('starts or cancels a queued run', () => {
+    expect(STATUSES.filter(to => canTransition('queued', to))).toEqual(['running', 'cancelled']);
+  });
+
+  it('ends a running run once', () => {
+    expect(STATUSES.filter(to => canTransition('running', to))).toEqual(['succeeded', 'failed', 'cancelled']);
+  });
+
+  it('leaves ended runs as they are', () => {
+    for (const from of ['succeeded', 'failed', 'cancelled'] as const) {
+      expect(STATUSES.filter(to => canTransition(from, to))).toEqual([]);
+    }
+  });
+
+  it('never puts a run back in the queue', () => {
+    expect(STATUSES.some(from => canTransition(from, 'queued'))).toBe(false);
+  });
+});
+
+describe('runDuration', () => {
+  const run = { queued_at: '2024-01-01T00:00:00.000Z', started_at: '2024-01-01T00:01:00.000Z' } as PipelineRun;
+
+  it('counts from the start, not the queue', () => {
+    expect(runDuration({ ...run, ended_at: '2024-01-01T00:03:00.000Z' })).toBe(2 * 60 * 1000);
+    expect(runDuration(run, new Date('2024-01-01T00:02:00.000Z'))).toBe(60 * 1000);
+    expect(runDuration({ ...run, started_at: undefined })).toBe(0);
+  });
+});
@@ -0,0 +1,178 @@
+import { Dataset, Pipeline, PipelineRun, PipelineRunLogEntry, PipelineRunStep, PipelineStep } from '../types';
+import { downstreamOf, upstreamOf } from './pipelineGraph';
+
+/**
+ * A short fingerprint of a dataset as the dashboard knows it. Datasets carry
+ * no version of their own, so this changes whenever their size, columns or
+ * nulls do, which is enough to tell two runs apart that trained on different data.
+ */
+export function datasetVersion(dataset: Dataset): string {
+  const source = [dataset.id, dataset.size, dataset.columns, dataset.null_percentage, dataset.created_at].join('|');
+  let hash = 0;
+  for (let i = 0; i < source.length; i++) {
+    hash = ((hash << 5) - hash + source.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0').slice(0, 7);
+}
+
+export const runLogEntry = (message: string, level: PipelineRunLogEntry['level'] = 'info', now = new Date()): PipelineRunLogEntry => ({
+  timestamp: now.toISOString(),
+  level,
+  message,
+});
+
+/** The pipeline's runs, newest first. */
+export const runsOfPipeline = (runs: PipelineRun[], pipelineId: string) =>
+  runs.filter(run => run.pipeline_id === pipelineId).sort((a, b) => b.number - a.number);
+
+/**
+ * The run state machine: a run waits in the queue until the executor starts
+ * it, and ends once. A queued run can be cancelled before it ever starts.
+ */
+export const RUN_TRANSITIONS: Record<PipelineRun['status'], PipelineRun['status'][]> = {
+  queued: ['running', 'cancelled'],
+  running: ['succeeded', 'failed', 'cancelled'],
+  succeeded: [],
+  failed: [],
+  cancelled: [],
+};
+
+export const canTransition = (from: PipelineRun['status'], to: PipelineRun['status']) =>
+  RUN_TRANSITIONS[from].includes(to);
+
+export const isActiveRun = (run: PipelineRun) => run.status === 'queued' || run.status === 'running';
+
+/** The queued or running run of a pipeline; a pipeline runs once at a time. */
+export const activeRunOf = (runs: PipelineRun[], pipelineId: string) =>
+  runs.find(run => run.pipeline_id === pipelineId && isActiveRun(run));
+
+/** Milliseconds from start to end, or to `now` while the run is going; time in the queue does not count. */
+export const runDuration = (run: PipelineRun, now = new Date()) => run.started_at
+  ? new Date(run.ended_at ?? now.toISOString()).getTime() - new Date(run.started_at).getTime()
+  : 0;
+
+const TRIGGER_LOG: Record<PipelineRun['trigger'], string> = {
+  manual: 'Queued manually',
+  schedule: 'Queued by the schedule',
+  retry: 'Queued as a retry',
+};
+
+interface NewRunOptions {
+  trigger: PipelineRun['trigger'];
+  /** The run being repeated; its parameters are used instead of the pipeline's current ones. */
+  rerunOf?: PipelineRun;
+  /** Repeats `rerunOf` from this step on, reusing what the steps before it produced. */
+  fromStep?: string;
+}
+
+const isDone = (state: PipelineRunStep | undefined) => state?.status === 'succeeded' || state?.status === 'reused';
+
+/** Each step of a run with where it is, in the order of the run's graph. */
+export const runStepsOf = (run: PipelineRun) => (run.parameters.steps ?? []).map(step => ({
+  step,
+  state: run.steps?.find(state => state.step_id === step.id) ?? { step_id: step.id, status: 'pending' as const, progress: 0 },
+}));
+
+/**
+ * Whether a finished run can be repeated from `stepId` on: the steps it
+ * depends on must have produced their outputs, which the new run reuses.
+ */
+export function canRerunFromStep(run: PipelineRun, stepId: string) {
+  const graph = run.parameters.steps;
+  if (!graph?.some(step => step.id === stepId) || !run.ended_at) return false;
+  return [...upstreamOf(graph, stepId)].every(id => isDone(run.steps?.find(state => state.step_id === id)));
+}
+
+/**
+ * Where the steps of a new run start. A partial re-run reuses the outputs of
+ * every step the repeated run finished, except `fromStep` and what depends on it.
+ */
+function initialRunSteps(graph: PipelineStep[], rerunOf?: PipelineRun, fromStep?: string): PipelineRunStep[] {
+  const rerun = fromStep ? downstreamOf(graph, fromStep) : null;
+  return graph.map(step => rerun && !rerun.has(step.id) && isDone(rerunOf?.steps?.find(state => state.step_id === step.id))
+    ? { step_id: step.id, status: 'reused', progress: 100 }
+    : { step_id: step.id, status: 'pending', progress: 0 });
+}
+
+/** A new queued run of `pipeline`, numbered after its earlier runs in `runs`. */
+export function createPipelineRun(runs: PipelineRun[], pipeline: Pipeline, dataset: Dataset | undefined, options: NewRunOptions, now = new Date()): PipelineRun {
+  const { rerunOf, fromStep } = options;
+  const parameters = rerunOf
+    // Runs from before pipelines had steps repeat on the pipeline's graph
+    ? { ...rerunOf.parameters, steps: rerunOf.parameters.steps ?? pipeline.steps }
+    : { algorithm: pipeline.algorithm, hyperparameters: { ...pipeline.hyperparameters }, steps: pipeline.steps };
+  const fromStepName = parameters.steps.find(step => step.id === fromStep)?.name;
+  const repeating = rerunOf && `repeating run #${rerunOf.number}${fromStepName ? ` from step "${fromStepName}"` : ''}`;
+
+  return {
+    id: `run_${now.getTime()}_${Math.random().toString(36).slice(2, 6)}`,
+    pipeline_id: pipeline.id,
+    // Runs live where their pipeline does, whichever workspace is open
+    workspace_id: pipeline.workspace_id,
+    number: Math.max(0, ...runs.filter(run => run.pipeline_id === pipeline.id).map(run => run.number)) + 1,
+    trigger: options.trigger,
+    status: 'queued',
+    progress: 0,
+    queued_at: now.toISOString(),
+    parameters,
+    steps: initialRunSteps(parameters.steps, rerunOf, fromStep),
+    dataset: dataset && {
+      id: dataset.id,
+      name: dataset.name,
+      version: datasetVersion(dataset),
+      size: dataset.size,
+      columns: dataset.columns,
+    },
+    logs: [
+      runLogEntry(repeating ? `${TRIGGER_LOG[options.trigger]}, ${repeating}` : TRIGGER_LOG[options.trigger], 'info', now),
+      dataset
+        ? runLogEntry(`Loaded dataset "${dataset.name}" (${dataset.size.toLocaleString()} rows, version ${datasetVersion(dataset)})`, 'info', now)
+        : runLogEntry('No dataset is linked to the pipeline', 'warning', now),
+    ],
+    rerun_of: rerunOf?.id,
+    from_step: fromStepName ? fromStep : undefined,
+  };
+}
+
+export interface RunComparisonRow {
+  label: string;
+  a: string;
+  b: string;
+  differs: boolean;
+}
+
+const formatValue = (value: unknown) =>
+  value === undefined || value === null ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+const formatPercent = (value: number | undefined) => value === undefined ? '—' : `${(value * 100).toFixed(1)}%`;
+
+export const formatRunDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+/** Two runs side by side: outcome, data, settings and every hyperparameter either of them used. */
+export function compareRuns(a: PipelineRun, b: PipelineRun, now = new Date()): RunComparisonRow[] {
+  const row = (label: string, valueA: string, valueB: string): RunComparisonRow =>
+    ({ label, a: valueA, b: valueB, differs: valueA !== valueB });
+  const hyperparameterNames = [...new Set([
+    ...Object.keys(a.parameters.hyperparameters),
+    ...Object.keys(b.parameters.hyperparameters),
+  ])].sort();
+
+  return [
+    row('Status', a.status, b.status),
+    row('Trigger', a.trigger, b.trigger),
+    row('Duration', formatRunDuration(runDuration(a, now)), formatRunDuration(runDuration(b, now))),
+    row('Accuracy', formatPercent(a.metrics?.accuracy), formatPercent(b.metrics?.accuracy)),
+    row('Drift score', formatValue(a.metrics?.data_drift_score?.toFixed(3)), formatValue(b.metrics?.data_drift_score?.toFixed(3))),
+    row('Dataset', formatValue(a.dataset?.name), formatValue(b.dataset?.name)),
+    row('Dataset version', formatValue(a.dataset?.version), formatValue(b.dataset?.version)),
+    row('Algorithm', formatValue(a.parameters.algorithm), formatValue(b.parameters.algorithm)),
+    row('Steps', formatValue(a.parameters.steps?.map(step => step.name).join(', ')), formatValue(b.parameters.steps?.map(step => step.name).join(', '))),
+    ...hyperparameterNames.map(name =>
+      row(name, formatValue(a.parameters.hyperparameters[name]), formatValue(b.parameters.hyperparameters[name]))),
+  ];
+}
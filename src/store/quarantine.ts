@@ -0,0 +1,72 @@
+import { CollectionKey } from './dashboardStore';
+
+const QUARANTINE_KEY = 'ml_dashboard_quarantine';
+
+/** Persisted data that could not be loaded, kept aside for inspection instead of being dropped. */
+export interface QuarantineEntry {
+  id: string;
+  quarantinedAt: string;
+  reason: string;
+  schemaVersion: number;
+  /** Missing when the whole workspace snapshot was quarantined. */
+  collection?: CollectionKey;
+  payload: unknown;
+}
+
+export function loadQuarantine(): QuarantineEntry[] {
+  try {
+    const saved = localStorage.getItem(QUARANTINE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.warn('Failed to load quarantined data:', error);
+    return [];
+  }
+}
+
+const saveQuarantine = (entries: QuarantineEntry[]): boolean => {
+  try {
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify(entries));
+    return true;
+  } catch (error) {
+    console.warn('Failed to save quarantined data:', error);
+    return false;
+  }
+};
+
+export function createQuarantineEntry(
+  entry: Omit<QuarantineEntry, 'id' | 'quarantinedAt'>
+): QuarantineEntry {
+  return {
+    ...entry,
+    id: `quarantine_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    quarantinedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Adds entries to the quarantine. Returns false when they could not be saved
+ * (for example a snapshot too large for localStorage); callers should then
+ * offer the entries for download.
+ */
+export function addToQuarantine(entries: QuarantineEntry[]): boolean {
+  if (entries.length === 0) return true;
+  return saveQuarantine([...loadQuarantine(), ...entries]);
+}
+
+export function removeFromQuarantine(ids: string[]): QuarantineEntry[] {
+  const remaining = loadQuarantine().filter(entry => !ids.includes(entry.id));
+  saveQuarantine(remaining);
+  return remaining;
+}
+
+export function downloadQuarantineEntries(entries: QuarantineEntry[]) {
+  const blob = new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `ml_dashboard_quarantine_${new Date().toISOString().slice(0, 10)}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
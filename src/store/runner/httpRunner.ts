@@ -0,0 +1,65 @@
+import { PipelineRun, PipelineRunStep } from '../../types';
+import { RunStep, StepRunner } from './stepRunner';
+
+/** A run as the backend reports it. */
+interface RemoteRunStatus {
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  progress: number;
+  accuracy?: number;
+  metrics?: PipelineRun['metrics'];
+  steps?: PipelineRunStep[];
+  error?: string;
+}
+
+/**
+ * Runs pipelines on a training backend: a started run is submitted as a job
+ * under the run's id, with its graph and, for a partial re-run, the run whose
+ * outputs its reused steps take. Each step polls the job, and cancelling a run
+ * cancels the job. The job id being the run id is what lets a reloaded tab
+ * pick its runs up again.
+ */
+export function createHttpStepRunner(endpoint: string): StepRunner {
+  const root = endpoint.replace(/\/+$/, '');
+
+  const request = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+    const response = await fetch(`${root}/${path}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Runner API Error: ${method} ${path} failed with ${response.status}`);
+    }
+    return response.status === 204 ? (undefined as T) : response.json();
+  };
+
+  const step = async (run: PipelineRun): Promise<RunStep> => {
+    const remote = await request<RemoteRunStatus>('GET', `runs/${encodeURIComponent(run.id)}`);
+    if (remote.status === 'succeeded' || remote.status === 'failed') {
+      return {
+        progress: remote.progress,
+        steps: remote.steps,
+        outcome: { status: remote.status, metrics: remote.metrics ?? {}, reason: remote.error },
+      };
+    }
+    // A job cancelled on the backend did not finish; nothing else ends a run there
+    if (remote.status === 'cancelled') {
+      return { progress: remote.progress, steps: remote.steps, outcome: { status: 'failed', metrics: {}, reason: 'cancelled on the backend' } };
+    }
+    return { progress: remote.progress, accuracy: remote.accuracy, steps: remote.steps };
+  };
+
+  return {
+    name: 'http',
+    start: run => request<void>('POST', 'runs', {
+      id: run.id,
+      pipeline_id: run.pipeline_id,
+      parameters: run.parameters,
+      steps: run.steps,
+      reuse_outputs_of: run.from_step ? run.rerun_of : undefined,
+      dataset: run.dataset,
+    }),
+    step,
+    cancel: run => request<void>('POST', `runs/${encodeURIComponent(run.id)}/cancel`),
+  };
+}
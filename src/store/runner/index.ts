@@ -0,0 +1,20 @@
+import { createHttpStepRunner } from './httpRunner';
+import { createSimulatedStepRunner } from './simulatedRunner';
+import { StepRunner } from './stepRunner';
+
+export { createRunExecutor } from './runExecutor';
+export type { RunExecutor, RunExecutorOptions, RunExecutorSnapshot } from './runExecutor';
+export { createHttpStepRunner } from './httpRunner';
+export { createSimulatedStepRunner } from './simulatedRunner';
+export type { RunStep, StepRunner } from './stepRunner';
+
+/**
+ * Runs pipelines on the training backend at VITE_RUNNER_URL, or simulates
+ * training in the browser when it is not set.
+ */
+export function createStepRunner(endpoint: string | undefined = import.meta.env.VITE_RUNNER_URL): StepRunner {
+  if (endpoint) {
+    return createHttpStepRunner(endpoint);
+  }
+  return createSimulatedStepRunner();
+}
@@ -0,0 +1,234 @@
+import { PipelineRun } from '../../types';
+import { createDashboardActions } from '../actions';
+import { DashboardStore } from '../dashboardStore';
+import { isActiveRun } from '../pipelineRuns';
+import { createWorkspaceScope } from '../workspaces';
+import { StepRunner } from './stepRunner';
+
+// Only one tab executes runs at a time; the others follow along through cross-tab sync
+const LEASE_KEY = 'ml_dashboard_run_executor';
+const DEFAULT_STEP_INTERVAL_MS = 1500;
+const DEFAULT_MAX_CONCURRENT_RUNS = 2;
+// A runner that fails this many steps of a run in a row fails the run
+const MAX_STEP_FAILURES = 3;
+
+interface ExecutorLease {
+  tabId: string;
+  expiresAt: number;
+}
+
+export interface RunExecutorOptions {
+  stepIntervalMs?: number;
+  /** Runs executing at once; the rest wait in the queue. */
+  maxConcurrentRuns?: number;
+}
+
+export interface RunExecutorSnapshot {
+  /** Name of the step runner, e.g. `simulator` or `http`. */
+  runner: string;
+  /** Whether this tab is the one executing runs. */
+  isExecuting: boolean;
+}
+
+export interface RunExecutor {
+  /** Starts executing queued runs and resumes running ones; returns the function that stops it. */
+  start: () => () => void;
+  getSnapshot: () => RunExecutorSnapshot;
+  subscribe: (listener: () => void) => () => void;
+}
+
+const loadLease = (): ExecutorLease | null => {
+  try {
+    const saved = localStorage.getItem(LEASE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveLease = (lease: ExecutorLease | null) => {
+  try {
+    if (lease) {
+      localStorage.setItem(LEASE_KEY, JSON.stringify(lease));
+    } else {
+      localStorage.removeItem(LEASE_KEY);
+    }
+  } catch (error) {
+    console.warn('Failed to save the run executor lease:', error);
+  }
+};
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : 'Unknown error';
+
+/**
+ * Executes pipeline runs in the background, independent of the view that
+ * started them. Runs move through the state machine in store/pipelineRuns:
+ * the executor takes queued runs off the queue, oldest first, while fewer
+ * than `maxConcurrentRuns` are running, then steps each running run through
+ * the step runner on an interval and records its progress and outcome in the
+ * store. Everything about a run lives on the run, which the store persists,
+ * so after a reload the executor resumes the runs that were going. A run
+ * stopped from any tab is cancelled on the runner on the next tick. Tabs
+ * take turns through a lease in localStorage that the executing tab renews
+ * every tick; when it closes, another tab takes over once the lease expires.
+ */
+export function createRunExecutor(store: DashboardStore, runner: StepRunner, options: RunExecutorOptions = {}): RunExecutor {
+  const stepIntervalMs = options.stepIntervalMs ?? DEFAULT_STEP_INTERVAL_MS;
+  const maxConcurrentRuns = options.maxConcurrentRuns ?? DEFAULT_MAX_CONCURRENT_RUNS;
+  const tabId = `tab_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  // Runs this tab is executing, as last seen, so a removed run can still be cancelled
+  const executing = new Map<string, PipelineRun>();
+  // Runs with a runner call in flight are not stepped again until it returns
+  const busy = new Set<string>();
+  const failures = new Map<string, number>();
+  let snapshot: RunExecutorSnapshot = { runner: runner.name, isExecuting: false };
+  const listeners = new Set<() => void>();
+
+  const setSnapshot = (changes: Partial<RunExecutorSnapshot>) => {
+    if (Object.entries(changes).every(([key, value]) => snapshot[key as keyof RunExecutorSnapshot] === value)) return;
+    snapshot = { ...snapshot, ...changes };
+    listeners.forEach(listener => listener());
+  };
+
+  const acquireLease = () => {
+    const now = Date.now();
+    const lease = loadLease();
+    if (lease && lease.tabId !== tabId && lease.expiresAt > now) return false;
+    saveLease({ tabId, expiresAt: now + stepIntervalMs * 3 });
+    return true;
+  };
+
+  const findRun = (runId: string) => store.getState().pipelineRuns.find(run => run.id === runId);
+
+  // Actions scoped to the run's workspace, so anything they add lands there rather than in whichever one is open
+  const actionsFor = (runId: string) => {
+    const scope = createWorkspaceScope();
+    scope.set(findRun(runId)?.workspace_id ?? null);
+    return createDashboardActions(store, scope);
+  };
+
+  // Keeps the runner call from overlapping the next one for the same run
+  const call = (runId: string, work: () => Promise<void>) => {
+    busy.add(runId);
+    work().finally(() => busy.delete(runId));
+  };
+
+  const stepFailed = (runId: string, error: unknown) => {
+    if (findRun(runId)?.status !== 'running') return;
+    const count = (failures.get(runId) ?? 0) + 1;
+    if (count < MAX_STEP_FAILURES) {
+      failures.set(runId, count);
+      actionsFor(runId).logRunEvent(runId, `Step failed, retrying: ${errorMessage(error)}`, 'warning');
+      return;
+    }
+    failures.delete(runId);
+    executing.delete(runId);
+    actionsFor(runId).finishPipelineRun(runId, 'failed', { reason: errorMessage(error) });
+  };
+
+  // Stops runner work on runs that were cancelled or removed since the last tick
+  const cancelStopped = () => {
+    executing.forEach((lastSeen, runId) => {
+      const run = findRun(runId);
+      if (run && isActiveRun(run)) return;
+      executing.delete(runId);
+      failures.delete(runId);
+      if (!run || run.status === 'cancelled') {
+        runner.cancel(run ?? lastSeen).catch(error => console.warn('Failed to cancel run on the runner:', error));
+      }
+    });
+  };
+
+  const startQueued = () => {
+    const runs = store.getState().pipelineRuns;
+    const slots = maxConcurrentRuns - runs.filter(run => run.status === 'running').length;
+    runs
+      .filter(run => run.status === 'queued')
+      .sort((a, b) => a.queued_at.localeCompare(b.queued_at))
+      .slice(0, Math.max(0, slots))
+      .forEach(queued => {
+        if (!actionsFor(queued.id).beginPipelineRun(queued.id)) return;
+        const run = findRun(queued.id)!;
+        executing.set(run.id, run);
+        call(run.id, () => runner.start(run).catch(error => {
+          executing.delete(run.id);
+          actionsFor(run.id).finishPipelineRun(run.id, 'failed', { reason: `could not start: ${errorMessage(error)}` });
+        }));
+      });
+  };
+
+  const stepRunning = () => {
+    store.getState().pipelineRuns
+      .filter(run => run.status === 'running' && !busy.has(run.id))
+      .forEach(run => {
+        // Left running by a tab that closed or reloaded before it finished
+        if (!executing.has(run.id)) {
+          actionsFor(run.id).logRunEvent(run.id, 'Resumed after the dashboard was closed or reloaded');
+        }
+        executing.set(run.id, run);
+
+        call(run.id, () => runner.step(run).then(step => {
+          failures.delete(run.id);
+          if (step.outcome) {
+            executing.delete(run.id);
+            actionsFor(run.id).finishPipelineRun(run.id, step.outcome.status, { metrics: step.outcome.metrics, reason: step.outcome.reason, steps: step.steps });
+          } else {
+            actionsFor(run.id).recordRunProgress(run.id, step.progress, step.accuracy, step.steps);
+          }
+        }, error => stepFailed(run.id, error)));
+      });
+  };
+
+  const tick = () => {
+    if (!acquireLease()) {
+      // Another tab took over; it resumes whatever this one was executing
+      executing.clear();
+      setSnapshot({ isExecuting: false });
+      return;
+    }
+    setSnapshot({ isExecuting: true });
+    cancelStopped();
+    startQueued();
+    stepRunning();
+  };
+
+  const start = () => {
+    let pending: ReturnType<typeof setTimeout> | undefined;
+    tick();
+    const timer = setInterval(tick, stepIntervalMs);
+
+    // Starts a newly queued run, or cancels a stopped one, without waiting for the next tick.
+    // Deferred, as dispatching from inside a store listener would reach later listeners out of order.
+    const unsubscribe = store.subscribe((state, previous) => {
+      if (state.pipelineRuns === previous.pipelineRuns || !snapshot.isExecuting || pending) return;
+      pending = setTimeout(() => {
+        pending = undefined;
+        if (!snapshot.isExecuting) return;
+        cancelStopped();
+        startQueued();
+      }, 0);
+    });
+
+    return () => {
+      clearInterval(timer);
+      clearTimeout(pending);
+      unsubscribe();
+      if (loadLease()?.tabId === tabId) {
+        saveLease(null);
+      }
+      executing.clear();
+      setSnapshot({ isExecuting: false });
+    };
+  };
+
+  return {
+    start,
+    getSnapshot: () => snapshot,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,127 @@
+import { PipelineRun, PipelineRunStep, PipelineStepType } from '../../types';
+import { RunStep, StepRunner } from './stepRunner';
+
+// Accuracy a model reaches partway through training, and at the end, by algorithm
+const TRAINING_ACCURACY: Record<string, number> = {
+  random_forest: 0.85,
+  logistic_regression: 0.78,
+  svm: 0.82,
+  gradient_boosting: 0.87,
+  neural_network: 0.89,
+  decision_tree: 0.76,
+  naive_bayes: 0.73,
+};
+
+const FINAL_ACCURACY: Record<string, number> = {
+  random_forest: 0.89,
+  logistic_regression: 0.82,
+  svm: 0.85,
+  gradient_boosting: 0.91,
+  neural_network: 0.93,
+  decision_tree: 0.79,
+  naive_bayes: 0.76,
+};
+
+// How much of a step's work one call does, at most; training takes longest
+const STEP_SPEED: Record<PipelineStepType, number> = {
+  ingest: 60,
+  validate: 40,
+  clean: 35,
+  feature_engineer: 30,
+  split: 60,
+  train: 12,
+  evaluate: 40,
+  register: 60,
+  deploy: 35,
+};
+
+// Share of the run's progress each step stands for
+const STEP_WEIGHT: Partial<Record<PipelineStepType, number>> = { train: 5 };
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const isDone = (state: PipelineRunStep) => state.status === 'succeeded' || state.status === 'reused';
+
+interface SimulatorOptions {
+  random?: () => number;
+  /** Chance that a step fails instead of finishing, so partial re-runs have something to repeat. */
+  stepFailureRate?: number;
+}
+
+/**
+ * Trains nothing: each call moves the steps of the run's graph along, starting
+ * the ones whose dependencies are done, with an accuracy that improves as the
+ * train step goes, the way the run's algorithm would. Runs from before
+ * pipelines had steps gain up to 10% a call instead. Every call starts from
+ * what is stored on the run, so a resumed run carries on where it was.
+ */
+export function createSimulatedStepRunner({ random = Math.random, stepFailureRate = 0.02 }: SimulatorOptions = {}): StepRunner {
+  const finalMetrics = (algorithm: string) => ({
+    accuracy: clamp((FINAL_ACCURACY[algorithm] || 0.85) + (random() - 0.5) * 0.08, 0.75, 0.98),
+    data_drift_score: clamp(random() * 0.25, 0.02, 0.35),
+  });
+
+  // Accuracy shows from 20% of training on and improves as it progresses
+  const trainingAccuracy = (algorithm: string, progress: number) => progress > 20
+    ? clamp((TRAINING_ACCURACY[algorithm] || 0.8) * (0.7 + 0.3 * (progress - 20) / 80) + (random() - 0.5) * 0.1, 0.5, 0.98)
+    : undefined;
+
+  const stepGraph = (run: PipelineRun, algorithm: string): RunStep => {
+    const graph = run.parameters.steps!;
+    const now = new Date().toISOString();
+    const before = new Map(run.steps!.map(state => [state.step_id, state]));
+
+    const steps = run.steps!.map((state): PipelineRunStep => {
+      const step = graph.find(s => s.id === state.step_id);
+      if (!step) return state;
+      const ready = step.depends_on.every(id => !before.has(id) || isDone(before.get(id)!));
+      if (state.status === 'pending' && ready) {
+        return { ...state, status: 'running', progress: 0, started_at: now };
+      }
+      if (state.status !== 'running') return state;
+
+      const progress = Math.min(100, state.progress + random() * STEP_SPEED[step.type]);
+      if (progress < 100) return { ...state, progress };
+      return random() < stepFailureRate
+        ? { ...state, status: 'failed', ended_at: now }
+        : { ...state, status: 'succeeded', progress: 100, ended_at: now };
+    });
+
+    const weightOf = (stepId: string) => STEP_WEIGHT[graph.find(s => s.id === stepId)?.type ?? 'ingest'] ?? 1;
+    const totalWeight = steps.reduce((sum, state) => sum + weightOf(state.step_id), 0);
+    const progress = steps.reduce((sum, state) => sum + weightOf(state.step_id) * (isDone(state) ? 100 : state.progress), 0) / totalWeight;
+    const training = steps.find(state => graph.find(s => s.id === state.step_id)?.type === 'train' && (state.status === 'running' || isDone(state)));
+    const failed = steps.find(state => state.status === 'failed');
+
+    if (failed) {
+      const name = graph.find(s => s.id === failed.step_id)?.name ?? failed.step_id;
+      // Steps running alongside the failed one stop with the run
+      const stopped = steps.map((state): PipelineRunStep => state.status === 'running' ? { ...state, status: 'cancelled', ended_at: now } : state);
+      return { progress, steps: stopped, outcome: { status: 'failed', metrics: {}, reason: `step "${name}" failed` } };
+    }
+    if (steps.every(isDone)) {
+      return { progress: 100, steps, outcome: { status: 'succeeded', metrics: finalMetrics(algorithm) } };
+    }
+    return { progress, steps, accuracy: training && trainingAccuracy(algorithm, training.progress) };
+  };
+
+  const step = async (run: PipelineRun): Promise<RunStep> => {
+    const algorithm = run.parameters.algorithm || 'random_forest';
+    if (run.parameters.steps?.length && run.steps?.length) {
+      return stepGraph(run, algorithm);
+    }
+    const progress = Math.min(100, run.progress + random() * 10);
+
+    if (progress >= 100) {
+      return { progress, outcome: { status: 'succeeded', metrics: finalMetrics(algorithm) } };
+    }
+    return { progress, accuracy: trainingAccuracy(algorithm, progress) };
+  };
+
+  return {
+    name: 'simulator',
+    start: async () => {},
+    step,
+    cancel: async () => {},
+  };
+}
@@ -0,0 +1,33 @@
+import { PipelineRun, PipelineRunStep } from '../../types';
+
+/** How far a run got in one step. A step with an `outcome` is the run's last. */
+export interface RunStep {
+  progress: number;
+  /** Accuracy so far, once training has produced one. */
+  accuracy?: number;
+  /** Where each step of the run's graph is now; runs without a graph have none. */
+  steps?: PipelineRunStep[];
+  outcome?: {
+    status: 'succeeded' | 'failed';
+    metrics: NonNullable<PipelineRun['metrics']>;
+    /** Why the run failed, for its log. */
+    reason?: string;
+  };
+}
+
+/**
+ * Does the actual work of a run for the run executor, which owns the run's
+ * state and calls the runner only for runs it is executing. A runner keeps
+ * nothing it needs between calls that is not on the run itself, so the
+ * executor can resume a run after a reload, or in another tab, with a fresh
+ * runner.
+ */
+export interface StepRunner {
+  name: string;
+  /** Starts executing a run the executor took off the queue; a backend submits the job here. */
+  start: (run: PipelineRun) => Promise<void>;
+  /** Advances the run by one step, or asks the backend how far it got. */
+  step: (run: PipelineRun) => Promise<RunStep>;
+  /** Stops a run that was cancelled while it was executing. */
+  cancel: (run: PipelineRun) => Promise<void>;
+}
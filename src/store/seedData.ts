@@ -0,0 +1,285 @@
+import { Dataset, PipelineRunStep, PipelineStep } from '../types';
+import { DashboardState } from './dashboardStore';
+import { defaultPipelineGraph, layoutSteps } from './pipelineGraph';
+import { datasetVersion } from './pipelineRuns';
+import { DEFAULT_WORKSPACE_ID } from './workspaces';
+
+const initialDataset: Dataset = {
+  id: 'dataset_initial',
+  workspace_id: DEFAULT_WORKSPACE_ID,
+  name: 'customer_data.csv',
+  size: 125000,
+  columns: 18,
+  null_percentage: 3.2,
+  created_at: '2024-01-15T10:30:00Z'
+};
+
+// What the seeded runs trained on
+const initialDatasetRef = {
+  id: initialDataset.id,
+  name: initialDataset.name,
+  version: datasetVersion(initialDataset),
+  size: initialDataset.size,
+  columns: initialDataset.columns,
+};
+
+const defaultGraph = defaultPipelineGraph();
+
+// The churn model goes on to be registered and deployed
+const churnGraph = layoutSteps([
+  ...defaultGraph,
+  { id: 'register', type: 'register', name: 'Register', depends_on: ['train', 'evaluate'], position: { x: 0, y: 0 } },
+  { id: 'deploy', type: 'deploy', name: 'Deploy', depends_on: ['register'], position: { x: 0, y: 0 } },
+]);
+
+const stepStates = (graph: PipelineStep[], states: Record<string, Partial<PipelineRunStep>>): PipelineRunStep[] =>
+  graph.map(step => ({ step_id: step.id, status: 'pending', progress: 0, ...states[step.id] }));
+
+const succeeded = (started_at: string, ended_at: string) => ({ status: 'succeeded' as const, progress: 100, started_at, ended_at });
+
+// Demo workspace shown on first launch, before anything has been persisted
+export const seedDashboardState: DashboardState = {
+  datasets: [initialDataset],
+  pipelines: [
+    {
+      id: '1',
+      workspace_id: DEFAULT_WORKSPACE_ID,
+      name: 'Customer Churn Prediction',
+      description: 'Predicts customer churn using machine learning algorithms',
+      dataset_id: 'dataset_initial',
+      status: 'completed',
+      progress: 100,
+      created_at: '2024-01-15T10:30:00Z',
+      last_run: '2024-01-20T14:45:00Z',
+      model_accuracy: 0.892,
+      data_drift_score: 0.15,
+      steps: churnGraph,
+      algorithm: 'random_forest',
+      hyperparameters: {
+        n_estimators: 100,
+        max_depth: 10,
+        min_samples_split: 5
+      }
+    },
+    {
+      id: '2',
+      workspace_id: DEFAULT_WORKSPACE_ID,
+      name: 'Fraud Detection Model',
+      description: 'Real-time fraud detection for financial transactions',
+      dataset_id: 'dataset_initial',
+      status: 'running',
+      progress: 67,
+      created_at: '2024-01-18T09:15:00Z',
+      model_accuracy: 0.945,
+      data_drift_score: 0.08,
+      steps: defaultGraph,
+      algorithm: 'neural_network',
+      hyperparameters: {
+        hidden_layers: 3,
+        learning_rate: 0.001,
+        batch_size: 32
+      }
+    },
+    {
+      id: '3',
+      workspace_id: DEFAULT_WORKSPACE_ID,
+      name: 'Sales Forecasting',
+      description: 'Forecasts sales trends and seasonal patterns',
+      dataset_id: 'dataset_initial',
+      status: 'idle',
+      progress: 0,
+      created_at: '2024-01-19T16:20:00Z',
+      model_accuracy: 0.876,
+      data_drift_score: 0.22,
+      steps: defaultGraph,
+      algorithm: 'gradient_boosting',
+      hyperparameters: {
+        n_estimators: 200,
+        learning_rate: 0.1,
+        max_depth: 8
+      }
+    }
+  ],
+  pipelineRuns: [
+    {
+      id: 'run_1_2',
+      pipeline_id: '1',
+      workspace_id: DEFAULT_WORKSPACE_ID,
+      number: 2,
+      trigger: 'schedule',
+      status: 'succeeded',
+      progress: 100,
+      queued_at: '2024-01-20T14:12:00Z',
+      started_at: '2024-01-20T14:12:00Z',
+      ended_at: '2024-01-20T14:45:00Z',
+      parameters: {
+        algorithm: 'random_forest',
+        hyperparameters: { n_estimators: 100, max_depth: 10, min_samples_split: 5 },
+        steps: churnGraph,
+      },
+      steps: stepStates(churnGraph, {
+        ingest: succeeded('2024-01-20T14:12:00Z', '2024-01-20T14:12:01Z'),
+        validate: succeeded('2024-01-20T14:12:01Z', '2024-01-20T14:13:30Z'),
+        clean: succeeded('2024-01-20T14:13:30Z', '2024-01-20T14:16:00Z'),
+        split: succeeded('2024-01-20T14:16:00Z', '2024-01-20T14:16:20Z'),
+        train: succeeded('2024-01-20T14:16:20Z', '2024-01-20T14:38:00Z'),
+        evaluate: succeeded('2024-01-20T14:38:00Z', '2024-01-20T14:42:00Z'),
+        register: succeeded('2024-01-20T14:42:00Z', '2024-01-20T14:42:30Z'),
+        deploy: succeeded('2024-01-20T14:42:30Z', '2024-01-20T14:45:00Z'),
+      }),
+      dataset: initialDatasetRef,
+      metrics: { accuracy: 0.892, data_drift_score: 0.15 },
+      logs: [
+        { timestamp: '2024-01-20T14:12:00Z', level: 'info', message: 'Started by the schedule' },
+        { timestamp: '2024-01-20T14:12:01Z', level: 'info', message: 'Loaded dataset "customer_data.csv" (125,000 rows)' },
+        { timestamp: '2024-01-20T14:30:12Z', level: 'warning', message: 'Drift score 0.15 is above the 0.1 threshold' },
+        { timestamp: '2024-01-20T14:45:00Z', level: 'info', message: 'Finished with 89.2% accuracy' },
+      ],
+    },
+    {
+      id: 'run_1_1',
+      pipeline_id: '1',
+      workspace_id: DEFAULT_WORKSPACE_ID,
+      number: 1,
+      trigger: 'manual',
+      status: 'succeeded',
+      progress: 100,
+      queued_at: '2024-01-16T09:00:00Z',
+      started_at: '2024-01-16T09:00:00Z',
+      ended_at: '2024-01-16T09:21:00Z',
+      parameters: {
+        algorithm: 'random_forest',
+        hyperparameters: { n_estimators: 50, max_depth: 8, min_samples_split: 5 },
+      },
+      dataset: initialDatasetRef,
+      metrics: { accuracy: 0.871, data_drift_score: 0.06 },
+      logs: [
+        { timestamp: '2024-01-16T09:00:00Z', level: 'info', message: 'Started manually' },
+        { timestamp: '2024-01-16T09:00:01Z', level: 'info', message: 'Loaded dataset "customer_data.csv" (125,000 rows)' },
+        { timestamp: '2024-01-16T09:21:00Z', level: 'info', message: 'Finished with 87.1% accuracy' },
+      ],
+    },
+    {
+      id: 'run_2_1',
+      pipeline_id: '2',
+      workspace_id: DEFAULT_WORKSPACE_ID,
+      number: 1,
+      trigger: 'manual',
+      status: 'running',
+      progress: 67,
+      queued_at: '2024-01-18T09:30:00Z',
+      started_at: '2024-01-18T09:30:00Z',
+      parameters: {
+        algorithm: 'neural_network',
+        hyperparameters: { hidden_layers: 3, learning_rate: 0.001, batch_size: 32 },
+        steps: defaultGraph,
+      },
+      steps: stepStates(defaultGraph, {
+        ingest: succeeded('2024-01-18T09:30:00Z', '2024-01-18T09:30:01Z'),
+        validate: succeeded('2024-01-18T09:30:01Z', '2024-01-18T09:32:00Z'),
+        clean: succeeded('2024-01-18T09:32:00Z', '2024-01-18T09:36:00Z'),
+        split: succeeded('2024-01-18T09:36:00Z', '2024-01-18T09:36:30Z'),
+        train: { status: 'running', progress: 60, started_at: '2024-01-18T09:36:30Z' },
+      }),
+      dataset: initialDatasetRef,
+      logs: [
+        { timestamp: '2024-01-18T09:30:00Z', level: 'info', message: 'Started manually' },
+        { timestamp: '2024-01-18T09:30:01Z', level: 'info', message: 'Loaded dataset "customer_data.csv" (125,000 rows)' },
+        { timestamp: '2024-01-18T10:10:00Z', level: 'info', message: '50% done, accuracy so far 93.1%' },
+      ],
+    },
+  ],
+  alerts: [
+    {
+      id: '1',
+      workspace_id: DEFAULT_WORKSPACE_ID,
+      type: 'drift',
+      severity: 'high',
+      message: 'Significant data drift detected in Customer Churn model',
+      timestamp: '2024-01-20T15:30:00Z',
+      acknowledged: false,
+      entity_ref: { type: 'pipeline', id: '1' },
+    },
+    {
+      id: '2',
+      workspace_id: DEFAULT_WORKSPACE_ID,
+      type: 'performance',
+      severity: 'medium',
+      message: 'Model accuracy dropped below 85% threshold',
+      timestamp: '2024-01-20T14:15:00Z',
+      acknowledged: false,
+    },
+    {
+      id: '3',
+      type: 'system',
+      severity: 'low',
+      message: 'Scheduled maintenance completed successfully',
+      timestamp: '2024-01-20T12:00:00Z',
+      acknowledged: true,
+    }
+  ],
+  experiments: [
+    {
+      id: '1',
+      workspace_id: DEFAULT_WORKSPACE_ID,
+      name: 'Customer Churn v2.1',
+      description: 'Improved churn prediction with feature engineering',
+      status: 'completed',
+      start_time: '2024-01-18T10:00:00Z',
+      pipeline_id: '1',
+      dataset_id: 'dataset_initial',
+      duration: 245,
+      algorithm: 'random_forest',
+      parameters: {
+        n_estimators: 150,
+        max_depth: 12,
+        min_samples_split: 3
+      },
+      metrics: {
+        accuracy: 0.912,
+        precision: 0.889,
+        recall: 0.934,
+        f1_score: 0.911,
+        auc_roc: 0.948,
+        training_time: 245
+      }
+    },
+    {
+      id: '2',
+      workspace_id: DEFAULT_WORKSPACE_ID,
+      name: 'Fraud Detection Neural Net',
+      description: 'Deep learning approach for fraud detection',
+      status: 'running',
+      start_time: '2024-01-19T14:30:00Z',
+      pipeline_id: '2',
+      dataset_id: 'dataset_initial',
+      algorithm: 'neural_network',
+      parameters: {
+        hidden_layers: 4,
+        learning_rate: 0.0005,
+        batch_size: 64,
+        epochs: 100
+      },
+      metrics: {
+        accuracy: 0.0,
+        precision: 0.0,
+        recall: 0.0,
+        f1_score: 0.0,
+        auc_roc: 0.0,
+        training_time: 0
+      }
+    }
+  ],
+  externalConnections: [],
+  trash: [],
+  // Accounts are created on first run, see LoginForm
+  users: [],
+  workspaces: [
+    {
+      id: DEFAULT_WORKSPACE_ID,
+      name: 'Default',
+      created_at: '2024-01-15T10:30:00Z',
+      members: [],
+    },
+  ],
+};
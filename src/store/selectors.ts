@@ -0,0 +1,29 @@
+import { DashboardState } from './dashboardStore';
+
+// Selectors must return references that already live in the state (or primitives),
+// otherwise every store notification would look like a change to subscribers.
+
+export const selectPipelines = (state: DashboardState) => state.pipelines;
+export const selectPipelineRuns = (state: DashboardState) => state.pipelineRuns;
+export const selectDatasets = (state: DashboardState) => state.datasets;
+export const selectAlerts = (state: DashboardState) => state.alerts;
+export const selectExperiments = (state: DashboardState) => state.experiments;
+export const selectExternalConnections = (state: DashboardState) => state.externalConnections;
+export const selectTrash = (state: DashboardState) => state.trash;
+export const selectUsers = (state: DashboardState) => state.users;
+export const selectWorkspaces = (state: DashboardState) => state.workspaces;
+
+export const selectPipelineById = (id: string) => (state: DashboardState) =>
+  state.pipelines.find(p => p.id === id);
+
+export const selectDatasetById = (id: string) => (state: DashboardState) =>
+  state.datasets.find(d => d.id === id);
+
+export const selectExperimentById = (id: string) => (state: DashboardState) =>
+  state.experiments.find(e => e.id === id);
+
+export const selectWorkspaceById = (id: string | null) => (state: DashboardState) =>
+  state.workspaces.find(w => w.id === id);
+
+export const selectUnacknowledgedAlertCount = (state: DashboardState) =>
+  state.alerts.filter(a => !a.acknowledged).length;
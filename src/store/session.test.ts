@@ -0,0 +1,64 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  createSessionClaims,
+  DEFAULT_SESSION_POLICY,
+  normalizeSessionPolicy,
+  sessionExpiresAt,
+  signSessionToken,
+  verifySessionToken,
+} from './session';
+
+const HOUR = 60 * 60 * 1000;
+
+// Without IndexedDB the token is signed with a key that lives as long as the test run, which is warned about
+beforeAll(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+const signedToken = () => signSessionToken(createSessionClaims('user_1', DEFAULT_SESSION_POLICY, '2024-01-01T00:00:00.000Z', undefined, 1_000));
+
+describe('signSessionToken and verifySessionToken', () => {
+  it('returns the claims of a token it signed', async () => {
+    const claims = await verifySessionToken(await signedToken());
+    expect(claims).toMatchObject({ sub: 'user_1', iat: 1_000, auth_time: 1_000, pwd: '2024-01-01T00:00:00.000Z' });
+  });
+
+  it('rejects a token whose claims were changed', async () => {
+    const [, signature] = (await signedToken()).split('.');
+    const forged = btoa(JSON.stringify({ sub: 'admin_1', iat: 1_000, exp: Number.MAX_SAFE_INTEGER }))
+      .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    expect(await verifySessionToken(`${forged}.${signature}`)).toBeNull();
+  });
+
+  it('rejects a token whose signature was changed', async () => {
+    const [payload, signature] = (await signedToken()).split('.');
+    const altered = `${signature[0] === 'A' ? 'B' : 'A'}${signature.slice(1)}`;
+    expect(await verifySessionToken(`${payload}.${altered}`)).toBeNull();
+  });
+
+  it('rejects tokens that are not tokens', async () => {
+    expect(await verifySessionToken('')).toBeNull();
+    expect(await verifySessionToken('no-signature')).toBeNull();
+    expect(await verifySessionToken('!!!.???')).toBeNull();
+  });
+});
+
+describe('sessionExpiresAt', () => {
+  it('applies a timeout shortened after sign-in', () => {
+    const claims = createSessionClaims('user_1', { ...DEFAULT_SESSION_POLICY, sessionTimeoutHours: 24 }, undefined, undefined, 0);
+    expect(sessionExpiresAt(claims, { ...DEFAULT_SESSION_POLICY, sessionTimeoutHours: 24 })).toBe(24 * HOUR);
+    expect(sessionExpiresAt(claims, { ...DEFAULT_SESSION_POLICY, sessionTimeoutHours: 1 })).toBe(HOUR);
+    // A longer timeout does not extend a session that is already running
+    expect(sessionExpiresAt(claims, { ...DEFAULT_SESSION_POLICY, sessionTimeoutHours: 168 })).toBe(24 * HOUR);
+  });
+});
+
+describe('normalizeSessionPolicy', () => {
+  it('replaces values that are not offered with the defaults', () => {
+    expect(normalizeSessionPolicy({ sessionTimeoutHours: 3, idleTimeoutMinutes: 15, apiKeyRotation: 'weekly' })).toEqual({
+      ...DEFAULT_SESSION_POLICY,
+      idleTimeoutMinutes: 15,
+    });
+    expect(normalizeSessionPolicy(null)).toEqual(DEFAULT_SESSION_POLICY);
+  });
+});
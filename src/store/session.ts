@@ -0,0 +1,190 @@
+// The signed session token of this browser; shared by its tabs
+export const SESSION_KEY = 'ml_dashboard_session';
+export const SESSION_POLICY_KEY = 'ml_dashboard_session_policy';
+// Last time the user did anything in any tab, so a busy tab keeps the others signed in
+export const LAST_ACTIVITY_KEY = 'ml_dashboard_last_activity';
+// Written by sessions before tokens were signed; never trusted, only removed
+const LEGACY_SESSION_KEY = 'ml_dashboard_user';
+
+// Holds the signing key; it is created non-extractable, so its bytes never reach script or storage
+const KEY_DB_NAME = 'ml_dashboard_keys';
+const KEY_STORE = 'keys';
+const SIGNING_KEY_ID = 'session';
+
+/** How long before an idle sign-out the warning appears. */
+export const IDLE_WARNING_MS = 60 * 1000;
+/** Destructive admin actions ask for the password again when the last sign-in is older than this. */
+export const REAUTH_WINDOW_MS = 5 * 60 * 1000;
+
+/** The workspace-wide fields of Settings > Security. */
+export interface SessionPolicy {
+  /** Hours a session lasts from sign-in, active or not. */
+  sessionTimeoutHours: number;
+  /** Minutes without activity before the user is signed out. */
+  idleTimeoutMinutes: number;
+  /** Users with an admin role must enrol two-factor authentication before using the dashboard. */
+  requireTwoFactorForAdmins: boolean;
+  /** How often personal API tokens must be replaced, see store/apiTokens. */
+  apiKeyRotation: ApiKeyRotation;
+}
+
+export type ApiKeyRotation = 'manual' | 'monthly' | 'quarterly';
+
+export const API_KEY_ROTATION_OPTIONS: ApiKeyRotation[] = ['manual', 'monthly', 'quarterly'];
+
+export const SESSION_TIMEOUT_OPTIONS = [1, 8, 24, 168];
+export const IDLE_TIMEOUT_OPTIONS = [5, 15, 30, 60];
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  sessionTimeoutHours: 24,
+  idleTimeoutMinutes: 30,
+  requireTwoFactorForAdmins: false,
+  apiKeyRotation: 'manual',
+};
+
+export interface SessionClaims {
+  /** Session id. */
+  sid: string;
+  /** Id of the signed-in account. */
+  sub: string;
+  /** Issued at, in ms since the epoch. */
+  iat: number;
+  /** Expires at, in ms since the epoch. */
+  exp: number;
+  /** When the user last proved who they are; re-authentication moves it forward. */
+  auth_time: number;
+  /** The account's `password_changed_at` at sign-in; a password change ends every other session. */
+  pwd?: string;
+  /** The single sign-on provider the user signed in with; unset for a password sign-in. */
+  idp?: string;
+}
+
+export type SignOutReason = 'expired' | 'idle' | 'revoked';
+
+export function normalizeSessionPolicy(raw: unknown): SessionPolicy {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof SessionPolicy, unknown>>;
+  const sessionTimeoutHours = Number(value.sessionTimeoutHours);
+  const idleTimeoutMinutes = Number(value.idleTimeoutMinutes);
+  return {
+    sessionTimeoutHours: SESSION_TIMEOUT_OPTIONS.includes(sessionTimeoutHours) ? sessionTimeoutHours : DEFAULT_SESSION_POLICY.sessionTimeoutHours,
+    idleTimeoutMinutes: IDLE_TIMEOUT_OPTIONS.includes(idleTimeoutMinutes) ? idleTimeoutMinutes : DEFAULT_SESSION_POLICY.idleTimeoutMinutes,
+    requireTwoFactorForAdmins: typeof value.requireTwoFactorForAdmins === 'boolean' ? value.requireTwoFactorForAdmins : DEFAULT_SESSION_POLICY.requireTwoFactorForAdmins,
+    apiKeyRotation: API_KEY_ROTATION_OPTIONS.find(option => option === value.apiKeyRotation) ?? DEFAULT_SESSION_POLICY.apiKeyRotation,
+  };
+}
+
+export function loadSessionPolicy(): SessionPolicy {
+  try {
+    const saved = localStorage.getItem(SESSION_POLICY_KEY);
+    return saved ? normalizeSessionPolicy(JSON.parse(saved)) : DEFAULT_SESSION_POLICY;
+  } catch (error) {
+    console.warn('Failed to load the session policy:', error);
+    return DEFAULT_SESSION_POLICY;
+  }
+}
+
+export function saveSessionPolicy(policy: SessionPolicy) {
+  try {
+    localStorage.setItem(SESSION_POLICY_KEY, JSON.stringify(policy));
+  } catch (error) {
+    console.warn('Failed to save the session policy:', error);
+  }
+}
+
+export const lastActivityAt = () => Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0;
+
+export const recordActivity = (now = Date.now()) => localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+
+const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const generateSigningKey = () =>
+  crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']) as Promise<CryptoKey>;
+
+const loadStoredSigningKey = async (): Promise<CryptoKey> => {
+  const request = indexedDB.open(KEY_DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(KEY_STORE);
+  const db = await promisifyRequest(request);
+  try {
+    const existing = await promisifyRequest(db.transaction(KEY_STORE).objectStore(KEY_STORE).get(SIGNING_KEY_ID)) as CryptoKey | undefined;
+    if (existing) return existing;
+    const key = await generateSigningKey();
+    // add() fails if another tab stored its key first; that key wins so every tab signs alike
+    try {
+      await promisifyRequest(db.transaction(KEY_STORE, 'readwrite').objectStore(KEY_STORE).add(key, SIGNING_KEY_ID));
+      return key;
+    } catch {
+      return await promisifyRequest(db.transaction(KEY_STORE).objectStore(KEY_STORE).get(SIGNING_KEY_ID)) as CryptoKey;
+    }
+  } finally {
+    db.close();
+  }
+};
+
+let signingKey: Promise<CryptoKey> | null = null;
+
+const getSigningKey = () => {
+  signingKey ??= loadStoredSigningKey().catch(error => {
+    // Without IndexedDB sessions are signed with a key that lives as long as this tab
+    console.warn('Failed to load the session signing key:', error);
+    return generateSigningKey();
+  });
+  return signingKey;
+};
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+/** A token of the form `payload.signature`, both base64url, signed with HMAC-SHA256. */
+export async function signSessionToken(claims: SessionClaims): Promise<string> {
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), new TextEncoder().encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/** The claims of a token this browser signed, or null when it was forged or altered. */
+export async function verifySessionToken(token: string): Promise<SessionClaims | null> {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await getSigningKey(), fromBase64Url(signature), new TextEncoder().encode(payload));
+    return valid ? JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as SessionClaims : null;
+  } catch {
+    return null;
+  }
+}
+
+/** A shorter timeout set after sign-in applies to sessions already running too. */
+export const sessionExpiresAt = (claims: SessionClaims, policy: SessionPolicy) =>
+  Math.min(claims.exp, claims.iat + policy.sessionTimeoutHours * 60 * 60 * 1000);
+
+export function createSessionClaims(userId: string, policy: SessionPolicy, passwordChangedAt?: string, provider?: string, now = Date.now()): SessionClaims {
+  return {
+    sid: `session_${now}_${Math.random().toString(36).slice(2, 8)}`,
+    sub: userId,
+    iat: now,
+    exp: now + policy.sessionTimeoutHours * 60 * 60 * 1000,
+    auth_time: now,
+    pwd: passwordChangedAt,
+    idp: provider,
+  };
+}
+
+export function loadSessionToken(): string | null {
+  localStorage.removeItem(LEGACY_SESSION_KEY);
+  return localStorage.getItem(SESSION_KEY);
+}
+
+export function saveSessionToken(token: string | null) {
+  if (token) {
+    localStorage.setItem(SESSION_KEY, token);
+  } else {
+    localStorage.removeItem(SESSION_KEY);
+  }
+}
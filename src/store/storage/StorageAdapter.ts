@@ -0,0 +1,49 @@
+import { CollectionKey } from '../dashboardStore';
+
+/**
+ * Entity-level changes for one collection. `order` is only present when the
+ * sequence of ids changed, so adapters can keep list order without rewriting
+ * every entity.
+ */
+export interface CollectionChanges {
+  collection: CollectionKey;
+  upserts: { id: string }[];
+  deletes: string[];
+  order?: string[];
+}
+
+/** A stored record the adapter found but could not parse. */
+export interface UnreadableRecord {
+  collection: CollectionKey;
+  id?: string;
+  raw: string;
+  error: string;
+}
+
+/**
+ * Versioned wrapper around everything an adapter has persisted. Entities are
+ * left untyped because they may predate the current schema; migrations turn
+ * them into current entities.
+ */
+export interface PersistedEnvelope {
+  schemaVersion: number;
+  data: Record<CollectionKey, unknown[]>;
+  unreadable: UnreadableRecord[];
+}
+
+export interface StorageAdapter {
+  readonly name: string;
+  /** Resolves to null when nothing has been persisted yet. */
+  load: () => Promise<PersistedEnvelope | null>;
+  /** Applies the changes and records the schema version they were written with. */
+  write: (changes: CollectionChanges[], schemaVersion: number) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export type StorageBackend = 'localStorage' | 'indexedDB' | 'http';
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  /** Base URL of the REST API, required for the http backend. */
+  baseUrl?: string;
+}
@@ -0,0 +1,83 @@
+import { COLLECTION_KEYS, CollectionKey } from '../dashboardStore';
+import { PersistedEnvelope, StorageAdapter } from './StorageAdapter';
+
+// Data written before the schema was versioned
+const UNVERSIONED_SCHEMA = 1;
+
+const COLLECTION_PATHS: Record<CollectionKey, string> = {
+  pipelines: 'pipelines',
+  pipelineRuns: 'pipeline-runs',
+  datasets: 'datasets',
+  alerts: 'alerts',
+  experiments: 'experiments',
+  externalConnections: 'external-connections',
+  trash: 'trash',
+  users: 'users',
+  workspaces: 'workspaces',
+};
+
+/**
+ * Persists to a REST server:
+ *   GET    {baseUrl}/{collection}        -> ordered array of entities
+ *   PUT    {baseUrl}/{collection}/{id}   -> upsert one entity
+ *   DELETE {baseUrl}/{collection}/{id}   -> delete one entity
+ *   PUT    {baseUrl}/{collection}/order  -> ordered array of ids
+ *   DELETE {baseUrl}/{collection}        -> delete every entity
+ *   GET    {baseUrl}/meta                -> { schemaVersion } (404 when unversioned)
+ *   PUT    {baseUrl}/meta                -> { schemaVersion }
+ */
+export function createHttpAdapter(baseUrl: string): StorageAdapter {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async (method: string, path: string, body?: unknown) => {
+    const response = await fetch(`${root}/${path}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    // A missing resource is an empty collection (GET) or already gone (DELETE)
+    const isTolerated404 = response.status === 404 && (method === 'GET' || method === 'DELETE');
+    if (!response.ok && !isTolerated404) {
+      throw new Error(`Storage API Error: ${method} ${path} failed with ${response.status}`);
+    }
+    return response;
+  };
+
+  return {
+    name: 'http',
+
+    load: async () => {
+      const collections = await Promise.all(COLLECTION_KEYS.map(async key => {
+        const response = await request('GET', COLLECTION_PATHS[key]);
+        return [key, response.status === 404 ? [] : await response.json()] as const;
+      }));
+      const data = Object.fromEntries(collections) as PersistedEnvelope['data'];
+      if (!COLLECTION_KEYS.some(key => data[key].length > 0)) return null;
+
+      const meta = await request('GET', 'meta');
+      const schemaVersion = meta.status === 404 ? UNVERSIONED_SCHEMA : (await meta.json()).schemaVersion;
+      return { schemaVersion, data, unreadable: [] };
+    },
+
+    write: async (changes, schemaVersion) => {
+      // Entities first so an order update never references ids the server has not seen
+      for (const { collection, upserts, deletes, order } of changes) {
+        const path = COLLECTION_PATHS[collection];
+        await Promise.all([
+          ...upserts.map(entity => request('PUT', `${path}/${encodeURIComponent(entity.id)}`, entity)),
+          ...deletes.map(id => request('DELETE', `${path}/${encodeURIComponent(id)}`)),
+        ]);
+        if (order) {
+          await request('PUT', `${path}/order`, order);
+        }
+      }
+      await request('PUT', 'meta', { schemaVersion });
+    },
+
+    clear: async () => {
+      await Promise.all(COLLECTION_KEYS.map(key => request('DELETE', COLLECTION_PATHS[key])));
+      await request('DELETE', 'meta');
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { StorageAdapter, StorageBackend, StorageConfig } from './StorageAdapter';
+import { createLocalStorageAdapter } from './localStorageAdapter';
+import { createIndexedDbAdapter, isIndexedDbAvailable } from './indexedDbAdapter';
+import { createHttpAdapter } from './httpAdapter';
+
+export type { StorageAdapter, StorageBackend, StorageConfig, CollectionChanges, PersistedEnvelope, UnreadableRecord } from './StorageAdapter';
+export { STORAGE_KEYS } from './localStorageAdapter';
+
+/**
+ * Reads the backend from VITE_STORAGE_BACKEND (localStorage | indexedDB | http)
+ * and, for http, the server from VITE_STORAGE_URL.
+ */
+export function getStorageConfig(): StorageConfig {
+  const backend = import.meta.env.VITE_STORAGE_BACKEND as StorageBackend | undefined;
+  return {
+    backend: backend ?? 'localStorage',
+    baseUrl: import.meta.env.VITE_STORAGE_URL,
+  };
+}
+
+export function createStorageAdapter(config: StorageConfig = getStorageConfig()): StorageAdapter {
+  switch (config.backend) {
+    case 'indexedDB':
+      if (isIndexedDbAvailable()) {
+        return createIndexedDbAdapter();
+      }
+      console.warn('IndexedDB is not available, falling back to localStorage');
+      return createLocalStorageAdapter();
+    case 'http':
+      if (config.baseUrl) {
+        return createHttpAdapter(config.baseUrl);
+      }
+      console.warn('VITE_STORAGE_URL is not set, falling back to localStorage');
+      return createLocalStorageAdapter();
+    case 'localStorage':
+      return createLocalStorageAdapter();
+    default:
+      console.warn(`Unknown storage backend "${config.backend}", falling back to localStorage`);
+      return createLocalStorageAdapter();
+  }
+}
@@ -0,0 +1,120 @@
+import { COLLECTION_KEYS } from '../dashboardStore';
+import { PersistedEnvelope, StorageAdapter } from './StorageAdapter';
+
+const DB_NAME = 'ml_dashboard';
+const DB_VERSION = 6;
+// Holds the ordered id list of every collection, keyed by collection name
+const ORDER_STORE = 'collection_order';
+// Holds the schema version under SCHEMA_VERSION_KEY
+const META_STORE = 'meta';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+// Data written before the schema was versioned
+const UNVERSIONED_SCHEMA = 1;
+const ALL_STORES = [...COLLECTION_KEYS, ORDER_STORE, META_STORE];
+
+const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completeTransaction = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      COLLECTION_KEYS.forEach(key => {
+        if (!db.objectStoreNames.contains(key)) {
+          db.createObjectStore(key, { keyPath: 'id' });
+        }
+      });
+      [ORDER_STORE, META_STORE].forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name);
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export function isIndexedDbAvailable() {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Stores each collection in its own object store so large workspaces
+ * (thousands of experiments) stay well clear of the localStorage quota.
+ */
+export function createIndexedDbAdapter(): StorageAdapter {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase();
+    }
+    return dbPromise;
+  };
+
+  return {
+    name: 'indexedDB',
+
+    load: async () => {
+      const db = await getDatabase();
+      const tx = db.transaction(ALL_STORES, 'readonly');
+
+      // Issue every request up front so the transaction never goes idle between awaits
+      const versionRequest = promisifyRequest(tx.objectStore(META_STORE).get(SCHEMA_VERSION_KEY)) as Promise<number | undefined>;
+      const results = await Promise.all(COLLECTION_KEYS.map(key => Promise.all([
+        promisifyRequest(tx.objectStore(key).getAll()) as Promise<{ id: string }[]>,
+        promisifyRequest(tx.objectStore(ORDER_STORE).get(key)) as Promise<string[] | undefined>,
+      ])));
+      const schemaVersion = await versionRequest;
+
+      let hasData = false;
+      const data = {} as PersistedEnvelope['data'];
+      results.forEach(([entities, order], index) => {
+        const position = new Map((order ?? []).map((id, i) => [id, i]));
+        hasData = hasData || entities.length > 0 || order !== undefined;
+        Object.assign(data, {
+          [COLLECTION_KEYS[index]]: entities.sort((a, b) =>
+            (position.get(a.id) ?? Number.MAX_SAFE_INTEGER) - (position.get(b.id) ?? Number.MAX_SAFE_INTEGER)
+          ),
+        });
+      });
+
+      // Structured clone never yields half-parsed records, so nothing is unreadable here
+      return hasData ? { schemaVersion: schemaVersion ?? UNVERSIONED_SCHEMA, data, unreadable: [] } : null;
+    },
+
+    write: async (changes, schemaVersion) => {
+      const db = await getDatabase();
+      const tx = db.transaction([...changes.map(c => c.collection), ORDER_STORE, META_STORE], 'readwrite');
+
+      changes.forEach(({ collection, upserts, deletes, order }) => {
+        const store = tx.objectStore(collection);
+        upserts.forEach(entity => store.put(entity));
+        deletes.forEach(id => store.delete(id));
+        if (order) {
+          tx.objectStore(ORDER_STORE).put(order, collection);
+        }
+      });
+      tx.objectStore(META_STORE).put(schemaVersion, SCHEMA_VERSION_KEY);
+
+      await completeTransaction(tx);
+    },
+
+    clear: async () => {
+      const db = await getDatabase();
+      const tx = db.transaction(ALL_STORES, 'readwrite');
+      ALL_STORES.forEach(name => tx.objectStore(name).clear());
+      await completeTransaction(tx);
+    },
+  };
+}
@@ -0,0 +1,122 @@
+import { COLLECTION_KEYS, CollectionKey } from '../dashboardStore';
+import { PersistedEnvelope, StorageAdapter, UnreadableRecord } from './StorageAdapter';
+
+export const STORAGE_KEYS: Record<CollectionKey, string> = {
+  datasets: 'ml_dashboard_datasets',
+  pipelines: 'ml_dashboard_pipelines',
+  pipelineRuns: 'ml_dashboard_pipeline_runs',
+  alerts: 'ml_dashboard_alerts',
+  experiments: 'ml_dashboard_experiments',
+  externalConnections: 'ml_dashboard_external_connections',
+  trash: 'ml_dashboard_trash',
+  users: 'ml_dashboard_users',
+  workspaces: 'ml_dashboard_workspaces',
+};
+
+const SCHEMA_KEY = 'ml_dashboard_schema';
+// Data written before the schema was versioned
+const UNVERSIONED_SCHEMA = 1;
+
+// Each entity lives under its own key; the index key keeps the ordered list of ids
+const indexKey = (collection: CollectionKey) => `${STORAGE_KEYS[collection]}:index`;
+const entityKey = (collection: CollectionKey, id: string) => `${STORAGE_KEYS[collection]}:${id}`;
+
+type ReadResult<T> = { value: T | null } | { raw: string; error: string };
+
+const readJson = <T>(key: string): ReadResult<T> => {
+  const saved = localStorage.getItem(key);
+  if (saved === null) return { value: null };
+  try {
+    return { value: JSON.parse(saved) };
+  } catch (error) {
+    return { raw: saved, error: error instanceof Error ? error.message : 'Invalid JSON' };
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    // Usually QuotaExceededError once the ~5MB origin limit is reached
+    throw new Error(`localStorage write failed for "${key}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export function createLocalStorageAdapter(): StorageAdapter {
+  const loadCollection = (collection: CollectionKey, unreadable: UnreadableRecord[]): unknown[] => {
+    const index = readJson<string[]>(indexKey(collection));
+    if ('raw' in index) {
+      unreadable.push({ collection, raw: index.raw, error: `Unreadable index: ${index.error}` });
+      return [];
+    }
+
+    if (index.value) {
+      return index.value.flatMap(id => {
+        const entity = readJson<unknown>(entityKey(collection, id));
+        if ('raw' in entity) {
+          unreadable.push({ collection, id, raw: entity.raw, error: entity.error });
+          return [];
+        }
+        return entity.value === null ? [] : [entity.value];
+      });
+    }
+
+    // Earlier versions stored each collection as a single array under the base key
+    const legacy = readJson<{ id: string }[]>(STORAGE_KEYS[collection]);
+    if ('raw' in legacy) {
+      unreadable.push({ collection, raw: legacy.raw, error: legacy.error });
+      return [];
+    }
+    if (!legacy.value) return [];
+
+    legacy.value.forEach(entity => writeJson(entityKey(collection, entity.id), entity));
+    writeJson(indexKey(collection), legacy.value.map(entity => entity.id));
+    localStorage.removeItem(STORAGE_KEYS[collection]);
+    return legacy.value;
+  };
+
+  return {
+    name: 'localStorage',
+
+    load: async () => {
+      const hasData = COLLECTION_KEYS.some(key =>
+        localStorage.getItem(indexKey(key)) !== null || localStorage.getItem(STORAGE_KEYS[key]) !== null
+      );
+      if (!hasData) return null;
+
+      const schema = readJson<{ schemaVersion: number }>(SCHEMA_KEY);
+      const unreadable: UnreadableRecord[] = [];
+      const data = COLLECTION_KEYS.reduce((collections, key) => ({
+        ...collections,
+        [key]: loadCollection(key, unreadable),
+      }), {} as PersistedEnvelope['data']);
+
+      return {
+        schemaVersion: 'value' in schema && schema.value ? schema.value.schemaVersion : UNVERSIONED_SCHEMA,
+        data,
+        unreadable,
+      };
+    },
+
+    write: async (changes, schemaVersion) => {
+      changes.forEach(({ collection, upserts, deletes, order }) => {
+        upserts.forEach(entity => writeJson(entityKey(collection, entity.id), entity));
+        deletes.forEach(id => localStorage.removeItem(entityKey(collection, id)));
+        if (order) {
+          writeJson(indexKey(collection), order);
+        }
+      });
+      writeJson(SCHEMA_KEY, { schemaVersion });
+    },
+
+    clear: async () => {
+      const prefixes = Object.values(STORAGE_KEYS);
+      const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+        .filter((key): key is string => key !== null)
+        .filter(key => prefixes.some(prefix => key === prefix || key.startsWith(`${prefix}:`)));
+
+      keys.forEach(key => localStorage.removeItem(key));
+      localStorage.removeItem(SCHEMA_KEY);
+    },
+  };
+}
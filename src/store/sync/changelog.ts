@@ -0,0 +1,69 @@
+import { CollectionKey, DashboardState } from '../dashboardStore';
+import { CollectionChanges } from '../storage';
+import { ChangeEntry, SYNCED_COLLECTIONS, syncKey } from './protocol';
+
+type NewChange = Omit<ChangeEntry, 'seq' | 'recordedAt' | 'baseRevision' | 'base'>;
+
+// Folds a change into the pending change for the same entity, or returns null when the two cancel out
+const coalesce = (pending: ChangeEntry, change: NewChange): NewChange | null => {
+  if (pending.op === 'create') {
+    return change.op === 'delete' ? null : { ...change, op: 'create' };
+  }
+  if (pending.op === 'delete') {
+    // Recreated (for example restored from Trash) before the delete was pushed
+    return { ...change, op: 'update' };
+  }
+  return change;
+};
+
+/**
+ * Adds store changes to the changelog. Each entity has at most one pending
+ * change: later edits are folded into it and it moves to the end of the log,
+ * keeping the server revision it was first made on.
+ */
+export function recordChanges(
+  log: ChangeEntry[],
+  changes: CollectionChanges[],
+  previous: DashboardState,
+  revisionOf: (key: string) => number,
+  nextSeq: () => number,
+): ChangeEntry[] {
+  let next = log;
+
+  changes
+    .filter(({ collection }) => SYNCED_COLLECTIONS.includes(collection))
+    .forEach(({ collection, upserts, deletes }) => {
+      const before = new Map((previous[collection] as { id: string }[]).map(entity => [entity.id, entity]));
+      const entityChanges: NewChange[] = [
+        ...upserts.map(entity => ({ collection, entityId: entity.id, op: before.has(entity.id) ? 'update' as const : 'create' as const, entity })),
+        ...deletes.map(id => ({ collection, entityId: id, op: 'delete' as const })),
+      ];
+
+      entityChanges.forEach(change => {
+        const key = syncKey(change.collection, change.entityId);
+        const pending = next.find(entry => syncKey(entry.collection, entry.entityId) === key);
+        const merged = pending ? coalesce(pending, change) : change;
+        next = next.filter(entry => entry !== pending);
+        if (!merged) return;
+
+        next = [...next, {
+          ...merged,
+          seq: nextSeq(),
+          baseRevision: pending ? pending.baseRevision : revisionOf(key),
+          base: pending ? pending.base : before.get(change.entityId),
+          recordedAt: new Date().toISOString(),
+        }];
+      });
+    });
+
+  return next;
+}
+
+/** Queues every synced entity as a create, for a client that has never synced or a collection that starts syncing again. */
+export function snapshotChanges(state: DashboardState, collections: CollectionKey[] = SYNCED_COLLECTIONS): CollectionChanges[] {
+  return collections.map(collection => ({
+    collection,
+    upserts: state[collection],
+    deletes: [],
+  }));
+}
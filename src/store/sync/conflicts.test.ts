@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { mergeFields, pickFields, resolveConflict, SyncEntity } from './conflicts';
+import { ChangeEntry, ServerChange } from './protocol';
+
+const base = { id: 'p1', name: 'Churn', status: 'idle', progress: 0 };
+
+// A local edit to the pipeline, pushed against revision 1 after the server moved on to revision 2
+const change = (entity: SyncEntity | undefined, recordedAt = '2024-01-01T00:00:00.000Z'): ChangeEntry => ({
+  seq: 1,
+  collection: 'pipelines',
+  entityId: 'p1',
+  op: entity ? 'update' : 'delete',
+  entity,
+  baseRevision: 1,
+  base,
+  recordedAt,
+});
+
+const current = (entity: SyncEntity | undefined, editedAt = '2024-01-01T00:00:00.000Z'): ServerChange => ({
+  revision: 2,
+  collection: 'pipelines',
+  entityId: 'p1',
+  op: entity ? 'update' : 'delete',
+  entity,
+  clientId: 'other',
+  editedAt,
+  committedAt: editedAt,
+});
+
+describe('mergeFields', () => {
+  it("takes each side's changes to different fields", () => {
+    expect(mergeFields(base, { ...base, name: 'Churn v2' }, { ...base, status: 'running' })).toEqual({
+      entity: { ...base, name: 'Churn v2', status: 'running' },
+      overlapping: [],
+    });
+  });
+
+  it('drops a field removed on one side', () => {
+    const withoutProgress = { id: 'p1', name: 'Churn', status: 'idle' };
+    expect(mergeFields(base, withoutProgress, { ...base, status: 'running' }).entity).toEqual({ ...withoutProgress, status: 'running' });
+  });
+
+  it('returns the fields changed differently on both sides', () => {
+    expect(mergeFields(base, { ...base, name: 'Local' }, { ...base, name: 'Server' }).overlapping).toEqual(['name']);
+  });
+});
+
+describe('pickFields', () => {
+  it('keeps the server value unless the local one was chosen', () => {
+    const local = { ...base, name: 'Local', status: 'failed' };
+    const server = { ...base, name: 'Server', status: 'running' };
+    expect(pickFields(local, server, { name: 'local', status: 'server' })).toEqual({ ...base, name: 'Local', status: 'running' });
+  });
+});
+
+describe('resolveConflict', () => {
+  const local = change({ ...base, name: 'Local' }, '2024-01-02T00:00:00.000Z');
+  const server = current({ ...base, status: 'running' }, '2024-01-01T00:00:00.000Z');
+
+  it('keeps the side the strategy names', () => {
+    expect(resolveConflict('server-wins', local, server)).toEqual({ keep: 'server' });
+    expect(resolveConflict('client-wins', local, server)).toEqual({ keep: 'local' });
+  });
+
+  it('keeps the later edit, and the server on a tie', () => {
+    expect(resolveConflict('last-writer-wins', local, server)).toEqual({ keep: 'local' });
+    expect(resolveConflict('last-writer-wins', { ...local, recordedAt: '2023-12-31T00:00:00.000Z' }, server)).toEqual({ keep: 'server' });
+    expect(resolveConflict('last-writer-wins', { ...local, recordedAt: server.editedAt }, server)).toEqual({ keep: 'server' });
+  });
+
+  it('pushes the merged entity when the edits do not overlap', () => {
+    expect(resolveConflict('field-merge', local, server)).toEqual({ keep: 'local', entity: { ...base, name: 'Local', status: 'running' } });
+  });
+
+  it('keeps the server when it already made the same edit', () => {
+    expect(resolveConflict('field-merge', local, current({ ...base, name: 'Local' }))).toEqual({ keep: 'server' });
+  });
+
+  it('leaves overlapping edits and edits against deletes to the user', () => {
+    expect(resolveConflict('field-merge', local, current({ ...base, name: 'Server' }))).toEqual({ keep: 'manual', fields: ['name'] });
+    expect(resolveConflict('field-merge', local, current(undefined))).toEqual({ keep: 'manual', fields: [] });
+    expect(resolveConflict('field-merge', change(undefined), server)).toEqual({ keep: 'manual', fields: [] });
+  });
+});
@@ -0,0 +1,102 @@
+import { CollectionKey } from '../dashboardStore';
+import { ChangeEntry, ServerChange } from './protocol';
+
+export type ConflictStrategy = 'field-merge' | 'last-writer-wins' | 'server-wins' | 'client-wins';
+
+export const CONFLICT_STRATEGIES: { value: ConflictStrategy; label: string; description: string }[] = [
+  { value: 'field-merge', label: 'Field-level merge', description: 'Combine both edits; fields changed on both sides are left for you to resolve' },
+  { value: 'last-writer-wins', label: 'Last writer wins', description: 'Keep whichever version was edited most recently' },
+  { value: 'server-wins', label: 'Server wins', description: 'Discard local edits that conflict with the server' },
+  { value: 'client-wins', label: 'Client wins', description: 'Overwrite the server with local edits' },
+];
+
+export type SyncEntity = { id: string } & Record<string, unknown>;
+
+/** A conflict no strategy could settle, waiting for the user. */
+export interface SyncConflict {
+  id: string;
+  collection: CollectionKey;
+  entityId: string;
+  /** Missing when the entity was deleted on that side. */
+  local?: SyncEntity;
+  server?: SyncEntity;
+  base?: SyncEntity;
+  serverRevision: number;
+  /** Fields changed differently on both sides; empty when one side deleted the entity. */
+  fields: string[];
+  detectedAt: string;
+}
+
+export type ConflictResolution =
+  | { keep: 'server' }
+  | { keep: 'local'; entity?: SyncEntity }
+  | { keep: 'manual'; fields: string[] };
+
+export type FieldChoice = 'local' | 'server';
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/** Top-level fields whose values differ between two versions of an entity. */
+export function diffFields(a?: SyncEntity, b?: SyncEntity): string[] {
+  const keys = new Set([...Object.keys(a ?? {}), ...Object.keys(b ?? {})]);
+  return [...keys].filter(key => !isSame(a?.[key], b?.[key]));
+}
+
+/**
+ * Three-way merge against the version both sides started from: a field
+ * changed on one side only takes that side's value. Returns the fields
+ * changed differently on both sides when the edits overlap.
+ */
+export function mergeFields(base: SyncEntity | undefined, local: SyncEntity, server: SyncEntity): { entity: SyncEntity; overlapping: string[] } {
+  const entity: SyncEntity = { ...server };
+  const overlapping: string[] = [];
+
+  diffFields(local, server).forEach(field => {
+    if (isSame(server[field], base?.[field])) {
+      entity[field] = local[field];
+    } else if (!isSame(local[field], base?.[field])) {
+      overlapping.push(field);
+    }
+  });
+  Object.keys(entity).forEach(field => {
+    if (entity[field] === undefined) delete entity[field];
+  });
+
+  return { entity, overlapping };
+}
+
+/** Builds the resolved entity from a per-field choice between the two versions. */
+export function pickFields(local: SyncEntity, server: SyncEntity, choices: Record<string, FieldChoice>): SyncEntity {
+  const entity: SyncEntity = { ...server };
+  diffFields(local, server).forEach(field => {
+    if (choices[field] !== 'local') return;
+    if (local[field] === undefined) {
+      delete entity[field];
+    } else {
+      entity[field] = local[field];
+    }
+  });
+  return entity;
+}
+
+/** Decides how a pushed change that the server rejected as outdated is settled. */
+export function resolveConflict(strategy: ConflictStrategy, change: ChangeEntry, current: ServerChange): ConflictResolution {
+  switch (strategy) {
+    case 'server-wins':
+      return { keep: 'server' };
+    case 'client-wins':
+      return { keep: 'local' };
+    case 'last-writer-wins':
+      return new Date(change.recordedAt).getTime() > new Date(current.editedAt).getTime()
+        ? { keep: 'local' }
+        : { keep: 'server' };
+    case 'field-merge': {
+      // An edit against a delete has no fields to merge
+      if (!change.entity || !current.entity) return { keep: 'manual', fields: [] };
+
+      const { entity, overlapping } = mergeFields(change.base as SyncEntity | undefined, change.entity as SyncEntity, current.entity as SyncEntity);
+      if (overlapping.length > 0) return { keep: 'manual', fields: overlapping };
+      return isSame(entity, current.entity) ? { keep: 'server' } : { keep: 'local', entity };
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { PullResponse, PushRequest, PushResponse, SyncRequestOptions, SyncTransport } from './protocol';
+
+// Browsers without CompressionStream send the body as plain JSON
+const gzip = async (json: string): Promise<Blob | null> => {
+  if (typeof CompressionStream === 'undefined') return null;
+  const stream = new Blob([json]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(stream).blob();
+};
+
+export function createHttpSyncTransport(endpoint: string): SyncTransport {
+  const root = endpoint.replace(/\/+$/, '');
+
+  const request = async <T>(method: string, path: string, body?: unknown, options: SyncRequestOptions & { compress?: boolean } = {}): Promise<T> => {
+    const json = body === undefined ? undefined : JSON.stringify(body);
+    const compressed = json !== undefined && options.compress ? await gzip(json) : null;
+    const response = await fetch(`${root}/${path}`, {
+      method,
+      headers: {
+        ...(options.authorization ? { Authorization: options.authorization } : {}),
+        ...(json === undefined ? {} : { 'Content-Type': 'application/json' }),
+        ...(compressed ? { 'Content-Encoding': 'gzip' } : {}),
+      },
+      body: compressed ?? json,
+    });
+    if (!response.ok) {
+      throw new Error(`Sync API Error: ${method} ${path} failed with ${response.status}`);
+    }
+    return response.json();
+  };
+
+  return {
+    name: 'http',
+    supportsCompression: typeof CompressionStream !== 'undefined',
+    push: (body: PushRequest, options) => request<PushResponse>('POST', 'push', body, options),
+    pull: (since: number, options) => request<PullResponse>('GET', `changes?since=${since}`, undefined, options),
+  };
+}
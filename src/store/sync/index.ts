@@ -0,0 +1,38 @@
+import { ApiAuthResult, ApiScope } from '../apiTokens';
+import { SyncTransport } from './protocol';
+import { createHttpSyncTransport } from './httpTransport';
+import { createLocalSyncServer } from './localServer';
+
+export type { ChangeEntry, PullResponse, PushRequest, PushResponse, ServerChange, SyncOperation, SyncRequestOptions, SyncTransport } from './protocol';
+export { SYNCED_COLLECTIONS, syncKey } from './protocol';
+export { createSyncEngine, entitySyncStates } from './syncEngine';
+export type { EntitySyncState, SyncEngine, SyncResult, SyncSnapshot } from './syncEngine';
+export { MAX_PUSH_ATTEMPTS } from './outbox';
+export type { PoisonedChange } from './outbox';
+export type { SyncJournalEntry } from './journal';
+export { DEFAULT_SYNC_POLICY, MAX_SYNC_INTERVAL_SECONDS, MIN_SYNC_INTERVAL_SECONDS, normalizeSyncPolicy } from './policy';
+export type { SyncPolicy } from './policy';
+export { createLocalSyncServer } from './localServer';
+export { CONFLICT_STRATEGIES, diffFields } from './conflicts';
+export type { ConflictStrategy, FieldChoice, SyncConflict, SyncEntity } from './conflicts';
+
+// Shared by every tab of the origin, like a real server would be
+const LOCAL_SERVER_KEY = 'ml_dashboard_local_sync_server';
+const LOCAL_SERVER_LATENCY_MS = 300;
+
+interface SyncTransportOptions {
+  endpoint?: string;
+  /** How the in-browser server checks API tokens; the real server checks its own. */
+  authorize?: (authorization: string, scope: ApiScope) => Promise<ApiAuthResult>;
+}
+
+/**
+ * Syncs with the server at VITE_SYNC_URL, or with the in-browser stand-in
+ * server when it is not set.
+ */
+export function createSyncTransport({ endpoint = import.meta.env.VITE_SYNC_URL, authorize }: SyncTransportOptions = {}): SyncTransport {
+  if (endpoint) {
+    return createHttpSyncTransport(endpoint);
+  }
+  return createLocalSyncServer({ storageKey: LOCAL_SERVER_KEY, latencyMs: LOCAL_SERVER_LATENCY_MS, authorize });
+}
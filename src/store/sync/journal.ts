@@ -0,0 +1,58 @@
+import { CollectionKey } from '../dashboardStore';
+
+const JOURNAL_KEY = 'ml_dashboard_sync_journal';
+// Older entries are dropped once the journal grows past this
+const MAX_JOURNAL_ENTRIES = 200;
+
+/** One push or pull exchanged with the sync server. */
+export interface SyncJournalEntry {
+  id: string;
+  kind: 'push' | 'pull';
+  startedAt: string;
+  durationMs: number;
+  bytesSent: number;
+  bytesReceived: number;
+  /** Entities pushed or pulled, per collection. */
+  entities: Partial<Record<CollectionKey, number>>;
+  conflicts: number;
+  rejected: number;
+  /** The request body was sent gzipped; `bytesSent` is its size before compression. */
+  compressed?: boolean;
+  /** Set when the request failed. */
+  error?: string;
+}
+
+export function loadJournal(): SyncJournalEntry[] {
+  try {
+    const saved = localStorage.getItem(JOURNAL_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.warn('Failed to load the sync journal:', error);
+    return [];
+  }
+}
+
+/** Adds an entry, newest first, and persists the capped journal. */
+export function appendJournalEntry(entry: SyncJournalEntry): SyncJournalEntry[] {
+  const journal = [entry, ...loadJournal()].slice(0, MAX_JOURNAL_ENTRIES);
+  try {
+    localStorage.setItem(JOURNAL_KEY, JSON.stringify(journal));
+  } catch (error) {
+    console.warn('Failed to save the sync journal:', error);
+  }
+  return journal;
+}
+
+export function clearJournal() {
+  localStorage.removeItem(JOURNAL_KEY);
+}
+
+// Size of a payload as it would travel as JSON
+export const payloadBytes = (payload: unknown) =>
+  payload === undefined ? 0 : new TextEncoder().encode(JSON.stringify(payload)).length;
+
+export const countByCollection = (items: { collection: CollectionKey }[]) =>
+  items.reduce<Partial<Record<CollectionKey, number>>>((counts, { collection }) => ({
+    ...counts,
+    [collection]: (counts[collection] ?? 0) + 1,
+  }), {});
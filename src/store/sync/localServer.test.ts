@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ApiAuthResult, ApiScope } from '../apiTokens';
+import { createLocalSyncServer } from './localServer';
+import { ChangeEntry } from './protocol';
+
+const change = (overrides: Partial<ChangeEntry>): ChangeEntry => ({
+  seq: 1,
+  collection: 'alerts',
+  entityId: 'a1',
+  op: 'delete',
+  baseRevision: 0,
+  recordedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+// Grants the listed scopes to the token "good" and knows no other token
+const authorizeScopes = (granted: ApiScope[]) => async (authorization: string, scope: ApiScope): Promise<ApiAuthResult> => {
+  if (authorization !== 'Bearer good') return { ok: false, status: 401, error: 'Invalid API token' };
+  return granted.includes(scope)
+    ? { ok: true } as ApiAuthResult
+    : { ok: false, status: 403, error: `This API token does not grant ${scope}` };
+};
+
+describe('createLocalSyncServer', () => {
+  it('lets the dashboard itself sync without a token', async () => {
+    const server = createLocalSyncServer({ authorize: authorizeScopes([]) });
+    const pushed = await server.push({ clientId: 'c', changes: [change({})] });
+    expect(pushed.applied).toHaveLength(1);
+    expect((await server.pull(0)).changes).toHaveLength(1);
+  });
+
+  it('fails requests with an invalid token', async () => {
+    const server = createLocalSyncServer({ authorize: authorizeScopes([]) });
+    await expect(server.pull(0, { authorization: 'Bearer bad' })).rejects.toThrow(/401: Invalid API token/);
+    await expect(server.push({ clientId: 'c', changes: [change({})] }, { authorization: 'Bearer bad' })).rejects.toThrow(/401/);
+  });
+
+  it('needs the read scope to pull', async () => {
+    const server = createLocalSyncServer({ authorize: authorizeScopes([]) });
+    await expect(server.pull(0, { authorization: 'Bearer good' })).rejects.toThrow(/403: This API token does not grant workspace:read/);
+    expect(await createLocalSyncServer({ authorize: authorizeScopes(['workspace:read']) }).pull(0, { authorization: 'Bearer good' }))
+      .toEqual({ changes: [], revision: 0 });
+  });
+
+  it('rejects the changes a token has no scope for and applies the rest', async () => {
+    const server = createLocalSyncServer({ authorize: authorizeScopes(['alert:manage']) });
+    const pushed = await server.push({
+      clientId: 'c',
+      changes: [change({ seq: 1 }), change({ seq: 2, collection: 'pipelines', entityId: 'p1' })],
+    }, { authorization: 'Bearer good' });
+    expect(pushed.applied.map(applied => applied.seq)).toEqual([1]);
+    expect(pushed.rejected).toEqual([{ seq: 2, reason: 'This API token does not grant pipeline:delete' }]);
+  });
+});
@@ -0,0 +1,141 @@
+import { CollectionKey } from '../dashboardStore';
+import { ApiAuthResult, ApiScope, READ_SCOPE } from '../apiTokens';
+import { Permission } from '../permissions';
+import { validateEntity } from '../validation';
+import { ChangeEntry, PullResponse, PushRequest, PushResponse, ServerChange, SyncOperation, SyncRequestOptions, SyncTransport, syncKey } from './protocol';
+
+interface LocalServerState {
+  revision: number;
+  /** Latest change per entity, so a pull never replays superseded versions. */
+  log: ServerChange[];
+}
+
+interface LocalSyncServerOptions {
+  /** Persists the server in localStorage under this key so every tab shares it; in memory when omitted. */
+  storageKey?: string;
+  /** Simulated network delay per request. */
+  latencyMs?: number;
+  /** Checks the API token of a request that carries one, for a scope it needs. */
+  authorize?: (authorization: string, scope: ApiScope) => Promise<ApiAuthResult>;
+}
+
+// What a token needs to push a change, as the dashboard asks of its users
+const PUSH_SCOPES: Partial<Record<CollectionKey, Record<SyncOperation, Permission>>> = {
+  pipelines: { create: 'pipeline:create', update: 'pipeline:edit', delete: 'pipeline:delete' },
+  pipelineRuns: { create: 'pipeline:run', update: 'pipeline:run', delete: 'pipeline:delete' },
+  datasets: { create: 'dataset:upload', update: 'dataset:process', delete: 'dataset:delete' },
+  alerts: { create: 'alert:manage', update: 'alert:manage', delete: 'alert:manage' },
+  experiments: { create: 'model:create', update: 'model:train', delete: 'model:delete' },
+  externalConnections: { create: 'connection:manage', update: 'connection:manage', delete: 'connection:manage' },
+};
+
+const pushScope = (change: ChangeEntry): ApiScope => PUSH_SCOPES[change.collection]?.[change.op] ?? 'settings:edit';
+
+const emptyServerState = (): LocalServerState => ({ revision: 0, log: [] });
+
+/**
+ * In-process stand-in for the sync server, implementing the same push/pull
+ * protocol as the HTTP endpoint. A change is rejected as a conflict when the
+ * entity was changed on the server after the revision the client edited from.
+ */
+export function createLocalSyncServer({ storageKey, latencyMs = 0, authorize }: LocalSyncServerOptions = {}): SyncTransport {
+  let memory = emptyServerState();
+
+  const read = (): LocalServerState => {
+    if (!storageKey) return memory;
+    try {
+      const saved = localStorage.getItem(storageKey);
+      return saved ? JSON.parse(saved) : emptyServerState();
+    } catch (error) {
+      console.warn('Resetting unreadable local sync server state:', error);
+      return emptyServerState();
+    }
+  };
+
+  const write = (state: LocalServerState) => {
+    memory = state;
+    if (storageKey) {
+      localStorage.setItem(storageKey, JSON.stringify(state));
+    }
+  };
+
+  const delay = () => latencyMs > 0 ? new Promise(resolve => setTimeout(resolve, latencyMs)) : Promise.resolve();
+
+  /**
+   * The reason each scope is refused, for a request with an API token. An
+   * invalid token fails the whole request, as the HTTP endpoint answers 401.
+   */
+  const checkScopes = async (request: string, authorization: string | undefined, scopes: ApiScope[]) => {
+    const refused = new Map<ApiScope, string>();
+    if (!authorize || authorization === undefined) return refused;
+    for (const scope of new Set(scopes)) {
+      const result = await authorize(authorization, scope);
+      if (!result.ok && result.status === 401) {
+        throw new Error(`Sync API Error: ${request} failed with 401: ${result.error}`);
+      }
+      if (!result.ok) refused.set(scope, result.error);
+    }
+    return refused;
+  };
+
+  const push = async ({ clientId, changes }: PushRequest, options: SyncRequestOptions = {}): Promise<PushResponse> => {
+    await delay();
+    const refused = await checkScopes('POST push', options.authorization, changes.map(pushScope));
+    const state = read();
+    const latest = new Map(state.log.map(change => [syncKey(change.collection, change.entityId), change]));
+    const response: PushResponse = { applied: [], conflicts: [], rejected: [], revision: state.revision };
+
+    changes.forEach(change => {
+      const key = syncKey(change.collection, change.entityId);
+      const problem = refused.get(pushScope(change)) ?? (change.entity ? validateEntity(change.collection, change.entity) : null);
+      if (problem) {
+        response.rejected.push({ seq: change.seq, reason: problem });
+        return;
+      }
+      const current = latest.get(key);
+      // Re-sending what the server already has (for example after a lost response) is not a conflict
+      if (current && (current.op === 'delete') === (change.op === 'delete') && JSON.stringify(current.entity) === JSON.stringify(change.entity)) {
+        response.applied.push({ seq: change.seq, revision: current.revision });
+        return;
+      }
+      if (current && current.revision > change.baseRevision) {
+        response.conflicts.push({ seq: change.seq, current });
+        return;
+      }
+
+      state.revision += 1;
+      const committed: ServerChange = {
+        revision: state.revision,
+        collection: change.collection,
+        entityId: change.entityId,
+        op: change.op,
+        entity: change.entity,
+        clientId,
+        editedAt: change.recordedAt,
+        committedAt: new Date().toISOString(),
+      };
+      latest.set(key, committed);
+      response.applied.push({ seq: change.seq, revision: state.revision });
+    });
+
+    response.revision = state.revision;
+    write({ revision: state.revision, log: [...latest.values()].sort((a, b) => a.revision - b.revision) });
+    return response;
+  };
+
+  const pull = async (since: number, options: SyncRequestOptions = {}): Promise<PullResponse> => {
+    await delay();
+    const refused = await checkScopes('GET changes', options.authorization, [READ_SCOPE]);
+    if (refused.size > 0) {
+      throw new Error(`Sync API Error: GET changes failed with 403: ${refused.get(READ_SCOPE)}`);
+    }
+    const state = read();
+    return {
+      changes: state.log.filter(change => change.revision > since),
+      revision: state.revision,
+    };
+  };
+
+  // Nothing leaves the browser, so there is nothing to compress
+  return { name: 'local', supportsCompression: false, push, pull };
+}
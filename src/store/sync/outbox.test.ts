@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { emptyOutbox, MAX_PUSH_ATTEMPTS, Outbox, recordPushFailure, requeuePoisoned, retryDelay } from './outbox';
+import { ChangeEntry } from './protocol';
+
+const change = (seq: number, overrides: Partial<ChangeEntry> = {}): ChangeEntry => ({
+  seq,
+  collection: 'pipelines',
+  entityId: `p${seq}`,
+  op: 'update',
+  entity: { id: `p${seq}` },
+  baseRevision: 1,
+  recordedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const outboxOf = (pending: ChangeEntry[], poisoned: Outbox['poisoned'] = []): Outbox =>
+  ({ ...emptyOutbox(), seq: 10, pending, poisoned });
+
+describe('retryDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('waits between half and all of the exponential step', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect([0, 1, 2, 3].map(retryDelay)).toEqual([500, 1000, 2000, 4000]);
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect([0, 1, 2, 3].map(retryDelay)).toEqual([1000, 2000, 4000, 8000]);
+  });
+
+  it('caps the step at five minutes', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(retryDelay(30)).toBe(150_000);
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(retryDelay(30)).toBe(300_000);
+  });
+});
+
+describe('recordPushFailure', () => {
+  const now = new Date('2024-01-02T00:00:00.000Z');
+
+  it('counts the failure against the change', () => {
+    const outbox = recordPushFailure(outboxOf([change(1), change(2)]), 1, 'Timed out', now);
+    expect(outbox.pending).toEqual([{ ...change(1), attempts: 1, lastError: 'Timed out' }, change(2)]);
+    expect(outbox.poisoned).toEqual([]);
+  });
+
+  it(`sets the change aside on failure ${MAX_PUSH_ATTEMPTS}`, () => {
+    const failing = change(1, { attempts: MAX_PUSH_ATTEMPTS - 1 });
+    const outbox = recordPushFailure(outboxOf([failing, change(2)]), 1, 'Timed out', now);
+    expect(outbox.pending).toEqual([change(2)]);
+    expect(outbox.poisoned).toEqual([{
+      change: { ...failing, attempts: MAX_PUSH_ATTEMPTS, lastError: 'Timed out' },
+      poisonedAt: now.toISOString(),
+      reason: `Failed ${MAX_PUSH_ATTEMPTS} times: Timed out`,
+    }]);
+  });
+
+  it('leaves the outbox alone when the change is gone', () => {
+    const outbox = outboxOf([change(2)]);
+    expect(recordPushFailure(outbox, 1, 'Timed out', now)).toBe(outbox);
+  });
+});
+
+describe('requeuePoisoned', () => {
+  const poisoned = (entry: ChangeEntry) => ({ change: { ...entry, attempts: MAX_PUSH_ATTEMPTS, lastError: 'Timed out' }, poisonedAt: '', reason: '' });
+
+  it('puts the change back at its original position with its attempts reset', () => {
+    const outbox = requeuePoisoned(outboxOf([change(1), change(3)], [poisoned(change(2))]), 2);
+    expect(outbox.pending.map(entry => entry.seq)).toEqual([1, 2, 3]);
+    expect(outbox.pending[1]).toMatchObject({ attempts: 0, lastError: undefined });
+    expect(outbox.poisoned).toEqual([]);
+  });
+
+  it('drops the change when the entity was edited since, keeping it a create', () => {
+    const created = change(1, { op: 'create' });
+    const edited = change(4, { entityId: 'p1' });
+    const outbox = requeuePoisoned(outboxOf([edited], [poisoned(created)]), 1);
+    expect(outbox.pending).toEqual([{ ...edited, op: 'create' }]);
+    expect(outbox.poisoned).toEqual([]);
+  });
+
+  it('leaves the outbox alone for an unknown change', () => {
+    const outbox = outboxOf([change(1)]);
+    expect(requeuePoisoned(outbox, 7)).toBe(outbox);
+  });
+});
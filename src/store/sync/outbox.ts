@@ -0,0 +1,98 @@
+import { ChangeEntry, syncKey } from './protocol';
+
+// Shared by every tab: each records only its own edits, and whichever tab syncs first pushes them all
+export const OUTBOX_KEY = 'ml_dashboard_sync_outbox';
+
+// A change that keeps failing while first in line is set aside after this many pushes
+export const MAX_PUSH_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/** A change set aside so it no longer blocks the ones queued after it. */
+export interface PoisonedChange {
+  change: ChangeEntry;
+  poisonedAt: string;
+  reason: string;
+}
+
+export interface Outbox {
+  /** Last sequence number handed out, shared so entries from different tabs never collide. */
+  seq: number;
+  pending: ChangeEntry[];
+  poisoned: PoisonedChange[];
+}
+
+export const emptyOutbox = (): Outbox => ({ seq: 0, pending: [], poisoned: [] });
+
+/** Resolves to null when nothing has been saved yet or the saved outbox cannot be read. */
+export function loadOutbox(): Outbox | null {
+  try {
+    const saved = localStorage.getItem(OUTBOX_KEY);
+    return saved ? { ...emptyOutbox(), ...JSON.parse(saved) } : null;
+  } catch (error) {
+    console.warn('Failed to load the sync outbox:', error);
+    return null;
+  }
+}
+
+export function saveOutbox(outbox: Outbox) {
+  try {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+  } catch (error) {
+    // Usually QuotaExceededError; the changes stay queued in this tab until it closes
+    console.warn('Failed to save the sync outbox:', error);
+  }
+}
+
+/** Exponential backoff with jitter: a random delay between half and all of the capped exponential step. */
+export function retryDelay(attempt: number): number {
+  const step = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  return Math.round(step / 2 + Math.random() * step / 2);
+}
+
+/** Counts a failed push against the change `seq`, setting it aside once it has failed MAX_PUSH_ATTEMPTS times. */
+export function recordPushFailure(outbox: Outbox, seq: number, message: string, now = new Date()): Outbox {
+  const change = outbox.pending.find(entry => entry.seq === seq);
+  if (!change) return outbox;
+
+  const attempts = (change.attempts ?? 0) + 1;
+  if (attempts < MAX_PUSH_ATTEMPTS) {
+    return { ...outbox, pending: outbox.pending.map(entry => entry === change ? { ...entry, attempts, lastError: message } : entry) };
+  }
+  return {
+    ...outbox,
+    pending: outbox.pending.filter(entry => entry !== change),
+    poisoned: [
+      ...outbox.poisoned,
+      { change: { ...change, attempts, lastError: message }, poisonedAt: now.toISOString(), reason: `Failed ${attempts} times: ${message}` },
+    ],
+  };
+}
+
+/**
+ * Puts a poisoned change back in line at its original position. When the
+ * entity was edited again in the meantime, the newer pending change already
+ * carries its latest state and only needs to remember that it is a create.
+ */
+export function requeuePoisoned(outbox: Outbox, seq: number): Outbox {
+  const entry = outbox.poisoned.find(poisonedChange => poisonedChange.change.seq === seq);
+  if (!entry) return outbox;
+
+  const { change } = entry;
+  const poisoned = outbox.poisoned.filter(poisonedChange => poisonedChange !== entry);
+  const key = syncKey(change.collection, change.entityId);
+  const newer = outbox.pending.find(entry => syncKey(entry.collection, entry.entityId) === key);
+  if (newer) {
+    return {
+      ...outbox,
+      poisoned,
+      pending: outbox.pending.map(pending => pending === newer && change.op === 'create' && pending.op === 'update' ? { ...pending, op: 'create' } : pending),
+    };
+  }
+
+  return {
+    ...outbox,
+    poisoned,
+    pending: [...outbox.pending, { ...change, attempts: 0, lastError: undefined }].sort((a, b) => a.seq - b.seq),
+  };
+}
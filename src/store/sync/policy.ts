@@ -0,0 +1,66 @@
+import { CollectionKey } from '../dashboardStore';
+import { SYNCED_COLLECTIONS } from './protocol';
+
+// Shared by every tab, like the rest of the settings it mirrors
+export const SYNC_POLICY_KEY = 'ml_dashboard_sync_policy';
+export const MIN_SYNC_INTERVAL_SECONDS = 10;
+export const MAX_SYNC_INTERVAL_SECONDS = 300;
+
+/** When and what to sync; the sync fields of Settings > System. */
+export interface SyncPolicy {
+  autoSync: boolean;
+  /** Seconds between automatic syncs. */
+  syncInterval: number;
+  /** Also sync automatically when the tab regains focus or becomes visible. */
+  syncOnFocus: boolean;
+  /** Gzip push payloads. */
+  compressionEnabled: boolean;
+  /** Collections kept on this device only: neither pushed nor pulled. */
+  excludedCollections: CollectionKey[];
+}
+
+export const DEFAULT_SYNC_POLICY: SyncPolicy = {
+  autoSync: true,
+  syncInterval: 30,
+  syncOnFocus: true,
+  compressionEnabled: true,
+  excludedCollections: [],
+};
+
+/** Fills in defaults and clamps values, so older or hand-edited settings still load. */
+export function normalizeSyncPolicy(raw: unknown): SyncPolicy {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof SyncPolicy, unknown>>;
+  const interval = Number(value.syncInterval);
+  return {
+    autoSync: typeof value.autoSync === 'boolean' ? value.autoSync : DEFAULT_SYNC_POLICY.autoSync,
+    syncInterval: Number.isFinite(interval)
+      ? Math.min(MAX_SYNC_INTERVAL_SECONDS, Math.max(MIN_SYNC_INTERVAL_SECONDS, Math.round(interval)))
+      : DEFAULT_SYNC_POLICY.syncInterval,
+    syncOnFocus: typeof value.syncOnFocus === 'boolean' ? value.syncOnFocus : DEFAULT_SYNC_POLICY.syncOnFocus,
+    compressionEnabled: typeof value.compressionEnabled === 'boolean' ? value.compressionEnabled : DEFAULT_SYNC_POLICY.compressionEnabled,
+    excludedCollections: Array.isArray(value.excludedCollections)
+      ? SYNCED_COLLECTIONS.filter(collection => (value.excludedCollections as unknown[]).includes(collection))
+      : [],
+  };
+}
+
+export function loadSyncPolicy(): SyncPolicy {
+  try {
+    const saved = localStorage.getItem(SYNC_POLICY_KEY);
+    return saved ? normalizeSyncPolicy(JSON.parse(saved)) : DEFAULT_SYNC_POLICY;
+  } catch (error) {
+    console.warn('Failed to load the sync policy:', error);
+    return DEFAULT_SYNC_POLICY;
+  }
+}
+
+export function saveSyncPolicy(policy: SyncPolicy) {
+  try {
+    localStorage.setItem(SYNC_POLICY_KEY, JSON.stringify(policy));
+  } catch (error) {
+    console.warn('Failed to save the sync policy:', error);
+  }
+}
+
+export const syncedCollections = (policy: SyncPolicy) =>
+  SYNCED_COLLECTIONS.filter(collection => !policy.excludedCollections.includes(collection));
@@ -0,0 +1,78 @@
+import { CollectionKey } from '../dashboardStore';
+
+export type SyncOperation = 'create' | 'update' | 'delete';
+
+// Trash stays local: it holds snapshots of entities the server already knows as deleted
+export const SYNCED_COLLECTIONS: CollectionKey[] = ['pipelines', 'pipelineRuns', 'datasets', 'alerts', 'experiments', 'externalConnections'];
+
+/** A local change waiting to be pushed. */
+export interface ChangeEntry {
+  /** Local sequence number; changes are pushed in this order. */
+  seq: number;
+  collection: CollectionKey;
+  entityId: string;
+  op: SyncOperation;
+  /** Missing for deletes. */
+  entity?: { id: string };
+  /** Server revision of the entity this change was made on; 0 when the server has never seen it. */
+  baseRevision: number;
+  /** The entity as it was before the first unpushed edit, used to merge conflicting edits field by field. */
+  base?: { id: string };
+  recordedAt: string;
+  /** Failed pushes while this change was first in line. */
+  attempts?: number;
+  lastError?: string;
+}
+
+/** A change as the server stored it, stamped with the server revision it produced. */
+export interface ServerChange {
+  revision: number;
+  collection: CollectionKey;
+  entityId: string;
+  op: SyncOperation;
+  entity?: { id: string };
+  clientId: string;
+  /** When the client made the change, for last-writer-wins. */
+  editedAt: string;
+  committedAt: string;
+}
+
+export interface PushRequest {
+  clientId: string;
+  changes: ChangeEntry[];
+}
+
+export interface PushResponse {
+  applied: { seq: number; revision: number }[];
+  /** Changes made on an outdated revision, with the server's current version of the entity. */
+  conflicts: { seq: number; current: ServerChange }[];
+  /** Changes the server will never accept as they are, for example because they fail validation. */
+  rejected: { seq: number; reason: string }[];
+  revision: number;
+}
+
+export interface PullResponse {
+  /** The latest change per entity since the requested revision, oldest first. */
+  changes: ServerChange[];
+  revision: number;
+}
+
+/**
+ * Delta sync protocol:
+ *   POST {endpoint}/push                  PushRequest -> PushResponse
+ *   GET  {endpoint}/changes?since={rev}   -> PullResponse
+ */
+export interface SyncTransport {
+  readonly name: string;
+  readonly supportsCompression: boolean;
+  /** With `compress`, the request body is sent gzipped where the transport supports it. */
+  push: (request: PushRequest, options?: SyncRequestOptions & { compress?: boolean }) => Promise<PushResponse>;
+  pull: (since: number, options?: SyncRequestOptions) => Promise<PullResponse>;
+}
+
+export interface SyncRequestOptions {
+  /** Sent as the `Authorization` header by scripts with an API token; the dashboard's own requests have none. */
+  authorization?: string;
+}
+
+export const syncKey = (collection: CollectionKey, entityId: string) => `${collection}:${entityId}`;
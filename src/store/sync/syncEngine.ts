@@ -0,0 +1,565 @@
+import { CollectionKey, DashboardAction, DashboardStore, emptyDashboardState, entityAction, EntityOf } from '../dashboardStore';
+import { diffDashboardState } from '../persistence';
+import { CollectionChanges } from '../storage';
+import { recordChanges, snapshotChanges } from './changelog';
+import { ConflictStrategy, FieldChoice, pickFields, resolveConflict, SyncConflict, SyncEntity } from './conflicts';
+import { appendJournalEntry, clearJournal, countByCollection, loadJournal, payloadBytes, SyncJournalEntry } from './journal';
+import { loadSyncPolicy, normalizeSyncPolicy, saveSyncPolicy, SYNC_POLICY_KEY, SyncPolicy, syncedCollections } from './policy';
+import { emptyOutbox, loadOutbox, Outbox, OUTBOX_KEY, PoisonedChange, recordPushFailure, requeuePoisoned, retryDelay, saveOutbox } from './outbox';
+import { ChangeEntry, PushResponse, ServerChange, SYNCED_COLLECTIONS, SyncTransport, syncKey } from './protocol';
+
+// Server cursor, per-entity revisions and open conflicts, so a reload resumes where it stopped
+const SYNC_STATE_KEY = 'ml_dashboard_sync_state';
+const DEFAULT_CONFLICT_STRATEGY: ConflictStrategy = 'field-merge';
+// Changes the strategy settled in favour of the client are pushed again within the same sync
+const MAX_PUSH_ROUNDS = 2;
+
+interface SyncCursor {
+  revision: number;
+  revisions: Record<string, number>;
+  conflicts: SyncConflict[];
+  strategy: ConflictStrategy;
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  /** Pushed changes the server rejected as made on an outdated revision. */
+  conflicts: number;
+}
+
+export interface SyncSnapshot {
+  isSyncing: boolean;
+  lastSync: string | null;
+  /** Server revision this client has pulled up to. */
+  revision: number;
+  pending: ChangeEntry[];
+  /** Changes set aside after the server refused them or they kept failing; retried only on request. */
+  poisoned: PoisonedChange[];
+  /** Set while a failed sync waits for its automatic retry. */
+  retry?: { attempt: number; nextRetryAt: string };
+  /** Conflicts the strategy could not settle. */
+  conflicts: SyncConflict[];
+  strategy: ConflictStrategy;
+  errors: string[];
+  lastResult?: SyncResult;
+  /** Every push and pull, newest first. */
+  journal: SyncJournalEntry[];
+  policy: SyncPolicy;
+}
+
+export interface SyncEngine {
+  /** Starts recording store changes; returns the function that stops it. */
+  start: () => () => void;
+  /** A full sync pulls every entity again, repairing local copies that drifted from the server. */
+  sync: (options?: { full?: boolean }) => Promise<SyncResult | null>;
+  setConflictStrategy: (strategy: ConflictStrategy) => void;
+  /**
+   * Saves the sync policy. Pending changes of a collection that stops syncing
+   * are dropped; a collection that starts syncing again is queued whole and
+   * pulled in full on the next sync, so nothing changed in between is missed.
+   */
+  setPolicy: (policy: SyncPolicy) => void;
+  /** Puts a poisoned change back in the outbox at its original position. */
+  retryPoisoned: (seq: number) => void;
+  clearJournal: () => void;
+  /** Settles an open conflict by taking one side, or a per-field choice between the two. */
+  resolveConflict: (conflictId: string, resolution: FieldChoice | Record<string, FieldChoice>) => void;
+  getSnapshot: () => SyncSnapshot;
+  subscribe: (listener: () => void) => () => void;
+}
+
+/** `local` marks entities of a collection the sync policy excludes. */
+export type EntitySyncState = 'synced' | 'pending' | 'failed' | 'local';
+
+/**
+ * Sync state of every entity that is not simply synced, keyed by
+ * `collection:id`. Open conflicts and poisoned changes count as failed.
+ * Entities of excluded collections are not listed; they are all local.
+ */
+export function entitySyncStates(snapshot: SyncSnapshot): Map<string, EntitySyncState> {
+  const states = new Map<string, EntitySyncState>();
+  snapshot.pending.forEach(change => states.set(syncKey(change.collection, change.entityId), 'pending'));
+  snapshot.poisoned.forEach(({ change }) => states.set(syncKey(change.collection, change.entityId), 'failed'));
+  snapshot.conflicts.forEach(conflict => states.set(syncKey(conflict.collection, conflict.entityId), 'failed'));
+  return states;
+}
+
+const loadCursor = (): SyncCursor | null => {
+  try {
+    const saved = localStorage.getItem(SYNC_STATE_KEY);
+    return saved ? { conflicts: [], strategy: DEFAULT_CONFLICT_STRATEGY, ...JSON.parse(saved) } : null;
+  } catch (error) {
+    console.warn('Failed to load sync state:', error);
+    return null;
+  }
+};
+
+const saveCursor = (cursor: SyncCursor) => {
+  try {
+    localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(cursor));
+  } catch (error) {
+    console.warn('Failed to save sync state:', error);
+  }
+};
+
+// Upserts server versions in place (new entities first) and drops deleted ones
+const applyServerChanges = (changes: Pick<ServerChange, 'collection' | 'entityId' | 'op' | 'entity'>[]): DashboardAction => ({
+  type: 'batch',
+  source: 'server',
+  actions: SYNCED_COLLECTIONS
+    .map(collection => changes.filter(change => change.collection === collection))
+    .filter(collectionChanges => collectionChanges.length > 0)
+    .map(collectionChanges => entityAction({
+      type: 'set',
+      collection: collectionChanges[0].collection,
+      update: prev => {
+        const deleted = new Set(collectionChanges.filter(change => change.op === 'delete').map(change => change.entityId));
+        // The server validated them as entities of this collection when they were pushed
+        const upserts = new Map(collectionChanges.filter(change => change.entity)
+          .map(change => [change.entityId, change.entity as EntityOf<CollectionKey>]));
+        const updated = prev.filter(entity => !deleted.has(entity.id)).map(entity => upserts.get(entity.id) ?? entity);
+        const added = [...upserts.values()].filter(entity => !prev.some(existing => existing.id === entity.id));
+        return [...added, ...updated];
+      },
+    })),
+});
+
+const isSameEntity = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Tracks every local create, update and delete as a per-entity change in a
+ * durable outbox and syncs them with a server through the push/pull delta
+ * protocol. Changes are pushed in the order they were made; a failed sync is
+ * retried with jittered exponential backoff, and a change the server refuses,
+ * or that keeps failing while first in line, is set aside as poisoned. A sync
+ * pushes the pending changes, then pulls everything committed since the last
+ * pulled revision. Server changes are dispatched as server batches, which are
+ * persisted but neither recorded again nor broadcast to other tabs (each tab
+ * pulls for itself). A pushed change made on an outdated revision is a
+ * conflict, settled by the configured strategy; what the strategy cannot
+ * settle stays open, with the local version kept, until the user resolves it.
+ * Collections the sync policy excludes are neither recorded nor pulled; when
+ * to sync is up to the caller, which reads the rest of the policy.
+ */
+export function createSyncEngine(store: DashboardStore, transport: SyncTransport): SyncEngine {
+  const clientId = `client_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const savedCursor = loadCursor();
+  const cursor: SyncCursor = savedCursor ?? { revision: 0, revisions: {}, conflicts: [], strategy: DEFAULT_CONFLICT_STRATEGY };
+  // Kept in memory as well, for when storage is unavailable
+  let outbox: Outbox = loadOutbox() ?? emptyOutbox();
+  let policy = loadSyncPolicy();
+  // Set when a collection starts syncing again, as the cursor moved on without it
+  let fullPullDue = false;
+  let failures = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let snapshot: SyncSnapshot = {
+    isSyncing: false,
+    lastSync: null,
+    revision: cursor.revision,
+    pending: outbox.pending,
+    poisoned: outbox.poisoned,
+    conflicts: cursor.conflicts,
+    strategy: cursor.strategy,
+    errors: [],
+    journal: loadJournal(),
+    policy,
+  };
+  const listeners = new Set<() => void>();
+
+  const setSnapshot = (changes: Partial<SyncSnapshot>) => {
+    snapshot = { ...snapshot, ...changes };
+    listeners.forEach(listener => listener());
+  };
+
+  const revisionOf = (key: string) => cursor.revisions[key] ?? 0;
+
+  // Re-reads the shared outbox before every change so entries queued by other tabs are kept
+  const readOutbox = () => loadOutbox() ?? outbox;
+
+  const updateOutbox = (update: (current: Outbox, nextSeq: () => number) => Partial<Pick<Outbox, 'pending' | 'poisoned'>>) => {
+    const current = readOutbox();
+    let seq = current.seq;
+    const changes = update(current, () => ++seq);
+    outbox = { ...current, ...changes, seq };
+    saveOutbox(outbox);
+    setSnapshot({ pending: outbox.pending, poisoned: outbox.poisoned });
+  };
+
+  // Runs one request against the server and records it in the journal, whether or not it succeeds
+  const journaled = async <T>(
+    kind: SyncJournalEntry['kind'],
+    body: unknown,
+    entities: SyncJournalEntry['entities'],
+    request: () => Promise<T>,
+    describe: (response: T) => Partial<SyncJournalEntry>,
+  ): Promise<T> => {
+    const compressed = kind === 'push' && compress();
+    const startedAt = new Date();
+    const entry = (details: Partial<SyncJournalEntry>): SyncJournalEntry => ({
+      id: `journal_${startedAt.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+      kind,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      bytesSent: payloadBytes(body),
+      bytesReceived: 0,
+      entities,
+      conflicts: 0,
+      rejected: 0,
+      compressed,
+      ...details,
+    });
+
+    try {
+      const response = await request();
+      setSnapshot({ journal: appendJournalEntry(entry({ bytesReceived: payloadBytes(response), ...describe(response) })) });
+      return response;
+    } catch (error) {
+      setSnapshot({ journal: appendJournalEntry(entry({ error: error instanceof Error ? error.message : 'Unknown error' })) });
+      throw error;
+    }
+  };
+
+  const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+  const compress = () => policy.compressionEnabled && transport.supportsCompression;
+
+  // Starts tracking collections that were just included, and stops tracking the ones just excluded
+  const applyPolicyChange = (previous: SyncPolicy, next: SyncPolicy, queueChanges: boolean) => {
+    const included = previous.excludedCollections.filter(collection => !next.excludedCollections.includes(collection));
+    const excluded = next.excludedCollections.filter(collection => !previous.excludedCollections.includes(collection));
+    if (included.length > 0) {
+      fullPullDue = true;
+    }
+    // Other tabs share the outbox, so only the tab that changed the policy updates it
+    if (!queueChanges || (included.length === 0 && excluded.length === 0)) return;
+
+    updateOutbox((current, nextSeq) => ({
+      pending: recordChanges(
+        current.pending.filter(change => !excluded.includes(change.collection)),
+        snapshotChanges(store.getState(), included),
+        emptyDashboardState,
+        revisionOf,
+        nextSeq,
+      ),
+    }));
+  };
+
+  const start = () => {
+    // A client that has never synced uploads its whole workspace first
+    if (!savedCursor && outbox.pending.length === 0) {
+      updateOutbox((current, nextSeq) => ({
+        pending: recordChanges(current.pending, snapshotChanges(store.getState(), syncedCollections(policy)), emptyDashboardState, revisionOf, nextSeq),
+      }));
+    }
+
+    const unsubscribe = store.subscribe((state, previous, action) => {
+      if (action.type === 'hydrate' || (action.type === 'batch' && action.source)) return;
+
+      const included = syncedCollections(policy);
+      const changes = diffDashboardState(previous, state).filter(({ collection }) => included.includes(collection));
+      if (changes.length === 0) return;
+      updateOutbox((current, nextSeq) => ({ pending: recordChanges(current.pending, changes, previous, revisionOf, nextSeq) }));
+    });
+
+    // Keep the counts in step with what other tabs queue, and the policy with what they save
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === OUTBOX_KEY) {
+        outbox = readOutbox();
+        setSnapshot({ pending: outbox.pending, poisoned: outbox.poisoned });
+      } else if (event.key === SYNC_POLICY_KEY) {
+        const previous = policy;
+        policy = loadSyncPolicy();
+        applyPolicyChange(previous, policy, false);
+        setSnapshot({ policy });
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('storage', handleStorage);
+      clearTimeout(retryTimer);
+    };
+  };
+
+  const setConflicts = (conflicts: SyncConflict[]) => {
+    cursor.conflicts = conflicts;
+    saveCursor(cursor);
+    setSnapshot({ conflicts });
+  };
+
+  // Queues a resolved version as a change on top of the server revision it was resolved against
+  const queueResolved = (change: Pick<ChangeEntry, 'collection' | 'entityId'>, entity: SyncEntity | undefined, serverRevision: number, server?: SyncEntity) => {
+    const key = syncKey(change.collection, change.entityId);
+    cursor.revisions[key] = serverRevision;
+    const changes: CollectionChanges[] = [{ collection: change.collection, upserts: entity ? [entity] : [], deletes: entity ? [] : [change.entityId] }];
+    const previous = { ...emptyDashboardState, [change.collection]: server ? [server] : [] };
+    updateOutbox((current, nextSeq) => ({
+      pending: recordChanges(current.pending.filter(entry => syncKey(entry.collection, entry.entityId) !== key), changes, previous, revisionOf, nextSeq),
+    }));
+  };
+
+  const pushRound = async (headOnly: boolean): Promise<{ pushed: number; conflicts: number; requeued: number }> => {
+    const { pending } = readOutbox();
+    const outgoing = headOnly ? pending.slice(0, 1) : pending;
+    if (outgoing.length === 0) return { pushed: 0, conflicts: 0, requeued: 0 };
+
+    let response: PushResponse;
+    try {
+      // The merge base stays on this client
+      const body = { clientId, changes: outgoing.map(change => ({ ...change, base: undefined })) };
+      response = await journaled('push', body, countByCollection(outgoing), () => transport.push(body, { compress: compress() }), pushed => ({
+        conflicts: pushed.conflicts.length,
+        rejected: pushed.rejected?.length ?? 0,
+      }));
+    } catch (error) {
+      // Failures while offline say nothing about the change itself
+      if (isOnline()) {
+        recordFailedPush(outgoing[0], error instanceof Error ? error.message : 'Unknown error');
+      }
+      throw error;
+    }
+    const bySeq = new Map(outgoing.map(change => [change.seq, change]));
+    const settled = new Set<number>();
+    const rejected = response.rejected ?? [];
+
+    response.applied.forEach(({ seq: appliedSeq, revision }) => {
+      const change = bySeq.get(appliedSeq);
+      if (!change) return;
+      cursor.revisions[syncKey(change.collection, change.entityId)] = revision;
+      settled.add(appliedSeq);
+    });
+
+    const serverWins: ServerChange[] = [];
+    const resolved: { change: ChangeEntry; entity?: SyncEntity; current: ServerChange }[] = [];
+    const opened: SyncConflict[] = [];
+    response.conflicts.forEach(({ seq: conflictSeq, current }) => {
+      const change = bySeq.get(conflictSeq);
+      settled.add(conflictSeq);
+      if (!change) return;
+
+      const resolution = resolveConflict(cursor.strategy, change, current);
+      if (resolution.keep === 'server') {
+        cursor.revisions[syncKey(current.collection, current.entityId)] = current.revision;
+        serverWins.push(current);
+      } else if (resolution.keep === 'local') {
+        resolved.push({ change, entity: (resolution.entity ?? change.entity) as SyncEntity | undefined, current });
+      } else {
+        opened.push({
+          id: `conflict_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+          collection: change.collection,
+          entityId: change.entityId,
+          local: change.entity as SyncEntity | undefined,
+          server: current.entity as SyncEntity | undefined,
+          base: change.base as SyncEntity | undefined,
+          serverRevision: current.revision,
+          fields: resolution.fields,
+          detectedAt: new Date().toISOString(),
+        });
+      }
+    });
+
+    if (serverWins.length > 0) {
+      store.dispatch(applyServerChanges(serverWins));
+    }
+
+    // Edits recorded while the push was in flight now build on the revision it produced
+    updateOutbox(current => ({
+      pending: current.pending
+        .filter(change => !settled.has(change.seq) && !rejected.some(rejection => rejection.seq === change.seq))
+        .map(change => ({ ...change, baseRevision: Math.max(change.baseRevision, revisionOf(syncKey(change.collection, change.entityId))) })),
+      poisoned: [
+        ...current.poisoned,
+        ...rejected.flatMap(({ seq, reason }) => {
+          const change = bySeq.get(seq);
+          return change ? [{ change, poisonedAt: new Date().toISOString(), reason: `Rejected by the server: ${reason}` }] : [];
+        }),
+      ],
+    }));
+
+    resolved.forEach(({ change, entity, current }) => {
+      const key = syncKey(change.collection, change.entityId);
+      // A newer local edit made during the push wins as well; it just moves onto the server revision
+      if (snapshot.pending.some(entry => syncKey(entry.collection, entry.entityId) === key)) {
+        cursor.revisions[key] = current.revision;
+        updateOutbox(latest => ({
+          pending: latest.pending.map(entry => syncKey(entry.collection, entry.entityId) === key ? { ...entry, baseRevision: current.revision } : entry),
+        }));
+        return;
+      }
+      if (entity && !isSameEntity(entity, change.entity)) {
+        store.dispatch(applyServerChanges([{ ...change, entity }]));
+      }
+      queueResolved(change, entity, current.revision, current.entity as SyncEntity | undefined);
+    });
+
+    if (opened.length > 0) {
+      // A newer conflict on the same entity replaces the open one
+      const openedKeys = new Set(opened.map(conflict => syncKey(conflict.collection, conflict.entityId)));
+      setConflicts([
+        ...cursor.conflicts.filter(conflict => !openedKeys.has(syncKey(conflict.collection, conflict.entityId))),
+        ...opened,
+      ]);
+    }
+
+    return { pushed: response.applied.length, conflicts: response.conflicts.length, requeued: resolved.length };
+  };
+
+  const push = async (): Promise<Pick<SyncResult, 'pushed' | 'conflicts'>> => {
+    const total = { pushed: 0, conflicts: 0 };
+    // After a failure the first change goes alone, so a change that cannot be pushed is found and set aside
+    if (failures > 0) {
+      const { pushed, conflicts } = await pushRound(true);
+      total.pushed += pushed;
+      total.conflicts += conflicts;
+    }
+    for (let round = 0; round < MAX_PUSH_ROUNDS; round++) {
+      const { pushed, conflicts, requeued } = await pushRound(false);
+      total.pushed += pushed;
+      total.conflicts += conflicts;
+      if (requeued === 0) break;
+    }
+    return total;
+  };
+
+  const pull = async (full: boolean): Promise<number> => {
+    const since = full ? 0 : cursor.revision;
+    const response = await journaled('pull', { since }, {}, () => transport.pull(since), pulled => ({
+      entities: countByCollection(pulled.changes),
+    }));
+    const { pending, poisoned } = readOutbox();
+    const pendingKeys = new Set([
+      ...[...pending, ...poisoned.map(entry => entry.change)].map(change => syncKey(change.collection, change.entityId)),
+      ...cursor.conflicts.map(conflict => syncKey(conflict.collection, conflict.entityId)),
+    ]);
+
+    // Entities with unpushed local edits or open conflicts keep them; the push settles which version wins
+    const included = syncedCollections(policy);
+    const incoming = response.changes.filter(change => {
+      const key = syncKey(change.collection, change.entityId);
+      if (!included.includes(change.collection) || pendingKeys.has(key) || (!full && revisionOf(key) >= change.revision)) return false;
+      cursor.revisions[key] = change.revision;
+      return true;
+    });
+
+    if (incoming.length > 0) {
+      store.dispatch(applyServerChanges(incoming));
+    }
+    cursor.revision = response.revision;
+    return incoming.length;
+  };
+
+  // Counts a failed push against the change first in line, setting it aside once it has failed too often
+  const recordFailedPush = (head: ChangeEntry, message: string) => {
+    updateOutbox(current => {
+      const { pending, poisoned } = recordPushFailure(current, head.seq, message);
+      return { pending, poisoned };
+    });
+  };
+
+  const scheduleRetry = () => {
+    clearTimeout(retryTimer);
+    // Coming back online triggers the next attempt instead
+    if (!isOnline()) {
+      setSnapshot({ retry: undefined });
+      return;
+    }
+    const delay = retryDelay(failures - 1);
+    retryTimer = setTimeout(() => sync(), delay);
+    setSnapshot({ retry: { attempt: failures, nextRetryAt: new Date(Date.now() + delay).toISOString() } });
+  };
+
+  const sync = async ({ full = false }: { full?: boolean } = {}): Promise<SyncResult | null> => {
+    if (snapshot.isSyncing) return null;
+    clearTimeout(retryTimer);
+    setSnapshot({ isSyncing: true, retry: undefined });
+
+    try {
+      const { pushed, conflicts } = await push();
+      const pullAll = full || fullPullDue;
+      const pulled = await pull(pullAll);
+      saveCursor(cursor);
+      if (pullAll) {
+        fullPullDue = false;
+      }
+
+      failures = 0;
+      const result = { pushed, pulled, conflicts };
+      setSnapshot({ isSyncing: false, lastSync: new Date().toISOString(), revision: cursor.revision, errors: [], lastResult: result });
+      return result;
+    } catch (error) {
+      saveCursor(cursor);
+      failures += 1;
+      setSnapshot({
+        isSyncing: false,
+        revision: cursor.revision,
+        errors: [`Sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`],
+      });
+      scheduleRetry();
+      return null;
+    }
+  };
+
+  const setConflictStrategy = (strategy: ConflictStrategy) => {
+    cursor.strategy = strategy;
+    saveCursor(cursor);
+    setSnapshot({ strategy });
+  };
+
+  const setPolicy = (next: SyncPolicy) => {
+    const previous = policy;
+    policy = normalizeSyncPolicy(next);
+    saveSyncPolicy(policy);
+    applyPolicyChange(previous, policy, true);
+    setSnapshot({ policy });
+  };
+
+  const resolveOpenConflict = (conflictId: string, resolution: FieldChoice | Record<string, FieldChoice>) => {
+    const conflict = cursor.conflicts.find(c => c.id === conflictId);
+    if (!conflict) return;
+
+    // Local edits made while the conflict was open count as the local side
+    const local = (store.getState()[conflict.collection] as unknown as SyncEntity[]).find(entity => entity.id === conflict.entityId);
+    const entity = resolution === 'server' ? conflict.server
+      : resolution === 'local' || !local || !conflict.server ? local
+      : pickFields(local, conflict.server, resolution);
+
+    store.dispatch(applyServerChanges([{ collection: conflict.collection, entityId: conflict.entityId, op: entity ? 'update' : 'delete', entity }]));
+    if (isSameEntity(entity, conflict.server)) {
+      const key = syncKey(conflict.collection, conflict.entityId);
+      cursor.revisions[key] = conflict.serverRevision;
+      updateOutbox(current => ({ pending: current.pending.filter(change => syncKey(change.collection, change.entityId) !== key) }));
+    } else {
+      queueResolved(conflict, entity, conflict.serverRevision, conflict.server);
+    }
+    setConflicts(cursor.conflicts.filter(c => c.id !== conflictId));
+  };
+
+  const retryPoisoned = (seq: number) => {
+    updateOutbox(current => {
+      const { pending, poisoned } = requeuePoisoned(current, seq);
+      return { pending, poisoned };
+    });
+  };
+
+  return {
+    start,
+    sync,
+    setConflictStrategy,
+    setPolicy,
+    retryPoisoned,
+    clearJournal: () => {
+      clearJournal();
+      setSnapshot({ journal: [] });
+    },
+    resolveConflict: resolveOpenConflict,
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  otpauthUri,
+  redeemSecondFactor,
+  totpCode,
+  totpStep,
+  verifyTotp,
+} from './totp';
+import { TwoFactorEnrollment } from '../types';
+
+// The shared secret of the RFC 6238 test vectors, "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('base32', () => {
+  it('round-trips bytes and ignores spacing and case', () => {
+    const bytes = new TextEncoder().encode('12345678901234567890');
+    expect(base32Encode(bytes)).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET.toLowerCase().match(/.{1,4}/g)!.join(' '))).toEqual(bytes);
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('ABC1')).toThrow(/Invalid base32 character "1"/);
+  });
+});
+
+describe('totpCode', () => {
+  it('matches the RFC 6238 SHA-1 test vectors', async () => {
+    expect(await totpCode(RFC_SECRET, totpStep(59 * 1000))).toBe('287082');
+    expect(await totpCode(RFC_SECRET, totpStep(1111111109 * 1000))).toBe('081804');
+    expect(await totpCode(RFC_SECRET, totpStep(1234567890 * 1000))).toBe('005924');
+    expect(await totpCode(RFC_SECRET, totpStep(20000000000 * 1000))).toBe('353130');
+  });
+});
+
+describe('verifyTotp', () => {
+  const now = 1111111109 * 1000;
+  const step = totpStep(now);
+
+  it('accepts the current code and its neighbours, and returns their step', async () => {
+    expect(await verifyTotp(RFC_SECRET, '081804', -1, now)).toBe(step);
+    expect(await verifyTotp(RFC_SECRET, await totpCode(RFC_SECRET, step - 1), -1, now)).toBe(step - 1);
+    expect(await verifyTotp(RFC_SECRET, await totpCode(RFC_SECRET, step + 1), -1, now)).toBe(step + 1);
+    expect(await verifyTotp(RFC_SECRET, await totpCode(RFC_SECRET, step - 2), -1, now)).toBeNull();
+  });
+
+  it('rejects a code that was already used', async () => {
+    expect(await verifyTotp(RFC_SECRET, '081804', step, now)).toBeNull();
+  });
+
+  it('rejects codes of the wrong shape', async () => {
+    expect(await verifyTotp(RFC_SECRET, '81804', -1, now)).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, 'abcdef', -1, now)).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, '081 804', -1, now)).toBe(step);
+  });
+});
+
+describe('redeemSecondFactor', () => {
+  const now = 1111111109 * 1000;
+
+  const enrollment = async (): Promise<{ enrollment: TwoFactorEnrollment; codes: string[] }> => {
+    const { codes, hashes } = await generateRecoveryCodes();
+    return {
+      codes,
+      enrollment: { secret: RFC_SECRET, enrolled_at: '2005-03-18T00:00:00.000Z', recovery_codes: hashes, last_used_step: -1 },
+    };
+  };
+
+  it('uses up an authenticator code', async () => {
+    const { enrollment: enrolled } = await enrollment();
+    const redeemed = await redeemSecondFactor(enrolled, '081804', now);
+    expect(redeemed?.last_used_step).toBe(totpStep(now));
+    expect(await redeemSecondFactor(redeemed!, '081804', now)).toBeNull();
+  });
+
+  it('uses up a recovery code, however it is typed', async () => {
+    const { enrollment: enrolled, codes } = await enrollment();
+    const redeemed = await redeemSecondFactor(enrolled, codes[3].toUpperCase().replace('-', ' '), now);
+    expect(redeemed?.recovery_codes).toHaveLength(codes.length - 1);
+    expect(await redeemSecondFactor(redeemed!, codes[3], now)).toBeNull();
+  });
+
+  it('rejects a wrong code', async () => {
+    const { enrollment: enrolled } = await enrollment();
+    expect(await redeemSecondFactor(enrolled, '000000', now)).toBeNull();
+    expect(await redeemSecondFactor(enrolled, 'aaaaa-bbbbb', now)).toBeNull();
+  });
+});
+
+describe('otpauthUri', () => {
+  it('names the issuer and account for authenticator apps', () => {
+    const uri = new URL(otpauthUri(RFC_SECRET, 'ada@example.com'));
+    expect(uri.protocol).toBe('otpauth:');
+    expect(`${uri.host}${decodeURIComponent(uri.pathname)}`).toBe('totp/ML Pipeline Dashboard:ada@example.com');
+    expect(Object.fromEntries(uri.searchParams)).toEqual({
+      secret: RFC_SECRET,
+      issuer: 'ML Pipeline Dashboard',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { SecretHash, TwoFactorEnrollment } from '../types';
+import { hashSecret, verifySecret } from './users';
+
+// RFC 6238 defaults, the only settings every authenticator app supports
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const SECRET_BYTES = 20;
+// Codes from the neighbouring time steps are accepted too, to allow for clock drift
+const ALLOWED_DRIFT_STEPS = 1;
+
+export const TOTP_ISSUER = 'ML Pipeline Dashboard';
+export const RECOVERY_CODE_COUNT = 10;
+// Recovery codes are random, not chosen by people, so a light work factor is enough
+const RECOVERY_CODE_ITERATIONS = 1000;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  bytes.forEach(byte => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(encoded: string): Uint8Array {
+  const clean = encoded.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character "${char}"`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(output);
+}
+
+/** A new shared secret, base32-encoded as authenticator apps expect it. */
+export const generateTotpSecret = () => base32Encode(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+
+export const totpStep = (now = Date.now()) => Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+
+/** The code for one time step (RFC 4226 HOTP over the step counter). */
+export async function totpCode(secret: string, step: number): Promise<string> {
+  const counter = new Uint8Array(8);
+  new DataView(counter.buffer).setUint32(0, Math.floor(step / 2 ** 32));
+  new DataView(counter.buffer).setUint32(4, step >>> 0);
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * The time step a code belongs to, or null when it does not match. Steps up to
+ * `lastUsedStep` are rejected, so a code cannot be used twice.
+ */
+export async function verifyTotp(secret: string, code: string, lastUsedStep = -1, now = Date.now()): Promise<number | null> {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) return null;
+  const current = totpStep(now);
+  for (let step = current - ALLOWED_DRIFT_STEPS; step <= current + ALLOWED_DRIFT_STEPS; step++) {
+    if (step > lastUsedStep && await totpCode(secret, step) === normalized) return step;
+  }
+  return null;
+}
+
+/** The URI authenticator apps read from the enrolment QR code. */
+export function otpauthUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString().replace(/\+/g, '%20')}`;
+}
+
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, '').toLowerCase();
+
+/** One-time codes like "4f9k2-x7m3q", shown once; only their hashes are stored. */
+export async function generateRecoveryCodes(): Promise<{ codes: string[]; hashes: SecretHash[] }> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  const hashes = await Promise.all(codes.map(code => hashSecret(normalizeRecoveryCode(code), RECOVERY_CODE_ITERATIONS)));
+  return { codes, hashes };
+}
+
+/** Index of the stored recovery code hash that matches, or -1. */
+export async function findRecoveryCode(code: string, hashes: SecretHash[]): Promise<number> {
+  const normalized = normalizeRecoveryCode(code);
+  for (let i = 0; i < hashes.length; i++) {
+    if (await verifySecret(normalized, hashes[i])) return i;
+  }
+  return -1;
+}
+
+/**
+ * Checks the second sign-in step, which takes an authenticator code or a
+ * recovery code. Returns the enrolment with the code used up, or null when
+ * the code is wrong.
+ */
+export async function redeemSecondFactor(enrollment: TwoFactorEnrollment, code: string, now = Date.now()): Promise<TwoFactorEnrollment | null> {
+  const step = await verifyTotp(enrollment.secret, code, enrollment.last_used_step, now);
+  if (step !== null) {
+    return { ...enrollment, last_used_step: step };
+  }
+  const recoveryIndex = await findRecoveryCode(code, enrollment.recovery_codes);
+  return recoveryIndex === -1
+    ? null
+    : { ...enrollment, recovery_codes: enrollment.recovery_codes.filter((_, i) => i !== recoveryIndex) };
+}
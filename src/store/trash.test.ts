@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { CollectionKey, dashboardReducer, DashboardState, emptyDashboardState, EntityOf } from './dashboardStore';
+import { cascadeDeleteActions, planCascadeDelete } from './integrity';
+import { createTrashEntry, isTrashExpired, restoreTrashActions } from './trash';
+
+const stateWith = (collections: Partial<Record<CollectionKey, object[]>>) =>
+  ({ ...emptyDashboardState, ...collections }) as unknown as DashboardState;
+
+const state = stateWith({
+  pipelines: [{ id: 'p1', name: 'Churn' }],
+  pipelineRuns: [{ id: 'r1', pipeline_id: 'p1', number: 1 }],
+  experiments: [{ id: 'e1', name: 'Churn v1', pipeline_id: 'p1' }, { id: 'e2', name: 'Churn v2', pipeline_id: 'p1' }],
+});
+
+// Deletes the pipeline the way the dashboard does: the group goes to the trash and its references are cleared
+const deletePipeline = (now = new Date('2024-01-01T00:00:00.000Z')) => {
+  const plan = planCascadeDelete(state, 'pipelines', ['p1']);
+  const entry = createTrashEntry(state, plan, { type: 'pipeline', id: 'p1' }, 'Churn', now);
+  const deleted = [...cascadeDeleteActions(plan), { type: 'add' as const, collection: 'trash' as const, entity: entry }]
+    .reduce(dashboardReducer, state);
+  return { entry, deleted };
+};
+
+describe('createTrashEntry', () => {
+  it('snapshots the removed entities and the cleared references', () => {
+    const { entry } = deletePipeline();
+    expect(entry.entities.pipelines).toEqual(state.pipelines);
+    expect(entry.entities.pipelineRuns).toEqual(state.pipelineRuns);
+    expect(entry.entities.experiments).toEqual([]);
+    expect(entry.detached.map(detach => detach.id)).toEqual(['e1', 'e2']);
+    expect(entry.expires_at).toBe('2024-01-31T00:00:00.000Z');
+  });
+
+  it('gives deletes in the same millisecond their own entries', () => {
+    expect(deletePipeline().entry.id).not.toBe(deletePipeline().entry.id);
+  });
+});
+
+describe('isTrashExpired', () => {
+  it('expires entries after the retention period', () => {
+    const { entry } = deletePipeline();
+    expect(isTrashExpired(entry, new Date('2024-01-30T23:59:59.000Z'))).toBe(false);
+    expect(isTrashExpired(entry, new Date('2024-01-31T00:00:00.000Z'))).toBe(true);
+  });
+});
+
+describe('restoreTrashActions', () => {
+  it('puts the group back and removes the entry', () => {
+    const { entry, deleted } = deletePipeline();
+    const restored = restoreTrashActions(deleted, entry).reduce(dashboardReducer, deleted);
+    expect(restored.pipelines).toEqual(state.pipelines);
+    expect(restored.pipelineRuns).toEqual(state.pipelineRuns);
+    expect(restored.experiments.map(experiment => experiment.pipeline_id)).toEqual(['p1', 'p1']);
+    expect(restored.trash).toEqual([]);
+  });
+
+  it('does not overwrite an entity that was recreated since', () => {
+    const { entry, deleted } = deletePipeline();
+    const pipeline = { id: 'p1', name: 'Churn again' } as EntityOf<'pipelines'>;
+    const recreated = dashboardReducer(deleted, { type: 'add', collection: 'pipelines', entity: pipeline });
+    const restored = restoreTrashActions(recreated, entry).reduce(dashboardReducer, recreated);
+    expect(restored.pipelines).toEqual([{ id: 'p1', name: 'Churn again' }]);
+    expect(restored.pipelineRuns).toEqual(state.pipelineRuns);
+  });
+
+  it('relinks only references that are still empty', () => {
+    const { entry, deleted } = deletePipeline();
+    const relinked = dashboardReducer(deleted, { type: 'update', collection: 'experiments', id: 'e2', changes: { pipeline_id: 'p9' } });
+    const restored = restoreTrashActions(relinked, entry).reduce(dashboardReducer, relinked);
+    expect(restored.experiments.map(experiment => experiment.pipeline_id)).toEqual(['p1', 'p9']);
+  });
+});
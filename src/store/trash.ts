@@ -0,0 +1,69 @@
+import { EntityRef, TrashEntry, TrashedEntities } from '../types';
+import { DashboardState, DashboardAction, entityAction } from './dashboardStore';
+import { CascadePlan } from './integrity';
+
+// Deleted groups can be restored for this long before they are purged
+export const TRASH_RETENTION_DAYS = 30;
+
+const TRASHABLE_COLLECTIONS: (keyof TrashedEntities)[] = [
+  'pipelines',
+  'datasets',
+  'alerts',
+  'experiments',
+  'externalConnections',
+  'pipelineRuns',
+];
+
+/** Snapshots every entity a cascade delete removes, so the whole group can be restored together. */
+export function createTrashEntry(state: DashboardState, plan: CascadePlan, root: EntityRef, label: string, now = new Date()): TrashEntry {
+  const entities = TRASHABLE_COLLECTIONS.reduce((trashed, collection) => ({
+    ...trashed,
+    [collection]: (state[collection] as { id: string }[]).filter(entity => plan.removes[collection].includes(entity.id)),
+  }), {} as TrashedEntities);
+
+  return {
+    id: `trash_${now.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+    root,
+    label,
+    deleted_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    entities,
+    detached: plan.detaches.map(detach => ({ ...detach, collection: detach.collection as keyof TrashedEntities })),
+  };
+}
+
+export const countTrashedEntities = (entry: TrashEntry) =>
+  TRASHABLE_COLLECTIONS.reduce((count, collection) => count + entry.entities[collection].length, 0);
+
+export const isTrashExpired = (entry: TrashEntry, now = new Date()) =>
+  new Date(entry.expires_at).getTime() <= now.getTime();
+
+/**
+ * Puts a trashed group back. Entities that were recreated in the meantime are
+ * left alone, and cleared references are only restored where they are still empty.
+ */
+export function restoreTrashActions(state: DashboardState, entry: TrashEntry): DashboardAction[] {
+  const restores = TRASHABLE_COLLECTIONS
+    .filter(collection => entry.entities[collection].length > 0)
+    .map(collection => entityAction({
+      type: 'set',
+      collection,
+      update: prev => [
+        ...entry.entities[collection].filter(entity => !prev.some(existing => existing.id === entity.id)),
+        ...prev,
+      ],
+    }));
+
+  const relinks = entry.detached
+    .filter(detach => {
+      const entity = (state[detach.collection] as { id: string }[]).find(e => e.id === detach.id) as Record<string, unknown> | undefined;
+      return entity && entity[detach.field] === undefined;
+    })
+    .map(detach => ({ type: 'update', collection: detach.collection, id: detach.id, changes: { [detach.field]: detach.value } }) as DashboardAction);
+
+  return [
+    ...restores,
+    ...relinks,
+    { type: 'remove', collection: 'trash', ids: [entry.id] },
+  ];
+}
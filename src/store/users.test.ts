@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { generateInvitationCode, hashSecret, passwordProblem, verifySecret } from './users';
+
+// A light work factor keeps the tests fast; the stored hash carries it either way
+const ITERATIONS = 1000;
+
+describe('hashSecret and verifySecret', () => {
+  it('accepts the secret that was hashed and nothing else', async () => {
+    const stored = await hashSecret('correct horse 1', ITERATIONS);
+    expect(stored).toMatchObject({ algorithm: 'PBKDF2-SHA256', iterations: ITERATIONS });
+    expect(await verifySecret('correct horse 1', stored)).toBe(true);
+    expect(await verifySecret('correct horse 2', stored)).toBe(false);
+    expect(await verifySecret('', stored)).toBe(false);
+  });
+
+  it('salts every hash', async () => {
+    const first = await hashSecret('same password 1', ITERATIONS);
+    const second = await hashSecret('same password 1', ITERATIONS);
+    expect(first.salt).not.toBe(second.salt);
+    expect(first.hash).not.toBe(second.hash);
+  });
+
+  it('rejects a hash that was altered', async () => {
+    const stored = await hashSecret('correct horse 1', ITERATIONS);
+    expect(await verifySecret('correct horse 1', { ...stored, hash: stored.hash.slice(1) })).toBe(false);
+    expect(await verifySecret('correct horse 1', { ...stored, iterations: ITERATIONS + 1 })).toBe(false);
+  });
+});
+
+describe('passwordProblem', () => {
+  it('asks for length, a letter and a number', () => {
+    expect(passwordProblem('short1')).toMatch(/at least 8 characters/);
+    expect(passwordProblem('lettersonly')).toMatch(/one letter and one number/);
+    expect(passwordProblem('12345678')).toMatch(/one letter and one number/);
+    expect(passwordProblem('letters4ever')).toBeNull();
+  });
+});
+
+describe('generateInvitationCode', () => {
+  it('leaves out characters that are easy to misread', () => {
+    const code = generateInvitationCode();
+    expect(code).toMatch(/^[A-Z2-9]{4}-[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+    expect(code).not.toMatch(/[01OIL]/);
+  });
+});
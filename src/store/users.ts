@@ -0,0 +1,147 @@
+import { ExternalIdentityLink, SecretHash, User, UserAccount } from '../types';
+
+// OWASP's recommended work factor for PBKDF2 with SHA-256
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export const MIN_PASSWORD_LENGTH = 8;
+// Pending invitations stop working after this long; the admin can invite again
+export const INVITATION_VALID_DAYS = 7;
+
+// No 0/O or 1/I/L, so codes can be read out or typed from a screenshot
+const INVITATION_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const INVITATION_GROUPS = 3;
+const INVITATION_GROUP_LENGTH = 4;
+
+export interface NewUser {
+  name: string;
+  email: string;
+  role: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const deriveHash = async (secret: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return toBase64(new Uint8Array(bits));
+};
+
+/** Hashes a password or one-time code with a fresh random salt; random codes can use a lighter work factor. */
+export async function hashSecret(secret: string, iterations = PBKDF2_ITERATIONS): Promise<SecretHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return {
+    algorithm: 'PBKDF2-SHA256',
+    iterations,
+    salt: toBase64(salt),
+    hash: await deriveHash(secret, salt, iterations),
+  };
+}
+
+/** Checks a secret against a stored hash, using the salt and work factor it was hashed with. */
+export async function verifySecret(secret: string, stored: SecretHash): Promise<boolean> {
+  const hash = await deriveHash(secret, fromBase64(stored.salt), stored.iterations);
+  // Compare every character so the time taken does not reveal how much of the hash matched
+  let difference = hash.length ^ stored.hash.length;
+  for (let i = 0; i < Math.min(hash.length, stored.hash.length); i++) {
+    difference |= hash.charCodeAt(i) ^ stored.hash.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/** Why a new password is not acceptable, or null when it is. */
+export function passwordProblem(password: string): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Passwords need at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (!/[a-zA-Z]/.test(password) || !/[0-9]/.test(password)) {
+    return 'Passwords need at least one letter and one number';
+  }
+  return null;
+}
+
+/** A one-time code like "K7QM-2XHP-9RTA", shown to the admin once and stored only as a hash. */
+export function generateInvitationCode(): string {
+  const values = crypto.getRandomValues(new Uint32Array(INVITATION_GROUPS * INVITATION_GROUP_LENGTH));
+  const characters = Array.from(values, value => INVITATION_ALPHABET[value % INVITATION_ALPHABET.length]);
+  return Array.from({ length: INVITATION_GROUPS }, (_, group) =>
+    characters.slice(group * INVITATION_GROUP_LENGTH, (group + 1) * INVITATION_GROUP_LENGTH).join('')
+  ).join('-');
+}
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const findAccountByEmail = (users: UserAccount[], email: string) =>
+  users.find(account => normalizeEmail(account.email) === normalizeEmail(email));
+
+export const isInvitationExpired = (account: UserAccount, now = new Date()) =>
+  !!account.invitation && new Date(account.invitation.expires_at).getTime() <= now.getTime();
+
+/** The signed-in user as the rest of the app sees it: the account without its secrets. */
+export function toSessionUser(account: UserAccount): User {
+  return { id: account.id, email: account.email, name: account.name, role: account.role, avatar: account.avatar };
+}
+
+/** Active accounts with the built-in admin role; the workspace always keeps at least one. */
+export const activeAdminCount = (users: UserAccount[]) =>
+  users.filter(account => account.status === 'active' && account.role === 'admin').length;
+
+const createUserId = (now: Date) => `user_${now.getTime()}_${Math.random().toString(36).slice(2, 8)}`;
+
+/** An active account that can sign in right away with the given password. */
+export async function createAccount(user: NewUser & { password: string }, now = new Date()): Promise<UserAccount> {
+  return {
+    id: createUserId(now),
+    name: user.name.trim(),
+    email: normalizeEmail(user.email),
+    role: user.role,
+    status: 'active',
+    created_at: now.toISOString(),
+    password: await hashSecret(user.password),
+    password_changed_at: now.toISOString(),
+  };
+}
+
+/** An active account that signs in through an identity provider and has no password. */
+export function createLinkedAccount(user: NewUser, link: ExternalIdentityLink, now = new Date()): UserAccount {
+  return {
+    id: createUserId(now),
+    name: user.name.trim(),
+    email: normalizeEmail(user.email),
+    role: user.role,
+    status: 'active',
+    created_at: now.toISOString(),
+    external_identity: link,
+  };
+}
+
+/** An invited account, plus the code the invitee needs to choose a password. */
+export async function createInvitation(user: NewUser, now = new Date()): Promise<{ account: UserAccount; code: string }> {
+  const code = generateInvitationCode();
+  return {
+    code,
+    account: {
+      id: createUserId(now),
+      name: user.name.trim(),
+      email: normalizeEmail(user.email),
+      role: user.role,
+      status: 'invited',
+      created_at: now.toISOString(),
+      invitation: {
+        code: await hashSecret(code),
+        expires_at: new Date(now.getTime() + INVITATION_VALID_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      },
+    },
+  };
+}
+
+/** Changes that set a new password on an account. */
+export async function passwordChanges(password: string, now = new Date()): Promise<Partial<UserAccount>> {
+  return {
+    password: await hashSecret(password),
+    password_changed_at: now.toISOString(),
+  };
+}
@@ -0,0 +1,107 @@
+import { CollectionKey, EntityOf } from './dashboardStore';
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isString: FieldCheck = value => typeof value === 'string';
+const isNumber: FieldCheck = value => typeof value === 'number' && !Number.isNaN(value);
+const isBoolean: FieldCheck = value => typeof value === 'boolean';
+const isObject: FieldCheck = value => typeof value === 'object' && value !== null && !Array.isArray(value);
+const oneOf = (...allowed: string[]): FieldCheck => value => typeof value === 'string' && allowed.includes(value);
+
+// Required fields of every entity in the current schema (see types/index.ts)
+const ENTITY_SCHEMAS: Record<CollectionKey, Record<string, FieldCheck>> = {
+  pipelines: {
+    id: isString,
+    name: isString,
+    status: oneOf('idle', 'queued', 'running', 'completed', 'failed'),
+    progress: isNumber,
+    created_at: isString,
+    steps: Array.isArray,
+  },
+  pipelineRuns: {
+    id: isString,
+    pipeline_id: isString,
+    number: isNumber,
+    trigger: oneOf('manual', 'schedule', 'retry'),
+    status: oneOf('queued', 'running', 'succeeded', 'failed', 'cancelled'),
+    progress: isNumber,
+    queued_at: isString,
+    parameters: isObject,
+    logs: Array.isArray,
+  },
+  datasets: {
+    id: isString,
+    name: isString,
+    size: isNumber,
+    columns: isNumber,
+    null_percentage: isNumber,
+    created_at: isString,
+  },
+  alerts: {
+    id: isString,
+    type: oneOf('performance', 'drift', 'error', 'system'),
+    severity: oneOf('low', 'medium', 'high'),
+    message: isString,
+    timestamp: isString,
+    acknowledged: isBoolean,
+  },
+  experiments: {
+    id: isString,
+    name: isString,
+    status: oneOf('running', 'completed', 'failed'),
+    algorithm: isString,
+    metrics: isObject,
+    parameters: isObject,
+    start_time: isString,
+  },
+  externalConnections: {
+    id: isString,
+    name: isString,
+    type: oneOf('rest_api', 'database', 'webhook'),
+    url: isString,
+    status: oneOf('connected', 'disconnected', 'error'),
+    created_at: isString,
+  },
+  trash: {
+    id: isString,
+    root: isObject,
+    label: isString,
+    deleted_at: isString,
+    expires_at: isString,
+    entities: isObject,
+  },
+  users: {
+    id: isString,
+    email: isString,
+    name: isString,
+    role: isString,
+    status: oneOf('active', 'invited', 'deactivated'),
+    created_at: isString,
+  },
+  workspaces: {
+    id: isString,
+    name: isString,
+    created_at: isString,
+    members: Array.isArray,
+  },
+};
+
+/**
+ * Checks a stored record against the current schema. Returns a description of
+ * the first problem found, or null when the record is valid.
+ */
+export function validateEntity(collection: CollectionKey, record: unknown): string | null {
+  if (!isObject(record)) {
+    return 'Record is not an object';
+  }
+
+  const fields = record as Record<string, unknown>;
+  const invalidField = Object.entries(ENTITY_SCHEMAS[collection])
+    .find(([field, check]) => !check(fields[field]));
+
+  return invalidField ? `Invalid or missing field "${invalidField[0]}"` : null;
+}
+
+/** Narrows a record that passes validateEntity to the entity type of its collection. */
+export const isValidEntity = <K extends CollectionKey>(collection: K, record: unknown): record is EntityOf<K> =>
+  validateEntity(collection, record) === null;
@@ -0,0 +1,218 @@
+import { EntityRef } from '../types';
+import { CollectionKey, DashboardAction, DashboardState, entityAction } from './dashboardStore';
+import { ENTITY_REF_COLLECTIONS, FOREIGN_KEYS } from './integrity';
+import { CURRENT_SCHEMA_VERSION, migratePersistedData, PersistedData } from './migrations';
+import { isValidEntity, validateEntity } from './validation';
+import { inWorkspace } from './workspaces';
+
+const BUNDLE_FORMAT = 'ml-dashboard-workspace';
+const BUNDLE_VERSION = 1;
+const REDACTED = '[redacted]';
+// Query parameters whose values are treated as credentials
+const SECRET_PARAM = /(token|key|secret|password|passwd|auth|signature|sig|credential)/i;
+
+// Trash and user accounts are left out: a bundle carries the live workspace only, never credentials
+const BUNDLE_COLLECTIONS: CollectionKey[] = ['pipelines', 'pipelineRuns', 'datasets', 'experiments', 'alerts', 'externalConnections'];
+
+type StoredEntity = { id: string } & Record<string, unknown>;
+
+export interface WorkspaceBundle {
+  format: typeof BUNDLE_FORMAT;
+  bundleVersion: number;
+  /** Schema version of `data`; older bundles are migrated on import. */
+  schemaVersion: number;
+  exportedAt: string;
+  data: Partial<Record<CollectionKey, unknown[]>>;
+  settings?: Record<string, unknown>;
+  /** Fields whose credentials were removed, as `collection/id/field`. */
+  redactions: string[];
+}
+
+export interface ImportReport {
+  merged: Partial<Record<CollectionKey, number>>;
+  /** Entities whose id was already taken by different data and were imported under a new id. */
+  remapped: { collection: CollectionKey; from: string; to: string }[];
+  skipped: { collection: CollectionKey; id?: string; reason: string }[];
+  settings?: Record<string, unknown>;
+}
+
+/** Removes user info and secret-looking query values from a URL. */
+const redactUrl = (value: string): string => {
+  try {
+    const url = new URL(value);
+    url.username = '';
+    url.password = '';
+    url.searchParams.forEach((_, name) => {
+      if (SECRET_PARAM.test(name)) url.searchParams.set(name, REDACTED);
+    });
+    return url.toString();
+  } catch {
+    // Not a URL (for example a database DSN); keep nothing that could hold a password
+    return value.includes('@') ? REDACTED : value;
+  }
+};
+
+/** Exports the entities of `workspaceId`, or of every workspace when it is not given. */
+export function createWorkspaceBundle(state: DashboardState, settings?: Record<string, unknown>, workspaceId?: string): WorkspaceBundle {
+  const redactions: string[] = [];
+  const redactField = (collection: string, entity: { id: string }, field: string, value: unknown) => {
+    if (typeof value !== 'string' || !value) return value;
+    const redacted = redactUrl(value);
+    if (redacted !== value) redactions.push(`${collection}/${entity.id}/${field}`);
+    return redacted;
+  };
+
+  const exported = <T extends { workspace_id?: string }>(entities: T[]) =>
+    workspaceId ? entities.filter(entity => inWorkspace(entity, workspaceId)) : entities;
+
+  const data: WorkspaceBundle['data'] = {
+    pipelines: exported(state.pipelines).map(pipeline => pipeline.notifications?.webhook
+      ? { ...pipeline, notifications: { ...pipeline.notifications, webhook: redactField('pipelines', pipeline, 'notifications.webhook', pipeline.notifications.webhook) as string } }
+      : pipeline),
+    pipelineRuns: exported(state.pipelineRuns),
+    datasets: exported(state.datasets),
+    experiments: exported(state.experiments),
+    // System alerts belong to no workspace and are not part of one
+    alerts: exported(state.alerts).filter(alert => !workspaceId || alert.workspace_id),
+    externalConnections: exported(state.externalConnections).map(connection => ({
+      ...connection,
+      url: redactField('externalConnections', connection, 'url', connection.url),
+    })),
+  };
+
+  const notifications = settings?.notifications as Record<string, unknown> | undefined;
+  const exportedSettings = settings && notifications?.webhookUrl
+    ? { ...settings, notifications: { ...notifications, webhookUrl: redactField('settings', { id: 'notifications' }, 'webhookUrl', notifications.webhookUrl) } }
+    : settings;
+
+  return {
+    format: BUNDLE_FORMAT,
+    bundleVersion: BUNDLE_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data,
+    settings: exportedSettings,
+    redactions,
+  };
+}
+
+export function downloadWorkspaceBundle(bundle: WorkspaceBundle) {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `ml_dashboard_workspace_${bundle.exportedAt.slice(0, 10)}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/** Parses and checks the bundle envelope. Throws with a user-facing message when it is not usable. */
+export function parseWorkspaceBundle(text: string): WorkspaceBundle {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const bundle = parsed as Partial<WorkspaceBundle> | null;
+  if (!bundle || typeof bundle !== 'object' || bundle.format !== BUNDLE_FORMAT) {
+    throw new Error('The file is not a workspace export');
+  }
+  if (typeof bundle.bundleVersion !== 'number' || bundle.bundleVersion > BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${bundle.bundleVersion}; this dashboard reads up to v${BUNDLE_VERSION}`);
+  }
+  if (typeof bundle.schemaVersion !== 'number' || bundle.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`The workspace uses schema v${bundle.schemaVersion}, which is newer than this dashboard supports (v${CURRENT_SCHEMA_VERSION})`);
+  }
+  if (!bundle.data || typeof bundle.data !== 'object') {
+    throw new Error('The workspace export contains no data');
+  }
+  return bundle as WorkspaceBundle;
+}
+
+const isSameEntity = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Works out how a bundle merges into the current workspace. Records are
+ * migrated and validated like stored data; an id that is already taken by
+ * different data gets a new id, and every reference to it inside the bundle
+ * is rewritten. Identical records are skipped. When `workspaceId` is given,
+ * the records are put in that workspace, whichever one they were exported from.
+ */
+export function planWorkspaceImport(state: DashboardState, bundle: WorkspaceBundle, workspaceId?: string): { actions: DashboardAction[]; report: ImportReport } {
+  const report: ImportReport = { merged: {}, remapped: [], skipped: [], settings: bundle.settings };
+
+  const raw = Object.fromEntries(
+    [...BUNDLE_COLLECTIONS, 'trash'].map(collection => [collection, Array.isArray(bundle.data[collection as CollectionKey]) ? bundle.data[collection as CollectionKey] : []])
+  ) as unknown as PersistedData;
+  const { data } = migratePersistedData(raw, bundle.schemaVersion);
+
+  const idMaps = Object.fromEntries(BUNDLE_COLLECTIONS.map(collection => [collection, new Map<string, string>()])) as Record<CollectionKey, Map<string, string>>;
+  const accepted = Object.fromEntries(BUNDLE_COLLECTIONS.map(collection => [collection, [] as StoredEntity[]])) as Record<CollectionKey, StoredEntity[]>;
+  const suffix = Date.now().toString(36);
+
+  BUNDLE_COLLECTIONS.forEach(collection => {
+    const existing = new Map((state[collection] as { id: string }[]).map(entity => [entity.id, entity]));
+    const seen = new Set<string>();
+
+    data[collection].forEach(stored => {
+      const record = workspaceId && !(collection === 'alerts' && stored.type === 'system') ? { ...stored, workspace_id: workspaceId } : stored;
+      const problem = validateEntity(collection, record);
+      const id = typeof record.id === 'string' ? record.id : undefined;
+      if (problem || !id) {
+        report.skipped.push({ collection, id, reason: problem ?? 'Missing id' });
+        return;
+      }
+      if (seen.has(id)) {
+        report.skipped.push({ collection, id, reason: 'Duplicate id in bundle' });
+        return;
+      }
+      seen.add(id);
+
+      const current = existing.get(id);
+      if (current && isSameEntity(current, record)) {
+        report.skipped.push({ collection, id, reason: 'Already in this workspace' });
+        return;
+      }
+      if (current) {
+        const newId = `${id}_imported_${suffix}`;
+        idMaps[collection].set(id, newId);
+        report.remapped.push({ collection, from: id, to: newId });
+      }
+      accepted[collection].push(record as StoredEntity);
+    });
+  });
+
+  const remap = (collection: CollectionKey, id: string) => idMaps[collection].get(id) ?? id;
+  const rewritten = Object.fromEntries(BUNDLE_COLLECTIONS.map(collection => [collection, accepted[collection].map(record => {
+    const entity: StoredEntity = { ...record, id: remap(collection, record.id) };
+    FOREIGN_KEYS
+      .filter(key => key.from === collection && typeof entity[key.field] === 'string')
+      .forEach(key => {
+        entity[key.field] = remap(key.to, entity[key.field] as string);
+      });
+    const ref = entity.entity_ref as EntityRef | undefined;
+    if (collection === 'alerts' && ref) {
+      entity.entity_ref = { ...ref, id: remap(ENTITY_REF_COLLECTIONS[ref.type], ref.id) };
+    }
+    // Credentials were stripped on export, so the connection has to be re-authenticated
+    if (collection === 'externalConnections' && bundle.redactions.includes(`externalConnections/${record.id}/url`)) {
+      entity.status = 'disconnected';
+    }
+    return entity;
+  })])) as Record<CollectionKey, StoredEntity[]>;
+
+  const actions = BUNDLE_COLLECTIONS
+    .filter(collection => rewritten[collection].length > 0)
+    .map(collection => {
+      report.merged[collection] = rewritten[collection].length;
+      // Already validated; new ids and references keep every record valid
+      const entities = rewritten[collection].filter(entity => isValidEntity(collection, entity));
+      return entityAction({ type: 'set', collection, update: prev => [...entities, ...prev] });
+    });
+
+  return { actions, report };
+}
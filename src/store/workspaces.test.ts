@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { CollectionKey, dashboardReducer, DashboardAction, DashboardState, emptyDashboardState, EntityOf } from './dashboardStore';
+import { checkIntegrity, FOREIGN_KEYS } from './integrity';
+import { planWorkspaceTransfer, stampWorkspace } from './workspaces';
+
+type Fields = { id: string; workspace_id?: string } & Record<string, unknown>;
+
+const stateWith = (collections: Partial<Record<CollectionKey, object[]>>) =>
+  ({ ...emptyDashboardState, ...collections }) as unknown as DashboardState;
+
+const entitiesOf = (state: DashboardState, collection: CollectionKey) => state[collection] as unknown as Fields[];
+
+// Everything in workspace "a": a connection feeding a dataset, its pipeline with a run, and two models
+const state = stateWith({
+  externalConnections: [{ id: 'c1', workspace_id: 'a' }],
+  datasets: [{ id: 'd1', workspace_id: 'a', source_connection_id: 'c1' }, { id: 'd2', workspace_id: 'a' }],
+  pipelines: [{ id: 'p1', workspace_id: 'a', dataset_id: 'd1' }],
+  pipelineRuns: [{ id: 'r1', workspace_id: 'a', pipeline_id: 'p1' }],
+  experiments: [
+    { id: 'e1', workspace_id: 'a', dataset_id: 'd1', pipeline_id: 'p1' },
+    { id: 'e2', workspace_id: 'a', dataset_id: 'd2', pipeline_id: 'p1' },
+  ],
+  alerts: [
+    { id: 'a1', workspace_id: 'a', type: 'drift', entity_ref: { type: 'pipeline', id: 'p1' } },
+    { id: 'a2', type: 'system' },
+  ],
+});
+
+const transfer = (collection: CollectionKey, id: string, mode: 'move' | 'copy') => {
+  const { actions, moved, copied } = planWorkspaceTransfer(state, collection, id, 'b', mode);
+  return { moved, copied, next: actions.reduce(dashboardReducer, state) };
+};
+
+// Each entity of `collection` in workspace "b" that was copied from `id`
+const copyOf = (next: DashboardState, collection: CollectionKey, id: string) =>
+  entitiesOf(next, collection).find(entity => entity.id.startsWith(`${id}_copy_`) && entity.workspace_id === 'b');
+
+// References from an entity to one in another workspace
+const crossWorkspaceReferences = (next: DashboardState) => FOREIGN_KEYS.flatMap(key => entitiesOf(next, key.from)
+  .filter(entity => typeof entity[key.field] === 'string')
+  .filter(entity => entitiesOf(next, key.to).find(target => target.id === entity[key.field])?.workspace_id !== entity.workspace_id)
+  .map(entity => `${key.from}/${entity.id}/${key.field}`));
+
+describe('planWorkspaceTransfer', () => {
+  it('copies a pipeline with the dataset and connection it requires', () => {
+    const { next, moved, copied } = transfer('pipelines', 'p1', 'copy');
+    expect({ moved, copied }).toEqual({ moved: 0, copied: 3 });
+    const dataset = copyOf(next, 'datasets', 'd1');
+    expect(copyOf(next, 'pipelines', 'p1')?.dataset_id).toBe(dataset?.id);
+    expect(dataset?.source_connection_id).toBe(copyOf(next, 'externalConnections', 'c1')?.id);
+    expect(crossWorkspaceReferences(next)).toEqual([]);
+    // The originals stay where they were
+    expect(entitiesOf(next, 'pipelines').find(pipeline => pipeline.id === 'p1')).toEqual(state.pipelines[0]);
+  });
+
+  it('copies a run with its pipeline and what that requires', () => {
+    const { next, copied } = transfer('pipelineRuns', 'r1', 'copy');
+    expect(copied).toBe(4);
+    const pipeline = copyOf(next, 'pipelines', 'p1');
+    expect(copyOf(next, 'pipelineRuns', 'r1')?.pipeline_id).toBe(pipeline?.id);
+    expect(pipeline?.dataset_id).toBe(copyOf(next, 'datasets', 'd1')?.id);
+    expect(crossWorkspaceReferences(next)).toEqual([]);
+  });
+
+  it('copies a model with its dataset and without its pipeline', () => {
+    const { next, copied } = transfer('experiments', 'e1', 'copy');
+    expect(copied).toBe(3);
+    const model = copyOf(next, 'experiments', 'e1');
+    expect(model?.dataset_id).toBe(copyOf(next, 'datasets', 'd1')?.id);
+    expect(model?.pipeline_id).toBeUndefined();
+    expect(copyOf(next, 'pipelines', 'p1')).toBeUndefined();
+    expect(crossWorkspaceReferences(next)).toEqual([]);
+  });
+
+  it('moves what a delete would take, leaving no reference dangling or across workspaces', () => {
+    const { next, moved, copied } = transfer('datasets', 'd1', 'move');
+    expect({ moved, copied }).toEqual({ moved: 5, copied: 1 });
+    const inB = (collection: CollectionKey) => entitiesOf(next, collection).filter(entity => entity.workspace_id === 'b').map(entity => entity.id);
+    expect(['datasets', 'pipelines', 'pipelineRuns', 'experiments', 'alerts'].map(collection => inB(collection as CollectionKey)))
+      .toEqual([['d1'], ['p1'], ['r1'], ['e1'], ['a1']]);
+    // The connection stays for whatever else uses it, and the moved dataset gets its own copy
+    expect(entitiesOf(next, 'externalConnections').find(connection => connection.id === 'c1')?.workspace_id).toBe('a');
+    expect(entitiesOf(next, 'datasets').find(dataset => dataset.id === 'd1')?.source_connection_id).toBe(copyOf(next, 'externalConnections', 'c1')?.id);
+    // The model left behind loses its pipeline, as it would on a delete
+    expect(entitiesOf(next, 'experiments').find(model => model.id === 'e2')?.pipeline_id).toBeUndefined();
+    expect(checkIntegrity(next)).toEqual([]);
+    expect(crossWorkspaceReferences(next)).toEqual([]);
+  });
+});
+
+describe('stampWorkspace', () => {
+  const add = <K extends CollectionKey>(collection: K, entity: object): DashboardAction =>
+    ({ type: 'add', collection, entity: entity as EntityOf<K> }) as DashboardAction;
+  const stamped = (action: DashboardAction) => {
+    const result = stampWorkspace(action, 'b', state);
+    return result.type === 'add' ? (result.entity as unknown as Fields).workspace_id : undefined;
+  };
+
+  it('puts new entities in the open workspace and keeps the one they have', () => {
+    expect(stamped(add('pipelines', { id: 'p2' }))).toBe('b');
+    expect(stamped(add('pipelines', { id: 'p2', workspace_id: 'a' }))).toBe('a');
+  });
+
+  it('leaves system alerts in every workspace', () => {
+    const action = add('alerts', { id: 'a3', type: 'system' });
+    expect(stampWorkspace(action, 'b', state)).toEqual(action);
+  });
+
+  it('puts an alert in the workspace of the entity it is about', () => {
+    expect(stamped(add('alerts', { id: 'a3', type: 'drift', entity_ref: { type: 'pipeline', id: 'p1' } }))).toBe('a');
+    expect(stamped(add('alerts', { id: 'a3', type: 'drift' }))).toBe('b');
+  });
+
+  it('stamps the entities of batches and sets, and nothing without a workspace open', () => {
+    const batch = stampWorkspace({ type: 'batch', actions: [add('datasets', { id: 'd3' })] }, 'b', state);
+    expect(batch.type === 'batch' && stamped(batch.actions[0])).toBe('b');
+    const set = stampWorkspace({ type: 'set', collection: 'datasets', update: [{ id: 'd3' } as EntityOf<'datasets'>] }, 'b', state);
+    expect(dashboardReducer(state, set).datasets).toEqual([{ id: 'd3', workspace_id: 'b' }]);
+    const action = add('pipelines', { id: 'p2' });
+    expect(stampWorkspace(action, null, state)).toBe(action);
+  });
+});
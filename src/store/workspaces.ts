@@ -0,0 +1,269 @@
+import { EntityRef, UserAccount, Workspace } from '../types';
+import { CollectionKey, DashboardAction, DashboardState, entityAction, EntityOf } from './dashboardStore';
+import { ENTITY_REF_COLLECTIONS, FOREIGN_KEYS, planCascadeDelete } from './integrity';
+import { ACCOUNT_PERMISSIONS, isAdminRole, Permission, permissionsOf, Role } from './permissions';
+
+/** The workspace every entity from before workspaces existed was put in. */
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+// The workspace each user last had open, keyed by user id
+const ACTIVE_WORKSPACE_KEY = 'ml_dashboard_active_workspace';
+
+/** The collections whose entities belong to a workspace. */
+export const WORKSPACE_SCOPED_COLLECTIONS: CollectionKey[] = ['pipelines', 'pipelineRuns', 'datasets', 'alerts', 'experiments', 'externalConnections', 'trash'];
+
+type AnyEntity = EntityOf<CollectionKey>;
+type ScopedEntity = { id: string; workspace_id?: string } & Record<string, unknown>;
+
+// The fields of any entity by name, for the foreign keys and workspace every collection handles alike
+const fieldsOf = (entity: object) => entity as ScopedEntity;
+
+export const createWorkspaceId = (name: string) =>
+  `ws_${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workspace'}_${Math.random().toString(36).slice(2, 6)}`;
+
+export function createWorkspace(name: string, description?: string, now = new Date()): Workspace {
+  return {
+    id: createWorkspaceId(name),
+    name: name.trim(),
+    description: description?.trim() || undefined,
+    created_at: now.toISOString(),
+    members: [],
+  };
+}
+
+/** Entities without a workspace (system alerts) show in every workspace. */
+export const inWorkspace = (entity: { workspace_id?: string }, workspaceId: string | null) =>
+  !entity.workspace_id || entity.workspace_id === workspaceId;
+
+/**
+ * The workspace open in this tab. It lives next to the store rather than in
+ * it, so that switching does not count as a change to the data, and the
+ * store actions can put new entities in it.
+ */
+export interface WorkspaceScope {
+  get: () => string | null;
+  set: (workspaceId: string | null) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export function createWorkspaceScope(): WorkspaceScope {
+  let current: string | null = null;
+  const listeners = new Set<() => void>();
+
+  return {
+    get: () => current,
+    set: (workspaceId) => {
+      if (workspaceId === current) return;
+      current = workspaceId;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export function loadActiveWorkspaceId(userId: string): string | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ACTIVE_WORKSPACE_KEY) ?? '{}');
+    return typeof saved[userId] === 'string' ? saved[userId] : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveActiveWorkspaceId(userId: string, workspaceId: string) {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ACTIVE_WORKSPACE_KEY) ?? '{}');
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, JSON.stringify({ ...saved, [userId]: workspaceId }));
+  } catch (error) {
+    console.warn('Failed to save the active workspace:', error);
+  }
+}
+
+/** Administrators and workspace managers see every workspace; everyone else only the ones they are a member of. */
+export function canSeeAllWorkspaces(account: Pick<UserAccount, 'role'> | undefined, roles: Role[]): boolean {
+  return !!account && (isAdminRole(account.role, roles) || permissionsOf(account.role, roles).has('workspaces:manage'));
+}
+
+export function visibleWorkspaces(workspaces: Workspace[], account: Pick<UserAccount, 'id' | 'role'> | undefined, roles: Role[]): Workspace[] {
+  if (canSeeAllWorkspaces(account, roles)) return workspaces;
+  return workspaces.filter(workspace => workspace.members.some(member => member.user_id === account?.id));
+}
+
+/**
+ * The role that decides what a user may do in a workspace: their membership
+ * role there, or their account role for administrators, who can work in
+ * every workspace. Null when the user has no access.
+ */
+export function workspaceRole(workspace: Workspace | undefined, account: Pick<UserAccount, 'id' | 'role'> | undefined, roles: Role[]): string | null {
+  if (!workspace || !account) return null;
+  if (isAdminRole(account.role, roles)) return account.role;
+  const member = workspace.members.find(candidate => candidate.user_id === account.id);
+  if (member) return member.role;
+  return canSeeAllWorkspaces(account, roles) ? account.role : null;
+}
+
+/**
+ * What a user may do in a workspace. Managing accounts, roles and workspaces
+ * follows the account role everywhere, so a workspace role cannot grant it.
+ */
+export function workspacePermissions(workspace: Workspace | undefined, account: Pick<UserAccount, 'id' | 'role'> | undefined, roles: Role[]): Set<Permission> {
+  const inWorkspaceRole = permissionsOf(workspaceRole(workspace, account, roles) ?? undefined, roles);
+  const accountGranted = permissionsOf(account?.role, roles);
+  return new Set([
+    ...[...inWorkspaceRole].filter(permission => !ACCOUNT_PERMISSIONS.includes(permission)),
+    ...[...accountGranted].filter(permission => ACCOUNT_PERMISSIONS.includes(permission)),
+  ]);
+}
+
+const entityOf = <K extends CollectionKey>(state: DashboardState, collection: K, id: string): EntityOf<K> | undefined =>
+  (state[collection] as EntityOf<K>[]).find(entity => entity.id === id);
+
+// Copies keep the original's id as a prefix, so they can be traced back to it
+const copyId = (id: string, suffix: string) => `${id}_copy_${suffix}`;
+
+export interface WorkspaceTransfer {
+  actions: DashboardAction[];
+  /** Entities that change workspace, including the one the transfer started from. */
+  moved: number;
+  /** Entities copied into the target workspace. */
+  copied: number;
+}
+
+/**
+ * Works out how to move or copy an entity to another workspace without
+ * leaving references across workspaces.
+ *
+ * A move takes everything a delete of the entity would take (see
+ * planCascadeDelete), with the alerts about them. A copy takes just the
+ * entity, under a new id. Either way, required references that point outside
+ * what is taken (a pipeline's dataset, a dataset's connection) get a copy in
+ * the target workspace, and optional ones (a model's pipeline) are cleared.
+ */
+export function planWorkspaceTransfer(
+  state: DashboardState,
+  collection: CollectionKey,
+  id: string,
+  targetWorkspaceId: string,
+  mode: 'move' | 'copy'
+): WorkspaceTransfer {
+  const suffix = Date.now().toString(36);
+  const taken = new Map<CollectionKey, Map<string, AnyEntity>>();
+  const take = (target: CollectionKey, entity: AnyEntity) => {
+    if (!taken.has(target)) taken.set(target, new Map());
+    taken.get(target)!.set(entity.id, entity);
+  };
+
+  // Alerts about the entities are part of the plan already
+  const plan = mode === 'move' ? planCascadeDelete(state, collection, [id]) : null;
+  if (plan) {
+    WORKSPACE_SCOPED_COLLECTIONS.forEach(target => plan.removes[target].forEach(entityId => {
+      const entity = entityOf(state, target, entityId);
+      if (entity) take(target, entity);
+    }));
+  } else {
+    const entity = entityOf(state, collection, id);
+    if (entity) take(collection, entity);
+  }
+
+  // Copies of what the taken entities require, keyed by collection and original id
+  const copies = new Map<string, AnyEntity>();
+  const copiesFor = (target: CollectionKey, entityId: string): string | undefined => {
+    if (taken.get(target)?.has(entityId) && mode === 'move') return entityId;
+    const key = `${target}:${entityId}`;
+    const existing = copies.get(key);
+    if (existing) return existing.id;
+    const original = entityOf(state, target, entityId);
+    if (!original) return undefined;
+    const copy = { ...original, id: copyId(original.id, suffix), workspace_id: targetWorkspaceId };
+    copies.set(key, copy);
+    rewriteReferences(target, copy);
+    return copy.id;
+  };
+
+  // Points required references at entities in the target workspace and clears optional ones
+  function rewriteReferences(from: CollectionKey, entity: AnyEntity) {
+    const fields = fieldsOf(entity);
+    FOREIGN_KEYS
+      .filter(key => key.from === from && typeof fields[key.field] === 'string')
+      .forEach(key => {
+        const referenced = fields[key.field] as string;
+        if (mode === 'move' && taken.get(key.to)?.has(referenced)) return;
+        fields[key.field] = key.onDelete === 'cascade' ? copiesFor(key.to, referenced) : undefined;
+      });
+  }
+
+  const actions: DashboardAction[] = [];
+  let moved = 0;
+  taken.forEach((entities, target) => {
+    entities.forEach(original => {
+      if (mode === 'move') {
+        const entity = { ...original, workspace_id: targetWorkspaceId };
+        rewriteReferences(target, entity);
+        actions.push(entityAction({ type: 'update', collection: target, id: entity.id, changes: entity }));
+        moved += 1;
+      } else {
+        copiesFor(target, original.id);
+      }
+    });
+  });
+
+  // Entities left behind lose their optional references to what moved, as they would on a delete
+  plan?.detaches.forEach(({ collection: from, id: entityId, field }) => {
+    actions.push(entityAction({ type: 'update', collection: from, id: entityId, changes: { [field]: undefined } }));
+  });
+
+  copies.forEach((copy, key) => {
+    const target = key.slice(0, key.indexOf(':')) as CollectionKey;
+    actions.push(entityAction({ type: 'add', collection: target, entity: copy }));
+  });
+
+  return { actions, moved, copied: copies.size };
+}
+
+// The workspace an alert belongs to: the one of the entity it is about, or else the open one
+const alertWorkspace = (state: DashboardState, alert: ScopedEntity, fallback: string) => {
+  const ref = alert.entity_ref as EntityRef | undefined;
+  const subject = ref && entityOf(state, ENTITY_REF_COLLECTIONS[ref.type], ref.id);
+  return (subject && fieldsOf(subject).workspace_id) ?? fallback;
+};
+
+/**
+ * Puts new entities without a workspace into `workspaceId`. Entities that
+ * already have one, including ones moved or synced from elsewhere, keep it.
+ */
+export function stampWorkspace(action: DashboardAction, workspaceId: string | null, state: DashboardState): DashboardAction {
+  if (!workspaceId) return action;
+  const stamp = <K extends CollectionKey>(collection: K, entity: EntityOf<K>): EntityOf<K> => {
+    const fields = fieldsOf(entity);
+    return fields.workspace_id || !WORKSPACE_SCOPED_COLLECTIONS.includes(collection) || (collection === 'alerts' && fields.type === 'system')
+      ? entity
+      : { ...entity, workspace_id: collection === 'alerts' ? alertWorkspace(state, fields, workspaceId) : workspaceId };
+  };
+
+  switch (action.type) {
+    case 'batch':
+      return { ...action, actions: action.actions.map(inner => stampWorkspace(inner, workspaceId, state)) };
+    case 'add':
+      return entityAction({ ...action, entity: stamp(action.collection, action.entity) });
+    case 'set': {
+      const { collection, update } = action;
+      if (!WORKSPACE_SCOPED_COLLECTIONS.includes(collection)) return action;
+      return entityAction({
+        type: 'set',
+        collection,
+        update: prev => {
+          const next = typeof update === 'function' ? (update as (items: AnyEntity[]) => AnyEntity[])(prev) : update;
+          // Keeps the array as it is when nothing is new, so unchanged updates stay no-ops
+          return next.some(entity => stamp(collection, entity) !== entity) ? next.map(entity => stamp(collection, entity)) : next;
+        },
+      });
+    }
+    default:
+      return action;
+  }
+}
@@ -2,20 +2,111 @@ export interface User {
   id: string;
   email: string;
   name: string;
-  role: 'admin' | 'viewer';
+  /** Id of a built-in or custom role, see store/permissions. */
+  role: string;
   avatar?: string;
 }
 
+/** A salted PBKDF2 hash of a password or invitation code, see store/users. */
+export interface SecretHash {
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+  hash: string;
+}
+
+/** A stored account; the signed-in `User` is this without its secrets. */
+export interface UserAccount extends User {
+  status: 'active' | 'invited' | 'deactivated';
+  created_at: string;
+  /** Unset while an invitation is pending. */
+  password?: SecretHash;
+  password_changed_at?: string;
+  invitation?: {
+    code: SecretHash;
+    expires_at: string;
+  };
+  last_login_at?: string;
+  /** Set once the user has enrolled an authenticator app. */
+  two_factor?: TwoFactorEnrollment;
+  /** The single sign-on identity linked to this account, see store/authProviders. */
+  external_identity?: ExternalIdentityLink;
+  /** Personal access tokens for scripts and CI jobs, see store/apiTokens. */
+  api_tokens?: ApiToken[];
+}
+
+export interface ApiToken {
+  /** The public part of the token, which finds it without checking every hash. */
+  id: string;
+  name: string;
+  /** What the token may do, within what the owner's role allows. */
+  scopes: string[];
+  secret: SecretHash;
+  created_at: string;
+  expires_at: string;
+  last_used_at?: string;
+  revoked_at?: string;
+  /** The token this one replaced by rotation. */
+  rotated_from?: string;
+}
+
+export interface ExternalIdentityLink {
+  /** Id of the configured provider. */
+  provider: string;
+  issuer: string;
+  /** The `sub` claim, which the provider keeps stable for the user. */
+  subject: string;
+  linked_at: string;
+}
+
+/** TOTP two-factor authentication of one account, see store/totp. */
+export interface TwoFactorEnrollment {
+  /** Base32 TOTP secret; unlike a password it is needed in full to check codes. */
+  secret: string;
+  enrolled_at: string;
+  /** Hashes of the recovery codes not used yet. */
+  recovery_codes: SecretHash[];
+  /** Last time step a code was accepted for, so no code works twice. */
+  last_used_step?: number;
+}
+
+export type PipelineStepType =
+  | 'ingest'
+  | 'validate'
+  | 'clean'
+  | 'feature_engineer'
+  | 'split'
+  | 'train'
+  | 'evaluate'
+  | 'register'
+  | 'deploy';
+
+/** One step of a pipeline's graph; what it takes and produces comes with its type, see store/pipelineGraph. */
+export interface PipelineStep {
+  /** Unique within the pipeline. */
+  id: string;
+  type: PipelineStepType;
+  name: string;
+  /** Steps whose outputs this one takes as inputs. */
+  depends_on: string[];
+  /** Where the step sits in the graph editor. */
+  position: { x: number; y: number };
+}
+
 export interface Pipeline {
   id: string;
   name: string;
+  /** The workspace the entity belongs to, see store/workspaces. */
+  workspace_id?: string;
   description?: string;
-  status: 'idle' | 'running' | 'completed' | 'failed';
+  status: 'idle' | 'queued' | 'running' | 'completed' | 'failed';
   progress: number;
   created_at: string;
   last_run?: string;
   model_accuracy?: number;
   data_drift_score?: number;
+  /** The train steps use `algorithm` and `hyperparameters`, and ingest reads `dataset_id`. */
+  steps: PipelineStep[];
   algorithm?: string;
   dataset_id?: string;
   hyperparameters?: Record<string, any>;
@@ -36,13 +127,91 @@ export interface Pipeline {
   };
 }
 
+/** One execution of a pipeline, kept after the pipeline runs again, see store/pipelineRuns. */
+export interface PipelineRun {
+  id: string;
+  pipeline_id: string;
+  /** The workspace the entity belongs to, see store/workspaces. */
+  workspace_id?: string;
+  /** Counts up per pipeline, for "Run #3". */
+  number: number;
+  trigger: 'manual' | 'schedule' | 'retry';
+  /** Moves queued → running → succeeded, failed or cancelled, see RUN_TRANSITIONS. */
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  progress: number;
+  queued_at: string;
+  /** When the run left the queue; unset while it waits. */
+  started_at?: string;
+  ended_at?: string;
+  /** The pipeline's settings when the run started; a re-run uses these again. */
+  parameters: {
+    algorithm?: string;
+    hyperparameters: Record<string, unknown>;
+    /** The pipeline's graph; runs from before pipelines had steps have none. */
+    steps?: PipelineStep[];
+  };
+  /** Where each step of the graph is, in the graph's order. */
+  steps?: PipelineRunStep[];
+  /** The dataset the run trained on, as it was at the time. */
+  dataset?: {
+    id: string;
+    name: string;
+    /** Changes whenever the dataset does, see datasetVersion. */
+    version: string;
+    size: number;
+    columns: number;
+  };
+  metrics?: {
+    accuracy?: number;
+    data_drift_score?: number;
+  };
+  logs: PipelineRunLogEntry[];
+  /** The run this one repeats. */
+  rerun_of?: string;
+  /** The step a partial re-run started from; the steps before it reused the outputs of `rerun_of`. */
+  from_step?: string;
+}
+
+/** A step of a run; `reused` steps kept the outputs of the run being repeated. */
+export interface PipelineRunStep {
+  step_id: string;
+  status: 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'reused';
+  progress: number;
+  started_at?: string;
+  ended_at?: string;
+}
+
+export interface PipelineRunLogEntry {
+  timestamp: string;
+  level: 'info' | 'warning' | 'error';
+  message: string;
+}
+
 export interface Dataset {
   id: string;
   name: string;
+  /** The workspace the entity belongs to, see store/workspaces. */
+  workspace_id?: string;
   size: number;
   columns: number;
   null_percentage: number;
   created_at: string;
+  /** External connection that produced this dataset, if any. */
+  source_connection_id?: string;
+}
+
+export interface ExternalConnection {
+  id: string;
+  name: string;
+  /** The workspace the entity belongs to, see store/workspaces. */
+  workspace_id?: string;
+  type: 'rest_api' | 'database' | 'webhook';
+  url: string;
+  status: 'connected' | 'disconnected' | 'error';
+  lastSync: string;
+  recordCount: number;
+  syncFrequency: string;
+  created_at: string;
 }
 
 export interface ModelMetrics {
@@ -54,18 +223,30 @@ export interface ModelMetrics {
   training_time: number;
 }
 
+export interface EntityRef {
+  type: 'pipeline' | 'dataset' | 'experiment' | 'connection';
+  id: string;
+}
+
 export interface Alert {
   id: string;
-  type: 'performance' | 'drift' | 'error';
+  type: 'performance' | 'drift' | 'error' | 'system';
   severity: 'low' | 'medium' | 'high';
   message: string;
   timestamp: string;
   acknowledged: boolean;
+  /** Entity the alert is about; the alert is cleared when that entity is deleted. */
+  entity_ref?: EntityRef;
+  /** Missing on system alerts, which show in every workspace. */
+  workspace_id?: string;
 }
 
 export interface Experiment {
   id: string;
   name: string;
+  /** The workspace the entity belongs to, see store/workspaces. */
+  workspace_id?: string;
+  description?: string;
   status: 'running' | 'completed' | 'failed';
   algorithm: string;
   metrics: ModelMetrics;
@@ -73,4 +254,45 @@ export interface Experiment {
   start_time: string;
   duration?: number;
   isNew?: boolean;
-}
\ No newline at end of file
+  pipeline_id?: string;
+  dataset_id?: string;
+}
+
+export interface TrashedEntities {
+  pipelines: Pipeline[];
+  datasets: Dataset[];
+  alerts: Alert[];
+  experiments: Experiment[];
+  externalConnections: ExternalConnection[];
+  pipelineRuns: PipelineRun[];
+}
+
+export interface TrashEntry {
+  id: string;
+  /** The entity the user deleted; everything else in `entities` went with it. */
+  root: EntityRef;
+  label: string;
+  deleted_at: string;
+  expires_at: string;
+  entities: TrashedEntities;
+  /** References cleared on entities that were kept, put back on restore. */
+  detached: { collection: keyof TrashedEntities; id: string; field: string; value: string }[];
+  /** The workspace the entities were deleted from. */
+  workspace_id?: string;
+}
+
+export interface WorkspaceMember {
+  user_id: string;
+  /** The member's role in this workspace; it replaces their account role here. */
+  role: string;
+  added_at: string;
+}
+
+/** A project with its own pipelines, datasets, models, alerts and connections. */
+export interface Workspace {
+  id: string;
+  name: string;
+  description?: string;
+  created_at: string;
+  members: WorkspaceMember[];
+}